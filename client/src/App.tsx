@@ -3,24 +3,35 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
-import { ProtectedRoute, AdminRoute } from "@/lib/protected-route";
+import { ProtectedRoute, AdminRoute, getRequiredSetupPath } from "@/lib/protected-route";
 import { queryClient } from "@/lib/queryClient";
 import { Loader2 } from "lucide-react";
 
 // Páginas
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import ChangePasswordPage from "@/pages/change-password-page";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
 import ProductsPage from "@/pages/ProductsPage";
 import MyPointsPage from "@/pages/MyPointsPage";
+import KudosPage from "@/pages/KudosPage";
 import MyOrdersPage from "@/pages/MyOrdersPage";
 import OrderDetailPage from "@/pages/OrderDetailPage";
 import CheckoutPage from "@/pages/CheckoutPage";
 import Account from "@/pages/Account";
 import ProfilePage from "@/pages/ProfilePage";
+import WishlistPage from "@/pages/WishlistPage";
 import AdminDashboard from "@/pages/admin/AdminDashboard";
 import AdminProductsPage from "@/pages/admin/ProductsPage";
 import EmployeesPage from "@/pages/admin/EmployeesPage";
+import EmployeeImportPage from "@/pages/admin/EmployeeImportPage";
 import OrdersPage from "@/pages/admin/OrdersPage";
+import PointRulesPage from "@/pages/admin/PointRulesPage";
+import BulkPointsPage from "@/pages/admin/BulkPointsPage";
+import AuditLogPage from "@/pages/admin/AuditLogPage";
+import PointsReconciliationPage from "@/pages/admin/PointsReconciliationPage";
+import UnitsPage from "@/pages/admin/UnitsPage";
 
 function App() {
   return (
@@ -31,11 +42,18 @@ function App() {
             <Switch>
               {/* Rota de autenticação (pública) */}
               <Route path="/auth" component={AuthPage} />
+              <Route path="/auth/reset-password" component={ResetPasswordPage} />
+              
+              {/* Troca obrigatória de senha (senha provisória) */}
+              <Route path="/change-password" component={ChangePasswordPage} />
+              
+              {/* Cadastro obrigatório do 2FA (administradores) */}
+              <Route path="/two-factor-setup" component={TwoFactorSetupPage} />
               
               {/* Rotas protegidas (apenas usuários autenticados) */}
               <Route path="/">
                 {() => {
-                  const { user, isLoading } = useAuth();
+                  const { user, isLoading, hasAdminAccess } = useAuth();
                   
                   if (isLoading) {
                     return (
@@ -49,8 +67,13 @@ function App() {
                     return <Redirect to="/auth" />;
                   }
                   
-                  // Se for admin, redireciona para o dashboard admin, senão para a página de produtos
-                  if (user.role === "admin") {
+                  const setupPath = getRequiredSetupPath(user);
+                  if (setupPath) {
+                    return <Redirect to={setupPath} />;
+                  }
+                  
+                  // Quem tem acesso à administração vai para o dashboard admin, senão para a página de produtos
+                  if (hasAdminAccess) {
                     return <Redirect to="/admin" />;
                   } else {
                     return <ProductsPage />;
@@ -58,17 +81,25 @@ function App() {
                 }}
               </Route>
               <ProtectedRoute path="/products" component={ProductsPage} />
-              <ProtectedRoute path="/checkout/:id" component={CheckoutPage} />
+              <ProtectedRoute path="/checkout" component={CheckoutPage} />
               <ProtectedRoute path="/my-points" component={MyPointsPage} />
+              <ProtectedRoute path="/kudos" component={KudosPage} />
               <ProtectedRoute path="/my-orders" component={MyOrdersPage} />
               <ProtectedRoute path="/my-orders/:id" component={OrderDetailPage} />
+              <ProtectedRoute path="/my-wishlist" component={WishlistPage} />
               <ProtectedRoute path="/account" component={ProfilePage} />
               
-              {/* Rotas administrativas (apenas administradores) */}
+              {/* Rotas administrativas (permissões por seção em lib/admin-sections.ts) */}
               <AdminRoute path="/admin" component={AdminDashboard} />
               <AdminRoute path="/admin/products" component={AdminProductsPage} />
               <AdminRoute path="/admin/employees" component={EmployeesPage} />
+              <AdminRoute path="/admin/employees/import" component={EmployeeImportPage} />
               <AdminRoute path="/admin/orders" component={OrdersPage} />
+              <AdminRoute path="/admin/units" component={UnitsPage} />
+              <AdminRoute path="/admin/point-rules" component={PointRulesPage} />
+              <AdminRoute path="/admin/points/bulk" component={BulkPointsPage} />
+              <AdminRoute path="/admin/points/reconciliation" component={PointsReconciliationPage} />
+              <AdminRoute path="/admin/audit" component={AuditLogPage} />
               
               {/* Página não encontrada */}
               <Route component={NotFound} />
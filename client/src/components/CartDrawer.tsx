@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useCart } from "@/hooks/use-cart";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, Minus, Package, Plus, ShoppingCart, Trash2 } from "lucide-react";
+import { formatVariantLabel } from "@shared/product-variants";
+
+export default function CartDrawer() {
+  const [, navigate] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const {
+    items,
+    totalPoints,
+    totalQuantity,
+    hasChanges,
+    updateItemMutation,
+    removeItemMutation,
+  } = useCart();
+
+  // Função para ir para a finalização do pedido
+  const handleCheckout = () => {
+    setIsOpen(false);
+    navigate("/checkout");
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <ShoppingCart className="h-5 w-5" />
+          {totalQuantity > 0 && (
+            <Badge variant="secondary" className="absolute -top-1 -right-1 h-5 min-w-5 px-1 justify-center text-[10px]">
+              {totalQuantity}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Meu Carrinho</SheetTitle>
+          <SheetDescription>
+            {totalQuantity === 0
+              ? "Seu carrinho está vazio"
+              : `${totalQuantity} ${totalQuantity === 1 ? "item" : "itens"} no carrinho`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {hasChanges && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>Alguns itens tiveram o custo ou o estoque alterado desde que foram adicionados.</span>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-4 py-2">
+            {items.map((item) => (
+              <div key={item.id} className="flex gap-3">
+                <div className="h-14 w-14 shrink-0 rounded-md bg-muted overflow-hidden">
+                  {item.product.imageUrl ? (
+                    <img src={item.product.imageUrl} alt={item.product.name} className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center">
+                      <Package className="h-6 w-6 text-secondary opacity-50" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-sm truncate">{item.product.name}</div>
+                  {item.variant ? (
+                    <div className="text-xs text-muted-foreground">{formatVariantLabel(item.variant.attributes)}</div>
+                  ) : item.variantRequired && (
+                    <div className="text-xs text-amber-700">Escolha a variação ao finalizar</div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {item.unitPointsCost.toLocaleString("pt-BR")} xCoins (un.)
+                  </div>
+                  {item.pointsCostChanged && (
+                    <div className="text-xs text-amber-700">
+                      Custo alterado: era {item.pointsCostAtAdd.toLocaleString("pt-BR")} xCoins
+                    </div>
+                  )}
+                  {item.insufficientStock ? (
+                    <div className="text-xs text-destructive">
+                      Apenas {item.availableStock} em estoque
+                    </div>
+                  ) : item.stockChanged && (
+                    <div className="text-xs text-amber-700">
+                      Estoque alterado: {item.availableStock} disponíveis
+                    </div>
+                  )}
+                  <div className="flex items-center gap-1 mt-1">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-6 w-6 rounded-full"
+                      onClick={() => updateItemMutation.mutate({ itemId: item.id, quantity: item.quantity - 1 })}
+                      disabled={item.quantity <= 1 || updateItemMutation.isPending}
+                    >
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-8 text-center text-sm">{item.quantity}</span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-6 w-6 rounded-full"
+                      onClick={() => updateItemMutation.mutate({ itemId: item.id, quantity: item.quantity + 1 })}
+                      disabled={(!item.variantRequired && item.quantity >= item.availableStock) || updateItemMutation.isPending}
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 ml-auto text-destructive hover:text-destructive"
+                      onClick={() => removeItemMutation.mutate(item.id)}
+                      disabled={removeItemMutation.isPending}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <Separator />
+
+        <SheetFooter className="flex-col sm:flex-col gap-3 sm:space-x-0">
+          <div className="flex justify-between text-sm font-medium">
+            <span>Total</span>
+            <span className="text-secondary">{totalPoints.toLocaleString("pt-BR")} xCoins</span>
+          </div>
+          <Button onClick={handleCheckout} disabled={items.length === 0}>
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            Finalizar Pedido
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Category, ProductSort, Tag } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FilterX } from "lucide-react";
+
+// Filtros do catálogo; "all" indica ausência de filtro nos selects
+export type CatalogFilterValues = {
+  search: string;
+  categoryId: string;
+  tag: string;
+  minPoints: string;
+  maxPoints: string;
+  affordable: boolean;
+  inStock: boolean;
+  sort: ProductSort;
+};
+
+export const defaultCatalogFilters: CatalogFilterValues = {
+  search: "",
+  categoryId: "all",
+  tag: "all",
+  minPoints: "",
+  maxPoints: "",
+  affordable: false,
+  inStock: false,
+  sort: "name",
+};
+
+// Converte os filtros nos parâmetros aceitos por GET /api/products
+export function buildCatalogQueryString(filters: CatalogFilterValues): string {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.categoryId !== "all") params.set("categoryId", filters.categoryId);
+  if (filters.tag !== "all") params.set("tag", filters.tag);
+  if (filters.minPoints) params.set("minPoints", filters.minPoints);
+  if (filters.maxPoints) params.set("maxPoints", filters.maxPoints);
+  if (filters.affordable) params.set("affordable", "true");
+  if (filters.inStock) params.set("inStock", "true");
+  params.set("sort", filters.sort);
+  return params.toString();
+}
+
+export function hasActiveCatalogFilters(filters: CatalogFilterValues): boolean {
+  return buildCatalogQueryString({ ...filters, sort: defaultCatalogFilters.sort }) !==
+    buildCatalogQueryString(defaultCatalogFilters);
+}
+
+interface CatalogFiltersProps {
+  filters: CatalogFilterValues;
+  onChange: (filters: CatalogFilterValues) => void;
+}
+
+export default function CatalogFilters({ filters, onChange }: CatalogFiltersProps) {
+  // A faixa de pontos só é aplicada ao sair do campo (ou Enter) para não
+  // disparar uma consulta a cada tecla
+  const [minPoints, setMinPoints] = useState(filters.minPoints);
+  const [maxPoints, setMaxPoints] = useState(filters.maxPoints);
+
+  useEffect(() => {
+    setMinPoints(filters.minPoints);
+    setMaxPoints(filters.maxPoints);
+  }, [filters.minPoints, filters.maxPoints]);
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: tags } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const update = (changes: Partial<CatalogFilterValues>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const applyPointsRange = () => {
+    if (minPoints !== filters.minPoints || maxPoints !== filters.maxPoints) {
+      update({ minPoints, maxPoints });
+    }
+  };
+
+  const handlePointsKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      applyPointsRange();
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label>Categoria</Label>
+          <Select value={filters.categoryId} onValueChange={(categoryId) => update({ categoryId })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Todas" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {categories?.map((category) => (
+                <SelectItem key={category.id} value={category.id.toString()}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tag</Label>
+          <Select value={filters.tag} onValueChange={(tag) => update({ tag })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Todas" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {tags?.map((tag) => (
+                <SelectItem key={tag.id} value={tag.name}>
+                  #{tag.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Faixa de xCoins</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              placeholder="Mín."
+              value={minPoints}
+              onChange={(e) => setMinPoints(e.target.value)}
+              onBlur={applyPointsRange}
+              onKeyDown={handlePointsKeyDown}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Máx."
+              value={maxPoints}
+              onChange={(e) => setMaxPoints(e.target.value)}
+              onBlur={applyPointsRange}
+              onKeyDown={handlePointsKeyDown}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Ordenar por</Label>
+          <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as ProductSort })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="name">Nome</SelectItem>
+              <SelectItem value="points_asc">Menor preço</SelectItem>
+              <SelectItem value="points_desc">Maior preço</SelectItem>
+              <SelectItem value="newest">Mais recentes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="catalog-affordable"
+            checked={filters.affordable}
+            onCheckedChange={(affordable) => update({ affordable })}
+          />
+          <Label htmlFor="catalog-affordable">Posso pagar</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="catalog-in-stock"
+            checked={filters.inStock}
+            onCheckedChange={(inStock) => update({ inStock })}
+          />
+          <Label htmlFor="catalog-in-stock">Em estoque</Label>
+        </div>
+        {hasActiveCatalogFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => onChange({ ...defaultCatalogFilters, sort: filters.sort })}
+          >
+            <FilterX className="h-4 w-4 mr-2" />
+            Limpar filtros
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Category } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface CategoryManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CategoryManagerDialog({ open, onOpenChange }: CategoryManagerDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const { data: categories, isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: open,
+  });
+
+  // Produtos exibem a categoria, então também precisam ser recarregados
+  const invalidateCategories = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/admin/categories", { name });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      setNewName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao criar categoria",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/categories/${id}`, { name });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao renomear categoria",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/categories/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      toast({
+        title: "Categoria excluída",
+        description: "Os produtos da categoria ficaram sem categoria.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao excluir categoria",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      createMutation.mutate(newName.trim());
+    }
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setEditingName(category.name);
+  };
+
+  const handleRename = () => {
+    if (editingId !== null && editingName.trim()) {
+      updateMutation.mutate({ id: editingId, name: editingName.trim() });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Categorias</DialogTitle>
+          <DialogDescription>
+            Organize o catálogo em categorias. Excluir uma categoria não remove seus produtos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="Nova categoria"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={60}
+          />
+          <Button type="submit" disabled={createMutation.isPending || newName.trim().length < 2}>
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4" />
+            )}
+            <span className="ml-2">Adicionar</span>
+          </Button>
+        </form>
+
+        <div className="max-h-[50vh] overflow-y-auto divide-y rounded-md border">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !categories || categories.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Nenhuma categoria cadastrada.
+            </p>
+          ) : (
+            categories.map((category) => (
+              <div key={category.id} className="flex items-center gap-2 p-2">
+                {editingId === category.id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      maxLength={60}
+                      autoFocus
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={handleRename}
+                      disabled={updateMutation.isPending || editingName.trim().length < 2}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm">{category.name}</span>
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(category)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(category.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
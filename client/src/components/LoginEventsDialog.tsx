@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  LoginFailureReasonEnum, LoginMethodEnum,
+  type LoginEvent, type LoginFailureReason, type LoginMethod, type User
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const FAILURE_REASON_LABELS: Record<LoginFailureReason, string> = {
+  [LoginFailureReasonEnum.INVALID_CREDENTIALS]: "Senha incorreta",
+  [LoginFailureReasonEnum.INACTIVE]: "Conta desativada",
+  [LoginFailureReasonEnum.INVALID_TWO_FACTOR_CODE]: "Código 2FA incorreto",
+  [LoginFailureReasonEnum.THROTTLED]: "Tentativa antes do intervalo",
+  [LoginFailureReasonEnum.LOCKED]: "Acesso bloqueado",
+  [LoginFailureReasonEnum.PASSWORD_LOGIN_DISABLED]: "Senha não permitida (usar SSO)",
+  [LoginFailureReasonEnum.SSO_REJECTED]: "Conta do SSO recusada",
+};
+
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  [LoginMethodEnum.PASSWORD]: "Senha",
+  [LoginMethodEnum.SSO]: "SSO",
+};
+
+interface LoginEventsDialogProps {
+  employee: User | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Histórico de tentativas de login de um funcionário (auditoria)
+export default function LoginEventsDialog({ employee, open, onOpenChange }: LoginEventsDialogProps) {
+  const { data: events, isLoading, error } = useQuery<LoginEvent[]>({
+    queryKey: [`/api/admin/users/${employee?.id}/login-events`],
+    enabled: open && !!employee,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2 text-primary" />
+            Histórico de login
+          </DialogTitle>
+          <DialogDescription>
+            Últimas tentativas de acesso de{" "}
+            <span className="font-medium text-primary">{employee?.displayName || employee?.username}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500 py-4">
+            Erro ao carregar histórico: {error instanceof Error ? error.message : "Erro desconhecido"}
+          </p>
+        ) : events && events.length > 0 ? (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Método</TableHead>
+                  <TableHead>Resultado</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Navegador</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {event.createdAt ? format(new Date(event.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR }) : "N/A"}
+                    </TableCell>
+                    <TableCell>{METHOD_LABELS[event.method]}</TableCell>
+                    <TableCell>
+                      {event.success ? (
+                        <Badge variant="outline" className="border-green-600 text-green-600">Sucesso</Badge>
+                      ) : (
+                        <Badge variant="outline" className="border-destructive text-destructive">
+                          {event.failureReason ? FAILURE_REASON_LABELS[event.failureReason] : "Falha"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.ipAddress || "—"}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate" title={event.userAgent ?? undefined}>
+                      {event.userAgent || "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">Nenhuma tentativa de login registrada.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
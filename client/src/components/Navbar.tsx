@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useUnits } from "@/hooks/use-units";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -19,6 +20,10 @@ import {
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import CartDrawer from "@/components/CartDrawer";
+import NotificationBell from "@/components/NotificationBell";
+import { getAdminMenuSections } from "@/lib/admin-sections";
+import { formatUserRole } from "@shared/permissions";
 import { 
   Package, 
   ShoppingCart, 
@@ -26,16 +31,18 @@ import {
   User, 
   LogOut, 
   ChevronDown,
-  LayoutDashboard,
-  Users,
   Clock,
-  Award
+  Award,
+  HandHeart
 } from "lucide-react";
 
 export default function Navbar() {
   const [location, navigate] = useLocation();
-  const { user, isAdmin, logoutMutation } = useAuth();
+  const { user, hasAdminAccess, logoutMutation } = useAuth();
+  const { getUnitName } = useUnits();
+  const unitName = getUnitName(user?.unitId);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const adminSections = getAdminMenuSections(user);
 
   // Função para gerar as iniciais do nome
   const getInitials = () => {
@@ -58,26 +65,26 @@ export default function Navbar() {
       <div className="container mx-auto flex justify-between items-center">
         {/* Logo e nome da aplicação */}
         <div className="flex items-center space-x-2">
-          <Link href={isAdmin ? "/admin" : "/"}>
+          <Link href={hasAdminAccess ? "/admin" : "/"}>
             <div className="flex items-center space-x-2 cursor-pointer">
               <Package className="h-6 w-6 text-secondary" /> {/* Rosa #E6007D */}
               <span className="font-bold text-xl bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Proxxima Store</span> {/* Gradiente do azul #2C2C83 para rosa #E6007D */}
             </div>
           </Link>
-          {isAdmin && (
+          {user && hasAdminAccess && (
             <Badge variant="secondary" className="ml-2">
-              Administrador
+              {formatUserRole(user.role)}
             </Badge>
           )}
         </div>
 
         {/* Menu para desktop */}
         <div className="hidden md:flex items-center space-x-6">
-          <Link href={isAdmin ? "/admin" : "/"}>
+          <Link href={hasAdminAccess ? "/admin" : "/"}>
             <div className={`text-sm font-medium transition-colors hover:text-primary cursor-pointer ${
-              location === "/" || (isAdmin && location === "/admin") ? "text-primary" : "text-muted-foreground"
+              location === "/" || (hasAdminAccess && location === "/admin") ? "text-primary" : "text-muted-foreground"
             }`}>
-              {isAdmin ? "Dashboard" : "Produtos"}
+              {hasAdminAccess ? "Dashboard" : "Produtos"}
             </div>
           </Link>
           
@@ -89,6 +96,14 @@ export default function Navbar() {
             </div>
           </Link>
           
+          <Link href="/kudos">
+            <div className={`text-sm font-medium transition-colors hover:text-primary cursor-pointer ${
+              location === "/kudos" ? "text-primary" : "text-muted-foreground"
+            }`}>
+              Reconhecimentos
+            </div>
+          </Link>
+          
           <Link href="/my-orders">
             <div className={`text-sm font-medium transition-colors hover:text-primary cursor-pointer ${
               location === "/my-orders" ? "text-primary" : "text-muted-foreground"
@@ -97,7 +112,7 @@ export default function Navbar() {
             </div>
           </Link>
           
-          {isAdmin && (
+          {adminSections.length > 0 && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="flex items-center gap-1 px-2">
@@ -108,26 +123,19 @@ export default function Navbar() {
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Área Administrativa</DropdownMenuLabel>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => navigate("/admin")}>
-                  <LayoutDashboard className="mr-2 h-4 w-4" />
-                  <span>Dashboard</span>
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate("/admin/products")}>
-                  <Package className="mr-2 h-4 w-4" />
-                  <span>Produtos</span>
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate("/admin/employees")}>
-                  <Users className="mr-2 h-4 w-4" />
-                  <span>Funcionários</span>
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate("/admin/orders")}>
-                  <ShoppingCart className="mr-2 h-4 w-4" />
-                  <span>Pedidos</span>
-                </DropdownMenuItem>
+                {adminSections.map((section) => (
+                  <DropdownMenuItem key={section.path} onClick={() => navigate(section.path)}>
+                    <section.icon className="mr-2 h-4 w-4" />
+                    <span>{section.label}</span>
+                  </DropdownMenuItem>
+                ))}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
           
+          <NotificationBell align="end" />
+          <CartDrawer />
+          
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-8 w-8 rounded-full">
@@ -165,7 +173,9 @@ export default function Navbar() {
         </div>
 
         {/* Menu para mobile */}
-        <div className="md:hidden">
+        <div className="md:hidden flex items-center">
+          <NotificationBell align="end" />
+          <CartDrawer />
           <Sheet open={isMenuOpen} onOpenChange={setIsMenuOpen}>
             <SheetTrigger asChild>
               <Button variant="ghost" size="icon">
@@ -189,19 +199,19 @@ export default function Navbar() {
                     <p className="text-sm font-medium">{user?.displayName || user?.username}</p>
                     <p className="text-xs text-muted-foreground">{user?.email}</p>
                     <p className="text-xs font-medium mt-1">xCoins: {user?.points || 0}</p>
-                    {user?.unit && (
+                    {unitName && (
                       <p className="text-xs bg-muted px-1 py-0.5 mt-1 rounded-sm inline-block">
-                        {user.unit}
+                        {unitName}
                       </p>
                     )}
                   </div>
                 </div>
                 
                 <nav className="flex flex-col space-y-3">
-                  <Link href={isAdmin ? "/admin" : "/"}>
+                  <Link href={hasAdminAccess ? "/admin" : "/"}>
                     <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
                       <Package className="mr-2 h-5 w-5 text-secondary" />
-                      {isAdmin ? "Dashboard" : "Produtos"}
+                      {hasAdminAccess ? "Dashboard" : "Produtos"}
                     </div>
                   </Link>
                   
@@ -212,6 +222,13 @@ export default function Navbar() {
                     </div>
                   </Link>
                   
+                  <Link href="/kudos">
+                    <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
+                      <HandHeart className="mr-2 h-5 w-5 text-secondary" />
+                      Reconhecimentos
+                    </div>
+                  </Link>
+                  
                   <Link href="/my-orders">
                     <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
                       <ShoppingCart className="mr-2 h-5 w-5 text-secondary" />
@@ -226,39 +243,20 @@ export default function Navbar() {
                     </div>
                   </Link>
                   
-                  {isAdmin && (
+                  {adminSections.length > 0 && (
                     <>
                       <div className="pt-2 border-t">
                         <p className="text-xs font-medium text-muted-foreground mb-2">Administração</p>
                       </div>
                       
-                      <Link href="/admin">
-                        <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
-                          <LayoutDashboard className="mr-2 h-5 w-5 text-primary" />
-                          Dashboard
-                        </div>
-                      </Link>
-                      
-                      <Link href="/admin/products">
-                        <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
-                          <Package className="mr-2 h-5 w-5 text-primary" />
-                          Gerenciar Produtos
-                        </div>
-                      </Link>
-                      
-                      <Link href="/admin/employees">
-                        <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
-                          <Users className="mr-2 h-5 w-5 text-primary" />
-                          Gerenciar Funcionários
-                        </div>
-                      </Link>
-                      
-                      <Link href="/admin/orders">
-                        <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
-                          <ShoppingCart className="mr-2 h-5 w-5 text-primary" />
-                          Gerenciar Pedidos
-                        </div>
-                      </Link>
+                      {adminSections.map((section) => (
+                        <Link key={section.path} href={section.path}>
+                          <div className="flex items-center py-2 px-1 rounded-md hover:bg-primary/10 cursor-pointer" onClick={() => setIsMenuOpen(false)}>
+                            <section.icon className="mr-2 h-5 w-5 text-primary" />
+                            {section.label}
+                          </div>
+                        </Link>
+                      ))}
                     </>
                   )}
                 </nav>
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Notification, NotificationTypeEnum } from "@shared/schema";
+import { useNotifications } from "@/hooks/use-notifications";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Award, Bell, CheckCheck, HandHeart, Heart, Loader2, ShoppingCart } from "lucide-react";
+
+interface NotificationBellProps {
+  className?: string;
+  align?: "start" | "center" | "end";
+}
+
+const notificationIcons = {
+  [NotificationTypeEnum.POINTS]: <Award className="h-4 w-4 text-secondary" />,
+  [NotificationTypeEnum.ORDER_STATUS]: <ShoppingCart className="h-4 w-4 text-primary" />,
+  [NotificationTypeEnum.BACK_IN_STOCK]: <Heart className="h-4 w-4 text-secondary" />,
+  [NotificationTypeEnum.KUDOS]: <HandHeart className="h-4 w-4 text-primary" />,
+};
+
+export default function NotificationBell({ className, align = "start" }: NotificationBellProps) {
+  const [, navigate] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, markReadMutation } = useNotifications();
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`relative ${className ?? ""}`}
+          aria-label={unreadCount > 0 ? `Notificações (${unreadCount} não lidas)` : "Notificações"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-secondary px-1 text-[10px] font-bold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-semibold text-primary">Notificações</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            <Bell className="mx-auto mb-2 h-8 w-8 opacity-30" />
+            Nenhuma notificação por enquanto
+          </div>
+        ) : (
+          <div className="max-h-96 divide-y overflow-y-auto">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                className={`flex w-full gap-3 px-4 py-3 text-left hover:bg-muted ${notification.readAt ? "" : "bg-secondary/5"}`}
+                onClick={() => handleSelect(notification)}
+              >
+                <div className="mt-0.5">{notificationIcons[notification.type]}</div>
+                <div className="flex-1 space-y-1">
+                  <p className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</p>
+                  <p className="text-xs text-muted-foreground">{notification.message}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  )}
+                </div>
+                {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-secondary" />}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,71 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { formatOrderStatus } from "@shared/order-status";
+import { CheckCircle, Circle, XCircle } from "lucide-react";
+
+// Entrada do histórico como retornada pela API (datas em string)
+export type OrderStatusHistoryItem = {
+  id: number;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  createdAt: string;
+  changedByUser: {
+    id: number;
+    username: string;
+    displayName: string | null;
+  } | null;
+};
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistoryItem[];
+}
+
+export default function OrderStatusTimeline({ history }: OrderStatusTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">Nenhuma alteração de status registrada.</p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-2 space-y-5">
+      {history.map((entry, index) => {
+        const isLast = index === history.length - 1;
+        const isNegative = entry.toStatus === "cancelled" || entry.toStatus === "rejected";
+
+        return (
+          <li key={entry.id} className="ml-5">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background">
+              {isNegative ? (
+                <XCircle className="h-5 w-5 text-destructive" />
+              ) : isLast ? (
+                <CheckCircle className="h-5 w-5 text-secondary" />
+              ) : (
+                <Circle className="h-4 w-4 text-muted-foreground" />
+              )}
+            </span>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+              <span className={`text-sm font-medium ${isLast ? "text-primary" : ""}`}>
+                {entry.fromStatus
+                  ? `${formatOrderStatus(entry.fromStatus)} → ${formatOrderStatus(entry.toStatus)}`
+                  : `Pedido criado (${formatOrderStatus(entry.toStatus)})`}
+              </span>
+              <time className="text-xs text-muted-foreground">
+                {format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+              </time>
+            </div>
+            {entry.changedByUser && (
+              <p className="text-xs text-muted-foreground">
+                por {entry.changedByUser.displayName || entry.changedByUser.username}
+              </p>
+            )}
+            {entry.note && (
+              <p className="text-sm mt-1 text-muted-foreground italic">{entry.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
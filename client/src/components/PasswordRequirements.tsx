@@ -0,0 +1,30 @@
+import { checkPasswordPolicy } from "@shared/password-policy";
+import { Check, X } from "lucide-react";
+
+interface PasswordRequirementsProps {
+  password: string;
+  username?: string | null;
+}
+
+// Lista dos requisitos da política de senha, atualizada enquanto o usuário digita
+export default function PasswordRequirements({ password, username }: PasswordRequirementsProps) {
+  const rules = checkPasswordPolicy(password, username);
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {rules.map((rule) => (
+        <li
+          key={rule.id}
+          className={`flex items-center ${rule.met ? "text-green-600" : "text-muted-foreground"}`}
+        >
+          {rule.met ? (
+            <Check className="h-3 w-3 mr-1.5 shrink-0" />
+          ) : (
+            <X className="h-3 w-3 mr-1.5 shrink-0" />
+          )}
+          {rule.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import type { CatalogProduct, ProductImage } from "@shared/schema";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { Package } from "lucide-react";
+
+// Os cards ocupam de 1 a 4 colunas; a versão de detalhe só é baixada em telas densas
+const CARD_IMAGE_SIZES = "(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw";
+
+function GalleryImage({ image, alt }: { image: ProductImage; alt: string }) {
+  return (
+    <img
+      src={image.thumbnailUrl}
+      srcSet={`${image.thumbnailUrl} 480w, ${image.detailUrl} 1600w`}
+      sizes={CARD_IMAGE_SIZES}
+      alt={alt}
+      loading="lazy"
+      className="object-cover w-full h-full"
+    />
+  );
+}
+
+interface ProductImageCarouselProps {
+  product: Pick<CatalogProduct, "name" | "imageUrl" | "images">;
+}
+
+// Imagens do produto no card do catálogo; com mais de uma, vira um carrossel
+export default function ProductImageCarousel({ product }: ProductImageCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const { images } = product;
+
+  if (images.length === 0) {
+    // Produtos cadastrados antes da galeria têm apenas imageUrl
+    return product.imageUrl ? (
+      <img src={product.imageUrl} alt={product.name} className="object-cover w-full h-full" />
+    ) : (
+      <div className="flex items-center justify-center h-full">
+        <Package className="h-16 w-16 text-secondary opacity-50" />
+      </div>
+    );
+  }
+
+  if (images.length === 1) {
+    return <GalleryImage image={images[0]} alt={product.name} />;
+  }
+
+  return (
+    <Carousel setApi={setApi} opts={{ loop: true }} className="h-full">
+      <CarouselContent className="ml-0 h-full">
+        {images.map((image, index) => (
+          <CarouselItem key={image.id} className="pl-0 aspect-square">
+            <GalleryImage image={image} alt={`${product.name} (${index + 1} de ${images.length})`} />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-2 bg-background/80" />
+      <CarouselNext className="right-2 bg-background/80" />
+      <div className="absolute bottom-2 left-1/2 flex -translate-x-1/2 gap-1">
+        {images.map((image, index) => (
+          <button
+            key={image.id}
+            type="button"
+            className={`h-1.5 w-1.5 rounded-full ${index === current ? "bg-primary" : "bg-background/80"}`}
+            onClick={() => api?.scrollTo(index)}
+            aria-label={`Ver imagem ${index + 1}`}
+          />
+        ))}
+      </div>
+    </Carousel>
+  );
+}
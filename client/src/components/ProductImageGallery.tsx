@@ -0,0 +1,311 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProductImage } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { GripVertical, Image as ImageIcon, Loader2, Star, X } from "lucide-react";
+
+export const MAX_PRODUCT_IMAGES_PER_UPLOAD = 10;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+export type GalleryItem = {
+  key: string;
+  src: string;
+  isPrimary: boolean;
+};
+
+// Move um item da lista para outra posição
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const result = [...list];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+interface ProductImageGridProps {
+  items: GalleryItem[];
+  onAddFiles: (files: File[]) => void;
+  onReorder: (from: number, to: number) => void;
+  onSetPrimary: (index: number) => void;
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+  isUploading?: boolean;
+}
+
+// Grade de imagens ordenável por arrastar e soltar, com escolha da imagem principal
+export function ProductImageGrid({
+  items,
+  onAddFiles,
+  onReorder,
+  onSetPrimary,
+  onRemove,
+  disabled = false,
+  isUploading = false,
+}: ProductImageGridProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    const invalid = files.filter((file) => !ACCEPTED_IMAGE_TYPES.includes(file.type) || file.size > MAX_IMAGE_SIZE);
+    if (invalid.length > 0) {
+      toast({
+        title: "Arquivo inválido",
+        description: `${invalid.map((file) => file.name).join(", ")}: envie imagens JPG, PNG, GIF ou WebP de até 10MB.`,
+        variant: "destructive",
+      });
+    }
+
+    const valid = files.filter((file) => !invalid.includes(file));
+    if (valid.length > MAX_PRODUCT_IMAGES_PER_UPLOAD) {
+      toast({
+        title: "Muitas imagens",
+        description: `Envie no máximo ${MAX_PRODUCT_IMAGES_PER_UPLOAD} imagens por vez.`,
+        variant: "destructive",
+      });
+    }
+    if (valid.length > 0) {
+      onAddFiles(valid.slice(0, MAX_PRODUCT_IMAGES_PER_UPLOAD));
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null && draggedIndex !== index) {
+      onReorder(draggedIndex, index);
+    }
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+          {items.map((item, index) => (
+            <div
+              key={item.key}
+              draggable={!disabled}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => {
+                // Somente reordenação interna; arquivos externos são tratados pela área de envio
+                if (draggedIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex(null)}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={() => {
+                setDraggedIndex(null);
+                setDropIndex(null);
+              }}
+              className={cn(
+                "group relative aspect-square overflow-hidden rounded-md border bg-muted",
+                !disabled && "cursor-move",
+                draggedIndex === index && "opacity-50",
+                dropIndex === index && draggedIndex !== index && "ring-2 ring-primary",
+                item.isPrimary && "border-primary",
+              )}
+            >
+              <img src={item.src} alt={`Imagem ${index + 1}`} className="h-full w-full object-cover" />
+              <GripVertical className="absolute left-1 top-1 h-4 w-4 text-white drop-shadow" />
+              {item.isPrimary ? (
+                <Badge className="absolute bottom-1 left-1 px-1.5 py-0 text-[10px]">Principal</Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute bottom-1 left-1 h-6 w-6 opacity-0 group-hover:opacity-100"
+                  onClick={() => onSetPrimary(index)}
+                  disabled={disabled}
+                  title="Definir como principal"
+                >
+                  <Star className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute right-1 top-1 h-6 w-6 opacity-0 group-hover:opacity-100"
+                onClick={() => onRemove(index)}
+                disabled={disabled}
+                title="Remover imagem"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        className="flex flex-col items-center justify-center rounded-md border-2 border-dashed p-4 cursor-pointer hover:bg-muted/50 transition-colors"
+        onClick={() => !disabled && fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          if (draggedIndex === null) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          if (draggedIndex !== null || disabled) return;
+          e.preventDefault();
+          handleFiles(e.dataTransfer.files);
+        }}
+      >
+        {isUploading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary mb-2" />
+        ) : (
+          <ImageIcon className="h-8 w-8 text-muted-foreground mb-2" />
+        )}
+        <p className="text-sm text-muted-foreground text-center">
+          {isUploading
+            ? "Processando imagens..."
+            : "Arraste e solte ou clique para adicionar imagens"}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          JPG, PNG, GIF ou WebP até 10MB. Arraste as miniaturas para reordenar.
+        </p>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        multiple
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+    </div>
+  );
+}
+
+interface ProductImageManagerProps {
+  productId: number;
+  // Imagem única de produtos cadastrados antes da galeria
+  legacyImageUrl?: string | null;
+}
+
+// Galeria de um produto existente: cada alteração é salva imediatamente
+export default function ProductImageManager({ productId, legacyImageUrl }: ProductImageManagerProps) {
+  const { toast } = useToast();
+  const imagesUrl = `/api/admin/products/${productId}/images`;
+
+  const { data: images = [], isLoading } = useQuery<ProductImage[]>({
+    queryKey: [imagesUrl],
+  });
+
+  // A imagem principal também é a miniatura do produto no catálogo
+  const invalidateImages = () => {
+    queryClient.invalidateQueries({ queryKey: [imagesUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const onImageError = (title: string) => (error: Error) => {
+    invalidateImages();
+    toast({
+      title,
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("images", file));
+
+      const res = await fetch(imagesUrl, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Erro ao enviar imagens");
+      }
+
+      return await res.json();
+    },
+    onSuccess: invalidateImages,
+    onError: onImageError("Erro ao enviar imagens"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (imageIds: number[]) => {
+      const res = await apiRequest("PUT", `${imagesUrl}/order`, { imageIds });
+      return await res.json();
+    },
+    onMutate: (imageIds) => {
+      // Reordenação otimista, para a miniatura não "voltar" enquanto salva
+      queryClient.setQueryData<ProductImage[]>([imagesUrl], (current) =>
+        imageIds
+          .map((id) => current?.find((image) => image.id === id))
+          .filter((image): image is ProductImage => !!image),
+      );
+    },
+    onSuccess: invalidateImages,
+    onError: onImageError("Erro ao reordenar imagens"),
+  });
+
+  const primaryMutation = useMutation({
+    mutationFn: async (imageId: number) => {
+      const res = await apiRequest("PATCH", `${imagesUrl}/${imageId}/primary`);
+      return await res.json();
+    },
+    onSuccess: invalidateImages,
+    onError: onImageError("Erro ao definir imagem principal"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (imageId: number) => {
+      await apiRequest("DELETE", `${imagesUrl}/${imageId}`);
+    },
+    onSuccess: invalidateImages,
+    onError: onImageError("Erro ao excluir imagem"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {images.length === 0 && legacyImageUrl && (
+        <div className="flex items-center gap-3 rounded-md border p-2">
+          <img src={legacyImageUrl} alt="Imagem atual" className="h-16 w-16 rounded object-cover" />
+          <p className="text-xs text-muted-foreground">
+            Imagem atual do produto. Ela será substituída pela galeria ao enviar novas imagens.
+          </p>
+        </div>
+      )}
+      <ProductImageGrid
+        items={images.map((image) => ({
+          key: image.id.toString(),
+          src: image.thumbnailUrl,
+          isPrimary: image.isPrimary,
+        }))}
+        onAddFiles={(files) => uploadMutation.mutate(files)}
+        onReorder={(from, to) => reorderMutation.mutate(moveItem(images, from, to).map((image) => image.id))}
+        onSetPrimary={(index) => primaryMutation.mutate(images[index].id)}
+        onRemove={(index) => deleteMutation.mutate(images[index].id)}
+        disabled={deleteMutation.isPending || primaryMutation.isPending}
+        isUploading={uploadMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Copy } from "lucide-react";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Códigos de recuperação recém-gerados. O servidor só guarda os hashes, então
+// esta é a única vez em que eles aparecem.
+export default function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Códigos copiados" });
+    } catch {
+      toast({
+        title: "Não foi possível copiar",
+        description: "Selecione e copie os códigos manualmente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <AlertDescription>
+          Guarde estes códigos em um lugar seguro. Cada um permite entrar uma única vez
+          caso você perca acesso ao aplicativo autenticador, e eles não serão exibidos novamente.
+        </AlertDescription>
+      </Alert>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border border-primary/20 bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code} className="text-center">{code}</li>
+        ))}
+      </ul>
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={copyCodes}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copiar códigos
+      </Button>
+    </div>
+  );
+}
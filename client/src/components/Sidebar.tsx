@@ -1,10 +1,15 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useUnits } from "@/hooks/use-units";
+import { useWishlist } from "@/hooks/use-wishlist";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import NotificationBell from "@/components/NotificationBell";
+import { getAdminMenuSections } from "@/lib/admin-sections";
+import { formatUserRole } from "@shared/permissions";
 import { 
   Package, 
   ShoppingCart, 
@@ -15,18 +20,22 @@ import {
   User, 
   LogOut, 
   LayoutDashboard,
-  Users,
   Award,
+  HandHeart,
   ChevronsLeft,
-  ChevronsRight
+  ChevronsRight,
+  Heart
 } from "lucide-react";
 
 export default function Sidebar() {
   const [location, navigate] = useLocation();
-  const { user, isAdmin, logoutMutation } = useAuth();
+  const { user, hasAdminAccess, logoutMutation } = useAuth();
+  const { getUnitName } = useUnits();
+  const unitName = getUnitName(user?.unitId);
   const isMobile = useIsMobile();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { backInStockCount } = useWishlist();
 
   // Função para gerar as iniciais do nome
   const getInitials = () => {
@@ -57,44 +66,67 @@ export default function Sidebar() {
     }
   `;
 
-  // Se for visão mobile, adicionar botão de menu
+  // Se for visão mobile, adicionar botão de menu e o sino de notificações
   const mobileMenuButton = isMobile && (
-    <Button 
-      variant="outline" 
-      size="icon" 
-      className="fixed top-4 left-4 z-40"
-      onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-    >
-      {isMobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-    </Button>
+    <>
+      <Button 
+        variant="outline" 
+        size="icon" 
+        className="fixed top-4 left-4 z-40"
+        onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+      >
+        {isMobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+      </Button>
+      <NotificationBell align="end" className="fixed top-4 right-4 z-40 border bg-background" />
+    </>
   );
 
   // Links do menu com seus ícones e destinos
   const mainMenuItems = [
     {
-      href: isAdmin ? "/admin" : "/",
-      icon: isAdmin ? <LayoutDashboard className="h-5 w-5" /> : <Package className="h-5 w-5" />,
-      label: isAdmin ? "Dashboard" : "Produtos",
-      active: !isAdmin && location === "/" || (isAdmin && location === "/admin")
+      href: hasAdminAccess ? "/admin" : "/",
+      icon: hasAdminAccess ? <LayoutDashboard className="h-5 w-5" /> : <Package className="h-5 w-5" />,
+      label: hasAdminAccess ? "Dashboard" : "Produtos",
+      active: !hasAdminAccess && location === "/" || (hasAdminAccess && location === "/admin")
     },
-    ...(isAdmin ? [{
+    ...(hasAdminAccess ? [{
       href: "/products",
       icon: <Package className="h-5 w-5" />,
       label: "Produtos",
       active: location === "/products"
     }] : []),
+    {
+      href: "/checkout",
+      icon: <ShoppingBag className="h-5 w-5" />,
+      label: "Meu Carrinho",
+      active: location === "/checkout"
+    },
     {
       href: "/my-points",
       icon: <Award className="h-5 w-5" />,
       label: "Meus Pontos",
       active: location === "/my-points"
     },
+    {
+      href: "/kudos",
+      icon: <HandHeart className="h-5 w-5" />,
+      label: "Reconhecimentos",
+      active: location === "/kudos"
+    },
     {
       href: "/my-orders",
       icon: <ShoppingCart className="h-5 w-5" />,
       label: "Meus Pedidos",
       active: location === "/my-orders"
     },
+    {
+      href: "/my-wishlist",
+      icon: <Heart className="h-5 w-5" />,
+      label: "Lista de Desejos",
+      active: location === "/my-wishlist",
+      // Produtos da lista que voltaram ao estoque desde a última visita
+      badge: backInStockCount
+    },
     {
       href: "/account",
       icon: <User className="h-5 w-5" />,
@@ -103,33 +135,13 @@ export default function Sidebar() {
     }
   ];
 
-  // Menu de administrador
-  const adminMenuItems = isAdmin ? [
-    {
-      href: "/admin",
-      icon: <LayoutDashboard className="h-5 w-5" />,
-      label: "Dashboard",
-      active: location === "/admin"
-    },
-    {
-      href: "/admin/products",
-      icon: <Package className="h-5 w-5" />,
-      label: "Gerenciar Produtos",
-      active: location === "/admin/products"
-    },
-    {
-      href: "/admin/employees",
-      icon: <Users className="h-5 w-5" />,
-      label: "Gerenciar Funcionários",
-      active: location === "/admin/employees"
-    },
-    {
-      href: "/admin/orders",
-      icon: <ShoppingCart className="h-5 w-5" />,
-      label: "Gerenciar Pedidos",
-      active: location === "/admin/orders"
-    }
-  ] : [];
+  // Menu de administração: só as seções permitidas ao papel do usuário
+  const adminMenuItems = getAdminMenuSections(user).map((section) => ({
+    href: section.path,
+    icon: <section.icon className="h-5 w-5" />,
+    label: section.label,
+    active: location === section.path
+  }));
 
   // Renderizar um item do menu
   const renderMenuItem = (item: any, index: number) => (
@@ -148,6 +160,11 @@ export default function Sidebar() {
           {item.icon}
         </div>
         {!isCollapsed && <span className="font-medium">{item.label}</span>}
+        {!isCollapsed && item.badge > 0 && (
+          <Badge variant="secondary" className="ml-auto bg-secondary text-white">
+            {item.badge}
+          </Badge>
+        )}
       </div>
     </Link>
   );
@@ -159,7 +176,7 @@ export default function Sidebar() {
         <div className="flex flex-col h-full">
           {/* Header com logo */}
           <div className={`p-4 ${isCollapsed ? 'items-center justify-center' : 'flex justify-center'} border-b border-white/20 relative`}>
-            <Link href={isAdmin ? "/admin" : "/"} className="flex items-center justify-center mx-auto">
+            <Link href={hasAdminAccess ? "/admin" : "/"} className="flex items-center justify-center mx-auto">
               <div className={`flex ${isCollapsed ? 'justify-center' : 'flex-row items-center'} cursor-pointer`}>
                 {isCollapsed ? (
                   <ShoppingBag className="h-6 w-6 text-secondary mx-auto" />
@@ -206,9 +223,9 @@ export default function Sidebar() {
                 <div>
                   <p className="font-medium text-sm text-white">{user?.displayName || user?.username}</p>
                   <p className="text-xs text-white/70">{user?.email}</p>
-                  {user?.unit && (
+                  {unitName && (
                     <p className="text-xs mt-1 bg-white/10 text-white inline-block px-2 py-0.5 rounded-sm">
-                      {user.unit}
+                      {unitName}
                     </p>
                   )}
                   <div className="flex items-center mt-1">
@@ -217,10 +234,10 @@ export default function Sidebar() {
                       {user?.points || 0} xCoins
                     </span>
                   </div>
-                  {isAdmin && <Badge variant="secondary" className="mt-2">Admin</Badge>}
+                  {user && hasAdminAccess && <Badge variant="secondary" className="mt-2">{formatUserRole(user.role)}</Badge>}
                 </div>
               )}
-              {isCollapsed && isAdmin && (
+              {isCollapsed && hasAdminAccess && (
                 <Badge variant="secondary" className="mt-1">Admin</Badge>
               )}
               {isCollapsed && (
@@ -229,6 +246,12 @@ export default function Sidebar() {
                   <span className="text-xs font-medium text-white">{user?.points || 0}</span>
                 </div>
               )}
+              {/* No mobile o sino fica fixo no topo da tela */}
+              {!isMobile && (
+                <NotificationBell 
+                  className={`${isCollapsed ? 'mt-2' : 'ml-auto self-start'} text-white hover:text-secondary hover:bg-secondary/10`} 
+                />
+              )}
             </div>
           </div>
 
@@ -239,7 +262,7 @@ export default function Sidebar() {
             </nav>
 
             {/* Menu do administrador */}
-            {isAdmin && adminMenuItems.length > 0 && (
+            {adminMenuItems.length > 0 && (
               <div className="mt-6">
                 <div className={`px-4 mb-2 ${isCollapsed ? 'text-center' : ''}`}>
                   <p className="text-xs font-semibold text-white/70 uppercase tracking-wider">
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  // Permite trocar o campo de 6 dígitos por um código de recuperação
+  allowRecoveryCode?: boolean;
+}
+
+// Campo do código do aplicativo autenticador (6 dígitos)
+export default function TwoFactorCodeInput({
+  value,
+  onChange,
+  onComplete,
+  disabled,
+  allowRecoveryCode = false,
+}: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    onChange("");
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      {useRecoveryCode ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          disabled={disabled}
+          className="font-mono text-center border-primary/20 focus-visible:ring-primary/30"
+        />
+      ) : (
+        <InputOTP
+          maxLength={6}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={value}
+          onChange={onChange}
+          onComplete={onComplete}
+          autoFocus
+          disabled={disabled}
+        >
+          <InputOTPGroup>
+            <InputOTPSlot index={0} />
+            <InputOTPSlot index={1} />
+            <InputOTPSlot index={2} />
+          </InputOTPGroup>
+          <InputOTPSeparator />
+          <InputOTPGroup>
+            <InputOTPSlot index={3} />
+            <InputOTPSlot index={4} />
+            <InputOTPSlot index={5} />
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      {allowRecoveryCode && (
+        <Button type="button" variant="link" size="sm" className="text-primary/70" onClick={toggleRecoveryCode}>
+          {useRecoveryCode ? "Usar o código do aplicativo" : "Usar um código de recuperação"}
+        </Button>
+      )}
+    </div>
+  );
+}
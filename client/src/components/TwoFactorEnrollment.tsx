@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { TwoFactorSetup } from "@shared/schema";
+import type { User } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import TwoFactorCodeInput from "@/components/TwoFactorCodeInput";
+import RecoveryCodesList from "@/components/RecoveryCodesList";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorEnrollmentProps {
+  // Chamado depois que o usuário confirma que guardou os códigos de recuperação
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+type EnableTwoFactorResponse = {
+  user: User;
+  recoveryCodes: string[];
+};
+
+// Cadastro do aplicativo autenticador: QR code (ou chave manual), confirmação
+// com um código gerado pelo app e exibição dos códigos de recuperação
+export default function TwoFactorEnrollment({ onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/protected/2fa/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/protected/2fa/enable", { code: value });
+      return await res.json() as EnableTwoFactorResponse;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Autenticação em dois fatores ativada",
+        description: "A partir de agora o login pedirá o código do aplicativo.",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Erro ao ativar",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cada abertura gera um segredo novo; o anterior, não confirmado, é descartado
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  // O usuário em cache só é atualizado aqui: antes disso, a página de cadastro
+  // obrigatório redirecionaria sem mostrar os códigos de recuperação
+  const finish = (data: EnableTwoFactorResponse) => {
+    queryClient.setQueryData(["/api/user"], data.user);
+    queryClient.invalidateQueries({ queryKey: ["/api/protected/2fa"] });
+    onComplete();
+  };
+
+  if (enableMutation.isSuccess) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={enableMutation.data.recoveryCodes} />
+        <Button
+          className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0"
+          onClick={() => finish(enableMutation.data)}
+        >
+          Já guardei os códigos
+        </Button>
+      </div>
+    );
+  }
+
+  if (setupMutation.isError) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-red-500">{getApiErrorMessage(setupMutation.error)}</p>
+        <Button variant="outline" onClick={() => setupMutation.mutate()}>
+          Tentar novamente
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setupMutation.data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const submit = (value: string) => {
+    if (value.length === 6) {
+      enableMutation.mutate(value);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+        <li>Abra um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, Authy...).</li>
+        <li>Escaneie o QR code abaixo ou digite a chave manualmente.</li>
+        <li>Informe o código de 6 dígitos gerado pelo aplicativo.</li>
+      </ol>
+      <div className="flex flex-col items-center space-y-2">
+        <img
+          src={setupMutation.data.qrCodeDataUrl}
+          alt="QR code para o aplicativo autenticador"
+          className="h-[220px] w-[220px] rounded-md border border-primary/20"
+        />
+        <p className="text-xs text-muted-foreground">Chave manual:</p>
+        <code className="break-all rounded bg-muted px-2 py-1 text-center font-mono text-sm">
+          {setupMutation.data.secret.match(/.{1,4}/g)?.join(" ")}
+        </code>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(code);
+        }}
+        className="space-y-4"
+      >
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={submit}
+          disabled={enableMutation.isPending}
+        />
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button
+            type="submit"
+            className="flex-1 bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0"
+            disabled={enableMutation.isPending || code.length !== 6}
+          >
+            {enableMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verificando...
+              </>
+            ) : (
+              "Ativar"
+            )}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
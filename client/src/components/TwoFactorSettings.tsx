@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { TwoFactorStatus } from "@shared/schema";
+import { useAuth, type User } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import TwoFactorCodeInput from "@/components/TwoFactorCodeInput";
+import TwoFactorEnrollment from "@/components/TwoFactorEnrollment";
+import RecoveryCodesList from "@/components/RecoveryCodesList";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+type TwoFactorDialog = "recoveryCodes" | "disable" | null;
+
+// Autenticação em dois fatores no perfil: ativação pelo QR code, novos códigos
+// de recuperação e desativação (só para funcionários; é obrigatória para administradores)
+export default function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [dialog, setDialog] = useState<TwoFactorDialog>(null);
+  const [code, setCode] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/protected/2fa"],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/protected/2fa/recovery-codes", { code: value });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/2fa"] });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Erro ao gerar códigos",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { currentPassword: string; code: string }) => {
+      const res = await apiRequest("POST", "/api/protected/2fa/disable", data);
+      return await res.json() as User;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/2fa"] });
+      closeDialog();
+      toast({
+        title: "Autenticação em dois fatores desativada",
+        description: "O login voltará a pedir apenas a senha.",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Erro ao desativar",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    setCode("");
+    setCurrentPassword("");
+    regenerateMutation.reset();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-primary" />
+          Autenticação em dois fatores
+        </CardTitle>
+        <CardDescription>
+          Além da senha, o login pede um código gerado por um aplicativo autenticador no seu celular.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : isEnrolling ? (
+          <div className="max-w-sm mx-auto">
+            <TwoFactorEnrollment
+              onComplete={() => setIsEnrolling(false)}
+              onCancel={() => setIsEnrolling(false)}
+            />
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className="border-green-600 text-green-600">Ativada</Badge>
+              {status.required && <Badge variant="secondary">Obrigatória para administradores</Badge>}
+              <span className="text-sm text-muted-foreground">
+                {status.remainingRecoveryCodes} código(s) de recuperação disponível(is)
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setDialog("recoveryCodes")}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Gerar novos códigos de recuperação
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-destructive" onClick={() => setDialog("disable")}>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Desativar
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Badge variant="outline">Desativada</Badge>
+            <Button onClick={() => setIsEnrolling(true)}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Ativar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Novos códigos de recuperação: invalidam os anteriores */}
+      <Dialog open={dialog === "recoveryCodes"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Novos códigos de recuperação</DialogTitle>
+            <DialogDescription>
+              {regenerateMutation.isSuccess
+                ? "Os códigos anteriores deixaram de valer."
+                : "Informe o código do aplicativo para gerar novos códigos. Os atuais deixarão de valer."}
+            </DialogDescription>
+          </DialogHeader>
+          {regenerateMutation.isSuccess ? (
+            <RecoveryCodesList codes={regenerateMutation.data.recoveryCodes} />
+          ) : (
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => regenerateMutation.mutate(value)}
+              disabled={regenerateMutation.isPending}
+            />
+          )}
+          <DialogFooter>
+            {regenerateMutation.isSuccess ? (
+              <Button onClick={closeDialog}>Concluir</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+                <Button
+                  onClick={() => regenerateMutation.mutate(code)}
+                  disabled={regenerateMutation.isPending || code.length !== 6}
+                >
+                  {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Gerar códigos
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Desativação: pede a senha e um código para confirmar */}
+      <Dialog open={dialog === "disable"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Desativar autenticação em dois fatores</DialogTitle>
+            <DialogDescription>
+              Sua conta{user ? ` (${user.username})` : ""} ficará protegida apenas pela senha.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-current-password">Senha atual</Label>
+              <Input
+                id="two-factor-current-password"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Código do aplicativo ou de recuperação</Label>
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                disabled={disableMutation.isPending}
+                allowRecoveryCode
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate({ currentPassword, code })}
+              disabled={disableMutation.isPending || !currentPassword || !code.trim()}
+            >
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Desativar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
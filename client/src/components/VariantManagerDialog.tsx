@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Product, ProductVariant, UpdateProductVariant } from "@shared/schema";
+import { formatVariantLabel } from "@shared/product-variants";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+
+interface VariantManagerDialogProps {
+  product: Product | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type AttributeRow = { name: string; value: string };
+
+const DEFAULT_ATTRIBUTES: AttributeRow[] = [
+  { name: "Tamanho", value: "" },
+  { name: "Cor", value: "" },
+];
+
+export default function VariantManagerDialog({ product, open, onOpenChange }: VariantManagerDialogProps) {
+  const { toast } = useToast();
+  const [attributes, setAttributes] = useState<AttributeRow[]>(DEFAULT_ATTRIBUTES);
+  const [stock, setStock] = useState("0");
+  const [pointsCost, setPointsCost] = useState("");
+
+  const variantsUrl = `/api/admin/products/${product?.id}/variants`;
+
+  const { data: variants, isLoading } = useQuery<ProductVariant[]>({
+    queryKey: [variantsUrl],
+    enabled: open && !!product,
+  });
+
+  // O estoque do produto é recalculado a partir das variações
+  const invalidateVariants = () => {
+    queryClient.invalidateQueries({ queryKey: [variantsUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const onVariantError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setAttributes(DEFAULT_ATTRIBUTES);
+    setStock("0");
+    setPointsCost("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const values = Object.fromEntries(
+        attributes
+          .filter((attribute) => attribute.name.trim() && attribute.value.trim())
+          .map((attribute) => [attribute.name.trim(), attribute.value.trim()]),
+      );
+      const res = await apiRequest("POST", variantsUrl, {
+        attributes: values,
+        stock: parseInt(stock) || 0,
+        pointsCost: pointsCost ? parseInt(pointsCost) : null,
+        isActive: true,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateVariants();
+      resetForm();
+    },
+    onError: onVariantError("Erro ao criar variação"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateProductVariant }) => {
+      const res = await apiRequest("PATCH", `${variantsUrl}/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: invalidateVariants,
+    onError: onVariantError("Erro ao atualizar variação"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `${variantsUrl}/${id}`);
+      return await res.json() as { result: "deleted" | "deactivated"; message: string };
+    },
+    onSuccess: (data) => {
+      invalidateVariants();
+      toast({
+        title: data.result === "deleted" ? "Variação excluída" : "Variação desativada",
+        description: data.message,
+      });
+    },
+    onError: onVariantError("Erro ao excluir variação"),
+  });
+
+  const updateAttribute = (index: number, changes: Partial<AttributeRow>) => {
+    setAttributes(attributes.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  // Campos numéricos são salvos ao sair do campo, se o valor mudou
+  const handleStockBlur = (variant: ProductVariant, value: string) => {
+    const newStock = parseInt(value);
+    if (!isNaN(newStock) && newStock >= 0 && newStock !== variant.stock) {
+      updateMutation.mutate({ id: variant.id, data: { stock: newStock } });
+    }
+  };
+
+  const handlePointsCostBlur = (variant: ProductVariant, value: string) => {
+    const newPointsCost = value ? parseInt(value) : null;
+    if (newPointsCost !== null && (isNaN(newPointsCost) || newPointsCost <= 0)) return;
+    if (newPointsCost !== variant.pointsCost) {
+      updateMutation.mutate({ id: variant.id, data: { pointsCost: newPointsCost } });
+    }
+  };
+
+  const canCreate = attributes.some((attribute) => attribute.name.trim() && attribute.value.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Variações de {product?.name}</DialogTitle>
+          <DialogDescription>
+            Cada combinação de atributos tem estoque próprio e pode ter um custo diferente do produto
+            ({product?.pointsCost} xCoins). O estoque do produto passa a ser a soma das variações ativas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[40vh] overflow-y-auto rounded-md border">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !variants || variants.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Este produto ainda não tem variações.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variação</TableHead>
+                  <TableHead className="w-[110px]">Estoque</TableHead>
+                  <TableHead className="w-[130px]">Custo próprio</TableHead>
+                  <TableHead>Ativa</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variants.map((variant) => (
+                  <TableRow key={variant.id}>
+                    <TableCell className="font-medium">{formatVariantLabel(variant.attributes)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        defaultValue={variant.stock}
+                        key={`stock-${variant.id}-${variant.stock}`}
+                        onBlur={(e) => handleStockBlur(variant, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder={product?.pointsCost.toString()}
+                        defaultValue={variant.pointsCost ?? ""}
+                        key={`cost-${variant.id}-${variant.pointsCost}`}
+                        onBlur={(e) => handlePointsCostBlur(variant, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={variant.isActive}
+                        onCheckedChange={(isActive) => updateMutation.mutate({ id: variant.id, data: { isActive } })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(variant.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <h4 className="text-sm font-medium">Nova variação</h4>
+          {attributes.map((attribute, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                placeholder="Atributo"
+                value={attribute.name}
+                onChange={(e) => updateAttribute(index, { name: e.target.value })}
+                className="w-[160px]"
+                maxLength={30}
+              />
+              <Input
+                placeholder="Valor"
+                value={attribute.value}
+                onChange={(e) => updateAttribute(index, { value: e.target.value })}
+                maxLength={30}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setAttributes(attributes.filter((_, i) => i !== index))}
+                disabled={attributes.length === 1}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="px-0"
+            onClick={() => setAttributes([...attributes, { name: "", value: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar atributo
+          </Button>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="variant-stock">Estoque</Label>
+              <Input
+                id="variant-stock"
+                type="number"
+                min="0"
+                value={stock}
+                onChange={(e) => setStock(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variant-points-cost">Custo próprio (opcional)</Label>
+              <Input
+                id="variant-points-cost"
+                type="number"
+                min="1"
+                placeholder={product?.pointsCost.toString()}
+                value={pointsCost}
+                onChange={(e) => setPointsCost(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!canCreate || createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Adicionar variação
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
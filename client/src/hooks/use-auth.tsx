@@ -4,8 +4,9 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { UserRoleEnum } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import type { UserRole } from "@shared/schema";
+import { hasPermission, isStaffRole, type Permission } from "@shared/permissions";
+import { getQueryFn, apiRequest, queryClient, getApiErrorMessage } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 // Tipos de usuário
@@ -14,10 +15,12 @@ export type User = {
   username: string;
   email: string;
   displayName: string | null;
-  role: typeof UserRoleEnum.ADMIN | typeof UserRoleEnum.EMPLOYEE;
+  role: UserRole;
   points: number;
-  unit: string | null;
+  unitId: number | null; // Nome e hierarquia em useUnits
   profileImageUrl: string | null;
+  mustChangePassword: boolean; // Senha provisória: o app fica bloqueado até a troca
+  twoFactorEnabled: boolean; // Login exige o código do aplicativo autenticador
   createdAt: string | null;
   updatedAt: string | null;
 };
@@ -28,13 +31,25 @@ export type LoginData = {
   password: string;
 };
 
+// Resposta do login quando a conta usa 2FA: a sessão só é criada depois do código
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+};
+
+export type LoginResult = User | TwoFactorChallenge;
+
+// Código do segundo passo do login (TOTP ou código de recuperação)
+export type TwoFactorLoginData = {
+  code: string;
+};
+
 // Parâmetros para registro
 export type RegisterData = {
   username: string;
   password: string;
   email: string;
   displayName?: string;
-  role?: typeof UserRoleEnum.ADMIN | typeof UserRoleEnum.EMPLOYEE;
+  role?: UserRole;
 };
 
 // Contexto de autenticação
@@ -42,8 +57,10 @@ type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
-  isAdmin: boolean;
-  loginMutation: UseMutationResult<User, Error, LoginData>;
+  hasAdminAccess: boolean; // Alguma permissão da área administrativa
+  can: (...permissions: Permission[]) => boolean; // Ao menos uma das permissões
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<User, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<User, Error, RegisterData>;
 };
@@ -67,8 +84,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     staleTime: 0
   });
 
-  // Determina se o usuário é administrador
-  const isAdmin = user?.role === UserRoleEnum.ADMIN;
+  // Permissões do papel do usuário (ver shared/permissions.ts)
+  const hasAdminAccess = !!user && isStaffRole(user.role);
+  const can = (...permissions: Permission[]) => hasPermission(user, ...permissions);
+
+  // Sessão criada: atualiza o usuário em cache e dá as boas-vindas
+  const handleLoggedIn = (user: User) => {
+    // Invalidar a consulta atual para forçar uma nova busca
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    // Atualizar o cache também
+    queryClient.setQueryData(["/api/user"], user);
+    toast({
+      title: "Login realizado com sucesso",
+      description: `Bem-vindo${user.displayName ? `, ${user.displayName}` : ""}!`,
+    });
+    // Pequeno atraso antes de refetch para garantir que tudo foi atualizado
+    setTimeout(() => {
+      queryClient.refetchQueries({ queryKey: ["/api/user"] });
+    }, 300);
+  };
 
   // Mutação para login
   const loginMutation = useMutation({
@@ -76,24 +110,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: User) => {
-      // Invalidar a consulta atual para forçar uma nova busca
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-      // Atualizar o cache também
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResult) => {
+      // Conta com 2FA: o login só termina no segundo passo
+      if ("twoFactorRequired" in result) return;
+      handleLoggedIn(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Login realizado com sucesso",
-        description: `Bem-vindo${user.displayName ? `, ${user.displayName}` : ""}!`,
+        title: "Falha no login",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
       });
-      // Pequeno atraso antes de refetch para garantir que tudo foi atualizado
-      setTimeout(() => {
-        queryClient.refetchQueries({ queryKey: ["/api/user"] });
-      }, 300);
+    },
+  });
+
+  // Mutação para o segundo passo do login (código do autenticador)
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      handleLoggedIn(user);
     },
     onError: (error: Error) => {
       toast({
         title: "Falha no login",
-        description: "Nome de usuário ou senha incorretos.",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -164,8 +207,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user: user || null,
         isLoading,
         error,
-        isAdmin,
+        hasAdminAccess,
+        can,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
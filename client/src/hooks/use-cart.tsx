@@ -0,0 +1,124 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Cart, CartLine } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Carrinho como retornado pela API
+export type CartData = {
+  cart: Cart;
+  items: CartLine[];
+};
+
+const CART_QUERY_KEY = ["/api/protected/cart"];
+
+export function useCart() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Busca o carrinho persistido no servidor
+  const { data, isLoading, error } = useQuery<CartData>({
+    queryKey: CART_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const items = data?.items || [];
+  const totalPoints = items.reduce((sum, item) => sum + item.unitPointsCost * item.quantity, 0);
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+  const hasChanges = items.some(item => item.pointsCostChanged || item.stockChanged);
+  const hasMissingVariants = items.some(item => item.variantRequired);
+
+  // Toda mutação do carrinho devolve o carrinho atualizado
+  const onCartUpdated = (cart: CartData) => {
+    queryClient.setQueryData(CART_QUERY_KEY, cart);
+  };
+
+  const onCartError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Mutação para adicionar produto ao carrinho
+  const addItemMutation = useMutation({
+    mutationFn: async ({ productId, variantId = null, quantity = 1 }: { productId: number; variantId?: number | null; quantity?: number }) => {
+      const res = await apiRequest("POST", "/api/protected/cart/items", { productId, variantId, quantity });
+      return await res.json();
+    },
+    onSuccess: (cart: CartData) => {
+      onCartUpdated(cart);
+      toast({
+        title: "Produto adicionado",
+        description: "O produto foi adicionado ao seu carrinho.",
+      });
+    },
+    onError: onCartError("Erro ao adicionar ao carrinho"),
+  });
+
+  // Mutação para alterar a quantidade ou a variação de um item
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ itemId, quantity, variantId }: { itemId: number; quantity?: number; variantId?: number }) => {
+      const res = await apiRequest("PATCH", `/api/protected/cart/items/${itemId}`, { quantity, variantId });
+      return await res.json();
+    },
+    onSuccess: onCartUpdated,
+    onError: onCartError("Erro ao atualizar carrinho"),
+  });
+
+  // Mutação para remover um item
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: number) => {
+      const res = await apiRequest("DELETE", `/api/protected/cart/items/${itemId}`);
+      return await res.json();
+    },
+    onSuccess: onCartUpdated,
+    onError: onCartError("Erro ao remover item"),
+  });
+
+  // Mutação para aceitar os novos preços e estoques
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/protected/cart/acknowledge");
+      return await res.json();
+    },
+    onSuccess: onCartUpdated,
+    onError: onCartError("Erro ao atualizar carrinho"),
+  });
+
+  // Mutação para finalizar todos os itens em um único pedido
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/protected/cart/checkout");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CART_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/points/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error: Error) => {
+      // O carrinho pode ter mudado (preço/estoque); recarregar os avisos
+      queryClient.invalidateQueries({ queryKey: CART_QUERY_KEY });
+      onCartError("Erro no pedido")(error);
+    },
+  });
+
+  return {
+    items,
+    isLoading,
+    error,
+    totalPoints,
+    totalQuantity,
+    hasChanges,
+    hasMissingVariants,
+    addItemMutation,
+    updateItemMutation,
+    removeItemMutation,
+    acknowledgeMutation,
+    checkoutMutation,
+  };
+}
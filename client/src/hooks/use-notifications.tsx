@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Notification, NotificationFeed, NotificationTypeEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const NOTIFICATIONS_QUERY_KEY = ["/api/protected/notifications"];
+const NOTIFICATIONS_STREAM_URL = "/api/protected/notifications/stream";
+
+// Sem o stream (proxy que bloqueia SSE, conexão caída), a lista é consultada periodicamente
+const POLLING_INTERVAL_MS = 60 * 1000;
+
+// Dados que mudam junto com cada tipo de notificação
+function invalidateRelatedQueries(notification: Notification) {
+  switch (notification.type) {
+    case NotificationTypeEnum.POINTS:
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/points/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/points/expiring"] });
+      break;
+    case NotificationTypeEnum.ORDER_STATUS:
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/protected/orders"),
+      });
+      break;
+    case NotificationTypeEnum.BACK_IN_STOCK:
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/wishlist"] });
+      break;
+  }
+}
+
+// Central de notificações. Abre uma conexão SSE por chamada, por isso deve ser
+// usado em um único componente (NotificationBell).
+export function useNotifications() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const { data, isLoading, error } = useQuery<NotificationFeed>({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    enabled: !!user,
+    refetchInterval: isStreaming ? false : POLLING_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!user || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(NOTIFICATIONS_STREAM_URL, { withCredentials: true });
+
+    source.onopen = () => {
+      setIsStreaming(true);
+      // Recupera o que chegou enquanto a conexão estava fechada
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    };
+    // O EventSource reconecta sozinho; até lá vale a consulta periódica
+    source.onerror = () => setIsStreaming(false);
+
+    source.addEventListener("notification", (event) => {
+      const notification: Notification = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData<NotificationFeed>(NOTIFICATIONS_QUERY_KEY, (feed) => feed && {
+        notifications: [notification, ...feed.notifications.filter((item) => item.id !== notification.id)],
+        unreadCount: feed.unreadCount + 1,
+      });
+      invalidateRelatedQueries(notification);
+      toast({
+        title: notification.title,
+        description: notification.message,
+      });
+    });
+
+    return () => {
+      source.close();
+      setIsStreaming(false);
+    };
+  }, [user?.id]);
+
+  const markReadMutation = useMutation({
+    // Sem ids, marca todas como lidas
+    mutationFn: async (ids?: number[]) => {
+      const res = await apiRequest("POST", "/api/protected/notifications/read", { ids });
+      return await res.json();
+    },
+    onSuccess: (feed: NotificationFeed) => {
+      queryClient.setQueryData(NOTIFICATIONS_QUERY_KEY, feed);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao atualizar notificações",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    notifications: data?.notifications || [],
+    unreadCount: data?.unreadCount || 0,
+    isLoading,
+    error,
+    markReadMutation,
+  };
+}
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { UnitOption } from "@shared/schema";
+import { formatUnitPath } from "@shared/units";
+import { useAuth } from "@/hooks/use-auth";
+
+export const UNITS_QUERY_KEY = ["/api/protected/units"];
+
+// Unidades cadastradas, para exibir o nome da unidade dos usuários e montar filtros e seletores
+export function useUnits() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<UnitOption[]>({
+    queryKey: UNITS_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const units = data || [];
+
+  const getUnitName = (unitId: number | null | undefined) =>
+    unitId != null ? units.find((unit) => unit.id === unitId)?.name ?? null : null;
+
+  // Nome com as unidades superiores, ex.: "Operações / Logística"
+  const getUnitPath = (unitId: number | null | undefined) =>
+    unitId != null && units.some((unit) => unit.id === unitId) ? formatUnitPath(units, unitId) : null;
+
+  // Ordenadas pelo caminho completo, que agrupa as subunidades sob a unidade superior
+  const sortedUnits = units
+    .map((unit) => ({ ...unit, path: formatUnitPath(units, unit.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path, "pt-BR"));
+
+  return {
+    units: sortedUnits,
+    isLoading,
+    getUnitName,
+    getUnitPath,
+  };
+}
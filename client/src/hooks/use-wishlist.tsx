@@ -0,0 +1,89 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { WishlistEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const WISHLIST_QUERY_KEY = ["/api/protected/wishlist"];
+
+export function useWishlist() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<WishlistEntry[]>({
+    queryKey: WISHLIST_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const items = data || [];
+  const backInStockCount = items.filter(item => item.backInStockAt !== null).length;
+
+  const isWishlisted = (productId: number) => items.some(item => item.productId === productId);
+
+  // Toda mutação da lista devolve a lista atualizada
+  const onWishlistUpdated = (wishlist: WishlistEntry[]) => {
+    queryClient.setQueryData(WISHLIST_QUERY_KEY, wishlist);
+  };
+
+  const onWishlistError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addItemMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      const res = await apiRequest("POST", "/api/protected/wishlist", { productId });
+      return await res.json();
+    },
+    onSuccess: (wishlist: WishlistEntry[]) => {
+      onWishlistUpdated(wishlist);
+      toast({
+        title: "Adicionado à lista de desejos",
+        description: "Avisaremos quando o produto voltar ao estoque.",
+      });
+    },
+    onError: onWishlistError("Erro ao adicionar à lista de desejos"),
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      const res = await apiRequest("DELETE", `/api/protected/wishlist/${productId}`);
+      return await res.json();
+    },
+    onSuccess: onWishlistUpdated,
+    onError: onWishlistError("Erro ao remover da lista de desejos"),
+  });
+
+  // Marca os avisos de volta ao estoque como vistos
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/protected/wishlist/acknowledge");
+      return await res.json();
+    },
+    onSuccess: onWishlistUpdated,
+    onError: onWishlistError("Erro ao atualizar lista de desejos"),
+  });
+
+  const toggleItem = (productId: number) => {
+    if (isWishlisted(productId)) {
+      removeItemMutation.mutate(productId);
+    } else {
+      addItemMutation.mutate(productId);
+    }
+  };
+
+  return {
+    items,
+    isLoading,
+    error,
+    backInStockCount,
+    isWishlisted,
+    toggleItem,
+    isPending: addItemMutation.isPending || removeItemMutation.isPending,
+    removeItemMutation,
+    acknowledgeMutation,
+  };
+}
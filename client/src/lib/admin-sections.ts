@@ -0,0 +1,108 @@
+import type { LucideIcon } from "lucide-react";
+import {
+  LayoutDashboard,
+  Package,
+  Users,
+  ShoppingCart,
+  CalendarClock,
+  FileSpreadsheet,
+  Scale,
+  ScrollText,
+  Building2
+} from "lucide-react";
+import { PERMISSIONS, PermissionEnum, hasPermission, type Permission } from "@shared/permissions";
+import type { User } from "@/hooks/use-auth";
+
+// Página da área administrativa: basta ter uma das permissões para acessá-la
+export type AdminSection = {
+  path: string;
+  label: string;
+  icon: LucideIcon;
+  permissions: readonly Permission[];
+  showInMenu: boolean;
+};
+
+// Fonte única para as rotas de administração (AdminRoute) e os menus (Sidebar e Navbar)
+export const ADMIN_SECTIONS: AdminSection[] = [
+  {
+    path: "/admin",
+    label: "Dashboard",
+    icon: LayoutDashboard,
+    permissions: PERMISSIONS,
+    showInMenu: true,
+  },
+  {
+    path: "/admin/products",
+    label: "Gerenciar Produtos",
+    icon: Package,
+    permissions: [PermissionEnum.CATALOG_READ],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/employees",
+    label: "Gerenciar Funcionários",
+    icon: Users,
+    permissions: [PermissionEnum.USERS_READ, PermissionEnum.USERS_READ_UNIT],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/employees/import",
+    label: "Importar Funcionários",
+    icon: FileSpreadsheet,
+    permissions: [PermissionEnum.USERS_MANAGE],
+    showInMenu: false,
+  },
+  {
+    path: "/admin/orders",
+    label: "Gerenciar Pedidos",
+    icon: ShoppingCart,
+    permissions: [PermissionEnum.ORDERS_READ],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/units",
+    label: "Unidades e Orçamentos",
+    icon: Building2,
+    permissions: [PermissionEnum.UNITS_READ],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/point-rules",
+    label: "Premiações Automáticas",
+    icon: CalendarClock,
+    permissions: [PermissionEnum.POINT_RULES_READ],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/points/bulk",
+    label: "Distribuição em Lote",
+    icon: FileSpreadsheet,
+    permissions: [PermissionEnum.POINTS_GRANT],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/points/reconciliation",
+    label: "Conciliação de Pontos",
+    icon: Scale,
+    permissions: [PermissionEnum.POINTS_LEDGER_READ],
+    showInMenu: true,
+  },
+  {
+    path: "/admin/audit",
+    label: "Auditoria",
+    icon: ScrollText,
+    permissions: [PermissionEnum.AUDIT_READ],
+    showInMenu: true,
+  },
+];
+
+// Páginas sem seção cadastrada ficam bloqueadas
+export function canAccessAdminPath(user: User | null, path: string): boolean {
+  const section = ADMIN_SECTIONS.find((item) => item.path === path);
+  return !!section && hasPermission(user, ...section.permissions);
+}
+
+// Itens do menu de administração visíveis para o usuário
+export function getAdminMenuSections(user: User | null): AdminSection[] {
+  return ADMIN_SECTIONS.filter((section) => section.showInMenu && hasPermission(user, ...section.permissions));
+}
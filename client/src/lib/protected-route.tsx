@@ -1,7 +1,20 @@
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, type User } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
 import { UserRoleEnum } from "@shared/schema";
+import { canAccessAdminPath } from "@/lib/admin-sections";
+
+// Etapa obrigatória pendente antes de liberar o restante do sistema: primeiro a
+// troca da senha provisória, depois o cadastro do 2FA (obrigatório para administradores)
+export function getRequiredSetupPath(user: User): string | null {
+  if (user.mustChangePassword) {
+    return "/change-password";
+  }
+  if (user.role === UserRoleEnum.ADMIN && !user.twoFactorEnabled) {
+    return "/two-factor-setup";
+  }
+  return null;
+}
 
 // Componente para rotas protegidas por autenticação
 export function ProtectedRoute({
@@ -31,10 +44,20 @@ export function ProtectedRoute({
     );
   }
 
+  // Nenhuma outra página fica acessível antes das etapas obrigatórias
+  const setupPath = getRequiredSetupPath(user);
+  if (setupPath) {
+    return (
+      <Route path={path}>
+        <Redirect to={setupPath} />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
 }
 
-// Componente para rotas que exigem perfil de administrador
+// Componente para rotas da área administrativa: exige uma das permissões da seção (ver admin-sections.ts)
 export function AdminRoute({
   path,
   component: Component,
@@ -62,7 +85,17 @@ export function AdminRoute({
     );
   }
 
-  if (user.role !== UserRoleEnum.ADMIN) {
+  // Nenhuma outra página fica acessível antes das etapas obrigatórias
+  const setupPath = getRequiredSetupPath(user);
+  if (setupPath) {
+    return (
+      <Route path={path}>
+        <Redirect to={setupPath} />
+      </Route>
+    );
+  }
+
+  if (!canAccessAdminPath(user, path)) {
     return (
       <Route path={path}>
         <Redirect to="/" />
@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Mensagem legível de um erro lançado por apiRequest ("409: {"message": ...}")
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -6,6 +6,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useUnits } from "@/hooks/use-units";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -17,10 +18,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { formatUserRole } from "@shared/permissions";
 
 const profileSchema = z.object({
   displayName: z.string().min(3, "O nome de exibição deve ter pelo menos 3 caracteres").optional().nullable(),
-  unit: z.string().optional().nullable(),
   profileImageUrl: z.string().optional().nullable(),
   currentPassword: z.string().min(1, "Senha atual é obrigatória para alterações"),
   newPassword: z.string().min(6, "A nova senha deve ter pelo menos 6 caracteres").optional(),
@@ -40,6 +41,8 @@ type ProfileFormValues = z.infer<typeof profileSchema>;
 export default function Account() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { getUnitPath } = useUnits();
+  const unitPath = getUnitPath(user?.unitId);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [showImageDialog, setShowImageDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -49,7 +52,6 @@ export default function Account() {
     resolver: zodResolver(profileSchema),
     defaultValues: {
       displayName: user?.displayName || "",
-      unit: user?.unit || "",
       profileImageUrl: user?.profileImageUrl || "",
       currentPassword: "",
       newPassword: "",
@@ -104,7 +106,6 @@ export default function Account() {
     // Preparar os dados a serem enviados
     const dataToSend = {
       displayName: data.displayName,
-      unit: data.unit,
       currentPassword: data.currentPassword,
       newPassword: data.newPassword || undefined,
       confirmPassword: data.confirmPassword || undefined,
@@ -233,11 +234,11 @@ export default function Account() {
                     <h3 className="text-xl font-medium">{user.displayName || user.username}</h3>
                     <p className="text-sm text-muted-foreground">{user.email}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {user.role === "admin" ? "Administrador" : "Funcionário"}
+                      {formatUserRole(user.role)}
                     </p>
-                    {user.unit && (
+                    {unitPath && (
                       <p className="text-sm mt-2 bg-muted px-2 py-1 rounded-md inline-block">
-                        Unidade: {user.unit}
+                        Unidade: {unitPath}
                       </p>
                     )}
                   </div>
@@ -267,23 +268,6 @@ export default function Account() {
                         )}
                       />
                       
-                      <FormField
-                        control={form.control}
-                        name="unit"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Unidade</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Ex: Matriz, Filial SP, Departamento RH" {...field} value={field.value || ""} />
-                            </FormControl>
-                            <FormDescription>
-                              Unidade ou departamento onde você trabalha
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
                       <div className="grid gap-4 md:grid-cols-2">
                         <div className="space-y-2">
                           <p className="text-sm font-medium">Nome de Usuário</p>
@@ -1,11 +1,11 @@
 import { useState, useEffect } from "react";
-import { useParams, useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
 import { useToast } from "@/hooks/use-toast";
-import { Product } from "@shared/schema";
+import { Order, OrderItem, Product } from "@shared/schema";
+import { formatVariantLabel } from "@shared/product-variants";
 import Layout from "@/components/Layout";
-import { queryClient, apiRequest } from "@/lib/queryClient";
 import {
   Card,
   CardContent,
@@ -25,6 +25,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   ArrowLeft,
   Loader2,
@@ -32,7 +39,9 @@ import {
   Minus,
   ShoppingCart,
   AlertCircle,
+  AlertTriangle,
   CheckCircle,
+  Trash2,
 } from "lucide-react";
 import {
   Alert,
@@ -40,100 +49,65 @@ import {
   AlertTitle,
 } from "@/components/ui/alert";
 
+// Pedido retornado ao finalizar o carrinho
+type CompletedOrder = {
+  order: Order;
+  items: (OrderItem & { product: Product })[];
+};
+
 export default function CheckoutPage() {
-  const { id } = useParams<{ id: string }>();
-  const productId = parseInt(id);
   const [location, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [quantity, setQuantity] = useState(1);
   const [isOrderComplete, setIsOrderComplete] = useState(false);
-  const [newOrderId, setNewOrderId] = useState<number | null>(null);
-
-  // Buscar produto
+  const [completedOrder, setCompletedOrder] = useState<CompletedOrder | null>(null);
   const {
-    data: product,
+    items,
     isLoading,
     error,
-  } = useQuery<Product>({
-    queryKey: [`/api/products/${productId}`]
-  });
+    totalPoints,
+    totalQuantity,
+    hasChanges,
+    hasMissingVariants,
+    updateItemMutation,
+    removeItemMutation,
+    acknowledgeMutation,
+    checkoutMutation,
+  } = useCart();
   
   // Usar useEffect para lidar com erros
   useEffect(() => {
     if (error) {
       toast({
-        title: "Erro ao carregar produto",
-        description: error instanceof Error ? error.message : "Não foi possível carregar os detalhes do produto.",
+        title: "Erro ao carregar carrinho",
+        description: error instanceof Error ? error.message : "Não foi possível carregar o seu carrinho.",
         variant: "destructive",
       });
     }
   }, [error, toast]);
 
-  // Mutação para criar o pedido
-  const createOrderMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/protected/orders", {
-        items: [
-          {
-            productId,
-            quantity,
-          },
-        ],
-      });
-      return await res.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "Pedido realizado!",
-        description: "Seu pedido foi realizado com sucesso.",
-      });
-      
-      // Atualizar o cache de pedidos
-      queryClient.invalidateQueries({ queryKey: ["/api/protected/orders"] });
-      
-      // Atualizar o cache de pontos
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/protected/points/history"] });
-      
-      setIsOrderComplete(true);
-      setNewOrderId(data.order.id);
-    },
-    onError: (error: Error) => {
-      let errorMsg = "Ocorreu um erro ao processar seu pedido.";
-      
-      // Verificar se a mensagem de erro contém informações sobre pontos insuficientes
-      if (error.message.includes("xCoins insuficientes")) {
-        errorMsg = "Você não tem xCoins suficientes para este pedido.";
-      } else if (error.message.includes("Estoque insuficiente")) {
-        errorMsg = "Estoque insuficiente para este produto.";
-      }
-      
-      toast({
-        title: "Erro no pedido",
-        description: errorMsg,
-        variant: "destructive",
-      });
-    },
-  });
-
-  // Função para incrementar quantidade
-  const incrementQuantity = () => {
-    if (product && quantity < product.stock) {
-      setQuantity(quantity + 1);
-    }
+  // Função para alterar a quantidade de um item
+  const changeQuantity = (itemId: number, quantity: number) => {
+    updateItemMutation.mutate({ itemId, quantity });
   };
 
-  // Função para decrementar quantidade
-  const decrementQuantity = () => {
-    if (quantity > 1) {
-      setQuantity(quantity - 1);
-    }
+  // Função para escolher a variação de um item
+  const changeVariant = (itemId: number, variantId: string) => {
+    updateItemMutation.mutate({ itemId, variantId: parseInt(variantId) });
   };
 
-  // Função para finalizar pedido
+  // Função para finalizar pedido com todos os itens do carrinho
   const handlePlaceOrder = () => {
-    createOrderMutation.mutate();
+    checkoutMutation.mutate(undefined, {
+      onSuccess: (data: CompletedOrder) => {
+        toast({
+          title: "Pedido realizado!",
+          description: "Seu pedido foi realizado com sucesso.",
+        });
+        setCompletedOrder(data);
+        setIsOrderComplete(true);
+      },
+    });
   };
 
   // Renderizar estado de carregamento
@@ -147,41 +121,8 @@ export default function CheckoutPage() {
     );
   }
 
-  // Renderizar erro
-  if (error || !product) {
-    return (
-      <Layout>
-        <div className="container max-w-4xl mx-auto py-6">
-          <div className="mb-6">
-            <Button
-              variant="ghost"
-              onClick={() => navigate("/")}
-              className="flex items-center text-muted-foreground hover:text-primary"
-            >
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Voltar para produtos
-            </Button>
-          </div>
-          <Card>
-            <CardHeader className="text-center">
-              <CardTitle>Produto não encontrado</CardTitle>
-              <CardDescription>
-                Não foi possível encontrar os detalhes deste produto.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="flex justify-center">
-              <Button onClick={() => navigate("/")}>
-                Ver produtos disponíveis
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      </Layout>
-    );
-  }
-
   // Se o pedido foi concluído com sucesso
-  if (isOrderComplete && newOrderId) {
+  if (isOrderComplete && completedOrder) {
     return (
       <Layout>
         <div className="container max-w-4xl mx-auto py-6">
@@ -201,27 +142,28 @@ export default function CheckoutPage() {
               <div className="bg-muted p-4 rounded-md">
                 <div className="font-medium">Resumo do pedido:</div>
                 <div className="mt-2">
-                  <div className="flex justify-between py-1 text-sm">
-                    <span>Produto:</span>
-                    <span className="font-medium">{product.name}</span>
-                  </div>
-                  <div className="flex justify-between py-1 text-sm">
-                    <span>Quantidade:</span>
-                    <span className="font-medium">{quantity}</span>
-                  </div>
+                  {completedOrder.items.map((item) => (
+                    <div key={item.id} className="flex justify-between py-1 text-sm">
+                      <span>
+                        {item.quantity}x {item.product.name}
+                        {item.variantLabel && ` (${item.variantLabel})`}
+                      </span>
+                      <span className="font-medium">{(item.pointsCost * item.quantity).toLocaleString("pt-BR")} xCoins</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between py-1 text-sm">
                     <span>Total:</span>
-                    <span className="font-medium">{(product.pointsCost * quantity).toLocaleString("pt-BR")} xCoins</span>
+                    <span className="font-medium">{completedOrder.order.totalPoints.toLocaleString("pt-BR")} xCoins</span>
                   </div>
                   <div className="flex justify-between py-1 text-sm">
                     <span>Número do pedido:</span>
-                    <span className="font-medium">#{newOrderId}</span>
+                    <span className="font-medium">#{completedOrder.order.id}</span>
                   </div>
                 </div>
               </div>
             </CardContent>
             <CardFooter className="flex flex-col sm:flex-row gap-3 justify-center">
-              <Button onClick={() => navigate(`/my-orders/${newOrderId}`)}>
+              <Button onClick={() => navigate(`/my-orders/${completedOrder.order.id}`)}>
                 Ver detalhes do pedido
               </Button>
               <Button variant="outline" onClick={() => navigate("/my-orders")}>
@@ -234,12 +176,48 @@ export default function CheckoutPage() {
     );
   }
 
-  // Calcular total de xCoins
-  const totalPoints = product.pointsCost * quantity;
+  // Renderizar carrinho vazio ou erro
+  if (error || items.length === 0) {
+    return (
+      <Layout>
+        <div className="container max-w-4xl mx-auto py-6">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => navigate("/")}
+              className="flex items-center text-muted-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar para produtos
+            </Button>
+          </div>
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle>Seu carrinho está vazio</CardTitle>
+              <CardDescription>
+                Adicione produtos ao carrinho para trocá-los por xCoins.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center">
+              <Button onClick={() => navigate("/")}>
+                Ver produtos disponíveis
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
 
   // Verificar se o usuário tem xCoins suficientes
   const hasEnoughPoints = user?.points !== undefined && user.points >= totalPoints;
 
+  // Verificar se algum item excede o estoque atual
+  const hasStockIssues = items.some(item => item.insufficientStock);
+
+  // Alterações de custo precisam ser aceitas antes de finalizar
+  const hasPriceChanges = items.some(item => item.pointsCostChanged);
+
   return (
     <Layout>
       <div className="container max-w-4xl mx-auto py-6">
@@ -263,8 +241,30 @@ export default function CheckoutPage() {
           </CardHeader>
 
           <CardContent className="space-y-6">
+            {hasChanges && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Itens alterados</AlertTitle>
+                <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <span>
+                    O custo ou o estoque de alguns itens mudou desde que foram adicionados ao carrinho.
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => acknowledgeMutation.mutate()}
+                    disabled={acknowledgeMutation.isPending}
+                  >
+                    Aceitar valores atuais
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div>
-              <h3 className="text-lg font-medium mb-3 text-primary">Produto selecionado</h3>
+              <h3 className="text-lg font-medium mb-3 text-primary">
+                Itens do carrinho ({totalQuantity})
+              </h3>
               <Table>
                 <TableHeader>
                   <TableRow>
@@ -272,69 +272,131 @@ export default function CheckoutPage() {
                     <TableHead className="text-center">Quantidade</TableHead>
                     <TableHead className="text-right">xCoins (un.)</TableHead>
                     <TableHead className="text-right">Total</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  <TableRow>
-                    <TableCell className="font-medium">
-                      <div className="flex items-center gap-3">
-                        {product.imageUrl && (
-                          <img
-                            src={product.imageUrl}
-                            alt={product.name}
-                            className="w-10 h-10 object-cover rounded-md"
-                          />
-                        )}
-                        <div>
-                          <div>{product.name}</div>
-                          <div className="text-xs text-muted-foreground truncate max-w-[250px]">
-                            {product.description}
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-3">
+                          {item.product.imageUrl && (
+                            <img
+                              src={item.product.imageUrl}
+                              alt={item.product.name}
+                              className="w-10 h-10 object-cover rounded-md"
+                            />
+                          )}
+                          <div>
+                            <div>{item.product.name}</div>
+                            <div className="text-xs text-muted-foreground truncate max-w-[250px]">
+                              {item.product.description}
+                            </div>
+                            {(item.variant || item.variantOptions.length > 0) && (
+                              <Select
+                                value={item.variantId?.toString() ?? ""}
+                                onValueChange={(value) => changeVariant(item.id, value)}
+                                disabled={updateItemMutation.isPending}
+                              >
+                                <SelectTrigger
+                                  className={`mt-1 h-8 w-[220px] text-xs ${item.variantRequired ? "border-amber-500" : ""}`}
+                                >
+                                  <SelectValue placeholder="Escolha a variação" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {item.variant && !item.variant.isActive && (
+                                    <SelectItem value={item.variant.id.toString()} disabled>
+                                      {formatVariantLabel(item.variant.attributes)} (indisponível)
+                                    </SelectItem>
+                                  )}
+                                  {item.variantOptions.map((variant) => (
+                                    <SelectItem
+                                      key={variant.id}
+                                      value={variant.id.toString()}
+                                      disabled={variant.stock === 0}
+                                    >
+                                      {formatVariantLabel(variant.attributes)}
+                                      {variant.stock === 0 ? " (esgotado)" : ""}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            {item.variantRequired ? (
+                              <div className="text-xs text-amber-700">
+                                Escolha a variação para finalizar
+                              </div>
+                            ) : item.insufficientStock ? (
+                              <div className="text-xs text-destructive">
+                                Apenas {item.availableStock} em estoque
+                              </div>
+                            ) : item.stockChanged && (
+                              <div className="text-xs text-amber-700">
+                                Estoque alterado: {item.availableStock} disponíveis
+                              </div>
+                            )}
                           </div>
                         </div>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-center">
-                      <div className="flex items-center justify-center">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-8 w-8 rounded-full"
-                          onClick={decrementQuantity}
-                          disabled={quantity <= 1}
-                        >
-                          <Minus className="h-3 w-3" />
-                        </Button>
-                        <Input
-                          type="number"
-                          min="1"
-                          max={product.stock}
-                          className="w-16 mx-2 text-center"
-                          value={quantity}
-                          onChange={(e) => {
-                            const val = parseInt(e.target.value);
-                            if (!isNaN(val) && val >= 1 && val <= product.stock) {
-                              setQuantity(val);
-                            }
-                          }}
-                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex items-center justify-center">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 rounded-full"
+                            onClick={() => changeQuantity(item.id, item.quantity - 1)}
+                            disabled={item.quantity <= 1 || updateItemMutation.isPending}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <Input
+                            type="number"
+                            min="1"
+                            max={item.availableStock}
+                            className="w-16 mx-2 text-center"
+                            value={item.quantity}
+                            onChange={(e) => {
+                              const val = parseInt(e.target.value);
+                              if (!isNaN(val) && val >= 1 && val <= item.availableStock) {
+                                changeQuantity(item.id, val);
+                              }
+                            }}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 rounded-full"
+                            onClick={() => changeQuantity(item.id, item.quantity + 1)}
+                            disabled={item.quantity >= item.availableStock || updateItemMutation.isPending}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.unitPointsCost.toLocaleString("pt-BR")}
+                        {item.pointsCostChanged && (
+                          <div className="text-xs text-amber-700 line-through">
+                            {item.pointsCostAtAdd.toLocaleString("pt-BR")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(item.unitPointsCost * item.quantity).toLocaleString("pt-BR")}
+                      </TableCell>
+                      <TableCell className="text-right">
                         <Button
-                          variant="outline"
+                          variant="ghost"
                           size="icon"
-                          className="h-8 w-8 rounded-full"
-                          onClick={incrementQuantity}
-                          disabled={quantity >= product.stock}
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => removeItemMutation.mutate(item.id)}
+                          disabled={removeItemMutation.isPending}
                         >
-                          <Plus className="h-3 w-3" />
+                          <Trash2 className="h-4 w-4" />
                         </Button>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {product.pointsCost.toLocaleString("pt-BR")}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {totalPoints.toLocaleString("pt-BR")}
-                    </TableCell>
-                  </TableRow>
+                      </TableCell>
+                    </TableRow>
+                  ))}
                 </TableBody>
               </Table>
             </div>
@@ -358,6 +420,16 @@ export default function CheckoutPage() {
               </div>
             </div>
 
+            {hasMissingVariants && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Escolha as variações</AlertTitle>
+                <AlertDescription>
+                  Alguns produtos têm variações (tamanho, cor). Escolha a variação de cada um para finalizar o pedido.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {!hasEnoughPoints && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -373,14 +445,15 @@ export default function CheckoutPage() {
             <Button
               onClick={handlePlaceOrder}
               disabled={
-                createOrderMutation.isPending ||
+                checkoutMutation.isPending ||
                 !hasEnoughPoints ||
-                quantity < 1 ||
-                quantity > product.stock
+                hasStockIssues ||
+                hasPriceChanges ||
+                hasMissingVariants
               }
               className="px-6"
             >
-              {createOrderMutation.isPending ? (
+              {checkoutMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Processando...
@@ -397,4 +470,4 @@ export default function CheckoutPage() {
       </div>
     </Layout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useUnits } from "@/hooks/use-units";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import Layout from "@/components/Layout";
+import type { KudosAllowance, KudosFeedItem, KudosParticipant } from "@shared/schema";
+import { KUDOS_POLICY } from "@shared/kudos";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { HandHeart, Loader2, Send } from "lucide-react";
+
+// As datas chegam do servidor como texto
+type FeedItem = Omit<KudosFeedItem, "createdAt"> & { createdAt: string };
+
+const participantName = (participant: KudosParticipant) => participant.displayName || participant.username;
+
+const participantInitials = (participant: KudosParticipant) =>
+  participantName(participant).split(" ").filter(Boolean).map((part) => part[0]).slice(0, 2).join("").toUpperCase();
+
+function ParticipantAvatar({ participant }: { participant: KudosParticipant }) {
+  return (
+    <Avatar className="h-10 w-10">
+      {participant.profileImageUrl && (
+        <AvatarImage src={participant.profileImageUrl} alt={participantName(participant)} />
+      )}
+      <AvatarFallback className="bg-primary text-white">{participantInitials(participant)}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+// Reconhecimentos entre colegas: cada um tem uma cota mensal, separada do saldo,
+// para enviar xCoins com uma mensagem pública que aparece no mural
+export default function KudosPage() {
+  const { toast } = useToast();
+  const { units, getUnitName } = useUnits();
+  const [unitId, setUnitId] = useState("all");
+  const [isSendDialogOpen, setIsSendDialogOpen] = useState(false);
+  const [recipientId, setRecipientId] = useState("");
+  const [points, setPoints] = useState("");
+  const [message, setMessage] = useState("");
+
+  const { data: feed, isLoading } = useQuery<FeedItem[]>({
+    queryKey: ["/api/protected/kudos", unitId],
+    queryFn: async () => {
+      const query = unitId === "all" ? "" : `?${new URLSearchParams({ unitId }).toString()}`;
+      const res = await apiRequest("GET", `/api/protected/kudos${query}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: allowance } = useQuery<KudosAllowance>({
+    queryKey: ["/api/protected/kudos/allowance"],
+  });
+
+  const { data: colleagues } = useQuery<KudosParticipant[]>({
+    queryKey: ["/api/protected/kudos/colleagues"],
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (data: { recipientId: number; points: number; message: string }) => {
+      const res = await apiRequest("POST", "/api/protected/kudos", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/kudos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protected/kudos/allowance"] });
+      closeSendDialog();
+      toast({
+        title: "Reconhecimento enviado",
+        description: "Seu colega foi avisado e a mensagem já está no mural.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao enviar reconhecimento",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeSendDialog = () => {
+    setIsSendDialogOpen(false);
+    setRecipientId("");
+    setPoints("");
+    setMessage("");
+  };
+
+  const remaining = allowance?.remaining ?? 0;
+  const maxPoints = Math.min(KUDOS_POLICY.maxPerKudos, remaining);
+  const pointsValue = Number(points);
+  const canSubmit =
+    !!recipientId &&
+    Number.isInteger(pointsValue) &&
+    pointsValue >= 1 &&
+    pointsValue <= maxPoints &&
+    message.trim().length > 0 &&
+    !sendMutation.isPending;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    sendMutation.mutate({ recipientId: Number(recipientId), points: pointsValue, message: message.trim() });
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Reconhecimentos</h1>
+            <p className="text-muted-foreground">
+              Agradeça aos colegas enviando xCoins da sua cota mensal
+            </p>
+          </div>
+          <Button onClick={() => setIsSendDialogOpen(true)} disabled={remaining === 0}>
+            <HandHeart className="mr-2 h-4 w-4" />
+            Reconhecer um colega
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Cota mensal: não sai do saldo e não acumula para o mês seguinte */}
+          <Card className="lg:order-2 h-fit">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg text-primary">Sua cota do mês</CardTitle>
+              <CardDescription>Não sai do seu saldo e não acumula para o próximo mês</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {allowance ? (
+                <>
+                  <div className="flex items-end">
+                    <span className="text-3xl font-bold text-primary">{allowance.remaining}</span>
+                    <span className="text-muted-foreground ml-2 mb-1">de {allowance.allowance} xCoins disponíveis</span>
+                  </div>
+                  <Progress value={(allowance.used / allowance.allowance) * 100} />
+                  <p className="text-xs text-muted-foreground">
+                    Até {KUDOS_POLICY.maxPerKudos} xCoins por reconhecimento e {KUDOS_POLICY.maxPerRecipientPerMonth} por
+                    colega no mês. Quem reconheceu você nos últimos {KUDOS_POLICY.reciprocityWindowDays} dias não pode
+                    ser reconhecido de volta nesse período.
+                  </p>
+                </>
+              ) : (
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Mural */}
+          <div className="lg:col-span-2 lg:order-1 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold">Mural</h2>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Todas as unidades" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as unidades</SelectItem>
+                  {/* Uma unidade inclui as subunidades dela */}
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id.toString()}>{unit.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : feed && feed.length > 0 ? (
+              feed.map((item) => (
+                <Card key={item.id}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-start gap-4">
+                      <ParticipantAvatar participant={item.sender} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                          <span className="font-medium">{participantName(item.sender)}</span>
+                          <span className="text-muted-foreground">reconheceu</span>
+                          <span className="font-medium">{participantName(item.recipient)}</span>
+                          <Badge className="bg-secondary text-white border-0">+{item.points} xCoins</Badge>
+                        </div>
+                        <p className="mt-2 whitespace-pre-line break-words">{item.message}</p>
+                        <div className="mt-2 flex flex-wrap gap-2 text-xs text-muted-foreground">
+                          <span>{format(new Date(item.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}</span>
+                          {item.recipient.unitId && <span>· {getUnitName(item.recipient.unitId)}</span>}
+                        </div>
+                      </div>
+                      <ParticipantAvatar participant={item.recipient} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Nenhum reconhecimento ainda</CardTitle>
+                  <CardDescription>
+                    {unitId === "all"
+                      ? "Seja o primeiro a reconhecer um colega."
+                      : "Ninguém desta unidade enviou ou recebeu reconhecimentos ainda."}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isSendDialogOpen} onOpenChange={(open) => !open && closeSendDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reconhecer um colega</DialogTitle>
+            <DialogDescription>
+              Os xCoins saem da sua cota do mês ({remaining} disponíveis) e a mensagem aparece no mural.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Colega</Label>
+              <Select value={recipientId} onValueChange={setRecipientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione um colega" />
+                </SelectTrigger>
+                <SelectContent>
+                  {colleagues?.map((colleague) => (
+                    <SelectItem key={colleague.id} value={colleague.id.toString()}>
+                      {participantName(colleague)}{colleague.unitId ? ` (${getUnitName(colleague.unitId)})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kudos-points">xCoins</Label>
+              <Input
+                id="kudos-points"
+                type="number"
+                min={1}
+                max={maxPoints}
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Até {maxPoints} xCoins neste reconhecimento</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kudos-message">Mensagem</Label>
+              <Textarea
+                id="kudos-message"
+                value={message}
+                maxLength={KUDOS_POLICY.maxMessageLength}
+                placeholder="Conte por que este colega merece o reconhecimento"
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                {message.length}/{KUDOS_POLICY.maxMessageLength}
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeSendDialog}>Cancelar</Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit}>
+              {sendMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Enviar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
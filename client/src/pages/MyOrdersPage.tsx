@@ -30,6 +30,7 @@ import {
 } from "@/components/ui/select";
 import { Loader2, ShoppingCart, ChevronRight } from "lucide-react";
 import DataTableHeader from "@/components/DataTableHeader";
+import { ORDER_STATUSES, formatOrderStatus } from "@shared/order-status";
 
 export default function MyOrdersPage() {
   const { user } = useAuth();
@@ -73,9 +74,7 @@ export default function MyOrdersPage() {
       // Pesquisa pela data
       (order.createdAt && formatDate(order.createdAt.toString()).includes(query)) ||
       // Pesquisa pelo status
-      (order.status === "pending" && "pendente".includes(query)) ||
-      (order.status === "completed" && "concluído".includes(query)) ||
-      (order.status === "cancelled" && "cancelado".includes(query)) ||
+      formatOrderStatus(order.status).toLowerCase().includes(query) ||
       // Pesquisa por pontos
       order.totalPoints.toString().includes(query)
     );
@@ -89,11 +88,7 @@ export default function MyOrdersPage() {
       'Nº do Pedido': order.id,
       'Data': order.createdAt ? formatDate(order.createdAt.toString()) : 'N/A',
       'xCoins': order.totalPoints,
-      'Status': order.status === "pending" 
-        ? "Pendente" 
-        : order.status === "completed" 
-          ? "Concluído" 
-          : "Cancelado"
+      'Status': formatOrderStatus(order.status)
     }));
   };
 
@@ -103,19 +98,28 @@ export default function MyOrdersPage() {
       case "pending":
         return (
           <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
-            Pendente
+            {formatOrderStatus(status)}
           </Badge>
         );
-      case "completed":
+      case "approved":
+      case "separated":
+      case "ready_for_pickup":
+        return (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+            {formatOrderStatus(status)}
+          </Badge>
+        );
+      case "delivered":
         return (
           <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
-            Concluído
+            {formatOrderStatus(status)}
           </Badge>
         );
       case "cancelled":
+      case "rejected":
         return (
           <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
-            Cancelado
+            {formatOrderStatus(status)}
           </Badge>
         );
       default:
@@ -222,9 +226,9 @@ export default function MyOrdersPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos os status</SelectItem>
-                  <SelectItem value="pending">Pendentes</SelectItem>
-                  <SelectItem value="completed">Concluídos</SelectItem>
-                  <SelectItem value="cancelled">Cancelados</SelectItem>
+                  {ORDER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{formatOrderStatus(status)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -237,7 +241,7 @@ export default function MyOrdersPage() {
                 <p className="mt-2 text-muted-foreground max-w-md mx-auto">
                   {statusFilter === "all"
                     ? "Você ainda não realizou nenhum pedido."
-                    : `Você não possui pedidos com o status "${statusFilter}".`}
+                    : `Você não possui pedidos com o status "${formatOrderStatus(statusFilter)}".`}
                 </p>
                 <Button 
                   className="mt-4" 
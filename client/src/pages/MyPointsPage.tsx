@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/Layout";
-import { PointTransaction } from "@shared/schema";
+import { PointTransaction, ExpiringPoints } from "@shared/schema";
 import {
   Card,
   CardContent,
@@ -27,7 +27,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, TrendingUp, TrendingDown, Award } from "lucide-react";
+import { Loader2, TrendingUp, TrendingDown, Award, Clock, Hourglass, HandHeart } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import DataTableHeader from "@/components/DataTableHeader";
 
 export default function MyPointsPage() {
@@ -41,6 +42,20 @@ export default function MyPointsPage() {
     queryKey: ["/api/protected/points/history"],
   });
 
+  // Buscar pontos que expiram nos próximos dias
+  const { data: expiringPoints } = useQuery<ExpiringPoints[]>({
+    queryKey: ["/api/protected/points/expiring"],
+  });
+
+  // Função para formatar data curta (DD/MM)
+  const formatShortDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat("pt-BR", {
+      day: "2-digit",
+      month: "2-digit",
+    }).format(date);
+  };
+
   // Função para formatar data
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -77,6 +92,9 @@ export default function MyPointsPage() {
       (transaction.transactionType === "earned" && "recebido".includes(query)) ||
       (transaction.transactionType === "spent" && "gasto".includes(query)) ||
       (transaction.transactionType === "adjusted" && "ajuste".includes(query)) ||
+      (transaction.transactionType === "expired" && "expirado".includes(query)) ||
+      (transaction.transactionType === "correction" && "correção".includes(query)) ||
+      (transaction.transactionType === "transferred" && "reconhecimento".includes(query)) ||
       // Pesquisa por pontos
       transaction.points.toString().includes(query)
     );
@@ -93,27 +111,36 @@ export default function MyPointsPage() {
         ? "Recebido" 
         : transaction.transactionType === "spent" 
           ? "Gasto" 
-          : "Ajuste",
+          : transaction.transactionType === "expired"
+            ? "Expirado"
+            : transaction.transactionType === "correction"
+              ? "Correção"
+              : transaction.transactionType === "transferred"
+                ? "Reconhecimento"
+                : "Ajuste",
       'xCoins': transaction.points
     }));
   };
 
   // Calcular estatísticas
   const calculateStats = () => {
-    if (!transactions) return { earned: 0, spent: 0, adjusted: 0 };
+    if (!transactions) return { earned: 0, spent: 0, adjusted: 0, expired: 0 };
 
     return transactions.reduce(
       (acc, transaction) => {
-        if (transaction.transactionType === "earned") {
+        // Reconhecimentos recebidos de colegas também contam como ganhos
+        if (transaction.transactionType === "earned" || transaction.transactionType === "transferred") {
           acc.earned += transaction.points;
         } else if (transaction.transactionType === "spent") {
           acc.spent += Math.abs(transaction.points);
         } else if (transaction.transactionType === "adjusted") {
           acc.adjusted += transaction.points;
+        } else if (transaction.transactionType === "expired") {
+          acc.expired += Math.abs(transaction.points);
         }
         return acc;
       },
-      { earned: 0, spent: 0, adjusted: 0 }
+      { earned: 0, spent: 0, adjusted: 0, expired: 0 }
     );
   };
 
@@ -161,6 +188,23 @@ export default function MyPointsPage() {
           exportFileName="historico-xcoins"
         />
 
+        {expiringPoints && expiringPoints.length > 0 && (
+          <Alert className="mb-6 border-amber-200 bg-amber-50 text-amber-800">
+            <Hourglass className="h-4 w-4" />
+            <AlertTitle>xCoins a expirar</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-1 space-y-1">
+                {expiringPoints.map((entry) => (
+                  <li key={entry.expiresAt.toString()} className="flex items-center">
+                    <Clock className="h-3.5 w-3.5 mr-2" />
+                    {entry.points} xCoins expirando em {formatShortDate(entry.expiresAt.toString())}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           {/* Card de saldo atual */}
           <Card>
@@ -221,6 +265,8 @@ export default function MyPointsPage() {
                   <SelectItem value="earned">xCoins ganhos</SelectItem>
                   <SelectItem value="spent">xCoins gastos</SelectItem>
                   <SelectItem value="adjusted">Ajustes</SelectItem>
+                  <SelectItem value="expired">xCoins expirados</SelectItem>
+                  <SelectItem value="transferred">Reconhecimentos</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -272,6 +318,23 @@ export default function MyPointsPage() {
                               Ajuste
                             </Badge>
                           )}
+                          {transaction.transactionType === "expired" && (
+                            <Badge className="bg-muted-foreground text-white border-0">
+                              <Hourglass className="h-3.5 w-3.5 mr-1" />
+                              Expirado
+                            </Badge>
+                          )}
+                          {transaction.transactionType === "transferred" && (
+                            <Badge className="bg-secondary text-white border-0">
+                              <HandHeart className="h-3.5 w-3.5 mr-1" />
+                              Reconhecimento
+                            </Badge>
+                          )}
+                          {transaction.transactionType === "correction" && (
+                            <Badge variant="outline">
+                              Correção
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="text-right font-medium">
                           <span
@@ -21,14 +21,16 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, ArrowLeft, Package, CheckCircle, XCircle } from "lucide-react";
+import { Loader2, ArrowLeft, Package, CheckCircle, XCircle, Truck } from "lucide-react";
+import OrderStatusTimeline, { OrderStatusHistoryItem } from "@/components/OrderStatusTimeline";
+import { OrderStatus, formatOrderStatus } from "@shared/order-status";
 
 type OrderDetail = {
   order: {
     id: number;
     userId: number;
     totalPoints: number;
-    status: "pending" | "completed" | "cancelled";
+    status: OrderStatus;
     createdAt: string;
     updatedAt: string | null;
   };
@@ -36,6 +38,8 @@ type OrderDetail = {
     id: number;
     orderId: number;
     productId: number;
+    variantId: number | null;
+    variantLabel: string | null;
     quantity: number;
     pointsCost: number;
     product: {
@@ -48,6 +52,7 @@ type OrderDetail = {
       isActive: boolean;
     };
   }>;
+  history: OrderStatusHistoryItem[];
 };
 
 export default function OrderDetailPage() {
@@ -95,21 +100,31 @@ export default function OrderDetailPage() {
         return (
           <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
             <Package className="w-3.5 h-3.5 mr-1" />
-            Pendente
+            {formatOrderStatus(status)}
           </Badge>
         );
-      case "completed":
+      case "approved":
+      case "separated":
+      case "ready_for_pickup":
+        return (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+            <Truck className="w-3.5 h-3.5 mr-1" />
+            {formatOrderStatus(status)}
+          </Badge>
+        );
+      case "delivered":
         return (
           <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
             <CheckCircle className="w-3.5 h-3.5 mr-1" />
-            Concluído
+            {formatOrderStatus(status)}
           </Badge>
         );
       case "cancelled":
+      case "rejected":
         return (
           <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
             <XCircle className="w-3.5 h-3.5 mr-1" />
-            Cancelado
+            {formatOrderStatus(status)}
           </Badge>
         );
       default:
@@ -214,6 +229,9 @@ export default function OrderDetailPage() {
                           )}
                           <div>
                             <div>{item.product.name}</div>
+                            {item.variantLabel && (
+                              <div className="text-xs text-secondary">{item.variantLabel}</div>
+                            )}
                             <div className="text-xs text-muted-foreground truncate max-w-[250px]">
                               {item.product.description}
                             </div>
@@ -241,9 +259,7 @@ export default function OrderDetailPage() {
                 <p className="text-sm text-muted-foreground">
                   Status atual: {orderDetail.order.status === "pending"
                     ? "Pendente de confirmação"
-                    : orderDetail.order.status === "completed"
-                      ? "Concluído"
-                      : "Cancelado"}
+                    : formatOrderStatus(orderDetail.order.status)}
                 </p>
               </div>
               <div className="mt-4 sm:mt-0 flex flex-col items-end">
@@ -252,6 +268,13 @@ export default function OrderDetailPage() {
                 </div>
               </div>
             </div>
+
+            <Separator />
+
+            <div>
+              <h3 className="text-lg font-medium mb-4 text-primary">Acompanhamento</h3>
+              <OrderStatusTimeline history={orderDetail.history || []} />
+            </div>
           </CardContent>
         </Card>
       </div>
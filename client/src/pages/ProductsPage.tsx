@@ -1,9 +1,13 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { apiRequest } from "@/lib/queryClient";
 import Layout from "@/components/Layout";
-import { Product } from "@shared/schema";
+import { CatalogProduct } from "@shared/schema";
+import { variantPointsCost } from "@shared/product-variants";
 import { 
   Card, 
   CardContent, 
@@ -13,54 +17,68 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, ShoppingCart, Tag, Package } from "lucide-react";
+import { Loader2, ShoppingCart, Tag, Package, Heart } from "lucide-react";
 import DataTableHeader from "@/components/DataTableHeader";
+import ProductImageCarousel from "@/components/ProductImageCarousel";
+import CatalogFilters, {
+  buildCatalogQueryString,
+  defaultCatalogFilters,
+  hasActiveCatalogFilters,
+  type CatalogFilterValues,
+} from "@/components/CatalogFilters";
 
 export default function ProductsPage() {
   const { user } = useAuth();
   const [location, navigate] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<CatalogFilterValues>(defaultCatalogFilters);
+  const { items: cartItems, addItemMutation } = useCart();
+  const wishlist = useWishlist();
 
-  // Buscar produtos
-  const { data: products, isLoading, error } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  // Buscar produtos conforme os filtros (a filtragem é feita no servidor).
+  // Os resultados anteriores são mantidos enquanto a nova consulta carrega.
+  const { data: catalog, isLoading, isFetching, error } = useQuery<CatalogProduct[]>({
+    queryKey: ["/api/products", filters],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/products?${buildCatalogQueryString(filters)}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
   });
 
-  // Função para redirecionar para a página de checkout
-  const openPurchaseDialog = (product: Product) => {
-    navigate(`/checkout/${product.id}`);
+  // Administradores também recebem os inativos; o catálogo mostra só os ativos
+  const products = catalog?.filter(product => product.isActive);
+  const filtersActive = hasActiveCatalogFilters(filters);
+
+  // Função para adicionar o produto ao carrinho
+  const addToCart = (product: CatalogProduct) => {
+    addItemMutation.mutate({ productId: product.id });
   };
   
-  // Filtrar produtos com base na pesquisa
-  const filteredProducts = useMemo(() => {
-    if (!products) return [];
-    
-    // Filtrar apenas produtos ativos
-    const activeProducts = products.filter(product => product.isActive);
-    
-    if (!searchQuery) {
-      return activeProducts;
-    }
-    
-    const query = searchQuery.toLowerCase();
-    return activeProducts.filter(product => 
-      // Pesquisa pelo nome
-      product.name.toLowerCase().includes(query) ||
-      // Pesquisa pela descrição
-      (product.description?.toLowerCase() || "").includes(query) ||
-      // Pesquisa pelo custo de pontos
-      product.pointsCost.toString().includes(query)
-    );
-  }, [products, searchQuery]);
+  // Quantidade do produto que já está no carrinho (somando todas as variações)
+  const getCartQuantity = (productId: number) => {
+    return cartItems
+      .filter(item => item.productId === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  };
+  
+  // Custos possíveis do produto, considerando o custo próprio de cada variação
+  const getPointsCosts = (product: CatalogProduct) => {
+    if (product.variants.length === 0) return [product.pointsCost];
+    return product.variants.map(variant => variantPointsCost(product, variant));
+  };
+  
+  const getMinPointsCost = (product: CatalogProduct) => Math.min(...getPointsCosts(product));
   
   // Função para gerar dados para exportação
   const getExportData = () => {
-    if (!filteredProducts) return [];
+    if (!products) return [];
     
-    return filteredProducts.map(product => ({
+    return products.map(product => ({
       ID: product.id,
       Nome: product.name,
       Descrição: product.description || "Sem descrição",
+      Categoria: product.category?.name || "Sem categoria",
+      Tags: product.tags.map(tag => tag.name).join(", "),
       'Custo (xCoins)': product.pointsCost,
       Estoque: product.stock,
       Status: product.isActive ? "Ativo" : "Inativo"
@@ -92,8 +110,8 @@ export default function ProductsPage() {
     );
   }
 
-  // Renderizar lista vazia
-  if (!products || products.length === 0) {
+  // Renderizar lista vazia (somente quando não há filtros aplicados)
+  if (!filtersActive && (!products || products.length === 0)) {
     return (
       <Layout>
         <div className="text-center">
@@ -121,41 +139,87 @@ export default function ProductsPage() {
         
         <DataTableHeader 
           title=""
-          onSearch={setSearchQuery}
+          onSearch={(search) => setFilters({ ...filters, search })}
           onExport={getExportData}
           exportFileName="catalogo-produtos"
         />
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 mt-6">
-          {filteredProducts.map((product) => (
+        <CatalogFilters filters={filters} onChange={setFilters} />
+
+        {products && products.length === 0 && (
+          <div className="text-center py-12">
+            <Package className="mx-auto h-12 w-12 text-secondary opacity-40" />
+            <h2 className="mt-4 text-lg font-medium text-primary">Nenhum produto encontrado</h2>
+            <p className="mt-2 text-muted-foreground">
+              Nenhum produto corresponde aos filtros selecionados.
+            </p>
+            <Button variant="outline" className="mt-4" onClick={() => setFilters(defaultCatalogFilters)}>
+              Limpar filtros
+            </Button>
+          </div>
+        )}
+
+        <div className={`grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 mt-6 transition-opacity ${isFetching ? "opacity-60" : ""}`}>
+          {products?.map((product) => (
             <Card key={product.id} className="overflow-hidden flex flex-col h-full">
               <div className="aspect-square relative bg-muted">
-                {product.imageUrl ? (
-                  <img
-                    src={product.imageUrl}
-                    alt={product.name}
-                    className="object-cover w-full h-full"
+                <ProductImageCarousel product={product} />
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute top-2 left-2 h-8 w-8 rounded-full bg-background/80 hover:bg-background"
+                  onClick={() => wishlist.toggleItem(product.id)}
+                  disabled={wishlist.isPending}
+                  title={wishlist.isWishlisted(product.id) ? "Remover da lista de desejos" : "Adicionar à lista de desejos"}
+                >
+                  <Heart
+                    className={`h-4 w-4 ${wishlist.isWishlisted(product.id) ? "fill-secondary text-secondary" : "text-muted-foreground"}`}
                   />
-                ) : (
-                  <div className="flex items-center justify-center h-full">
-                    <Package className="h-16 w-16 text-secondary opacity-50" />
-                  </div>
-                )}
+                </Button>
                 <Badge 
                   className="absolute top-2 right-2 font-medium" 
                   variant="secondary"
                 >
                   <Tag className="h-3.5 w-3.5 mr-1" />
-                  {product.pointsCost} xCoins
+                  {new Set(getPointsCosts(product)).size > 1 && "a partir de "}
+                  {getMinPointsCost(product)} xCoins
                 </Badge>
               </div>
               <CardHeader className="pb-2">
+                {product.category && (
+                  <button
+                    type="button"
+                    className="text-xs font-medium uppercase tracking-wide text-muted-foreground hover:text-primary text-left"
+                    onClick={() => setFilters({ ...filters, categoryId: product.category!.id.toString() })}
+                  >
+                    {product.category.name}
+                  </button>
+                )}
                 <CardTitle className="text-primary">{product.name}</CardTitle>
               </CardHeader>
               <CardContent className="pb-2 flex-grow">
                 <p className="text-sm text-muted-foreground line-clamp-3">
                   {product.description || 'Sem descrição disponível'}
                 </p>
+                {product.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {product.tags.map((tag) => (
+                      <Badge
+                        key={tag.id}
+                        variant="outline"
+                        className="cursor-pointer text-xs font-normal"
+                        onClick={() => setFilters({ ...filters, tag: tag.name })}
+                      >
+                        #{tag.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {product.variants.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {product.variants.length} {product.variants.length === 1 ? "variação" : "variações"} · escolha ao finalizar o pedido
+                  </p>
+                )}
                 {product.stock === 1 && (
                   <Badge variant="outline" className="mt-2 bg-destructive text-white border-destructive">
                     Último em estoque
@@ -171,15 +235,26 @@ export default function ProductsPage() {
                     Esgotado
                   </Badge>
                 )}
+                {product.stock === 0 && !wishlist.isWishlisted(product.id) && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Adicione à lista de desejos para ser avisado quando voltar ao estoque.
+                  </p>
+                )}
               </CardContent>
               <CardFooter>
                 <Button 
                   className="w-full" 
-                  onClick={() => openPurchaseDialog(product)}
-                  disabled={product.stock === 0 || (user?.points || 0) < product.pointsCost}
+                  onClick={() => addToCart(product)}
+                  disabled={
+                    addItemMutation.isPending ||
+                    product.stock <= getCartQuantity(product.id) ||
+                    (user?.points || 0) < getMinPointsCost(product)
+                  }
                 >
                   <ShoppingCart className="h-4 w-4 mr-2" />
-                  Trocar por xCoins
+                  {getCartQuantity(product.id) > 0
+                    ? `No carrinho (${getCartQuantity(product.id)})`
+                    : "Adicionar ao carrinho"}
                 </Button>
               </CardFooter>
             </Card>
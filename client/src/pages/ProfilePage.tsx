@@ -1,4 +1,4 @@
-import { useState, useRef, ChangeEvent } from "react";
+import { useState, useRef, useMemo, ChangeEvent } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,10 +6,15 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useUnits } from "@/hooks/use-units";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { passwordSchema, refinePasswordNotUsername } from "@shared/password-policy";
+import { formatUserRole } from "@shared/permissions";
+import PasswordRequirements from "@/components/PasswordRequirements";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import Layout from "@/components/Layout";
 import { Loader2, User as UserIcon, Upload, Trash2, Camera } from "lucide-react";
@@ -17,30 +22,41 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 
-// Definição do schema para validação
-const profileSchema = z.object({
-  displayName: z.string().min(3, "O nome de exibição deve ter pelo menos 3 caracteres").optional().nullable(),
-  unit: z.string().optional().nullable(),
-  currentPassword: z.string().min(1, "A senha atual é obrigatória"),
-});
+// Definição do schema para validação; a nova senha é opcional (em branco mantém a atual)
+// e não pode ser igual ao nome de usuário
+function createProfileSchema(username: string | undefined) {
+  return z.object({
+    displayName: z.string().min(3, "O nome de exibição deve ter pelo menos 3 caracteres").optional().nullable(),
+    currentPassword: z.string().min(1, "A senha atual é obrigatória"),
+    newPassword: z.union([z.literal(""), passwordSchema]).optional(),
+    confirmNewPassword: z.string().optional(),
+  }).refine((data) => !data.newPassword || data.newPassword === data.confirmNewPassword, {
+    message: "As senhas não coincidem",
+    path: ["confirmNewPassword"],
+  }).superRefine(refinePasswordNotUsername("newPassword", () => username));
+}
 
-type ProfileFormValues = z.infer<typeof profileSchema>;
+type ProfileFormValues = z.infer<ReturnType<typeof createProfileSchema>>;
 
 export default function ProfilePage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { getUnitPath } = useUnits();
+  const unitPath = getUnitPath(user?.unitId);
   const [showImageDialog, setShowImageDialog] = useState(false);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [isRemovingImage, setIsRemovingImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const profileSchema = useMemo(() => createProfileSchema(user?.username), [user?.username]);
   
   // Inicialização do formulário
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       displayName: user?.displayName || "",
-      unit: user?.unit || "",
       currentPassword: "",
+      newPassword: "",
+      confirmNewPassword: "",
     },
   });
   
@@ -63,12 +79,14 @@ export default function ProfilePage() {
       
       // Resetar campos de senha
       form.setValue("currentPassword", "");
+      form.setValue("newPassword", "");
+      form.setValue("confirmNewPassword", "");
     },
     onError: (error: any) => {
       console.error("Erro:", error);
       toast({
         title: "Erro ao atualizar perfil",
-        description: error.message || "Verifique sua senha atual e tente novamente",
+        description: getApiErrorMessage(error) || "Verifique sua senha atual e tente novamente",
         variant: "destructive",
       });
     },
@@ -153,10 +171,14 @@ export default function ProfilePage() {
     // Preparar os dados para envio
     const updateData: any = {
       displayName: data.displayName,
-      unit: data.unit,
       currentPassword: data.currentPassword,
     };
     
+    // Nova senha apenas se preenchida
+    if (data.newPassword) {
+      updateData.newPassword = data.newPassword;
+    }
+    
     // Adicionar informações da imagem se necessário
     if (imageUrl) {
       updateData.profileImageUrl = imageUrl;
@@ -220,11 +242,11 @@ export default function ProfilePage() {
                 <h3 className="text-xl font-medium">{user.displayName || user.username}</h3>
                 <p className="text-sm text-muted-foreground">{user.email}</p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {user.role === "admin" ? "Administrador" : "Funcionário"}
+                  {formatUserRole(user.role)}
                 </p>
-                {user.unit && (
+                {unitPath && (
                   <p className="text-sm mt-2 bg-muted px-2 py-1 rounded-md inline-block">
-                    Unidade: {user.unit}
+                    Unidade: {unitPath}
                   </p>
                 )}
               </div>
@@ -255,15 +277,15 @@ export default function ProfilePage() {
                   
                   <FormField
                     control={form.control}
-                    name="unit"
+                    name="currentPassword"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Unidade</FormLabel>
+                        <FormLabel>Senha Atual</FormLabel>
                         <FormControl>
-                          <Input placeholder="Ex: Matriz, Filial SP, Departamento RH" {...field} value={field.value || ""} />
+                          <Input type="password" {...field} />
                         </FormControl>
                         <FormDescription>
-                          Unidade ou departamento onde você trabalha
+                          Necessária para confirmar as alterações
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -272,20 +294,39 @@ export default function ProfilePage() {
                   
                   <FormField
                     control={form.control}
-                    name="currentPassword"
+                    name="newPassword"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Senha Atual</FormLabel>
+                        <FormLabel>Nova Senha</FormLabel>
                         <FormControl>
-                          <Input type="password" {...field} />
+                          <Input type="password" {...field} value={field.value || ""} />
                         </FormControl>
                         <FormDescription>
-                          Necessária para confirmar as alterações
+                          Deixe em branco para manter a senha atual
                         </FormDescription>
+                        {field.value && (
+                          <PasswordRequirements password={field.value} username={user.username} />
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  
+                  {form.watch("newPassword") && (
+                    <FormField
+                      control={form.control}
+                      name="confirmNewPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirme a Nova Senha</FormLabel>
+                          <FormControl>
+                            <Input type="password" {...field} value={field.value || ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                 </div>
                 
                 <div className="flex justify-end">
@@ -308,6 +349,8 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
         
+        <TwoFactorSettings />
+        
         {/* Dialog para gerenciar a foto de perfil */}
         <Dialog open={showImageDialog} onOpenChange={setShowImageDialog}>
           <DialogContent className="sm:max-w-md">
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
+import { useWishlist } from "@/hooks/use-wishlist";
+import Layout from "@/components/Layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Heart, Loader2, Package, ShoppingCart, Trash2 } from "lucide-react";
+
+export default function WishlistPage() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { items, isLoading, backInStockCount, removeItemMutation, acknowledgeMutation } = useWishlist();
+  const { items: cartItems, addItemMutation } = useCart();
+
+  // Os avisos de volta ao estoque continuam destacados durante esta visita,
+  // mas já são marcados como vistos no servidor
+  const [highlightedIds, setHighlightedIds] = useState<number[]>([]);
+  useEffect(() => {
+    if (backInStockCount > 0 && !acknowledgeMutation.isPending) {
+      setHighlightedIds(items.filter(item => item.backInStockAt !== null).map(item => item.id));
+      acknowledgeMutation.mutate();
+    }
+  }, [backInStockCount]);
+
+  const points = user?.points || 0;
+
+  const isInCart = (productId: number) => cartItems.some(item => item.productId === productId);
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Minha Lista de Desejos</h1>
+          <p className="text-muted-foreground mt-1">
+            Acompanhe os produtos que você quer e seja avisado quando voltarem ao estoque
+          </p>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="mx-auto h-12 w-12 text-secondary opacity-40" />
+            <h2 className="mt-4 text-lg font-medium text-primary">Sua lista de desejos está vazia</h2>
+            <p className="mt-2 text-muted-foreground">
+              Toque no coração de um produto do catálogo para acompanhá-lo aqui.
+            </p>
+            <Button variant="outline" className="mt-4" onClick={() => navigate("/")}>
+              Ver produtos
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => {
+              const { product } = item;
+              const missingPoints = Math.max(item.lowestPointsCost - points, 0);
+              const progress = Math.min((points / item.lowestPointsCost) * 100, 100);
+              const available = product.isActive && product.stock > 0;
+
+              return (
+                <Card
+                  key={item.id}
+                  className={highlightedIds.includes(item.id) ? "border-secondary ring-1 ring-secondary" : undefined}
+                >
+                  <CardContent className="flex flex-col sm:flex-row gap-4 p-4">
+                    <div className="h-24 w-24 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+                      {product.imageUrl ? (
+                        <img src={product.imageUrl} alt={product.name} className="h-full w-full object-cover" />
+                      ) : (
+                        <div className="flex h-full items-center justify-center">
+                          <Package className="h-8 w-8 text-secondary opacity-50" />
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex-1 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="font-semibold text-primary">{product.name}</h3>
+                        {highlightedIds.includes(item.id) && (
+                          <Badge className="bg-secondary text-white">Voltou ao estoque!</Badge>
+                        )}
+                        {!product.isActive ? (
+                          <Badge variant="outline">Indisponível</Badge>
+                        ) : product.stock === 0 ? (
+                          <Badge variant="outline" className="bg-destructive text-white border-destructive">
+                            Esgotado
+                          </Badge>
+                        ) : null}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {product.pointsCost !== item.lowestPointsCost && "a partir de "}
+                        <span className="font-medium text-foreground">{item.lowestPointsCost} xCoins</span>
+                      </p>
+                      <div className="space-y-1">
+                        <Progress value={progress} className="h-2" />
+                        <p className="text-xs text-muted-foreground">
+                          {missingPoints > 0
+                            ? `Você precisa de mais ${missingPoints} xCoins (${points} de ${item.lowestPointsCost})`
+                            : "Você já tem xCoins suficientes para este produto"}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex sm:flex-col gap-2 sm:justify-center">
+                      <Button
+                        size="sm"
+                        onClick={() => addItemMutation.mutate({ productId: product.id })}
+                        disabled={!available || missingPoints > 0 || isInCart(product.id) || addItemMutation.isPending}
+                      >
+                        <ShoppingCart className="h-4 w-4 mr-2" />
+                        {isInCart(product.id) ? "No carrinho" : "Adicionar ao carrinho"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => removeItemMutation.mutate(product.id)}
+                        disabled={removeItemMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Remover
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
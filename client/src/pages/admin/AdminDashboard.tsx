@@ -4,6 +4,7 @@ import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/Layout";
 import { User, Product, Order } from "@shared/schema";
+import { PermissionEnum } from "@shared/permissions";
 import {
   Card,
   CardContent,
@@ -41,6 +42,7 @@ import {
   ChevronRight,
   Plus
 } from "lucide-react";
+import { formatOrderStatus } from "@shared/order-status";
 
 export default function AdminDashboard() {
   const { toast } = useToast();
@@ -50,10 +52,15 @@ export default function AdminDashboard() {
   const [pointsToAdd, setPointsToAdd] = useState(0);
   const [pointsDescription, setPointsDescription] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const { can } = useAuth();
+  const canReadUsers = can(PermissionEnum.USERS_READ, PermissionEnum.USERS_READ_UNIT);
+  const canReadOrders = can(PermissionEnum.ORDERS_READ);
+  const canGrantPoints = can(PermissionEnum.POINTS_GRANT, PermissionEnum.POINTS_GRANT_UNIT);
 
   // Buscar funcionários
   const { data: employees, isLoading: isLoadingEmployees } = useQuery<User[]>({
     queryKey: ["/api/admin/employees"],
+    enabled: canReadUsers,
   });
 
   // Buscar produtos
@@ -64,6 +71,7 @@ export default function AdminDashboard() {
   // Buscar todos os pedidos usando o endpoint de admin
   const { data: recentOrders, isLoading: isLoadingOrders } = useQuery<Order[]>({
     queryKey: ["/api/admin/orders"],
+    enabled: canReadOrders,
   });
 
   // Função para formatar data
@@ -82,19 +90,28 @@ export default function AdminDashboard() {
       case "pending":
         return (
           <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
-            Pendente
+            {formatOrderStatus(status)}
           </Badge>
         );
-      case "completed":
+      case "approved":
+      case "separated":
+      case "ready_for_pickup":
+        return (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+            {formatOrderStatus(status)}
+          </Badge>
+        );
+      case "delivered":
         return (
           <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
-            Concluído
+            {formatOrderStatus(status)}
           </Badge>
         );
       case "cancelled":
+      case "rejected":
         return (
           <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
-            Cancelado
+            {formatOrderStatus(status)}
           </Badge>
         );
       default:
@@ -184,20 +201,22 @@ export default function AdminDashboard() {
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {/* Card de funcionários */}
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <Users className="mr-2 h-5 w-5 text-primary" />
-              Funcionários
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">{stats.totalEmployees}</div>
-            <p className="text-muted-foreground text-sm mt-1">
-              Total de funcionários
-            </p>
-          </CardContent>
-        </Card>
+        {canReadUsers && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg flex items-center">
+                <Users className="mr-2 h-5 w-5 text-primary" />
+                Funcionários
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{stats.totalEmployees}</div>
+              <p className="text-muted-foreground text-sm mt-1">
+                Total de funcionários
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Card de produtos */}
         <Card>
@@ -215,170 +234,180 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
-        {/* Card de pedidos */}
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <ShoppingCart className="mr-2 h-5 w-5 text-primary" />
-              Pedidos
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">{stats.totalOrders}</div>
-            <p className="text-muted-foreground text-sm mt-1">
-              Total de pedidos
-            </p>
-          </CardContent>
-        </Card>
+        {canReadOrders && (
+          <>
+            {/* Card de pedidos */}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <ShoppingCart className="mr-2 h-5 w-5 text-primary" />
+                  Pedidos
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{stats.totalOrders}</div>
+                <p className="text-muted-foreground text-sm mt-1">
+                  Total de pedidos
+                </p>
+              </CardContent>
+            </Card>
 
-        {/* Card de pedidos pendentes */}
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <ShoppingCart className="mr-2 h-5 w-5 text-primary" />
-              Pendentes
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">{stats.pendingOrders}</div>
-            <p className="text-muted-foreground text-sm mt-1">
-              Pedidos aguardando aprovação
-            </p>
-          </CardContent>
-        </Card>
+            {/* Card de pedidos pendentes */}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <ShoppingCart className="mr-2 h-5 w-5 text-primary" />
+                  Pendentes
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{stats.pendingOrders}</div>
+                <p className="text-muted-foreground text-sm mt-1">
+                  Pedidos aguardando aprovação
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Funcionários recentes */}
-        <Card>
-          <CardHeader className="pb-2 flex flex-row items-center justify-between">
-            <div>
-              <CardTitle className="text-lg">Funcionários</CardTitle>
-              <CardDescription>
-                Gerenciar pontos dos funcionários
-              </CardDescription>
-            </div>
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => navigate("/admin/employees")}
-            >
-              Ver todos
-              <ChevronRight className="ml-1 h-4 w-4" />
-            </Button>
-          </CardHeader>
-          <CardContent>
-            {employees && employees.length > 0 ? (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Nome</TableHead>
-                      <TableHead>Pontos</TableHead>
-                      <TableHead className="text-right">Ações</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {employees.slice(0, 5).map((employee) => (
-                      <TableRow key={employee.id}>
-                        <TableCell>
-                          <div>
-                            <p className="font-medium">
-                              {employee.displayName || employee.username}
-                            </p>
-                            <p className="text-sm text-muted-foreground">
-                              {employee.email}
-                            </p>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center">
-                            <Award className="mr-1 h-4 w-4 text-primary" />
-                            {employee.points}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => openAddPointsModal(employee)}
-                          >
-                            <Plus className="mr-1 h-4 w-4" />
-                            Adicionar Pontos
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            ) : (
-              <div className="text-center py-6">
-                <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                <h3 className="mt-4 text-lg font-medium">Nenhum funcionário encontrado</h3>
-                <p className="mt-2 text-muted-foreground max-w-md mx-auto">
-                  Não há funcionários registrados no sistema.
-                </p>
+        {canReadUsers && (
+          <Card>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Funcionários</CardTitle>
+                <CardDescription>
+                  Gerenciar pontos dos funcionários
+                </CardDescription>
               </div>
-            )}
-          </CardContent>
-        </Card>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate("/admin/employees")}
+              >
+                Ver todos
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {employees && employees.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nome</TableHead>
+                        <TableHead>Pontos</TableHead>
+                        <TableHead className="text-right">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {employees.slice(0, 5).map((employee) => (
+                        <TableRow key={employee.id}>
+                          <TableCell>
+                            <div>
+                              <p className="font-medium">
+                                {employee.displayName || employee.username}
+                              </p>
+                              <p className="text-sm text-muted-foreground">
+                                {employee.email}
+                              </p>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center">
+                              <Award className="mr-1 h-4 w-4 text-primary" />
+                              {employee.points}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {canGrantPoints && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openAddPointsModal(employee)}
+                              >
+                                <Plus className="mr-1 h-4 w-4" />
+                                Adicionar Pontos
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center py-6">
+                  <Users className="mx-auto h-12 w-12 text-muted-foreground" />
+                  <h3 className="mt-4 text-lg font-medium">Nenhum funcionário encontrado</h3>
+                  <p className="mt-2 text-muted-foreground max-w-md mx-auto">
+                    Não há funcionários registrados no sistema.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Pedidos recentes */}
-        <Card>
-          <CardHeader className="pb-2 flex flex-row items-center justify-between">
-            <div>
-              <CardTitle className="text-lg">Pedidos Recentes</CardTitle>
-              <CardDescription>
-                Últimos pedidos realizados
-              </CardDescription>
-            </div>
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => navigate("/admin/orders")}
-            >
-              Ver todos
-              <ChevronRight className="ml-1 h-4 w-4" />
-            </Button>
-          </CardHeader>
-          <CardContent>
-            {recentOrders && recentOrders.length > 0 ? (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Nº</TableHead>
-                      <TableHead>Data</TableHead>
-                      <TableHead>Pontos</TableHead>
-                      <TableHead>Status</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {recentOrders.slice(0, 5).map((order) => (
-                      <TableRow key={order.id}>
-                        <TableCell>#{order.id}</TableCell>
-                        <TableCell>
-                          {formatDate(order.createdAt.toString())}
-                        </TableCell>
-                        <TableCell>{order.totalPoints}</TableCell>
-                        <TableCell>{getStatusBadge(order.status)}</TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            ) : (
-              <div className="text-center py-6">
-                <ShoppingCart className="mx-auto h-12 w-12 text-muted-foreground" />
-                <h3 className="mt-4 text-lg font-medium">Nenhum pedido encontrado</h3>
-                <p className="mt-2 text-muted-foreground max-w-md mx-auto">
-                  Não há pedidos registrados no sistema.
-                </p>
+        {canReadOrders && (
+          <Card>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Pedidos Recentes</CardTitle>
+                <CardDescription>
+                  Últimos pedidos realizados
+                </CardDescription>
               </div>
-            )}
-          </CardContent>
-        </Card>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate("/admin/orders")}
+              >
+                Ver todos
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {recentOrders && recentOrders.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nº</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Pontos</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {recentOrders.slice(0, 5).map((order) => (
+                        <TableRow key={order.id}>
+                          <TableCell>#{order.id}</TableCell>
+                          <TableCell>
+                            {formatDate(order.createdAt.toString())}
+                          </TableCell>
+                          <TableCell>{order.totalPoints}</TableCell>
+                          <TableCell>{getStatusBadge(order.status)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center py-6">
+                  <ShoppingCart className="mx-auto h-12 w-12 text-muted-foreground" />
+                  <h3 className="mt-4 text-lg font-medium">Nenhum pedido encontrado</h3>
+                  <p className="mt-2 text-muted-foreground max-w-md mx-auto">
+                    Não há pedidos registrados no sistema.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Modal para adicionar pontos */}
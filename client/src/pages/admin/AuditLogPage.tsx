@@ -0,0 +1,400 @@
+import { useState, useMemo } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AUDIT_ENTITIES,
+  type AuditEntityType,
+  type AuditLogActor,
+  type AuditLogEntry,
+  type AuditLogResult,
+} from "@shared/schema";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Eye, X, AlertTriangle } from "lucide-react";
+import DataTableHeader from "@/components/DataTableHeader";
+
+// Layout
+import Layout from "@/components/Layout";
+
+// As datas chegam do servidor como texto
+type AuditLogRow = Omit<AuditLogEntry, "createdAt"> & { createdAt: string };
+type AuditLogResponse = Omit<AuditLogResult, "entries"> & { entries: AuditLogRow[] };
+
+type AuditFilters = {
+  actorId: string;
+  entityType: string;
+  from: string;
+  to: string;
+};
+
+const defaultFilters: AuditFilters = {
+  actorId: "all",
+  entityType: "all",
+  from: "",
+  to: "",
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: "Usuário",
+  login_lockout: "Bloqueio de login",
+  points: "Pontos",
+  point_rule: "Premiação automática",
+  product: "Produto",
+  product_variant: "Variação de produto",
+  product_image: "Imagem de produto",
+  category: "Categoria",
+  order: "Pedido",
+  unit: "Unidade",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  "user.create": "Cadastro de usuário",
+  "user.import": "Importação de funcionários",
+  "user.update": "Alteração de usuário",
+  "user.deactivate": "Desativação de usuário",
+  "user.reactivate": "Reativação de usuário",
+  "user.2fa_reset": "Redefinição do 2FA",
+  "login_lockout.delete": "Desbloqueio de acesso",
+  "points.grant": "Ajuste de pontos",
+  "points.bulk_grant": "Distribuição em lote",
+  "points.correction": "Correção da conciliação de pontos",
+  "point_rule.create": "Criação de regra",
+  "point_rule.update": "Alteração de regra",
+  "point_rule.delete": "Exclusão de regra",
+  "point_rule.run": "Execução de regras",
+  "product.create": "Criação de produto",
+  "product.update": "Alteração de produto",
+  "product.delete": "Exclusão de produto",
+  "product_variant.create": "Criação de variação",
+  "product_variant.update": "Alteração de variação",
+  "product_variant.delete": "Exclusão de variação",
+  "product_variant.deactivate": "Desativação de variação",
+  "product_image.create": "Envio de imagens",
+  "product_image.reorder": "Reordenação de imagens",
+  "product_image.set_primary": "Troca da imagem principal",
+  "product_image.delete": "Exclusão de imagem",
+  "category.create": "Criação de categoria",
+  "category.update": "Alteração de categoria",
+  "category.delete": "Exclusão de categoria",
+  "order.status_change": "Mudança de status do pedido",
+  "unit.create": "Criação de unidade",
+  "unit.update": "Alteração de unidade",
+  "unit.delete": "Exclusão de unidade",
+};
+
+const formatAction = (action: string) => ACTION_LABELS[action] ?? action;
+
+// Valores do diff em texto curto: objetos e listas viram JSON
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Converte os filtros nos parâmetros aceitos por GET /api/admin/audit-log
+function buildAuditQueryString(filters: AuditFilters): string {
+  const params = new URLSearchParams();
+  if (filters.actorId !== "all") params.set("actorId", filters.actorId);
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params.toString();
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(defaultFilters);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogRow | null>(null);
+
+  // Filtros por autor, entidade e período são aplicados no servidor
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: ["/api/admin/audit-log", filters],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/audit-log?${buildAuditQueryString(filters)}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+  const entries = data?.entries;
+  const isTruncated = data?.truncated ?? false;
+
+  const { data: actors } = useQuery<AuditLogActor[]>({
+    queryKey: ["/api/admin/audit-log/actors"],
+  });
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const hasActiveFilters = buildAuditQueryString(filters) !== "";
+
+  // A pesquisa por texto refina o resultado já carregado
+  const filteredEntries = useMemo(() => {
+    if (!entries) return [];
+
+    if (!searchQuery) {
+      return entries;
+    }
+
+    const query = searchQuery.toLowerCase();
+    return entries.filter(entry =>
+      entry.actorName.toLowerCase().includes(query) ||
+      entry.action.toLowerCase().includes(query) ||
+      formatAction(entry.action).toLowerCase().includes(query) ||
+      (entry.description?.toLowerCase() || "").includes(query) ||
+      (entry.ipAddress || "").includes(query) ||
+      (entry.entityId?.toString() || "").includes(query)
+    );
+  }, [entries, searchQuery]);
+
+  // Função para gerar dados para exportação
+  const getExportData = () => {
+    return filteredEntries.map(entry => ({
+      Data: format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR }),
+      Autor: entry.actorName,
+      Ação: formatAction(entry.action),
+      Entidade: ENTITY_LABELS[entry.entityType] ?? entry.entityType,
+      'ID da Entidade': entry.entityId ?? "",
+      Descrição: entry.description ?? "",
+      Alterações: Object.keys(entry.changes).length > 0 ? JSON.stringify(entry.changes) : "",
+      IP: entry.ipAddress ?? "",
+    }));
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <DataTableHeader
+          title="Auditoria"
+          description="Histórico das ações realizadas na área administrativa"
+          onSearch={setSearchQuery}
+          onExport={getExportData}
+          exportFileName="log-de-auditoria"
+        />
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+              <div className="space-y-2">
+                <Label>Autor</Label>
+                <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Todos" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {actors?.map((actor) => (
+                      <SelectItem key={actor.id} value={actor.id.toString()}>{actor.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entidade</Label>
+                <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Todas" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {AUDIT_ENTITIES.map((entityType) => (
+                      <SelectItem key={entityType} value={entityType}>{ENTITY_LABELS[entityType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">De</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => updateFilter("from", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">Até</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => updateFilter("to", e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setFilters(defaultFilters)}
+                disabled={!hasActiveFilters}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Limpar filtros
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* O servidor devolve só os registros mais recentes; a exportação também fica limitada a eles */}
+        {isTruncated && (
+          <Alert className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Exibindo apenas os {entries?.length} registros mais recentes</AlertTitle>
+            <AlertDescription>
+              Há registros mais antigos que não foram carregados nem entram na exportação.
+              Restrinja o período ou os filtros para consultá-los.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredEntries.length > 0 ? (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableCaption>
+                  {filteredEntries.length}
+                  {filteredEntries.length === 1
+                    ? ' registro encontrado'
+                    : ' registros encontrados'}
+                </TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Autor</TableHead>
+                    <TableHead>Ação</TableHead>
+                    <TableHead>Entidade</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead>Alterações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>{entry.actorName}</TableCell>
+                      <TableCell>{formatAction(entry.action)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {ENTITY_LABELS[entry.entityType] ?? entry.entityType}
+                          {entry.entityId !== null && ` #${entry.entityId}`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <span className="line-clamp-2">{entry.description || "—"}</span>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{entry.ipAddress || "—"}</TableCell>
+                      <TableCell>
+                        {Object.keys(entry.changes).length > 0 ? (
+                          <Button variant="outline" size="sm" onClick={() => setSelectedEntry(entry)}>
+                            <Eye className="h-4 w-4 mr-1" />
+                            {Object.keys(entry.changes).length} campo(s)
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nenhum registro encontrado</CardTitle>
+              <CardDescription>
+                {hasActiveFilters || searchQuery
+                  ? "Nenhuma ação corresponde aos filtros selecionados."
+                  : "Ainda não há ações registradas na área administrativa."}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+
+      {/* Dialog com os valores anteriores e novos de cada campo */}
+      <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry ? formatAction(selectedEntry.action) : ""}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && (
+                <>
+                  {selectedEntry.actorName} em{" "}
+                  {format(new Date(selectedEntry.createdAt), "dd/MM/yyyy 'às' HH:mm:ss", { locale: ptBR })}
+                  {selectedEntry.description && ` — ${selectedEntry.description}`}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedEntry && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Antes</TableHead>
+                  <TableHead>Depois</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(selectedEntry.changes).map(([field, change]) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium">{field}</TableCell>
+                    <TableCell className="break-all text-muted-foreground">{formatValue(change.before)}</TableCell>
+                    <TableCell className="break-all">{formatValue(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,356 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BulkPointsPreview } from "@shared/schema";
+import * as XLSX from "xlsx";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Loader2,
+  Upload,
+  Download,
+  CheckCircle,
+  AlertTriangle,
+  FileSpreadsheet,
+} from "lucide-react";
+
+// Layout
+import Layout from "@/components/Layout";
+
+export default function BulkPointsPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BulkPointsPreview | null>(null);
+  const [expiresInMonths, setExpiresInMonths] = useState("12");
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+
+  // Baixar modelo de planilha
+  const handleDownloadTemplate = () => {
+    const ws = XLSX.utils.json_to_sheet([
+      { usuario: "joao.silva", pontos: 100, descricao: "Bônus de desempenho" },
+      { usuario: "maria@empresa.com", pontos: -20, descricao: "Ajuste de lançamento" },
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Pontos");
+    XLSX.writeFile(wb, "modelo-distribuicao-xcoins.xlsx");
+  };
+
+  // Mutação para pré-visualizar a planilha
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const res = await fetch('/api/admin/points/bulk/preview', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || 'Erro ao ler planilha');
+      }
+
+      return await res.json() as BulkPointsPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setShowOnlyErrors(data.invalidRows > 0);
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        title: "Erro ao ler planilha",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para aplicar a distribuição (tudo ou nada)
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/admin/points/bulk/commit', {
+        method: 'POST',
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: preview!.rows.map(({ rowNumber, identifier, points, description }) => ({
+            rowNumber,
+            identifier,
+            points,
+            description,
+          })),
+          expiresInMonths: expiresInMonths === "never" ? null : parseInt(expiresInMonths),
+        }),
+        credentials: 'include'
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        // Se a revalidação encontrou erros, atualizar o relatório
+        if (data.preview) {
+          setPreview(data.preview);
+          setShowOnlyErrors(true);
+        }
+        throw new Error(data.message || 'Erro ao distribuir pontos');
+      }
+
+      return data as { applied: number; totalCredited: number; totalDebited: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/employees"] });
+      handleReset();
+      toast({
+        title: "Distribuição concluída",
+        description: `${data.applied} lançamentos aplicados: ${data.totalCredited} xCoins creditados e ${data.totalDebited} debitados.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Nenhum ponto foi distribuído",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setSelectedFile(file);
+    setPreview(null);
+    if (file) {
+      previewMutation.mutate(file);
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setPreview(null);
+    setShowOnlyErrors(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const visibleRows = preview
+    ? preview.rows.filter((row) => !showOnlyErrors || row.errors.length > 0)
+    : [];
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+              Distribuição em Lote
+            </h1>
+            <p className="text-muted-foreground">
+              Credite ou debite xCoins de vários funcionários a partir de uma planilha
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Baixar modelo
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Planilha</CardTitle>
+            <CardDescription>
+              Arquivo CSV ou XLSX com as colunas <strong>usuario</strong> (nome de usuário ou email),{" "}
+              <strong>pontos</strong> (negativos para débito) e <strong>descricao</strong>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-points-file">Arquivo</Label>
+              <Input
+                id="bulk-points-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleFileChange}
+                disabled={previewMutation.isPending || commitMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Validade dos créditos</Label>
+              <Select value={expiresInMonths} onValueChange={setExpiresInMonths}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a validade" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="12">12 meses</SelectItem>
+                  <SelectItem value="6">6 meses</SelectItem>
+                  <SelectItem value="3">3 meses</SelectItem>
+                  <SelectItem value="never">Não expiram</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {previewMutation.isPending && (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!preview && !previewMutation.isPending && (
+          <Card>
+            <CardHeader className="text-center">
+              <FileSpreadsheet className="mx-auto h-12 w-12 text-secondary opacity-40" />
+              <CardTitle>Nenhuma planilha carregada</CardTitle>
+              <CardDescription>
+                Selecione um arquivo para conferir os lançamentos antes de aplicá-los.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        {preview && (
+          <>
+            {preview.invalidRows > 0 ? (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{preview.invalidRows} linha(s) com erro</AlertTitle>
+                <AlertDescription>
+                  Corrija a planilha e envie-a novamente. Nenhum lançamento é aplicado enquanto houver erros.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert className="mb-4">
+                <CheckCircle className="h-4 w-4" />
+                <AlertTitle>Planilha válida</AlertTitle>
+                <AlertDescription>
+                  {preview.validRows} lançamentos: {preview.totalCredited} xCoins a creditar e{" "}
+                  {preview.totalDebited} a debitar.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Pré-visualização</CardTitle>
+                  <CardDescription>
+                    {selectedFile?.name} · {preview.rows.length} linhas
+                  </CardDescription>
+                </div>
+                {preview.invalidRows > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setShowOnlyErrors(!showOnlyErrors)}>
+                    {showOnlyErrors ? "Mostrar todas" : "Mostrar só erros"}
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[80px]">Linha</TableHead>
+                      <TableHead>Usuário</TableHead>
+                      <TableHead>xCoins</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead>Situação</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-destructive/5" : ""}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>
+                          {row.userId ? (
+                            <div>
+                              <p className="font-medium">{row.displayName || row.username}</p>
+                              <p className="text-xs text-muted-foreground">{row.identifier}</p>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">{row.identifier || "—"}</span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            typeof row.points === "number"
+                              ? row.points > 0 ? "text-green-600 font-medium" : "text-red-500 font-medium"
+                              : ""
+                          }
+                        >
+                          {typeof row.points === "number" && row.points > 0 ? `+${row.points}` : row.points || "—"}
+                        </TableCell>
+                        <TableCell>{row.description || "—"}</TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="outline" className="text-green-600 border-green-600">OK</Badge>
+                          ) : (
+                            <ul className="text-sm text-destructive space-y-1">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={handleReset} disabled={commitMutation.isPending}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={preview.invalidRows > 0 || preview.validRows === 0 || commitMutation.isPending}
+              >
+                {commitMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Aplicando...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Aplicar {preview.validRows} lançamentos
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
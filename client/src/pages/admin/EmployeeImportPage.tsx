@@ -0,0 +1,379 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { EmployeeImportAction, EmployeeImportResult } from "@shared/schema";
+import * as XLSX from "xlsx";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Loader2,
+  Upload,
+  Download,
+  CheckCircle,
+  AlertTriangle,
+  ArrowLeft,
+  FileSpreadsheet,
+} from "lucide-react";
+
+// Layout
+import Layout from "@/components/Layout";
+
+// Rótulos e cores das ações da importação
+const actionLabels: Record<EmployeeImportAction, string> = {
+  create: "Criar",
+  update: "Atualizar",
+  unchanged: "Sem alterações",
+  deactivate: "Desativar",
+  error: "Erro",
+};
+
+const actionClassNames: Record<EmployeeImportAction, string> = {
+  create: "text-green-600 border-green-600",
+  update: "text-blue-600 border-blue-600",
+  unchanged: "text-muted-foreground",
+  deactivate: "text-amber-600 border-amber-600",
+  error: "text-destructive border-destructive",
+};
+
+export default function EmployeeImportPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [result, setResult] = useState<EmployeeImportResult | null>(null);
+
+  // Envia a planilha; com dryRun apenas calcula o plano de importação
+  const sendSpreadsheet = async (file: File, dryRun: boolean, deactivate: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('dryRun', String(dryRun));
+    formData.append('deactivateMissing', String(deactivate));
+
+    const res = await fetch('/api/admin/employees/import', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include'
+    });
+
+    const data = await res.json();
+    if (!res.ok) {
+      // Se a revalidação encontrou erros, atualizar o relatório
+      if (data.preview) {
+        setResult(data.preview);
+      }
+      throw new Error(data.message || 'Erro ao importar planilha');
+    }
+
+    return data as EmployeeImportResult;
+  };
+
+  // Mutação para pré-visualizar a importação
+  const previewMutation = useMutation({
+    mutationFn: ({ file, deactivate }: { file: File; deactivate: boolean }) =>
+      sendSpreadsheet(file, true, deactivate),
+    onSuccess: (data) => {
+      setResult(data);
+    },
+    onError: (error: Error) => {
+      setResult(null);
+      toast({
+        title: "Erro ao ler planilha",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para aplicar a importação (tudo ou nada)
+  const importMutation = useMutation({
+    mutationFn: () => sendSpreadsheet(selectedFile!, false, deactivateMissing),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/employees"] });
+      setResult(data);
+      handleDownloadReport(data);
+      toast({
+        title: "Importação concluída",
+        description: `${data.created} criados, ${data.updated} atualizados e ${data.deactivated} desativados. O relatório foi baixado.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Nenhum funcionário foi importado",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Baixar modelo de planilha
+  const handleDownloadTemplate = () => {
+    const ws = XLSX.utils.json_to_sheet([
+      { usuario: "joao.silva", email: "joao.silva@empresa.com", nome: "João Silva", unidade: "São Paulo", funcao: "funcionario" },
+      { usuario: "maria.souza", email: "maria.souza@empresa.com", nome: "Maria Souza", unidade: "Recife", funcao: "administrador" },
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Funcionarios");
+    XLSX.writeFile(wb, "modelo-importacao-funcionarios.xlsx");
+  };
+
+  // Baixar relatório da importação (inclui as senhas temporárias dos novos usuários)
+  const handleDownloadReport = (report: EmployeeImportResult) => {
+    const ws = XLSX.utils.json_to_sheet(report.rows.map((row) => ({
+      "Linha": row.rowNumber ?? "",
+      "Usuário": row.username,
+      "Email": row.email,
+      "Nome": row.displayName || "",
+      "Unidade": row.unit || "",
+      "Função": row.role,
+      "Ação": actionLabels[row.action],
+      "Alterações": row.changes.join("; "),
+      "Erros": row.errors.join("; "),
+      "Senha temporária": row.temporaryPassword || "",
+    })));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Resultado");
+    XLSX.writeFile(wb, `importacao-funcionarios-${new Date().toISOString().slice(0, 10)}.xlsx`);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setSelectedFile(file);
+    setResult(null);
+    if (file) {
+      previewMutation.mutate({ file, deactivate: deactivateMissing });
+    }
+  };
+
+  const handleDeactivateMissingChange = (checked: boolean) => {
+    setDeactivateMissing(checked);
+    if (selectedFile && !result?.applied) {
+      previewMutation.mutate({ file: selectedFile, deactivate: checked });
+    }
+  };
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const hasChanges = !!result && result.created + result.updated + result.deactivated > 0;
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-6">
+          <div>
+            <Link href="/admin/employees">
+              <Button variant="ghost" size="sm" className="mb-2 -ml-2">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Voltar
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+              Importar Funcionários
+            </h1>
+            <p className="text-muted-foreground">
+              Crie, atualize e desative funcionários a partir do quadro enviado pelo RH
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Baixar modelo
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Planilha</CardTitle>
+            <CardDescription>
+              Arquivo CSV ou XLSX com as colunas <strong>usuario</strong>, <strong>email</strong>,{" "}
+              <strong>nome</strong>, <strong>unidade</strong> e <strong>funcao</strong>. Campos em branco
+              mantêm o valor atual do funcionário.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="employee-import-file">Arquivo</Label>
+              <Input
+                id="employee-import-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleFileChange}
+                disabled={previewMutation.isPending || importMutation.isPending}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="deactivate-missing">Desativar ausentes</Label>
+                <p className="text-sm text-muted-foreground">
+                  Funcionários que não constam na planilha perdem o acesso
+                </p>
+              </div>
+              <Switch
+                id="deactivate-missing"
+                checked={deactivateMissing}
+                onCheckedChange={handleDeactivateMissingChange}
+                disabled={previewMutation.isPending || importMutation.isPending || !!result?.applied}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {previewMutation.isPending && (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!result && !previewMutation.isPending && (
+          <Card>
+            <CardHeader className="text-center">
+              <FileSpreadsheet className="mx-auto h-12 w-12 text-secondary opacity-40" />
+              <CardTitle>Nenhuma planilha carregada</CardTitle>
+              <CardDescription>
+                Selecione um arquivo para conferir as alterações antes de aplicá-las.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        {result && !previewMutation.isPending && (
+          <>
+            {result.invalidRows > 0 ? (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{result.invalidRows} linha(s) com erro</AlertTitle>
+                <AlertDescription>
+                  Corrija a planilha e envie-a novamente. Nenhuma alteração é aplicada enquanto houver erros.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert className="mb-4">
+                <CheckCircle className="h-4 w-4" />
+                <AlertTitle>{result.applied ? "Importação aplicada" : "Planilha válida"}</AlertTitle>
+                <AlertDescription>
+                  {result.created} a criar, {result.updated} a atualizar, {result.unchanged} sem alterações
+                  e {result.deactivated} a desativar.
+                  {result.applied && " Guarde o relatório: as senhas temporárias não são exibidas novamente."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{result.applied ? "Resultado" : "Pré-visualização"}</CardTitle>
+                <CardDescription>{selectedFile?.name}</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[80px]">Linha</TableHead>
+                      <TableHead>Usuário</TableHead>
+                      <TableHead>Unidade</TableHead>
+                      <TableHead>Ação</TableHead>
+                      <TableHead>Detalhes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row) => (
+                      <TableRow
+                        key={`${row.rowNumber ?? "missing"}-${row.username}`}
+                        className={row.errors.length > 0 ? "bg-destructive/5" : ""}
+                      >
+                        <TableCell>{row.rowNumber ?? "—"}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{row.displayName || row.username || "—"}</p>
+                          <p className="text-xs text-muted-foreground">{row.username} · {row.email}</p>
+                        </TableCell>
+                        <TableCell>{row.unit || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={actionClassNames[row.action]}>
+                            {actionLabels[row.action]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <ul className={`text-sm space-y-1 ${row.errors.length > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                            {[...row.errors, ...row.changes].map((detail) => (
+                              <li key={detail}>{detail}</li>
+                            ))}
+                            {row.temporaryPassword && (
+                              <li className="text-foreground">Senha temporária: <code>{row.temporaryPassword}</code></li>
+                            )}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2 mt-4">
+              {result.applied ? (
+                <>
+                  <Button variant="outline" onClick={handleReset}>
+                    Nova importação
+                  </Button>
+                  <Button onClick={() => handleDownloadReport(result)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Baixar relatório
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={handleReset} disabled={importMutation.isPending}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    onClick={() => importMutation.mutate()}
+                    disabled={result.invalidRows > 0 || !hasChanges || importMutation.isPending}
+                  >
+                    {importMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Importando...
+                      </>
+                    ) : (
+                      <>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Aplicar importação
+                      </>
+                    )}
+                  </Button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,12 +1,17 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useUnits } from "@/hooks/use-units";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { User, UserRoleEnum } from "@shared/schema";
+import { User, UserRoleEnum, USER_ROLES, LoginThrottleScopeEnum, type LoginLockout, type UnitBudgetStatus } from "@shared/schema";
+import { PermissionEnum, formatUserRole } from "@shared/permissions";
+import { passwordSchema, refinePasswordNotUsername } from "@shared/password-policy";
+import { formatBudgetPeriod, getUnitAncestors } from "@shared/units";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
+import { Link } from "wouter";
 
 // Componentes
 import { Button } from "@/components/ui/button";
@@ -54,14 +59,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import LoginEventsDialog from "@/components/LoginEventsDialog";
+import PasswordRequirements from "@/components/PasswordRequirements";
 import { 
   Loader2, 
   PlusCircle, 
   UserPlus, 
   Pencil, 
-  Trash2, 
   MoreHorizontal,
-  Award
+  Award,
+  FileSpreadsheet,
+  UserX,
+  UserCheck,
+  History,
+  Lock,
+  LockOpen,
+  ShieldOff
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -81,6 +95,7 @@ import Layout from "@/components/Layout";
 const pointsFormSchema = z.object({
   points: z.coerce.number().int().min(1, "Mínimo de 1 xCoin"),
   description: z.string().min(3, "Descrição é obrigatória"),
+  expiresInMonths: z.string(), // Meses até expirar, ou "never"
 });
 
 type PointsFormValues = z.infer<typeof pointsFormSchema>;
@@ -88,11 +103,12 @@ type PointsFormValues = z.infer<typeof pointsFormSchema>;
 // Schema para o formulário de registro
 const registerSchema = z.object({
   username: z.string().min(3, "O nome de usuário deve ter pelo menos 3 caracteres"),
-  password: z.string().min(6, "A senha deve ter pelo menos 6 caracteres"),
+  password: passwordSchema,
   email: z.string().email("Email inválido"),
   displayName: z.string().optional(),
-  role: z.enum([UserRoleEnum.ADMIN, UserRoleEnum.EMPLOYEE]),
-});
+  role: z.enum(USER_ROLES),
+  mustChangePassword: z.boolean(),
+}).superRefine(refinePasswordNotUsername("password", (data) => data.username));
 
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
@@ -101,36 +117,77 @@ const editUserSchema = z.object({
   username: z.string().min(3, "O nome de usuário deve ter pelo menos 3 caracteres"),
   email: z.string().email("Email inválido"),
   displayName: z.string().optional(),
-  unit: z.string().optional(),
-  role: z.enum([UserRoleEnum.ADMIN, UserRoleEnum.EMPLOYEE]),
-  password: z.string().optional().refine(val => !val || val.length >= 6, {
-    message: "A senha deve ter pelo menos 6 caracteres"
-  }),
-});
+  unitId: z.string(), // Id da unidade, ou "none"
+  birthDate: z.string().optional(),
+  hireDate: z.string().optional(),
+  role: z.enum(USER_ROLES),
+  password: z.union([z.literal(""), passwordSchema]).optional(), // Em branco mantém a senha atual
+  mustChangePassword: z.boolean(),
+}).superRefine(refinePasswordNotUsername("password", (data) => data.username));
 
 type EditUserFormValues = z.infer<typeof editUserSchema>;
 
+type EmployeeStatusFilter = "active" | "inactive" | "all";
+
 export default function EmployeesPage() {
-  const { isAdmin, user: currentUser } = useAuth();
+  const { can, user: currentUser } = useAuth();
+  const canManageUsers = can(PermissionEnum.USERS_MANAGE);
+  const canReadAllUsers = can(PermissionEnum.USERS_READ);
+  const canGrantPoints = can(PermissionEnum.POINTS_GRANT, PermissionEnum.POINTS_GRANT_UNIT);
+  // Gestores de unidade creditam pontos a partir do orçamento das unidades que gerenciam
+  const grantsFromBudget = !can(PermissionEnum.POINTS_GRANT) && can(PermissionEnum.POINTS_GRANT_UNIT);
+  const { units } = useUnits();
   const { toast } = useToast();
   const [selectedEmployee, setSelectedEmployee] = useState<User | null>(null);
   const [isPointsDialogOpen, setIsPointsDialogOpen] = useState(false);
   const [isRegisterDialogOpen, setIsRegisterDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isDeactivateDialogOpen, setIsDeactivateDialogOpen] = useState(false);
+  const [isReactivateDialogOpen, setIsReactivateDialogOpen] = useState(false);
+  const [forfeitBalance, setForfeitBalance] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<EmployeeStatusFilter>("active");
+  const [isLoginEventsDialogOpen, setIsLoginEventsDialogOpen] = useState(false);
 
-  // Consulta para obter todos os funcionários
+  // Consulta para obter os funcionários conforme o filtro de status
   const { data: employees, isLoading, error } = useQuery<User[]>({
-    queryKey: ['/api/admin/employees'],
-    enabled: !!isAdmin,
+    queryKey: ['/api/admin/employees', statusFilter],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/employees?status=${statusFilter}`);
+      return await res.json();
+    },
+    enabled: can(PermissionEnum.USERS_READ, PermissionEnum.USERS_READ_UNIT),
   });
 
+  // Consulta para obter os acessos bloqueados por excesso de tentativas de login
+  const { data: lockouts } = useQuery<LoginLockout[]>({
+    queryKey: ['/api/admin/login-lockouts'],
+    enabled: canReadAllUsers,
+    staleTime: 0,
+  });
+
+  // Orçamento de pontos das unidades gerenciadas pelo gestor
+  const { data: budgets } = useQuery<UnitBudgetStatus[]>({
+    queryKey: ['/api/admin/points/budget'],
+    enabled: grantsFromBudget,
+    staleTime: 0,
+  });
+
+  // O crédito sai do orçamento da unidade gerenciada mais próxima do funcionário, subindo a hierarquia
+  const getBudgetFor = (employee: User | null) => {
+    if (!employee?.unitId || !budgets) return undefined;
+    return getUnitAncestors(units, employee.unitId)
+      .map((unit) => budgets.find((budget) => budget.unitId === unit.id))
+      .find((budget) => budget !== undefined);
+  };
+  const selectedBudget = getBudgetFor(selectedEmployee);
+
   // Formulário para adicionar xCoins
   const pointsForm = useForm<PointsFormValues>({
     resolver: zodResolver(pointsFormSchema),
     defaultValues: {
       points: 10,
       description: "",
+      expiresInMonths: "12",
     },
   });
 
@@ -143,17 +200,19 @@ export default function EmployeesPage() {
       email: "",
       displayName: "",
       role: UserRoleEnum.EMPLOYEE,
+      mustChangePassword: true,
     },
   });
 
   // Mutação para adicionar xCoins
   const addPointsMutation = useMutation({
-    mutationFn: async ({ userId, points, description }: { userId: number; points: number; description: string }) => {
-      const res = await apiRequest("PATCH", `/api/admin/users/${userId}/points`, { points, description });
+    mutationFn: async ({ userId, points, description, expiresInMonths }: { userId: number; points: number; description: string; expiresInMonths: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/admin/users/${userId}/points`, { points, description, expiresInMonths });
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/employees'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/points/budget'] });
       setIsPointsDialogOpen(false);
       pointsForm.reset();
       toast({
@@ -177,9 +236,12 @@ export default function EmployeesPage() {
       username: "",
       email: "",
       displayName: "",
-      unit: "",
+      unitId: "none",
+      birthDate: "",
+      hireDate: "",
       role: UserRoleEnum.EMPLOYEE,
       password: "",
+      mustChangePassword: false,
     },
   });
 
@@ -209,7 +271,7 @@ export default function EmployeesPage() {
   
   // Mutação para editar usuário
   const editUserMutation = useMutation({
-    mutationFn: async (data: { id: number; userData: EditUserFormValues }) => {
+    mutationFn: async (data: { id: number; userData: Omit<EditUserFormValues, "unitId" | "birthDate" | "hireDate"> & { unitId: number | null; birthDate: string | null; hireDate: string | null } }) => {
       const res = await apiRequest("PATCH", `/api/admin/users/${data.id}`, data.userData);
       return await res.json();
     },
@@ -231,30 +293,108 @@ export default function EmployeesPage() {
     },
   });
   
-  // Mutação para excluir usuário
-  const deleteUserMutation = useMutation({
+  // Mutação para desativar usuário
+  const deactivateUserMutation = useMutation({
     mutationFn: async (id: number) => {
       const res = await apiRequest("DELETE", `/api/admin/users/${id}`);
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/employees'] });
-      setIsDeleteDialogOpen(false);
+      setIsDeactivateDialogOpen(false);
       setSelectedEmployee(null);
       toast({
-        title: "Usuário excluído com sucesso",
-        description: "O usuário foi removido do sistema.",
+        title: "Usuário desativado com sucesso",
+        description: "O usuário não poderá mais acessar o sistema e seu saldo foi congelado.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao desativar usuário",
+        description: error.message || "Não foi possível desativar o usuário.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Mutação para reativar usuário
+  const reactivateUserMutation = useMutation({
+    mutationFn: async ({ id, forfeitBalance }: { id: number; forfeitBalance: boolean }) => {
+      const res = await apiRequest("POST", `/api/admin/users/${id}/reactivate`, { forfeitBalance });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/employees'] });
+      setIsReactivateDialogOpen(false);
+      setSelectedEmployee(null);
+      toast({
+        title: "Usuário reativado com sucesso",
+        description: "O usuário voltou a ter acesso ao sistema.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao reativar usuário",
+        description: error.message || "Não foi possível reativar o usuário.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para desbloquear um usuário ou IP
+  const unlockMutation = useMutation({
+    mutationFn: async (lockoutId: number) => {
+      const res = await apiRequest("DELETE", `/api/admin/login-lockouts/${lockoutId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/login-lockouts'] });
+      toast({
+        title: "Acesso desbloqueado",
+        description: "As tentativas de login voltaram a ser aceitas.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao desbloquear acesso",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para redefinir o 2FA de quem perdeu o aplicativo e os códigos de recuperação
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/2fa/reset`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/employees'] });
+      toast({
+        title: "2FA redefinido",
+        description: "O usuário poderá entrar só com a senha e cadastrar o aplicativo novamente.",
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Erro ao excluir usuário",
-        description: error.message || "Não foi possível excluir o usuário.",
+        title: "Erro ao redefinir 2FA",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
     },
   });
 
+  // Bloqueio de login em vigor para o funcionário, se houver
+  const getEmployeeLockout = (employee: User) =>
+    lockouts?.find((lockout) => lockout.user?.id === employee.id);
+
+  // Handler para abrir o histórico de login
+  const handleOpenLoginEventsDialog = (employee: User) => {
+    setSelectedEmployee(employee);
+    setIsLoginEventsDialogOpen(true);
+  };
+
   // Handler para abrir o diálogo de adicionar xCoins
   const handleOpenPointsDialog = (employee: User) => {
     setSelectedEmployee(employee);
@@ -269,6 +409,7 @@ export default function EmployeesPage() {
       userId: selectedEmployee.id,
       points: values.points,
       description: values.description,
+      expiresInMonths: values.expiresInMonths === "never" ? null : parseInt(values.expiresInMonths),
     });
   };
 
@@ -285,9 +426,12 @@ export default function EmployeesPage() {
       username: employee.username,
       email: employee.email,
       displayName: employee.displayName || "",
-      unit: employee.unit || "",
+      unitId: employee.unitId ? employee.unitId.toString() : "none",
+      birthDate: employee.birthDate || "",
+      hireDate: employee.hireDate || "",
       role: employee.role,
       password: "", // Senha em branco para não alterar a senha atual
+      mustChangePassword: employee.mustChangePassword,
     });
     setIsEditDialogOpen(true);
   };
@@ -297,27 +441,45 @@ export default function EmployeesPage() {
     if (!selectedEmployee) return;
     
     // Remover campos vazios para que não sejam enviados para o servidor
-    const userData = { ...values };
+    const { unitId, ...userData } = values;
     if (!userData.password) delete userData.password;
     if (!userData.displayName) delete userData.displayName;
-    if (!userData.unit) delete userData.unit;
     
     editUserMutation.mutate({
       id: selectedEmployee.id,
-      userData
+      userData: {
+        ...userData,
+        unitId: unitId === "none" ? null : parseInt(unitId),
+        // Datas em branco apagam a data cadastrada
+        birthDate: userData.birthDate || null,
+        hireDate: userData.hireDate || null,
+      }
     });
   };
   
-  // Handler para abrir o diálogo de exclusão
-  const handleOpenDeleteDialog = (employee: User) => {
+  // Handler para abrir o diálogo de desativação
+  const handleOpenDeactivateDialog = (employee: User) => {
     setSelectedEmployee(employee);
-    setIsDeleteDialogOpen(true);
+    setIsDeactivateDialogOpen(true);
   };
   
-  // Handler para confirmar a exclusão
-  const handleConfirmDelete = () => {
+  // Handler para confirmar a desativação
+  const handleConfirmDeactivate = () => {
     if (!selectedEmployee) return;
-    deleteUserMutation.mutate(selectedEmployee.id);
+    deactivateUserMutation.mutate(selectedEmployee.id);
+  };
+  
+  // Handler para abrir o diálogo de reativação
+  const handleOpenReactivateDialog = (employee: User) => {
+    setSelectedEmployee(employee);
+    setForfeitBalance(false);
+    setIsReactivateDialogOpen(true);
+  };
+  
+  // Handler para confirmar a reativação
+  const handleConfirmReactivate = () => {
+    if (!selectedEmployee) return;
+    reactivateUserMutation.mutate({ id: selectedEmployee.id, forfeitBalance });
   };
 
   if (isLoading) {
@@ -347,13 +509,81 @@ export default function EmployeesPage() {
           <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
             Gerenciar Funcionários
           </h1>
-          <Button onClick={() => setIsRegisterDialogOpen(true)} 
-            className="bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0">
-            <UserPlus className="h-4 w-4 mr-2" />
-            Adicionar Funcionário
-          </Button>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as EmployeeStatusFilter)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Ativos</SelectItem>
+                <SelectItem value="inactive">Inativos</SelectItem>
+                <SelectItem value="all">Todos</SelectItem>
+              </SelectContent>
+            </Select>
+            {canManageUsers && (
+              <>
+                <Link href="/admin/employees/import">
+                  <Button variant="outline" className="border-primary/30 text-primary hover:bg-primary/10">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Importar Planilha
+                  </Button>
+                </Link>
+                <Button onClick={() => setIsRegisterDialogOpen(true)} 
+                  className="bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Adicionar Funcionário
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
+        {lockouts && lockouts.length > 0 && (
+          <Card className="border-destructive/30 mb-6">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center text-destructive">
+                <Lock className="h-5 w-5 mr-2" />
+                Acessos bloqueados
+              </CardTitle>
+              <CardDescription>
+                Bloqueados temporariamente por excesso de tentativas de login. O bloqueio termina
+                sozinho no horário indicado ou pode ser liberado agora.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {lockouts.map((lockout) => (
+                <div key={lockout.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <p className="font-medium">
+                      {lockout.scope === LoginThrottleScopeEnum.IP
+                        ? `IP ${lockout.key}`
+                        : lockout.user?.displayName || lockout.key}
+                      {lockout.scope === LoginThrottleScopeEnum.USERNAME && !lockout.user && (
+                        <span className="text-xs text-muted-foreground ml-2">(usuário inexistente)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {lockout.failures} falhas seguidas · bloqueado até{" "}
+                      {format(new Date(lockout.lockedUntil), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    </p>
+                  </div>
+                  {canManageUsers && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unlockMutation.mutate(lockout.id)}
+                      disabled={unlockMutation.isPending}
+                    >
+                      <LockOpen className="h-4 w-4 mr-1" />
+                      Desbloquear
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {employees && employees.length > 0 ? (
           <Card className="border-primary/20 overflow-hidden shadow-md">
             <div className="bg-gradient-to-r from-primary to-secondary h-2"></div>
@@ -365,6 +595,7 @@ export default function EmployeesPage() {
                     <TableHead className="text-primary">Nome</TableHead>
                     <TableHead className="text-primary">Email</TableHead>
                     <TableHead className="text-primary">Função</TableHead>
+                    <TableHead className="text-primary">Status</TableHead>
                     <TableHead className="text-primary">xCoins</TableHead>
                     <TableHead className="text-primary">Data de Registro</TableHead>
                     <TableHead className="text-primary">Ações</TableHead>
@@ -372,15 +603,35 @@ export default function EmployeesPage() {
                 </TableHeader>
                 <TableBody>
                   {employees.map((employee, index) => (
-                    <TableRow key={employee.id} className={index % 2 === 0 ? "bg-primary/[0.02]" : ""}>
+                    <TableRow key={employee.id} className={`${index % 2 === 0 ? "bg-primary/[0.02]" : ""} ${employee.isActive ? "" : "text-muted-foreground"}`}>
                       <TableCell className="font-medium">{employee.displayName || employee.username}</TableCell>
                       <TableCell>{employee.email}</TableCell>
                       <TableCell>
-                        <Badge variant={employee.role === UserRoleEnum.ADMIN ? "secondary" : "outline"}
-                          className={employee.role === UserRoleEnum.ADMIN ? "" : "border-primary/30 text-primary"}>
-                          {employee.role === UserRoleEnum.ADMIN ? "Administrador" : "Funcionário"}
+                        <Badge variant={employee.role === UserRoleEnum.EMPLOYEE ? "outline" : "secondary"}
+                          className={employee.role === UserRoleEnum.EMPLOYEE ? "border-primary/30 text-primary" : ""}>
+                          {formatUserRole(employee.role)}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        {employee.isActive ? (
+                          <Badge variant="outline" className="border-green-600 text-green-600">Ativo</Badge>
+                        ) : (
+                          <div>
+                            <Badge variant="outline" className="text-muted-foreground">Inativo</Badge>
+                            {employee.deactivatedAt && (
+                              <p className="text-xs mt-1">
+                                desde {format(new Date(employee.deactivatedAt), "dd/MM/yyyy", { locale: ptBR })}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {getEmployeeLockout(employee) && (
+                          <Badge variant="outline" className="border-destructive text-destructive mt-1 flex w-fit items-center">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Bloqueado
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <span className="flex items-center">
                           <Award className="h-4 w-4 mr-1 text-secondary" />
@@ -394,39 +645,82 @@ export default function EmployeesPage() {
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => handleOpenPointsDialog(employee)}
-                            className="border-secondary/30 text-secondary hover:bg-secondary/10 hover:text-secondary"
-                          >
-                            <PlusCircle className="h-4 w-4 mr-1" />
-                            Adicionar xCoins
-                          </Button>
+                          {canGrantPoints && (
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => handleOpenPointsDialog(employee)}
+                              // Saldo congelado enquanto desativado; gestores não creditam para si mesmos
+                              disabled={!employee.isActive || (grantsFromBudget && currentUser?.id === employee.id)}
+                              className="border-secondary/30 text-secondary hover:bg-secondary/10 hover:text-secondary"
+                            >
+                              <PlusCircle className="h-4 w-4 mr-1" />
+                              Adicionar xCoins
+                            </Button>
+                          )}
                           
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="sm" className="hover:bg-primary/10 hover:text-primary">
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuLabel className="text-primary">Ações</DropdownMenuLabel>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem onClick={() => handleOpenEditDialog(employee)} className="text-primary hover:text-primary">
-                                <Pencil className="h-4 w-4 mr-2 text-primary" />
-                                Editar
-                              </DropdownMenuItem>
-                              <DropdownMenuItem 
-                                onClick={() => handleOpenDeleteDialog(employee)}
-                                disabled={currentUser?.id === employee.id} // Impedir exclusão do próprio usuário
-                                className={currentUser?.id === employee.id ? "text-gray-400" : "text-destructive hover:text-destructive"}
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Excluir
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
+                          {(canReadAllUsers || canManageUsers) && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm" className="hover:bg-primary/10 hover:text-primary">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel className="text-primary">Ações</DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                                {canManageUsers && (
+                                  <DropdownMenuItem onClick={() => handleOpenEditDialog(employee)} className="text-primary hover:text-primary">
+                                    <Pencil className="h-4 w-4 mr-2 text-primary" />
+                                    Editar
+                                  </DropdownMenuItem>
+                                )}
+                                {canReadAllUsers && (
+                                  <DropdownMenuItem onClick={() => handleOpenLoginEventsDialog(employee)} className="text-primary hover:text-primary">
+                                    <History className="h-4 w-4 mr-2 text-primary" />
+                                    Histórico de login
+                                  </DropdownMenuItem>
+                                )}
+                                {canManageUsers && getEmployeeLockout(employee) && (
+                                  <DropdownMenuItem 
+                                    onClick={() => unlockMutation.mutate(getEmployeeLockout(employee)!.id)}
+                                    className="text-primary hover:text-primary"
+                                  >
+                                    <LockOpen className="h-4 w-4 mr-2 text-primary" />
+                                    Desbloquear login
+                                  </DropdownMenuItem>
+                                )}
+                                {canManageUsers && employee.twoFactorEnabled && (
+                                  <DropdownMenuItem 
+                                    onClick={() => resetTwoFactorMutation.mutate(employee.id)}
+                                    disabled={currentUser?.id === employee.id} // O próprio 2FA é gerenciado no perfil
+                                    className={currentUser?.id === employee.id ? "text-gray-400" : "text-primary hover:text-primary"}
+                                  >
+                                    <ShieldOff className="h-4 w-4 mr-2" />
+                                    Redefinir 2FA
+                                  </DropdownMenuItem>
+                                )}
+                                {canManageUsers && (employee.isActive ? (
+                                  <DropdownMenuItem 
+                                    onClick={() => handleOpenDeactivateDialog(employee)}
+                                    disabled={currentUser?.id === employee.id} // Impedir desativação do próprio usuário
+                                    className={currentUser?.id === employee.id ? "text-gray-400" : "text-destructive hover:text-destructive"}
+                                  >
+                                    <UserX className="h-4 w-4 mr-2" />
+                                    Desativar
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem 
+                                    onClick={() => handleOpenReactivateDialog(employee)}
+                                    className="text-primary hover:text-primary"
+                                  >
+                                    <UserCheck className="h-4 w-4 mr-2 text-primary" />
+                                    Reativar
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -459,6 +753,12 @@ export default function EmployeesPage() {
             <DialogDescription className="text-primary/70">
               Adicione xCoins à conta de <span className="font-medium text-primary">{selectedEmployee?.displayName || selectedEmployee?.username}</span>.
               Atualmente possui <span className="font-medium text-secondary">{selectedEmployee?.points || 0} xCoins</span>.
+              {grantsFromBudget && selectedBudget && (
+                <span className="block mt-2">
+                  Orçamento {formatBudgetPeriod(selectedBudget.period).toLowerCase()} de {selectedBudget.name}:{" "}
+                  <span className="font-medium text-secondary">{selectedBudget.remaining} de {selectedBudget.budget ?? 0} xCoins</span> disponíveis.
+                </span>
+              )}
             </DialogDescription>
           </DialogHeader>
 
@@ -507,6 +807,36 @@ export default function EmployeesPage() {
                 )}
               />
 
+              <FormField
+                control={pointsForm.control}
+                name="expiresInMonths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Validade</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="border-primary/20 focus:ring-primary/30">
+                          <SelectValue placeholder="Selecione a validade" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="12">12 meses (campanha)</SelectItem>
+                        <SelectItem value="6">6 meses</SelectItem>
+                        <SelectItem value="3">3 meses</SelectItem>
+                        <SelectItem value="never">Não expiram</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription className="text-primary/60">
+                      Após esse prazo, os xCoins não utilizados expiram
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter className="mt-6">
                 <Button 
                   type="button" 
@@ -602,11 +932,33 @@ export default function EmployeesPage() {
                     <FormControl>
                       <Input type="password" {...field} placeholder="******" />
                     </FormControl>
+                    <PasswordRequirements password={field.value} username={registerForm.watch("username")} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <FormField
+                control={registerForm.control}
+                name="mustChangePassword"
+                render={({ field }) => (
+                  <FormItem className="flex items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel className="cursor-pointer">Exigir troca de senha no próximo acesso</FormLabel>
+                      <FormDescription>
+                        O funcionário só acessa o sistema depois de escolher uma senha própria.
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={registerForm.control}
                 name="role"
@@ -623,8 +975,9 @@ export default function EmployeesPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value={UserRoleEnum.EMPLOYEE}>Funcionário</SelectItem>
-                        <SelectItem value={UserRoleEnum.ADMIN}>Administrador</SelectItem>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{formatUserRole(role)}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -716,18 +1069,58 @@ export default function EmployeesPage() {
               
               <FormField
                 control={editForm.control}
-                name="unit"
+                name="unitId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Unidade (opcional)</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="Ex: Financeiro, Marketing, etc" />
-                    </FormControl>
+                    <FormLabel>Unidade</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a unidade" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Sem unidade</SelectItem>
+                        {units.map((unit) => (
+                          <SelectItem key={unit.id} value={unit.id.toString()}>{unit.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="birthDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data de nascimento</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="hireDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data de admissão</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <FormField
                 control={editForm.control}
                 name="password"
@@ -740,11 +1133,35 @@ export default function EmployeesPage() {
                     <FormDescription>
                       Deixe em branco para manter a senha atual
                     </FormDescription>
+                    {field.value && (
+                      <PasswordRequirements password={field.value} username={editForm.watch("username")} />
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="mustChangePassword"
+                render={({ field }) => (
+                  <FormItem className="flex items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel className="cursor-pointer">Exigir troca de senha no próximo acesso</FormLabel>
+                      <FormDescription>
+                        Use ao definir uma senha provisória para o funcionário.
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={editForm.control}
                 name="role"
@@ -761,10 +1178,16 @@ export default function EmployeesPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value={UserRoleEnum.EMPLOYEE}>Funcionário</SelectItem>
-                        <SelectItem value={UserRoleEnum.ADMIN}>Administrador</SelectItem>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{formatUserRole(role)}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {field.value === UserRoleEnum.UNIT_MANAGER && (
+                      <FormDescription>
+                        As unidades que o gestor gerencia e o orçamento delas são definidos em Unidades e Orçamentos
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -797,21 +1220,22 @@ export default function EmployeesPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Dialog para confirmar exclusão */}
-      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+      {/* Dialog para confirmar desativação */}
+      <Dialog open={isDeactivateDialogOpen} onOpenChange={setIsDeactivateDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Excluir Funcionário</DialogTitle>
+            <DialogTitle>Desativar Funcionário</DialogTitle>
             <DialogDescription>
-              Esta ação não pode ser desfeita. Isso excluirá permanentemente o funcionário 
-              {selectedEmployee ? ` ${selectedEmployee.displayName || selectedEmployee.username}` : ''} e
-              todos os seus dados do sistema.
+              O funcionário
+              {selectedEmployee ? ` ${selectedEmployee.displayName || selectedEmployee.username}` : ''} perderá
+              o acesso ao sistema e seu saldo de xCoins ficará congelado. Pedidos em aberto são cancelados
+              e reembolsados antes; o histórico de pedidos e o extrato são mantidos.
             </DialogDescription>
           </DialogHeader>
 
           <div className="flex flex-col gap-4 py-4">
             <p className="text-destructive font-medium">
-              Tem certeza que deseja excluir este funcionário?
+              Tem certeza que deseja desativar este funcionário?
             </p>
           </div>
 
@@ -819,28 +1243,91 @@ export default function EmployeesPage() {
             <Button 
               type="button" 
               variant="outline" 
-              onClick={() => setIsDeleteDialogOpen(false)}
+              onClick={() => setIsDeactivateDialogOpen(false)}
             >
               Cancelar
             </Button>
             <Button 
               type="button" 
               variant="destructive"
-              onClick={handleConfirmDelete}
-              disabled={deleteUserMutation.isPending}
+              onClick={handleConfirmDeactivate}
+              disabled={deactivateUserMutation.isPending}
             >
-              {deleteUserMutation.isPending ? (
+              {deactivateUserMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Excluindo...
+                  Desativando...
                 </>
               ) : (
-                "Sim, excluir"
+                "Sim, desativar"
               )}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Dialog para reativar funcionário */}
+      <Dialog open={isReactivateDialogOpen} onOpenChange={setIsReactivateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reativar Funcionário</DialogTitle>
+            <DialogDescription>
+              O funcionário
+              {selectedEmployee ? ` ${selectedEmployee.displayName || selectedEmployee.username}` : ''} voltará
+              a ter acesso ao sistema.
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedEmployee && selectedEmployee.points > 0 && (
+            <div className="flex items-start space-x-3 rounded-md border p-4">
+              <Checkbox
+                id="forfeit-balance"
+                checked={forfeitBalance}
+                onCheckedChange={(checked) => setForfeitBalance(checked === true)}
+              />
+              <div className="space-y-1">
+                <label htmlFor="forfeit-balance" className="text-sm font-medium cursor-pointer">
+                  Zerar o saldo congelado de {selectedEmployee.points} xCoins
+                </label>
+                <p className="text-sm text-muted-foreground">
+                  O débito fica registrado no extrato do funcionário.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button 
+              type="button" 
+              variant="outline" 
+              onClick={() => setIsReactivateDialogOpen(false)}
+            >
+              Cancelar
+            </Button>
+            <Button 
+              type="button" 
+              onClick={handleConfirmReactivate}
+              disabled={reactivateUserMutation.isPending}
+            >
+              {reactivateUserMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Reativando...
+                </>
+              ) : (
+                "Reativar"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog com o histórico de login do funcionário */}
+      <LoginEventsDialog
+        employee={selectedEmployee}
+        open={isLoginEventsDialogOpen}
+        onOpenChange={setIsLoginEventsDialogOpen}
+      />
     </Layout>
   );
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PermissionEnum } from "@shared/permissions";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -40,6 +42,8 @@ import {
 } from "@/components/ui/select";
 import { Loader2, Eye } from "lucide-react";
 import DataTableHeader from "@/components/DataTableHeader";
+import OrderStatusTimeline, { OrderStatusHistoryItem } from "@/components/OrderStatusTimeline";
+import { OrderStatus, formatOrderStatus, getNextOrderStatuses } from "@shared/order-status";
 
 // Layout
 import Layout from "@/components/Layout";
@@ -49,7 +53,7 @@ type Order = {
   id: number;
   userId: number;
   totalPoints: number;
-  status: "pending" | "completed" | "cancelled";
+  status: OrderStatus;
   createdAt: string;
   updatedAt: string;
 };
@@ -67,6 +71,8 @@ type OrderItem = {
   id: number;
   orderId: number;
   productId: number;
+  variantId: number | null;
+  variantLabel: string | null;
   quantity: number;
   pointsCost: number;
   product: {
@@ -81,10 +87,14 @@ type OrderItem = {
 type OrderDetails = {
   order: Order;
   items: OrderItem[];
+  history: OrderStatusHistoryItem[];
 };
 
 export default function OrdersPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  // Auditores só consultam os pedidos
+  const canFulfilOrders = can(PermissionEnum.ORDERS_FULFIL);
   const [selectedOrder, setSelectedOrder] = useState<number | null>(null);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -145,32 +155,44 @@ export default function OrdersPage() {
   };
 
   // Função auxiliar para formatar o status em português
-  const formatStatus = (status: string) => {
-    switch (status) {
-      case "pending":
-        return "Pendente";
-      case "completed":
-        return "Concluído";
-      case "cancelled":
-        return "Cancelado";
-      default:
-        return status;
-    }
-  };
+  const formatStatus = (status: string) => formatOrderStatus(status);
 
   // Função auxiliar para determinar a variante do badge baseado no status
   const getStatusVariant = (status: string) => {
     switch (status) {
       case "pending":
         return "warning";
-      case "completed":
+      case "delivered":
         return "success";
       case "cancelled":
+      case "rejected":
         return "destructive";
       default:
         return "default";
     }
   };
+
+  // Seletor de status que oferece apenas as transições permitidas
+  const renderStatusSelect = (order: Order, triggerClassName: string) => {
+    const nextStatuses = getNextOrderStatuses(order.status);
+    return (
+      <Select
+        value={order.status}
+        onValueChange={(value) => handleStatusChange(order.id, value)}
+        disabled={!canFulfilOrders || updateStatusMutation.isPending || nextStatuses.length === 0}
+      >
+        <SelectTrigger className={triggerClassName}>
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={order.status} disabled>{formatStatus(order.status)}</SelectItem>
+          {nextStatuses.map((status) => (
+            <SelectItem key={status} value={status}>{formatStatus(status)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
   
   // Filtrar os pedidos com base na pesquisa
   const filteredOrders = useMemo(() => {
@@ -279,20 +301,7 @@ export default function OrdersPage() {
                             <Eye className="h-4 w-4 mr-1" />
                             Detalhes
                           </Button>
-                          <Select
-                            defaultValue={order.status}
-                            onValueChange={(value) => handleStatusChange(order.id, value)}
-                            disabled={updateStatusMutation.isPending}
-                          >
-                            <SelectTrigger className="w-[120px] h-9">
-                              <SelectValue placeholder="Status" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="pending">Pendente</SelectItem>
-                              <SelectItem value="completed">Concluído</SelectItem>
-                              <SelectItem value="cancelled">Cancelado</SelectItem>
-                            </SelectContent>
-                          </Select>
+                          {renderStatusSelect(order, "w-[180px] h-9")}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -315,7 +324,7 @@ export default function OrdersPage() {
 
       {/* Dialog de Detalhes do Pedido */}
       <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
-        <DialogContent className="max-w-3xl">
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Detalhes do Pedido #{selectedOrder}</DialogTitle>
             <DialogDescription>
@@ -350,20 +359,7 @@ export default function OrdersPage() {
                 </div>
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Alterar Status</h3>
-                  <Select
-                    defaultValue={orderDetails.order.status}
-                    onValueChange={(value) => handleStatusChange(orderDetails.order.id, value)}
-                    disabled={updateStatusMutation.isPending}
-                  >
-                    <SelectTrigger className="w-full mt-1">
-                      <SelectValue placeholder="Status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">Pendente</SelectItem>
-                      <SelectItem value="completed">Concluído</SelectItem>
-                      <SelectItem value="cancelled">Cancelado</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {renderStatusSelect(orderDetails.order, "w-full mt-1")}
                 </div>
               </div>
 
@@ -383,6 +379,9 @@ export default function OrdersPage() {
                       <TableRow key={item.id}>
                         <TableCell>
                           <div className="font-medium">{item.product.name}</div>
+                          {item.variantLabel && (
+                            <div className="text-xs font-medium text-secondary">{item.variantLabel}</div>
+                          )}
                           <div className="text-xs text-muted-foreground line-clamp-1">
                             {item.product.description}
                           </div>
@@ -395,6 +394,11 @@ export default function OrdersPage() {
                   </TableBody>
                 </Table>
               </div>
+
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Histórico de Status</h3>
+                <OrderStatusTimeline history={orderDetails.history || []} />
+              </div>
             </div>
           ) : (
             <div className="text-center py-4">
@@ -0,0 +1,546 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useUnits } from "@/hooks/use-units";
+import { PointRule, PointRuleTypeEnum, POINT_RULE_TYPES } from "@shared/schema";
+import { PermissionEnum } from "@shared/permissions";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Pencil, Trash2, Play, CalendarClock } from "lucide-react";
+
+// Layout
+import Layout from "@/components/Layout";
+
+// Rótulos dos tipos de regra
+const ruleTypeLabels: Record<string, string> = {
+  [PointRuleTypeEnum.BIRTHDAY]: "Aniversário",
+  [PointRuleTypeEnum.WORK_ANNIVERSARY]: "Tempo de empresa",
+  [PointRuleTypeEnum.MONTHLY_UNIT_BONUS]: "Bônus mensal",
+};
+
+// Schema para o formulário de regra
+const ruleFormSchema = z.object({
+  name: z.string().min(3, "O nome deve ter pelo menos 3 caracteres"),
+  ruleType: z.enum(POINT_RULE_TYPES),
+  points: z.coerce.number().int().positive("Os xCoins devem ser um número positivo"),
+  unitId: z.string(), // Id da unidade, ou "all"
+  expiresInMonths: z.string(), // Meses até expirar, ou "never"
+  isActive: z.boolean().default(true),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const emptyRuleForm: RuleFormValues = {
+  name: "",
+  ruleType: PointRuleTypeEnum.BIRTHDAY,
+  points: 50,
+  unitId: "all",
+  expiresInMonths: "12",
+  isActive: true,
+};
+
+export default function PointRulesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { units, getUnitPath } = useUnits();
+  // Auditores só consultam as regras
+  const canManageRules = can(PermissionEnum.POINT_RULES_MANAGE);
+  const [selectedRule, setSelectedRule] = useState<PointRule | null>(null);
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  // Consulta para obter todas as regras
+  const { data: rules, isLoading } = useQuery<PointRule[]>({
+    queryKey: ["/api/admin/point-rules"],
+  });
+
+  // Formulário de criação/edição
+  const ruleForm = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRuleForm,
+  });
+
+  // Converter os valores do formulário para o formato da API
+  const toPayload = (values: RuleFormValues) => ({
+    name: values.name,
+    ruleType: values.ruleType,
+    points: values.points,
+    unitId: values.unitId === "all" ? null : parseInt(values.unitId),
+    expiresInMonths: values.expiresInMonths === "never" ? null : parseInt(values.expiresInMonths),
+    isActive: values.isActive,
+  });
+
+  // Mutação para salvar regra (criação ou edição)
+  const saveRuleMutation = useMutation({
+    mutationFn: async (values: RuleFormValues) => {
+      const res = selectedRule
+        ? await apiRequest("PATCH", `/api/admin/point-rules/${selectedRule.id}`, toPayload(values))
+        : await apiRequest("POST", "/api/admin/point-rules", toPayload(values));
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/point-rules"] });
+      setIsFormDialogOpen(false);
+      toast({
+        title: "Regra salva com sucesso",
+        description: "A regra de premiação automática foi salva.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar regra",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para ativar/desativar regra
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/point-rules/${id}`, { isActive });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/point-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao atualizar regra",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para excluir regra
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/admin/point-rules/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/point-rules"] });
+      setIsDeleteDialogOpen(false);
+      setSelectedRule(null);
+      toast({
+        title: "Regra excluída com sucesso",
+        description: "A regra não concederá mais prêmios.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao excluir regra",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para executar as regras imediatamente
+  const runRulesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/point-rules/run");
+      return await res.json();
+    },
+    onSuccess: (data: { awarded: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/employees"] });
+      toast({
+        title: "Regras executadas",
+        description: data.awarded > 0
+          ? `${data.awarded} prêmios concedidos.`
+          : "Nenhum prêmio pendente para hoje.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao executar regras",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Handler para abrir o diálogo de criação
+  const handleOpenCreateDialog = () => {
+    setSelectedRule(null);
+    ruleForm.reset(emptyRuleForm);
+    setIsFormDialogOpen(true);
+  };
+
+  // Handler para abrir o diálogo de edição
+  const handleOpenEditDialog = (rule: PointRule) => {
+    setSelectedRule(rule);
+    ruleForm.reset({
+      name: rule.name,
+      ruleType: rule.ruleType,
+      points: rule.points,
+      unitId: rule.unitId ? rule.unitId.toString() : "all",
+      expiresInMonths: rule.expiresInMonths ? rule.expiresInMonths.toString() : "never",
+      isActive: rule.isActive,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  // Handler para abrir o diálogo de exclusão
+  const handleOpenDeleteDialog = (rule: PointRule) => {
+    setSelectedRule(rule);
+    setIsDeleteDialogOpen(true);
+  };
+
+  // Descrição do prêmio de uma regra
+  const describeAward = (rule: PointRule) => {
+    if (rule.ruleType === PointRuleTypeEnum.WORK_ANNIVERSARY) {
+      return `${rule.points} xCoins por ano de empresa`;
+    }
+    return `${rule.points} xCoins`;
+  };
+
+  const ruleType = ruleForm.watch("ruleType");
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+              Premiações Automáticas
+            </h1>
+            <p className="text-muted-foreground">
+              Regras avaliadas diariamente para creditar xCoins aos funcionários
+            </p>
+          </div>
+          {canManageRules && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => runRulesMutation.mutate()}
+                disabled={runRulesMutation.isPending}
+              >
+                {runRulesMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                Executar agora
+              </Button>
+              <Button onClick={handleOpenCreateDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Regra
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {rules && rules.length > 0 ? (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Prêmio</TableHead>
+                    <TableHead>Unidade</TableHead>
+                    <TableHead>Validade</TableHead>
+                    <TableHead>Ativa</TableHead>
+                    {canManageRules && <TableHead>Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ruleTypeLabels[rule.ruleType] || rule.ruleType}</Badge>
+                      </TableCell>
+                      <TableCell>{describeAward(rule)}</TableCell>
+                      <TableCell>{getUnitPath(rule.unitId) || "Todas"}</TableCell>
+                      <TableCell>
+                        {rule.expiresInMonths ? `${rule.expiresInMonths} meses` : "Não expiram"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={(checked) => toggleRuleMutation.mutate({ id: rule.id, isActive: checked })}
+                          disabled={!canManageRules || toggleRuleMutation.isPending}
+                        />
+                      </TableCell>
+                      {canManageRules && (
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => handleOpenEditDialog(rule)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => handleOpenDeleteDialog(rule)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="text-center">
+              <CalendarClock className="mx-auto h-12 w-12 text-secondary opacity-40" />
+              <CardTitle>Nenhuma regra cadastrada</CardTitle>
+              <CardDescription>
+                Crie regras para premiar aniversários, tempo de empresa ou bônus mensais por unidade.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+
+      {/* Dialog de criação/edição de regra */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{selectedRule ? "Editar Regra" : "Nova Regra"}</DialogTitle>
+            <DialogDescription>
+              Os prêmios são concedidos uma única vez por funcionário em cada período.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...ruleForm}>
+            <form onSubmit={ruleForm.handleSubmit((values) => saveRuleMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={ruleForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Ex: Aniversariante do dia" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ruleForm.control}
+                name="ruleType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {POINT_RULE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{ruleTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ruleForm.control}
+                name="points"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {ruleType === PointRuleTypeEnum.WORK_ANNIVERSARY ? "xCoins por ano de empresa" : "xCoins"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ruleForm.control}
+                name="unitId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidade</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a unidade" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="all">Todas as unidades</SelectItem>
+                        {units.map((unit) => (
+                          <SelectItem key={unit.id} value={unit.id.toString()}>{unit.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>A regra vale também para as subunidades</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ruleForm.control}
+                name="expiresInMonths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Validade dos xCoins</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a validade" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="12">12 meses</SelectItem>
+                        <SelectItem value="6">6 meses</SelectItem>
+                        <SelectItem value="3">3 meses</SelectItem>
+                        <SelectItem value="never">Não expiram</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ruleForm.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <FormLabel>Regra ativa</FormLabel>
+                      <FormDescription>Regras inativas não concedem prêmios</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveRuleMutation.isPending}>
+                  {saveRuleMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    "Salvar Regra"
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog para confirmar exclusão */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Excluir Regra</DialogTitle>
+            <DialogDescription>
+              Os xCoins já concedidos pela regra {selectedRule?.name} serão mantidos.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => selectedRule && deleteRuleMutation.mutate(selectedRule.id)}
+              disabled={deleteRuleMutation.isPending}
+            >
+              {deleteRuleMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Excluindo...
+                </>
+              ) : (
+                "Sim, excluir"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,317 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PermissionEnum } from "@shared/permissions";
+import type { PointsCorrectionTarget, PointsDiscrepancy, PointsReconciliationReport } from "@shared/schema";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, CheckCircle2, AlertTriangle, RefreshCw } from "lucide-react";
+import DataTableHeader from "@/components/DataTableHeader";
+
+// Layout
+import Layout from "@/components/Layout";
+
+// As datas chegam do servidor como texto
+type ReconciliationReport = Omit<PointsReconciliationReport, "checkedAt"> & { checkedAt: string };
+
+const DEFAULT_CORRECTION_DESCRIPTION = "Correção da conciliação do razão de pontos";
+
+const formatDifference = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+// Conciliação mensal: o saldo de cada funcionário precisa ser igual à soma do
+// histórico de pontos dele. Cada divergência é corrigida no saldo (que passa a ser a
+// soma do histórico) ou com um lançamento no histórico que confere com o saldo.
+export default function PointsReconciliationPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // Auditores só consultam a conciliação
+  const canPostCorrections = can(PermissionEnum.POINTS_GRANT);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedDiscrepancy, setSelectedDiscrepancy] = useState<PointsDiscrepancy | null>(null);
+  const [description, setDescription] = useState(DEFAULT_CORRECTION_DESCRIPTION);
+  const [target, setTarget] = useState<PointsCorrectionTarget>("balance");
+
+  const { data: report, isLoading, isFetching, refetch } = useQuery<ReconciliationReport>({
+    queryKey: ["/api/admin/points/reconciliation"],
+  });
+
+  const correctionMutation = useMutation({
+    mutationFn: async ({ userId, target, description }: { userId: number; target: PointsCorrectionTarget; description: string }) => {
+      const res = await apiRequest("POST", `/api/admin/points/reconciliation/${userId}/correct`, { target, description });
+      return await res.json();
+    },
+    onSuccess: (_data, { target }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/points/reconciliation"] });
+      closeDialog();
+      toast({
+        title: "Correção lançada",
+        description: target === "balance"
+          ? "O saldo do funcionário agora confere com o histórico de pontos."
+          : "O histórico de pontos do funcionário agora confere com o saldo.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao lançar correção",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeDialog = () => {
+    setSelectedDiscrepancy(null);
+    setDescription(DEFAULT_CORRECTION_DESCRIPTION);
+    setTarget("balance");
+  };
+
+  // Filtrar as divergências com base na pesquisa
+  const filteredDiscrepancies = useMemo(() => {
+    if (!report) return [];
+
+    if (!searchQuery) {
+      return report.discrepancies;
+    }
+
+    const query = searchQuery.toLowerCase();
+    return report.discrepancies.filter(item =>
+      item.username.toLowerCase().includes(query) ||
+      (item.displayName?.toLowerCase() || "").includes(query) ||
+      item.userId.toString().includes(query)
+    );
+  }, [report, searchQuery]);
+
+  // Função para gerar dados para exportação
+  const getExportData = () => {
+    return filteredDiscrepancies.map(item => ({
+      ID: item.userId,
+      Funcionário: item.displayName || item.username,
+      Usuário: item.username,
+      Situação: item.isActive ? "Ativo" : "Desativado",
+      Saldo: item.balance,
+      'Soma do Histórico': item.ledgerTotal,
+      Diferença: item.difference,
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <DataTableHeader
+          title="Conciliação de Pontos"
+          description="Confira se o saldo de cada funcionário é igual à soma do seu histórico de pontos"
+          onSearch={setSearchQuery}
+          onExport={getExportData}
+          exportFileName="conciliacao-de-pontos"
+        />
+
+        {report && (
+          <div className="grid gap-4 md:grid-cols-3 mb-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Saldo total dos funcionários</CardDescription>
+                <CardTitle>{report.totalBalance} xCoins</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Soma dos históricos</CardDescription>
+                <CardTitle>{report.totalLedger} xCoins</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>
+                  {report.usersChecked} usuário(s) conferido(s) em{" "}
+                  {format(new Date(report.checkedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                </CardDescription>
+                <CardTitle className="flex items-center">
+                  {report.discrepancies.length === 0 ? (
+                    <>
+                      <CheckCircle2 className="h-5 w-5 mr-2 text-green-600" />
+                      Tudo confere
+                    </>
+                  ) : (
+                    <>
+                      <AlertTriangle className="h-5 w-5 mr-2 text-destructive" />
+                      {report.discrepancies.length} divergência(s)
+                    </>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+                  Conferir novamente
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {filteredDiscrepancies.length > 0 ? (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableCaption>
+                  {filteredDiscrepancies.length}
+                  {filteredDiscrepancies.length === 1
+                    ? ' divergência encontrada'
+                    : ' divergências encontradas'}
+                </TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Funcionário</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead className="text-right">Soma do Histórico</TableHead>
+                    <TableHead className="text-right">Diferença</TableHead>
+                    {canPostCorrections && <TableHead>Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDiscrepancies.map((item) => (
+                    <TableRow key={item.userId}>
+                      <TableCell>
+                        {item.displayName || item.username}
+                        {!item.isActive && <Badge variant="outline" className="ml-2">Desativado</Badge>}
+                        <div className="text-xs text-muted-foreground">{item.username}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{item.balance}</TableCell>
+                      <TableCell className="text-right">{item.ledgerTotal}</TableCell>
+                      <TableCell className="text-right font-medium text-destructive">
+                        {formatDifference(item.difference)}
+                      </TableCell>
+                      {canPostCorrections && (
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => setSelectedDiscrepancy(item)}>
+                            Lançar correção
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nenhuma divergência encontrada</CardTitle>
+              <CardDescription>
+                {report && report.discrepancies.length > 0
+                  ? "Nenhuma divergência corresponde à pesquisa."
+                  : "O saldo de todos os funcionários confere com o histórico de pontos."}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+
+      {/* Correção: acerta o saldo pelo histórico ou lança a diferença no histórico */}
+      <Dialog open={selectedDiscrepancy !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Lançar correção</DialogTitle>
+            <DialogDescription>
+              {selectedDiscrepancy && (
+                <>
+                  O saldo de {selectedDiscrepancy.displayName || selectedDiscrepancy.username} é{" "}
+                  {selectedDiscrepancy.balance} xCoins e o histórico soma {selectedDiscrepancy.ledgerTotal} xCoins.
+                  Escolha qual dos dois está certo.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDiscrepancy && (
+            <RadioGroup
+              value={target}
+              onValueChange={(value) => setTarget(value as PointsCorrectionTarget)}
+              className="space-y-3"
+            >
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="balance" id="correction-target-balance" className="mt-1" />
+                <Label htmlFor="correction-target-balance" className="font-normal">
+                  O histórico está certo: o saldo passa a ser {selectedDiscrepancy.ledgerTotal} xCoins
+                  e a correção fica registrada no histórico.
+                </Label>
+              </div>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="ledger" id="correction-target-ledger" className="mt-1" />
+                <Label htmlFor="correction-target-ledger" className="font-normal">
+                  O saldo está certo: será lançado {formatDifference(selectedDiscrepancy.difference)} xCoins
+                  no histórico e o saldo não muda.
+                </Label>
+              </div>
+            </RadioGroup>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="correction-description">Descrição</Label>
+            <Input
+              id="correction-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={() => selectedDiscrepancy && correctionMutation.mutate({
+                userId: selectedDiscrepancy.userId,
+                target,
+                description: description.trim(),
+              })}
+              disabled={correctionMutation.isPending || !description.trim()}
+            >
+              {correctionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Lançar correção
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
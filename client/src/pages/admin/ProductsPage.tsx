@@ -1,14 +1,15 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/Layout";
-import { Product } from "@shared/schema";
+import { CatalogProduct, Category } from "@shared/schema";
+import { PermissionEnum } from "@shared/permissions";
 import { apiRequest } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { Image as ImageIcon } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -46,7 +47,17 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, Package, Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Package, Plus, Pencil, Trash2, FolderTree, Layers } from "lucide-react";
+import CategoryManagerDialog from "@/components/CategoryManagerDialog";
+import VariantManagerDialog from "@/components/VariantManagerDialog";
+import ProductImageManager, { ProductImageGrid, moveItem, MAX_PRODUCT_IMAGES_PER_UPLOAD } from "@/components/ProductImageGallery";
 
 // Schema para validação do formulário de produto
 const productSchema = z.object({
@@ -55,31 +66,106 @@ const productSchema = z.object({
   pointsCost: z.coerce.number().int().positive("O custo deve ser um número positivo"),
   stock: z.coerce.number().int().nonnegative("O estoque não pode ser negativo"),
   isActive: z.boolean().default(true),
+  // "none" representa produto sem categoria
+  categoryId: z.string(),
+  // Tags separadas por vírgula
+  tags: z.string().optional(),
 });
 
 type ProductFormData = z.infer<typeof productSchema>;
 
+// Converte os valores do formulário no corpo aceito pela API
+function toProductPayload(data: ProductFormData) {
+  return {
+    ...data,
+    categoryId: data.categoryId === "none" ? null : parseInt(data.categoryId),
+    tags: data.tags || "",
+  };
+}
+
+// Campos de categoria e tags, compartilhados pelos modais de criação e edição
+function ProductCatalogFields({
+  form,
+  categories,
+}: {
+  form: ReturnType<typeof useForm<ProductFormData>>;
+  categories: Category[];
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name="categoryId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Categoria</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a categoria" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="none">Sem categoria</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="tags"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Tags</FormLabel>
+            <FormControl>
+              <Input placeholder="vestuário, verão" {...field} />
+            </FormControl>
+            <FormDescription>Separadas por vírgula.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
 export default function AdminProductsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  // Auditores só consultam o catálogo
+  const canManageCatalog = can(PermissionEnum.CATALOG_MANAGE);
   const queryClient = useQueryClient();
   const [location, navigate] = useLocation();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCategoryDialogOpen, setIsCategoryDialogOpen] = useState(false);
+  const [isVariantDialogOpen, setIsVariantDialogOpen] = useState(false);
+  const [selectedProduct, setSelectedProduct] = useState<CatalogProduct | null>(null);
+  // Imagens escolhidas no cadastro, enviadas junto com o produto (a primeira é a principal)
+  const [pendingImages, setPendingImages] = useState<{ file: File; previewUrl: string }[]>([]);
 
   // Buscar produtos
   const {
     data: products,
     isLoading,
     error,
-  } = useQuery<Product[]>({
+  } = useQuery<CatalogProduct[]>({
     queryKey: ["/api/products"],
   });
 
+  // Buscar categorias para o formulário
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
   // Form para criar/editar produto
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -89,21 +175,25 @@ export default function AdminProductsPage() {
       pointsCost: 100,
       stock: 10,
       isActive: true,
+      categoryId: "none",
+      tags: "",
     },
   });
 
   // Mutation para criar produto
   const createProductMutation = useMutation({
     mutationFn: async (data: ProductFormData) => {
-      // Se houver uma imagem, usar FormData para envio multipart
-      if (selectedImage) {
+      // Com imagens, usar FormData para envio multipart
+      if (pendingImages.length > 0) {
         const formData = new FormData();
         formData.append('name', data.name);
         formData.append('description', data.description || '');
         formData.append('pointsCost', data.pointsCost.toString());
         formData.append('stock', data.stock.toString());
         formData.append('isActive', data.isActive.toString());
-        formData.append('image', selectedImage);
+        formData.append('categoryId', data.categoryId === "none" ? "" : data.categoryId);
+        formData.append('tags', data.tags || '');
+        pendingImages.forEach(({ file }) => formData.append('images', file));
         
         // Fazer solicitação POST com FormData
         const res = await fetch('/api/admin/products', {
@@ -119,17 +209,17 @@ export default function AdminProductsPage() {
         
         return await res.json();
       } else {
-        // Sem imagem, usar solicitação normal
-        const res = await apiRequest("POST", "/api/admin/products", data);
+        // Sem imagens, usar solicitação normal
+        const res = await apiRequest("POST", "/api/admin/products", toProductPayload(data));
         return await res.json();
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setIsCreateDialogOpen(false);
       form.reset();
-      setSelectedImage(null);
-      setImagePreview(null);
+      clearPendingImages();
       toast({
         title: "Produto criado",
         description: "O produto foi criado com sucesso.",
@@ -153,41 +243,15 @@ export default function AdminProductsPage() {
       id: number;
       data: ProductFormData;
     }) => {
-      // Se houver uma imagem, usar FormData para envio multipart
-      if (selectedImage) {
-        const formData = new FormData();
-        formData.append('name', data.name);
-        formData.append('description', data.description || '');
-        formData.append('pointsCost', data.pointsCost.toString());
-        formData.append('stock', data.stock.toString());
-        formData.append('isActive', data.isActive.toString());
-        formData.append('image', selectedImage);
-        
-        // Fazer solicitação PATCH com FormData
-        const res = await fetch(`/api/admin/products/${id}`, {
-          method: 'PATCH',
-          body: formData,
-          credentials: 'include'
-        });
-        
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.message || 'Erro ao atualizar produto');
-        }
-        
-        return await res.json();
-      } else {
-        // Sem imagem, usar solicitação normal
-        const res = await apiRequest("PATCH", `/api/admin/products/${id}`, data);
-        return await res.json();
-      }
+      // As imagens são salvas à parte, pela galeria
+      const res = await apiRequest("PATCH", `/api/admin/products/${id}`, toProductPayload(data));
+      return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setIsEditDialogOpen(false);
       setSelectedProduct(null);
-      setSelectedImage(null);
-      setImagePreview(null);
       toast({
         title: "Produto atualizado",
         description: "O produto foi atualizado com sucesso.",
@@ -226,14 +290,8 @@ export default function AdminProductsPage() {
   });
 
   // Abrir modal de edição e preencher o formulário
-  const handleEditProduct = (product: Product) => {
+  const handleEditProduct = (product: CatalogProduct) => {
     setSelectedProduct(product);
-    // Limpar imagem prévia, vamos usar a imageUrl do produto se existir
-    setSelectedImage(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
     
     // Preencher o formulário com dados do produto
     form.reset({
@@ -242,59 +300,49 @@ export default function AdminProductsPage() {
       pointsCost: product.pointsCost,
       stock: product.stock,
       isActive: product.isActive,
+      categoryId: product.category ? product.category.id.toString() : "none",
+      tags: product.tags.map((tag) => tag.name).join(", "),
     });
     
     setIsEditDialogOpen(true);
   };
 
+  // Abrir modal de variações
+  const handleManageVariants = (product: CatalogProduct) => {
+    setSelectedProduct(product);
+    setIsVariantDialogOpen(true);
+  };
+
   // Abrir modal de exclusão
-  const handleDeleteProduct = (product: Product) => {
+  const handleDeleteProduct = (product: CatalogProduct) => {
     setSelectedProduct(product);
     setIsDeleteDialogOpen(true);
   };
 
-  // Handler para manipular a seleção de imagem
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Validar se é uma imagem
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: "Arquivo inválido",
-        description: "Por favor, selecione uma imagem válida.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    // Limitar tamanho (5MB)
-    if (file.size > 5 * 1024 * 1024) {
+  // Handlers das imagens do cadastro; a principal é sempre a primeira da lista
+  const handleAddPendingImages = (files: File[]) => {
+    const accepted = files.slice(0, MAX_PRODUCT_IMAGES_PER_UPLOAD - pendingImages.length);
+    if (accepted.length < files.length) {
       toast({
-        title: "Arquivo muito grande",
-        description: "O tamanho máximo permitido é 5MB.",
+        title: "Muitas imagens",
+        description: `O cadastro aceita até ${MAX_PRODUCT_IMAGES_PER_UPLOAD} imagens; adicione as demais depois, ao editar o produto.`,
         variant: "destructive",
       });
-      return;
     }
-    
-    setSelectedImage(file);
-    
-    // Criar preview da imagem
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      setImagePreview(event.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    setPendingImages([
+      ...pendingImages,
+      ...accepted.map((file) => ({ file, previewUrl: URL.createObjectURL(file) })),
+    ]);
   };
-  
-  // Handler para limpar a imagem selecionada
-  const handleClearImage = () => {
-    setSelectedImage(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+
+  const handleRemovePendingImage = (index: number) => {
+    URL.revokeObjectURL(pendingImages[index].previewUrl);
+    setPendingImages(pendingImages.filter((_, i) => i !== index));
+  };
+
+  const clearPendingImages = () => {
+    pendingImages.forEach(({ previewUrl }) => URL.revokeObjectURL(previewUrl));
+    setPendingImages([]);
   };
 
   // Handler para criar produto
@@ -349,10 +397,18 @@ export default function AdminProductsPage() {
             Adicione, edite ou remova produtos disponíveis para troca
           </p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Novo Produto
-        </Button>
+        {canManageCatalog && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsCategoryDialogOpen(true)}>
+              <FolderTree className="h-4 w-4 mr-2" />
+              Categorias
+            </Button>
+            <Button onClick={() => setIsCreateDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Produto
+            </Button>
+          </div>
+        )}
       </div>
 
       <Card>
@@ -373,13 +429,15 @@ export default function AdminProductsPage() {
                 Você ainda não cadastrou nenhum produto no sistema. Clique no
                 botão "Novo Produto" para adicionar o primeiro.
               </p>
-              <Button
-                className="mt-4"
-                onClick={() => setIsCreateDialogOpen(true)}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Adicionar Produto
-              </Button>
+              {canManageCatalog && (
+                <Button
+                  className="mt-4"
+                  onClick={() => setIsCreateDialogOpen(true)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar Produto
+                </Button>
+              )}
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -387,10 +445,11 @@ export default function AdminProductsPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Nome</TableHead>
+                    <TableHead>Categoria</TableHead>
                     <TableHead>Pontos</TableHead>
                     <TableHead>Estoque</TableHead>
                     <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Ações</TableHead>
+                    {canManageCatalog && <TableHead className="text-right">Ações</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -402,10 +461,31 @@ export default function AdminProductsPage() {
                           <p className="text-sm text-muted-foreground line-clamp-1">
                             {product.description || "Sem descrição"}
                           </p>
+                          {product.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {product.tags.map((tag) => (
+                                <Badge key={tag.id} variant="outline" className="text-xs font-normal">
+                                  #{tag.name}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        {product.category?.name || (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
                       <TableCell>{product.pointsCost}</TableCell>
-                      <TableCell>{product.stock}</TableCell>
+                      <TableCell>
+                        {product.stock}
+                        {product.variants.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {product.variants.length} {product.variants.length === 1 ? "variação" : "variações"}
+                          </p>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {product.isActive ? (
                           <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
@@ -417,30 +497,42 @@ export default function AdminProductsPage() {
                           </Badge>
                         )}
                       </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEditProduct(product)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                            <span className="sr-only md:not-sr-only md:ml-2">
-                              Editar
-                            </span>
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteProduct(product)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                            <span className="sr-only md:not-sr-only md:ml-2">
-                              Excluir
-                            </span>
-                          </Button>
-                        </div>
-                      </TableCell>
+                      {canManageCatalog && (
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditProduct(product)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                              <span className="sr-only md:not-sr-only md:ml-2">
+                                Editar
+                              </span>
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleManageVariants(product)}
+                            >
+                              <Layers className="h-4 w-4" />
+                              <span className="sr-only md:not-sr-only md:ml-2">
+                                Variações
+                              </span>
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteProduct(product)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only md:not-sr-only md:ml-2">
+                                Excluir
+                              </span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -451,7 +543,13 @@ export default function AdminProductsPage() {
       </Card>
 
       {/* Modal para adicionar produto */}
-      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+      <Dialog
+        open={isCreateDialogOpen}
+        onOpenChange={(open) => {
+          setIsCreateDialogOpen(open);
+          if (!open) clearPendingImages();
+        }}
+      >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Adicionar Novo Produto</DialogTitle>
@@ -522,6 +620,7 @@ export default function AdminProductsPage() {
                   )}
                 />
               </div>
+              <ProductCatalogFields form={form} categories={categories} />
               <FormField
                 control={form.control}
                 name="isActive"
@@ -542,50 +641,21 @@ export default function AdminProductsPage() {
                   </FormItem>
                 )}
               />
-              {/* Upload de imagem */}
+              {/* Galeria de imagens */}
               <div className="space-y-3">
-                <FormLabel>Imagem do Produto</FormLabel>
-                <div className="grid gap-4">
-                  {imagePreview ? (
-                    <div className="relative rounded-md overflow-hidden border aspect-square w-full max-w-[300px] mx-auto">
-                      <img 
-                        src={imagePreview} 
-                        alt="Preview da imagem"
-                        className="object-cover w-full h-full"
-                      />
-                      <Button 
-                        type="button"
-                        variant="destructive" 
-                        size="sm"
-                        className="absolute top-2 right-2 h-8 w-8 p-0 rounded-full" 
-                        onClick={handleClearImage}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ) : (
-                    <div 
-                      className="border-2 border-dashed rounded-md flex flex-col items-center justify-center p-6 text-center cursor-pointer hover:border-primary/50 transition-colors max-w-[300px] mx-auto aspect-square"
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <ImageIcon className="h-10 w-10 text-muted-foreground mb-2" />
-                      <div className="text-muted-foreground mb-1">
-                        Arraste e solte ou clique para escolher uma imagem
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        SVG, PNG, JPG ou GIF (máx. 5MB)
-                      </div>
-                    </div>
-                  )}
-                  
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    className="hidden"
-                    accept="image/*"
-                    onChange={handleImageSelect}
-                  />
-                </div>
+                <FormLabel>Imagens do Produto</FormLabel>
+                <ProductImageGrid
+                  items={pendingImages.map(({ previewUrl }, index) => ({
+                    key: previewUrl,
+                    src: previewUrl,
+                    isPrimary: index === 0,
+                  }))}
+                  onAddFiles={handleAddPendingImages}
+                  onReorder={(from, to) => setPendingImages(moveItem(pendingImages, from, to))}
+                  onSetPrimary={(index) => setPendingImages(moveItem(pendingImages, index, 0))}
+                  onRemove={handleRemovePendingImage}
+                  disabled={createProductMutation.isPending}
+                />
               </div>
 
               <DialogFooter>
@@ -679,13 +749,22 @@ export default function AdminProductsPage() {
                     <FormItem>
                       <FormLabel>Estoque</FormLabel>
                       <FormControl>
-                        <Input type="number" min="0" {...field} />
+                        <Input
+                          type="number"
+                          min="0"
+                          disabled={!!selectedProduct?.variants.length}
+                          {...field}
+                        />
                       </FormControl>
+                      {!!selectedProduct?.variants.length && (
+                        <FormDescription>Soma do estoque das variações.</FormDescription>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
+              <ProductCatalogFields form={form} categories={categories} />
               <FormField
                 control={form.control}
                 name="isActive"
@@ -706,69 +785,16 @@ export default function AdminProductsPage() {
                   </FormItem>
                 )}
               />
-              {/* Upload de imagem */}
-              <div className="space-y-3">
-                <FormLabel>Imagem do Produto</FormLabel>
-                <div className="grid gap-4">
-                  {imagePreview ? (
-                    <div className="relative rounded-md overflow-hidden border aspect-square w-full max-w-[300px] mx-auto">
-                      <img 
-                        src={imagePreview} 
-                        alt="Preview da imagem"
-                        className="object-cover w-full h-full"
-                      />
-                      <Button 
-                        type="button"
-                        variant="destructive" 
-                        size="sm"
-                        className="absolute top-2 right-2 h-8 w-8 p-0 rounded-full" 
-                        onClick={handleClearImage}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ) : selectedProduct?.imageUrl ? (
-                    <div className="relative rounded-md overflow-hidden border aspect-square w-full max-w-[300px] mx-auto">
-                      <img 
-                        src={selectedProduct.imageUrl} 
-                        alt={selectedProduct.name}
-                        className="object-cover w-full h-full"
-                      />
-                      <Button 
-                        type="button"
-                        variant="outline" 
-                        size="sm"
-                        className="absolute bottom-2 right-2 bg-white/80 hover:bg-white" 
-                        onClick={() => fileInputRef.current?.click()}
-                      >
-                        <Pencil className="h-4 w-4 mr-1" />
-                        Alterar
-                      </Button>
-                    </div>
-                  ) : (
-                    <div 
-                      className="border-2 border-dashed rounded-md flex flex-col items-center justify-center p-6 text-center cursor-pointer hover:border-primary/50 transition-colors max-w-[300px] mx-auto aspect-square"
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <ImageIcon className="h-10 w-10 text-muted-foreground mb-2" />
-                      <div className="text-muted-foreground mb-1">
-                        Arraste e solte ou clique para escolher uma imagem
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        SVG, PNG, JPG ou GIF (máx. 5MB)
-                      </div>
-                    </div>
-                  )}
-                  
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    className="hidden"
-                    accept="image/*"
-                    onChange={handleImageSelect}
+              {/* Galeria de imagens (salva imediatamente) */}
+              {selectedProduct && (
+                <div className="space-y-3">
+                  <FormLabel>Imagens do Produto</FormLabel>
+                  <ProductImageManager
+                    productId={selectedProduct.id}
+                    legacyImageUrl={selectedProduct.images.length === 0 ? selectedProduct.imageUrl : null}
                   />
                 </div>
-              </div>
+              )}
 
               <DialogFooter>
                 <Button
@@ -797,6 +823,19 @@ export default function AdminProductsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Modal para gerenciar variações */}
+      <VariantManagerDialog
+        product={selectedProduct}
+        open={isVariantDialogOpen}
+        onOpenChange={setIsVariantDialogOpen}
+      />
+
+      {/* Modal para gerenciar categorias */}
+      <CategoryManagerDialog
+        open={isCategoryDialogOpen}
+        onOpenChange={setIsCategoryDialogOpen}
+      />
+
       {/* Modal para confirmar exclusão */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,590 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UNITS_QUERY_KEY } from "@/hooks/use-units";
+import { Unit, User, UnitBudgetStatus, UserRoleEnum, BudgetPeriodEnum, BUDGET_PERIODS } from "@shared/schema";
+import { PermissionEnum } from "@shared/permissions";
+import { formatBudgetPeriod, formatUnitPath, getUnitSubtreeIds } from "@shared/units";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Componentes
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Plus, Pencil, Trash2, Building2 } from "lucide-react";
+import DataTableHeader from "@/components/DataTableHeader";
+
+// Layout
+import Layout from "@/components/Layout";
+
+// As datas chegam do servidor como texto
+type BudgetRow = Omit<UnitBudgetStatus, "periodStart"> & { periodStart: string; path: string };
+
+// Schema para o formulário de unidade
+const unitFormSchema = z.object({
+  name: z.string().trim().min(2, "O nome deve ter pelo menos 2 caracteres"),
+  parentId: z.string(), // Id da unidade superior, ou "none"
+  managerId: z.string(), // Id do gestor, ou "none"
+  pointsBudget: z.string().regex(/^\d*$/, "Informe um número inteiro de xCoins"), // Em branco: sem orçamento
+  budgetPeriod: z.enum(BUDGET_PERIODS),
+});
+
+type UnitFormValues = z.infer<typeof unitFormSchema>;
+
+const emptyUnitForm: UnitFormValues = {
+  name: "",
+  parentId: "none",
+  managerId: "none",
+  pointsBudget: "",
+  budgetPeriod: BudgetPeriodEnum.MONTHLY,
+};
+
+const managerName = (manager: UnitBudgetStatus["manager"]) =>
+  manager ? manager.displayName || manager.username : null;
+
+// Hierarquia de unidades e orçamento de pontos de cada uma: quanto foi alocado para o
+// período corrente, quanto o gestor já creditou e quanto ainda pode creditar
+export default function UnitsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // Auditores só consultam as unidades e os orçamentos
+  const canManageUnits = can(PermissionEnum.UNITS_MANAGE);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedUnit, setSelectedUnit] = useState<Unit | null>(null);
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const { data: units, isLoading } = useQuery<Unit[]>({
+    queryKey: ["/api/admin/units"],
+  });
+
+  const { data: budgets } = useQuery<(Omit<UnitBudgetStatus, "periodStart"> & { periodStart: string })[]>({
+    queryKey: ["/api/admin/units/budgets"],
+    staleTime: 0,
+  });
+
+  // Gestores possíveis: funcionários ativos com a função de gestor de unidade
+  const { data: employees } = useQuery<User[]>({
+    queryKey: ["/api/admin/employees", "active"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/employees?status=active");
+      return await res.json();
+    },
+    enabled: canManageUnits,
+  });
+  const managers = (employees || []).filter((employee) => employee.role === UserRoleEnum.UNIT_MANAGER);
+
+  // Formulário de criação/edição
+  const unitForm = useForm<UnitFormValues>({
+    resolver: zodResolver(unitFormSchema),
+    defaultValues: emptyUnitForm,
+  });
+
+  // Orçamentos ordenados pelo caminho completo, que agrupa as subunidades sob a unidade superior
+  const budgetRows = useMemo<BudgetRow[]>(() => {
+    if (!budgets) return [];
+    const nodes = budgets.map((budget) => ({ id: budget.unitId, parentId: budget.parentId, name: budget.name }));
+    return budgets
+      .map((budget) => ({ ...budget, path: formatUnitPath(nodes, budget.unitId) }))
+      .sort((a, b) => a.path.localeCompare(b.path, "pt-BR"));
+  }, [budgets]);
+
+  // Filtrar as unidades com base na pesquisa
+  const filteredRows = useMemo(() => {
+    if (!searchQuery) return budgetRows;
+
+    const query = searchQuery.toLowerCase();
+    return budgetRows.filter(row =>
+      row.path.toLowerCase().includes(query) ||
+      (managerName(row.manager)?.toLowerCase() || "").includes(query)
+    );
+  }, [budgetRows, searchQuery]);
+
+  const totals = useMemo(() => budgetRows.reduce(
+    (sum, row) => ({
+      budget: sum.budget + (row.budget ?? 0),
+      spent: sum.spent + row.spent,
+      remaining: sum.remaining + row.remaining,
+    }),
+    { budget: 0, spent: 0, remaining: 0 },
+  ), [budgetRows]);
+
+  // Unidades que podem ser a superior da unidade em edição: nenhuma da própria subárvore
+  const parentOptions = useMemo(() => {
+    if (!selectedUnit) return budgetRows;
+    const excluded = getUnitSubtreeIds(units || [], [selectedUnit.id]);
+    return budgetRows.filter((row) => !excluded.includes(row.unitId));
+  }, [budgetRows, units, selectedUnit]);
+
+  const invalidateUnits = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/units"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/units/budgets"] });
+    queryClient.invalidateQueries({ queryKey: UNITS_QUERY_KEY });
+  };
+
+  // Converter os valores do formulário para o formato da API
+  const toPayload = (values: UnitFormValues) => ({
+    name: values.name,
+    parentId: values.parentId === "none" ? null : parseInt(values.parentId),
+    managerId: values.managerId === "none" ? null : parseInt(values.managerId),
+    pointsBudget: values.pointsBudget ? parseInt(values.pointsBudget) : null,
+    budgetPeriod: values.budgetPeriod,
+  });
+
+  // Mutação para salvar unidade (criação ou edição)
+  const saveUnitMutation = useMutation({
+    mutationFn: async (values: UnitFormValues) => {
+      const res = selectedUnit
+        ? await apiRequest("PATCH", `/api/admin/units/${selectedUnit.id}`, toPayload(values))
+        : await apiRequest("POST", "/api/admin/units", toPayload(values));
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateUnits();
+      setIsFormDialogOpen(false);
+      toast({
+        title: "Unidade salva com sucesso",
+        description: "A hierarquia e o orçamento da unidade foram atualizados.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar unidade",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutação para excluir unidade
+  const deleteUnitMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/admin/units/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateUnits();
+      setIsDeleteDialogOpen(false);
+      setSelectedUnit(null);
+      toast({
+        title: "Unidade excluída com sucesso",
+        description: "Os créditos já feitos com o orçamento dela continuam no histórico.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao excluir unidade",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Handler para abrir o diálogo de criação
+  const handleOpenCreateDialog = () => {
+    setSelectedUnit(null);
+    unitForm.reset(emptyUnitForm);
+    setIsFormDialogOpen(true);
+  };
+
+  // Handler para abrir o diálogo de edição
+  const handleOpenEditDialog = (unitId: number) => {
+    const unit = units?.find((item) => item.id === unitId);
+    if (!unit) return;
+    setSelectedUnit(unit);
+    unitForm.reset({
+      name: unit.name,
+      parentId: unit.parentId ? unit.parentId.toString() : "none",
+      managerId: unit.managerId ? unit.managerId.toString() : "none",
+      pointsBudget: unit.pointsBudget?.toString() ?? "",
+      budgetPeriod: unit.budgetPeriod,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  // Handler para abrir o diálogo de exclusão
+  const handleOpenDeleteDialog = (unitId: number) => {
+    const unit = units?.find((item) => item.id === unitId);
+    if (!unit) return;
+    setSelectedUnit(unit);
+    setIsDeleteDialogOpen(true);
+  };
+
+  // Função para gerar dados para exportação
+  const getExportData = () => {
+    return filteredRows.map(row => ({
+      ID: row.unitId,
+      Unidade: row.path,
+      Gestor: managerName(row.manager) || "",
+      Período: formatBudgetPeriod(row.period),
+      'Início do Período': format(new Date(row.periodStart), "dd/MM/yyyy", { locale: ptBR }),
+      Orçamento: row.budget ?? "",
+      Utilizado: row.spent,
+      Disponível: row.remaining,
+    }));
+  };
+
+  // Gestor escolhido que não aparece na lista (desativado ou com outra função)
+  const currentManagerId = unitForm.watch("managerId");
+  const currentManager = selectedUnit && currentManagerId !== "none" && !managers.some((manager) => manager.id.toString() === currentManagerId)
+    ? budgetRows.find((row) => row.unitId === selectedUnit.id)?.manager
+    : null;
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <DataTableHeader
+          title="Unidades e Orçamentos"
+          description="Hierarquia das unidades e orçamento de xCoins que cada gestor pode creditar no período"
+          onSearch={setSearchQuery}
+          onExport={getExportData}
+          exportFileName="orcamentos-das-unidades"
+        />
+
+        {canManageUnits && (
+          <div className="flex justify-end mb-4">
+            <Button onClick={handleOpenCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nova Unidade
+            </Button>
+          </div>
+        )}
+
+        {budgetRows.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-3 mb-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Orçamento alocado no período</CardDescription>
+                <CardTitle>{totals.budget} xCoins</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Creditado pelos gestores</CardDescription>
+                <CardTitle>{totals.spent} xCoins</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Ainda disponível</CardDescription>
+                <CardTitle>{totals.remaining} xCoins</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+        )}
+
+        {filteredRows.length > 0 ? (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableCaption>
+                  {filteredRows.length}
+                  {filteredRows.length === 1 ? ' unidade' : ' unidades'}
+                </TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Unidade</TableHead>
+                    <TableHead>Gestor</TableHead>
+                    <TableHead>Período</TableHead>
+                    <TableHead className="text-right">Orçamento</TableHead>
+                    <TableHead className="w-[200px]">Utilizado</TableHead>
+                    <TableHead className="text-right">Disponível</TableHead>
+                    {canManageUnits && <TableHead>Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map((row) => (
+                    <TableRow key={row.unitId}>
+                      <TableCell>
+                        <div className="font-medium">{row.name}</div>
+                        {row.path !== row.name && (
+                          <div className="text-xs text-muted-foreground">{row.path}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{managerName(row.manager) || <span className="text-muted-foreground">Sem gestor</span>}</TableCell>
+                      <TableCell>
+                        {formatBudgetPeriod(row.period)}
+                        <div className="text-xs text-muted-foreground">
+                          desde {format(new Date(row.periodStart), "dd/MM/yyyy", { locale: ptBR })}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.budget !== null ? row.budget : <span className="text-muted-foreground">Sem orçamento</span>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{row.spent} xCoins</div>
+                        {row.budget ? (
+                          <Progress value={Math.min((row.spent / row.budget) * 100, 100)} className="h-2 mt-1" />
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{row.remaining}</TableCell>
+                      {canManageUnits && (
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => handleOpenEditDialog(row.unitId)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => handleOpenDeleteDialog(row.unitId)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="text-center">
+              <Building2 className="mx-auto h-12 w-12 text-secondary opacity-40" />
+              <CardTitle>Nenhuma unidade encontrada</CardTitle>
+              <CardDescription>
+                {budgetRows.length > 0
+                  ? "Nenhuma unidade corresponde à pesquisa."
+                  : "Cadastre as unidades da empresa para definir gestores e orçamentos de xCoins."}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+
+      {/* Dialog de criação/edição de unidade */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{selectedUnit ? "Editar Unidade" : "Nova Unidade"}</DialogTitle>
+            <DialogDescription>
+              O gestor credita xCoins aos funcionários da unidade e das subunidades dela, até o orçamento do período.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...unitForm}>
+            <form onSubmit={unitForm.handleSubmit((values) => saveUnitMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={unitForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Ex: Logística" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={unitForm.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidade superior</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a unidade superior" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Nenhuma (unidade principal)</SelectItem>
+                        {parentOptions.map((row) => (
+                          <SelectItem key={row.unitId} value={row.unitId.toString()}>{row.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={unitForm.control}
+                name="managerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gestor</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o gestor" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Sem gestor</SelectItem>
+                        {currentManager && (
+                          <SelectItem value={currentManager.id.toString()}>{managerName(currentManager)}</SelectItem>
+                        )}
+                        {managers.map((manager) => (
+                          <SelectItem key={manager.id} value={manager.id.toString()}>
+                            {manager.displayName || manager.username}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Somente usuários com a função Gestor de unidade</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={unitForm.control}
+                  name="pointsBudget"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Orçamento de xCoins</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} placeholder="Ex: 500" />
+                      </FormControl>
+                      <FormDescription>Em branco, o gestor não credita</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={unitForm.control}
+                  name="budgetPeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Período</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione o período" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BUDGET_PERIODS.map((period) => (
+                            <SelectItem key={period} value={period}>{formatBudgetPeriod(period)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>O saldo não acumula</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveUnitMutation.isPending}>
+                  {saveUnitMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    "Salvar Unidade"
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog para confirmar exclusão */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Excluir Unidade</DialogTitle>
+            <DialogDescription>
+              A unidade {selectedUnit?.name} só pode ser excluída se não tiver subunidades, funcionários
+              ativos nem premiações automáticas. Funcionários desativados ficam sem unidade.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => selectedUnit && deleteUnitMutation.mutate(selectedUnit.id)}
+              disabled={deleteUnitMutation.isPending}
+            >
+              {deleteUnitMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Excluindo...
+                </>
+              ) : (
+                "Sim, excluir"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -23,7 +23,13 @@ import {
   FormMessage 
 } from "@/components/ui/form";
 
-import { Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { passwordSchema, refinePasswordNotUsername } from "@shared/password-policy";
+import type { AuthConfig } from "@shared/schema";
+import TwoFactorCodeInput from "@/components/TwoFactorCodeInput";
+import { Loader2, MailCheck, Building2 } from "lucide-react";
 
 // Schema para validação do formulário de login
 const loginSchema = z.object({
@@ -34,17 +40,166 @@ const loginSchema = z.object({
 // Schema para validação do formulário de registro
 const registerSchema = z.object({
   username: z.string().min(3, "O nome de usuário deve ter pelo menos 3 caracteres"),
-  password: z.string().min(6, "A senha deve ter pelo menos 6 caracteres"),
+  password: passwordSchema,
   email: z.string().email("Email inválido"),
   displayName: z.string().optional(),
+}).superRefine(refinePasswordNotUsername("password", (data) => data.username));
+
+// Schema para validação do pedido de redefinição de senha
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Email inválido"),
 });
 
+// Motivos de volta do login corporativo (parâmetro sso_error enviado pelo servidor)
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  unavailable: "O login corporativo está indisponível no momento. Tente novamente em instantes.",
+  inactive: "Sua conta está desativada. Procure um administrador.",
+  rejected: "Não foi possível associar sua conta corporativa a um usuário da loja. Procure um administrador.",
+  failed: "Não foi possível concluir o login corporativo. Tente novamente.",
+};
+
 type LoginFormData = z.infer<typeof loginSchema>;
 type RegisterFormData = z.infer<typeof registerSchema>;
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+// Pedido do link de redefinição de senha, enviado por e-mail
+function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", data);
+      return await res.json() as { message: string };
+    },
+  });
+
+  if (requestResetMutation.isSuccess) {
+    return (
+      <div className="text-center space-y-4">
+        <MailCheck className="mx-auto h-10 w-10 text-secondary" />
+        <p className="text-sm">{requestResetMutation.data.message}</p>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Voltar para o login
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => requestResetMutation.mutate(data))} className="space-y-4">
+        {requestResetMutation.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>{getApiErrorMessage(requestResetMutation.error)}</AlertDescription>
+          </Alert>
+        )}
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-primary font-medium">E-mail</FormLabel>
+              <FormControl>
+                <Input 
+                  type="email" 
+                  placeholder="voce@empresa.com" 
+                  {...field}
+                  className="border-primary/20 focus-visible:ring-primary/30" 
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button 
+          type="submit" 
+          className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0 mt-6" 
+          disabled={requestResetMutation.isPending}
+        >
+          {requestResetMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Enviando...
+            </>
+          ) : (
+            "Enviar link de redefinição"
+          )}
+        </Button>
+        <Button type="button" variant="link" className="w-full text-primary/70" onClick={onBack}>
+          Voltar para o login
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Segundo passo do login das contas com 2FA: código do aplicativo autenticador
+// ou um dos códigos de recuperação
+function TwoFactorLoginForm({ onBack, onSuccess }: { onBack: () => void; onSuccess: () => void }) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [code, setCode] = useState("");
+
+  const submit = (value: string) => {
+    if (!value.trim()) return;
+    twoFactorLoginMutation.mutate({ code: value }, {
+      onSuccess,
+      onError: () => setCode(""),
+    });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(code);
+      }}
+      className="space-y-4"
+    >
+      <TwoFactorCodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={submit}
+        disabled={twoFactorLoginMutation.isPending}
+        allowRecoveryCode
+      />
+      <Button 
+        type="submit" 
+        className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0" 
+        disabled={twoFactorLoginMutation.isPending || !code.trim()}
+      >
+        {twoFactorLoginMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verificando...
+          </>
+        ) : (
+          "Verificar"
+        )}
+      </Button>
+      <Button type="button" variant="link" className="w-full text-primary/70" onClick={onBack}>
+        Voltar para o login
+      </Button>
+    </form>
+  );
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [location, navigate] = useLocation();
+  const [isForgotPassword, setIsForgotPassword] = useState(false);
+  // O login corporativo volta para cá com ?step=2fa (conta com 2FA) ou ?sso_error=...
+  const [searchParams] = useState(() => new URLSearchParams(window.location.search));
+  const [isTwoFactorStep, setIsTwoFactorStep] = useState(() => searchParams.get("step") === "2fa");
+  const ssoError = searchParams.get("sso_error");
+
+  const { data: authConfig } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+  });
 
   // Redirecionar para a página inicial se o usuário já estiver autenticado
   useEffect(() => {
@@ -76,7 +231,11 @@ export default function AuthPage() {
   // Login submit handler
   const onLoginSubmit = (data: LoginFormData) => {
     loginMutation.mutate(data, {
-      onSuccess: () => {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setIsTwoFactorStep(true);
+          return;
+        }
         navigate("/");
       }
     });
@@ -106,65 +265,113 @@ export default function AuthPage() {
           <Card className="border-primary/20 overflow-hidden shadow-md">
             <div className="bg-gradient-to-r from-primary to-secondary h-2"></div>
             <CardHeader className="bg-gradient-to-br from-primary/5 to-secondary/5">
-              <CardTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Acesse sua conta</CardTitle>
+              <CardTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+                {isTwoFactorStep
+                  ? "Verificação em duas etapas"
+                  : isForgotPassword ? "Esqueceu sua senha?" : "Acesse sua conta"}
+              </CardTitle>
               <CardDescription>
-                Entre com seu nome de usuário e senha para acessar o sistema.
+                {isTwoFactorStep
+                  ? "Digite o código de 6 dígitos exibido no seu aplicativo autenticador."
+                  : isForgotPassword
+                    ? "Informe o e-mail da sua conta e enviaremos um link para criar uma nova senha."
+                    : "Entre com seu nome de usuário e senha para acessar o sistema."}
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-6">
-              <Form {...loginForm}>
-                <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                  <FormField
-                    control={loginForm.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-primary font-medium">Nome de usuário</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="nome_usuario" 
-                            {...field}
-                            className="border-primary/20 focus-visible:ring-primary/30" 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={loginForm.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-primary font-medium">Senha</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="password" 
-                            placeholder="******" 
-                            {...field}
-                            className="border-primary/20 focus-visible:ring-primary/30" 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <Button 
-                    type="submit" 
-                    className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0 mt-6" 
-                    disabled={loginMutation.isPending}
-                  >
-                    {loginMutation.isPending ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Entrando...
-                      </>
-                    ) : (
-                      "Entrar"
-                    )}
-                  </Button>
-                </form>
-              </Form>
+              {isTwoFactorStep ? (
+                <TwoFactorLoginForm
+                  onBack={() => {
+                    setIsTwoFactorStep(false);
+                    loginForm.resetField("password");
+                  }}
+                  onSuccess={() => navigate("/")}
+                />
+              ) : isForgotPassword ? (
+                <ForgotPasswordForm onBack={() => setIsForgotPassword(false)} />
+              ) : (
+                <Form {...loginForm}>
+                  {ssoError && (
+                    <Alert variant="destructive" className="mb-4">
+                      <AlertDescription>{SSO_ERROR_MESSAGES[ssoError] ?? SSO_ERROR_MESSAGES.failed}</AlertDescription>
+                    </Alert>
+                  )}
+                  {authConfig?.sso && (
+                    <div className="space-y-4 mb-4">
+                      <Button asChild variant="outline" className="w-full border-primary/30 text-primary hover:bg-primary/10">
+                        <a href="/api/auth/oidc">
+                          <Building2 className="mr-2 h-4 w-4" />
+                          Entrar com {authConfig.sso.providerName}
+                        </a>
+                      </Button>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <div className="h-px flex-1 bg-border" />
+                        {authConfig.passwordLoginAdminsOnly ? "ou, para administradores" : "ou"}
+                        <div className="h-px flex-1 bg-border" />
+                      </div>
+                    </div>
+                  )}
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                    <FormField
+                      control={loginForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-primary font-medium">Nome de usuário</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder="nome_usuario" 
+                              {...field}
+                              className="border-primary/20 focus-visible:ring-primary/30" 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={loginForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-primary font-medium">Senha</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="password" 
+                              placeholder="******" 
+                              {...field}
+                              className="border-primary/20 focus-visible:ring-primary/30" 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button 
+                      type="submit" 
+                      className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0 mt-6" 
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Entrando...
+                        </>
+                      ) : (
+                        "Entrar"
+                      )}
+                    </Button>
+                    <Button 
+                      type="button" 
+                      variant="link" 
+                      className="w-full text-primary/70" 
+                      onClick={() => setIsForgotPassword(true)}
+                    >
+                      Esqueci minha senha
+                    </Button>
+                  </form>
+                </Form>
+              )}
             </CardContent>
             <CardFooter className="flex flex-col items-center justify-center bg-gradient-to-br from-primary/5 to-secondary/5 border-t border-primary/10">
               <p className="text-sm text-primary/70">
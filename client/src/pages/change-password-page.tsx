@@ -0,0 +1,199 @@
+import { useMemo } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Redirect, useLocation } from "wouter";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { useAuth, User } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { passwordSchema, refinePasswordNotUsername } from "@shared/password-policy";
+import PasswordRequirements from "@/components/PasswordRequirements";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Loader2, LogOut } from "lucide-react";
+
+// Schema para validação do formulário de troca de senha; a nova senha não pode
+// ser igual ao nome de usuário de quem está logado
+function createChangePasswordSchema(username: string | undefined) {
+  return z.object({
+    currentPassword: z.string().min(1, "Informe a senha provisória"),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  }).refine((data) => data.newPassword === data.confirmPassword, {
+    message: "As senhas não coincidem",
+    path: ["confirmPassword"],
+  }).refine((data) => data.newPassword !== data.currentPassword, {
+    message: "A nova senha deve ser diferente da senha provisória",
+    path: ["newPassword"],
+  }).superRefine(refinePasswordNotUsername("newPassword", () => username));
+}
+
+type ChangePasswordFormData = z.infer<ReturnType<typeof createChangePasswordSchema>>;
+
+// Troca obrigatória de senha: contas criadas com senha provisória só acessam
+// o restante do sistema depois de passar por aqui
+export default function ChangePasswordPage() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const changePasswordSchema = useMemo(() => createChangePasswordSchema(user?.username), [user?.username]);
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePasswordFormData) => {
+      const res = await apiRequest("PATCH", "/api/protected/profile", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({
+        title: "Senha alterada",
+        description: "Sua nova senha já está valendo.",
+      });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alterar senha",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Redirect to="/auth" />;
+  }
+
+  if (!user.mustChangePassword) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4 py-12">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Proxxima Store</h1>
+        </div>
+
+        <Card className="border-primary/20 overflow-hidden shadow-md">
+          <div className="bg-gradient-to-r from-primary to-secondary h-2"></div>
+          <CardHeader className="bg-gradient-to-br from-primary/5 to-secondary/5">
+            <CardTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Crie sua senha</CardTitle>
+            <CardDescription>
+              Olá, {user.displayName || user.username}! Sua conta usa uma senha provisória.
+              Escolha uma senha nova para continuar.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="currentPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-primary font-medium">Senha provisória</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="******" {...field} className="border-primary/20 focus-visible:ring-primary/30" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-primary font-medium">Nova senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="******" {...field} className="border-primary/20 focus-visible:ring-primary/30" />
+                      </FormControl>
+                      <PasswordRequirements password={field.value} username={user?.username} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-primary font-medium">Confirme a nova senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="******" {...field} className="border-primary/20 focus-visible:ring-primary/30" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0 mt-6"
+                  disabled={changePasswordMutation.isPending}
+                >
+                  {changePasswordMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    "Salvar nova senha"
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+          <CardFooter className="flex justify-center bg-gradient-to-br from-primary/5 to-secondary/5 border-t border-primary/10">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-primary/70"
+              onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => navigate("/auth") })}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sair
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
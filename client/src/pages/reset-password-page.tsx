@@ -0,0 +1,152 @@
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { passwordSchema } from "@shared/password-policy";
+import PasswordRequirements from "@/components/PasswordRequirements";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+// Schema para validação do formulário de redefinição
+const resetPasswordSchema = z.object({
+  newPassword: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+// Página aberta pelo link do e-mail de redefinição (/auth/reset-password?token=...)
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", {
+        token,
+        newPassword: data.newPassword,
+      });
+      return await res.json();
+    },
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4 py-12">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Proxxima Store</h1>
+        </div>
+
+        <Card className="border-primary/20 overflow-hidden shadow-md">
+          <div className="bg-gradient-to-r from-primary to-secondary h-2"></div>
+          <CardHeader className="bg-gradient-to-br from-primary/5 to-secondary/5">
+            <CardTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Redefinir senha</CardTitle>
+            <CardDescription>
+              Escolha uma nova senha para a sua conta.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            {!token ? (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Link de redefinição inválido. Abra o link completo enviado por e-mail ou solicite um novo.
+                </AlertDescription>
+              </Alert>
+            ) : resetPasswordMutation.isSuccess ? (
+              <div className="text-center space-y-3">
+                <CheckCircle2 className="mx-auto h-10 w-10 text-secondary" />
+                <p className="text-sm">Senha redefinida com sucesso. Você já pode entrar com a nova senha.</p>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+                  {resetPasswordMutation.isError && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{getApiErrorMessage(resetPasswordMutation.error)}</AlertDescription>
+                    </Alert>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="newPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-primary font-medium">Nova senha</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="******" {...field} className="border-primary/20 focus-visible:ring-primary/30" />
+                        </FormControl>
+                        <PasswordRequirements password={field.value} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-primary font-medium">Confirme a nova senha</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="******" {...field} className="border-primary/20 focus-visible:ring-primary/30" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 border-0 mt-6"
+                    disabled={resetPasswordMutation.isPending}
+                  >
+                    {resetPasswordMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Salvando...
+                      </>
+                    ) : (
+                      "Redefinir senha"
+                    )}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-center bg-gradient-to-br from-primary/5 to-secondary/5 border-t border-primary/10">
+            <Link href="/auth" className="text-sm text-primary/70 hover:text-primary">
+              Voltar para o login
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Redirect, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { getRequiredSetupPath } from "@/lib/protected-route";
+import TwoFactorEnrollment from "@/components/TwoFactorEnrollment";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, LogOut } from "lucide-react";
+
+// Cadastro obrigatório do 2FA: administradores só acessam o restante do
+// sistema depois de configurar o aplicativo autenticador
+export default function TwoFactorSetupPage() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  const [, navigate] = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Redirect to="/auth" />;
+  }
+
+  if (getRequiredSetupPath(user) !== "/two-factor-setup") {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4 py-12">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Proxxima Store</h1>
+        </div>
+
+        <Card className="border-primary/20 overflow-hidden shadow-md">
+          <div className="bg-gradient-to-r from-primary to-secondary h-2"></div>
+          <CardHeader className="bg-gradient-to-br from-primary/5 to-secondary/5">
+            <CardTitle className="bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">Proteja sua conta</CardTitle>
+            <CardDescription>
+              Olá, {user.displayName || user.username}! Contas de administrador precisam da
+              autenticação em dois fatores. Configure o aplicativo autenticador para continuar.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <TwoFactorEnrollment onComplete={() => navigate("/")} />
+          </CardContent>
+          <CardFooter className="flex justify-center bg-gradient-to-br from-primary/5 to-secondary/5 border-t border-primary/10">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-primary/70"
+              onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => navigate("/auth") })}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sair
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
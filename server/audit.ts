@@ -0,0 +1,80 @@
+import type { Request } from "express";
+import { storage, type AuditEntryBuilder } from "./storage";
+import { log } from "./vite";
+import type { AuditChanges, AuditEntityType, InsertAuditLogEntry } from "@shared/schema";
+
+// Ação administrativa a registrar; before/after são os estados da entidade
+// antes e depois da alteração (ausentes na criação e na exclusão, respectivamente)
+export type AuditEvent = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  description?: string;
+  before?: object | null;
+  after?: object | null;
+};
+
+// Campos que mudam a cada gravação e não dizem nada sobre a alteração
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+// Campos que nunca vão para o log, nem como hash
+const REDACTED_FIELDS = new Set(["password"]);
+const REDACTED_VALUE = "[oculto]";
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// Só os campos que mudaram, com o valor anterior e o novo. Numa alteração valem
+// os campos do estado novo: o anterior pode vir de uma consulta com dados extras
+export function diffAuditValues(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = before && after ? Object.keys(next) : [...Object.keys(previous), ...Object.keys(next)];
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const oldValue = normalize(previous[field]);
+    const newValue = normalize(next[field]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: REDACTED_VALUE, after: REDACTED_VALUE }
+      : { before: oldValue, after: newValue };
+  }
+  return changes;
+}
+
+function toAuditLogEntry(req: Request, event: AuditEvent): InsertAuditLogEntry {
+  return {
+    actorId: req.user?.id ?? null,
+    actorName: req.user?.username ?? "sistema",
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId ?? null,
+    description: event.description ?? null,
+    changes: diffAuditValues(event.before, event.after),
+    ipAddress: req.ip ?? null,
+  };
+}
+
+// Entrada do log para a ação de quem está logado, descrita a partir do resultado da
+// alteração. O método do storage que a recebe grava a entrada na mesma transação da
+// alteração: se o log falhar, a alteração também é desfeita
+export function auditEntry<T>(req: Request, describe: (result: T) => AuditEvent): AuditEntryBuilder<T> {
+  return (result) => toAuditLogEntry(req, describe(result));
+}
+
+// Registra, antes de executá-la, uma ação que não cabe numa única transação (como uma
+// execução das premiações automáticas). Uma falha no log impede a ação
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  await storage.createAuditLogEntry(toAuditLogEntry(req, event));
+}
+
+// Garante no banco que o log é somente inclusão; sem isso o servidor não sobe
+export async function protectAuditLog(): Promise<void> {
+  await storage.protectAuditLog();
+  log("Log de auditoria protegido contra alteração e exclusão", "audit");
+}
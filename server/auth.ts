@@ -1,11 +1,23 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as UserType, UserRoleEnum } from "@shared/schema";
+import { queueAccountCreatedEmail, queuePasswordResetEmail } from "./email";
+import { checkLoginThrottle, registerLoginFailure, registerLoginSuccess, recordLoginEvent, type LoginBlock } from "./login-throttle";
+import { verifyTwoFactorCode } from "./two-factor";
+import { auditEntry } from "./audit";
+import { 
+  OIDC_STRATEGY, oidcSettings, ensureOidcStrategy, isPasswordLoginAllowed, type OidcRejectedInfo 
+} from "./oidc";
+import { PASSWORD_POLICY, getPasswordPolicyErrors } from "@shared/password-policy";
+import { PermissionEnum, hasPermission, type Permission } from "@shared/permissions";
+import { 
+  User as UserType, UserRoleEnum, AuditEntityEnum, type UserRole, LoginFailureReasonEnum, LoginMethodEnum, type LoginMethod, type AuthConfig, 
+  requestPasswordResetSchema, resetPasswordSchema, twoFactorCodeSchema 
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -15,22 +27,160 @@ declare global {
       password: string;
       email: string;
       displayName: string | null;
-      role: "admin" | "employee";
+      role: UserRole;
       points: number;
+      unitId: number | null;
+      mustChangePassword: boolean;
+      twoFactorEnabled: boolean;
       createdAt: Date | null;
       updatedAt: Date | null;
     }
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password (or SSO) already checked, waiting for the 2FA code (no user is logged in yet)
+    pendingTwoFactor?: { userId: number; expiresAt: number; method: LoginMethod };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
+// Repassado à rota de login quando a tentativa é recusada por excesso de falhas
+type LoginBlockedInfo = { message: string; block: LoginBlock };
+
+// Repassado à rota de login quando a senha está certa, mas o funcionário só pode entrar pelo SSO
+type PasswordLoginDisabledInfo = { message: string; passwordLoginDisabled: true };
+
+// Validade do link de redefinição de senha
+const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
+
+// Tempo para digitar o código do segundo fator depois de acertar a senha
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
 export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// Senha aleatória para contas criadas pelo administrador (ex.: importação de planilha);
+// sorteia de novo até atender à política de senha
+export function generateTemporaryPassword() {
+  let password: string;
+  do {
+    password = randomBytes(9).toString("base64url");
+  } while (getPasswordPolicyErrors(password).length > 0);
+  return password;
+}
+
+// Erros da política de senha para uma nova senha. Para usuários existentes, também
+// recusa a senha atual e as anteriores guardadas no histórico.
+export async function getNewPasswordErrors(password: string, username: string, userId?: number): Promise<string[]> {
+  const errors = getPasswordPolicyErrors(password, username);
+  if (errors.length > 0 || userId === undefined) return errors;
+
+  const recentHashes = await storage.getRecentPasswordHashes(userId, PASSWORD_POLICY.historySize);
+  for (const hash of recentHashes) {
+    if (await comparePasswords(password, hash)) {
+      return [PASSWORD_POLICY.historySize > 1
+        ? `A nova senha não pode ser igual a nenhuma das suas últimas ${PASSWORD_POLICY.historySize} senhas`
+        : "A nova senha deve ser diferente da senha atual"];
+    }
+  }
+  return [];
+}
+
+// Só o hash do token de redefinição fica no banco; o token em si vai apenas no e-mail
+export function hashPasswordResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Libera a rota se o papel do usuário tiver ao menos uma das permissões (ver shared/permissions.ts).
+// Protege cada rota de /api/admin, por isso também aplica a troca obrigatória de senha e o cadastro do 2FA.
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Não autenticado" });
+    }
+    if (!hasPermission(req.user, ...permissions)) {
+      return res.status(403).json({ message: "Acesso não autorizado" });
+    }
+    requirePasswordChanged(req, res, () => requireTwoFactorEnrollment(req, res, next));
+  };
+}
+
+// Enquanto a troca obrigatória de senha não for feita, só a troca (no perfil) é permitida
+function requirePasswordChanged(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.mustChangePassword && !(req.method === "PATCH" && req.originalUrl.split("?")[0] === "/api/protected/profile")) {
+    return res.status(403).json({ 
+      message: "Troque sua senha antes de continuar", 
+      code: "PASSWORD_CHANGE_REQUIRED" 
+    });
+  }
+  next();
+}
+
+// Administradores precisam cadastrar o 2FA antes de usar o sistema; até lá só as
+// rotas de cadastro do 2FA ficam liberadas. A troca obrigatória de senha vem antes.
+function requireTwoFactorEnrollment(req: Request, res: Response, next: NextFunction) {
+  if (
+    req.user?.role === UserRoleEnum.ADMIN && 
+    !req.user.twoFactorEnabled && 
+    !req.user.mustChangePassword && 
+    !req.originalUrl.startsWith("/api/protected/2fa")
+  ) {
+    return res.status(403).json({ 
+      message: "Ative a autenticação em dois fatores antes de continuar", 
+      code: "TWO_FACTOR_SETUP_REQUIRED" 
+    });
+  }
+  next();
+}
+
+// Resposta das tentativas recusadas por excesso de falhas (usuário ou IP)
+function sendLoginBlocked(res: Response, block: LoginBlock) {
+  const retryAfterSeconds = Math.max(1, Math.ceil((block.until.getTime() - Date.now()) / 1000));
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ 
+    message: block.reason === LoginFailureReasonEnum.LOCKED
+      ? `Acesso bloqueado temporariamente por excesso de tentativas. Tente novamente em ${Math.ceil(retryAfterSeconds / 60)} minuto(s) ou peça o desbloqueio a um administrador.`
+      : `Muitas tentativas seguidas. Aguarde ${retryAfterSeconds} segundo(s) e tente novamente.`,
+    retryAfter: retryAfterSeconds,
+  });
+}
+
+// Cria a sessão do usuário e registra o login bem-sucedido
+async function completeLogin(req: Request, user: Express.User, method: LoginMethod): Promise<void> {
+  await registerLoginSuccess(user.username);
+  await recordLoginEvent({ 
+    userId: user.id, 
+    username: user.username, 
+    method, 
+    success: true, 
+    ipAddress: req.ip, 
+    userAgent: req.get("user-agent") ?? null 
+  });
+  await new Promise<void>((resolve, reject) => {
+    req.login(user, (loginErr) => (loginErr ? reject(loginErr) : resolve()));
+  });
+}
+
+// Guarda na sessão o login que ainda espera o código do segundo fator
+function startTwoFactorLogin(req: Request, user: Express.User, method: LoginMethod): Promise<void> {
+  req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS, method };
+  return new Promise((resolve, reject) => {
+    req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+  });
+}
+
+// Don't send password hash to client
+function sendLoggedInUser(res: Response, user: Express.User) {
+  const { password, ...userWithoutPassword } = user;
+  res.status(200).json(userWithoutPassword);
+}
+
 export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
@@ -58,12 +208,49 @@ export function setupAuth(app: Express) {
   app.use(passport.session());
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
+        const ipAddress = req.ip;
+        const event = { username, ipAddress, userAgent: req.get("user-agent") ?? null };
+
         const user = await storage.getUserByUsername(username);
+
+        // Usuário ou IP com falhas demais: recusa sem conferir a senha
+        const block = await checkLoginThrottle(username, ipAddress);
+        if (block) {
+          await recordLoginEvent({ ...event, userId: user?.id, success: false, failureReason: block.reason });
+          const info: LoginBlockedInfo = { message: block.reason, block };
+          return done(null, false, info);
+        }
+
         if (!user || !(await comparePasswords(password, user.password))) {
+          await registerLoginFailure(username, ipAddress);
+          await recordLoginEvent({ 
+            ...event, 
+            userId: user?.id, 
+            success: false, 
+            failureReason: LoginFailureReasonEnum.INVALID_CREDENTIALS 
+          });
           return done(null, false);
+        } else if (!user.isActive) {
+          // Usuários desativados não podem entrar no sistema
+          await recordLoginEvent({ ...event, userId: user.id, success: false, failureReason: LoginFailureReasonEnum.INACTIVE });
+          return done(null, false);
+        } else if (!isPasswordLoginAllowed(user)) {
+          // Funcionários entram só pelo login corporativo (OIDC_PASSWORD_LOGIN=admins)
+          await recordLoginEvent({ 
+            ...event, 
+            userId: user.id, 
+            success: false, 
+            failureReason: LoginFailureReasonEnum.PASSWORD_LOGIN_DISABLED 
+          });
+          const info: PasswordLoginDisabledInfo = { 
+            message: `Use o ${oidcSettings?.providerName ?? "login corporativo"} para entrar.`, 
+            passwordLoginDisabled: true 
+          };
+          return done(null, false, info);
         } else {
+          // O sucesso é registrado pela rota, depois do segundo fator quando houver
           return done(null, user);
         }
       } catch (error) {
@@ -76,12 +263,68 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Sessões de usuários desativados são encerradas
+      done(null, user && user.isActive ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
+  // Cria a conta pedida em /api/register, depois das verificações de acesso
+  const createRegisteredUser = async (req: Request, res: Response, next: NextFunction, isFirstUser: boolean) => {
+    // Senha dentro da política
+    const passwordErrors = await getNewPasswordErrors(String(req.body.password ?? ""), String(req.body.username ?? ""));
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+    }
+    
+    // Definir papel do usuário
+    const role = isFirstUser ? UserRoleEnum.ADMIN : (req.body.role || UserRoleEnum.EMPLOYEE);
+    
+    // Verificar se não-admin está tentando criar admin
+    if (
+      req.user && 
+      req.user.role !== UserRoleEnum.ADMIN && 
+      role === UserRoleEnum.ADMIN
+    ) {
+      return res.status(403).json({ 
+        message: "Você não tem permissão para criar usuários administradores" 
+      });
+    }
+
+    // Criar o usuário; contas criadas pelo administrador são auditadas na mesma transação
+    const user = await storage.createUser({
+      ...req.body,
+      role,
+      password: await hashPassword(req.body.password),
+    }, isFirstUser ? undefined : auditEntry(req, (created) => ({
+      action: "user.create",
+      entityType: AuditEntityEnum.USER,
+      entityId: created.id,
+      description: `Usuário ${created.username} criado`,
+      after: created,
+    })));
+
+    // Conta criada pelo administrador: a senha definida por ele segue por e-mail
+    if (!isFirstUser) {
+      await queueAccountCreatedEmail(user, req.body.password);
+    }
+
+    // Fazer login automático após registro se for o primeiro usuário
+    if (isFirstUser && !req.user) {
+      req.login(user, (err) => {
+        if (err) return next(err);
+        // Não enviar hash de senha para o cliente
+        const { password, ...userWithoutPassword } = user;
+        res.status(201).json(userWithoutPassword);
+      });
+    } else {
+      // Não enviar hash de senha para o cliente
+      const { password, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
+    }
+  };
+
   // Registration route (apenas administradores ou primeiro usuário)
   app.post("/api/register", async (req, res, next) => {
     try {
@@ -95,57 +338,228 @@ export function setupAuth(app: Express) {
       const allUsers = await storage.getAllUsers();
       const isFirstUser = allUsers.length === 0;
       
-      // Se não for o primeiro usuário, apenas admins podem registrar
-      if (!isFirstUser && (!req.isAuthenticated() || req.user.role !== UserRoleEnum.ADMIN)) {
+      // Se não for o primeiro usuário, apenas quem gerencia usuários pode registrar
+      if (!isFirstUser && (!req.isAuthenticated() || !hasPermission(req.user, PermissionEnum.USERS_MANAGE))) {
         return res.status(403).json({ 
-          message: "Apenas administradores podem registrar novos usuários" 
+          message: "Você não tem permissão para registrar novos usuários" 
         });
       }
       
-      // Definir papel do usuário
-      const role = isFirstUser ? UserRoleEnum.ADMIN : (req.body.role || UserRoleEnum.EMPLOYEE);
-      
-      // Verificar se não-admin está tentando criar admin
-      if (
-        req.user && 
-        req.user.role !== UserRoleEnum.ADMIN && 
-        role === UserRoleEnum.ADMIN
-      ) {
-        return res.status(403).json({ 
-          message: "Você não tem permissão para criar usuários administradores" 
-        });
+      if (isFirstUser) {
+        return await createRegisteredUser(req, res, next, true);
       }
+      // Mesmas travas das demais ações administrativas: troca obrigatória de senha e 2FA de administradores
+      requirePasswordChanged(req, res, () => requireTwoFactorEnrollment(req, res, () => {
+        createRegisteredUser(req, res, next, false).catch(next);
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      // Criar o usuário
-      const user = await storage.createUser({
-        ...req.body,
-        role,
-        password: await hashPassword(req.body.password),
-      });
+  // Login options for the login page (single sign-on button, password login restriction)
+  app.get("/api/auth/config", (req, res) => {
+    const config: AuthConfig = {
+      sso: oidcSettings ? { providerName: oidcSettings.providerName } : null,
+      passwordLoginAdminsOnly: oidcSettings?.passwordLoginAdminsOnly ?? false,
+    };
+    res.json(config);
+  });
+
+  // Login route. Blocked attempts (too many failures for the username or the IP)
+  // get a 429 with Retry-After instead of the generic 401. Users with 2FA only get
+  // a pending login here; the session is created by /api/login/2fa.
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (
+      err: unknown, 
+      user: Express.User | false, 
+      info?: Partial<LoginBlockedInfo & PasswordLoginDisabledInfo>
+    ) => {
+      if (err) return next(err);
+
+      if (!user) {
+        if (info?.block) {
+          return sendLoginBlocked(res, info.block);
+        }
+        if (info?.passwordLoginDisabled) {
+          return res.status(403).json({ message: info.message, code: "PASSWORD_LOGIN_DISABLED" });
+        }
+        return res.status(401).json({ message: "Nome de usuário ou senha incorretos." });
+      }
+
+      if (user.twoFactorEnabled) {
+        return startTwoFactorLogin(req, user, LoginMethodEnum.PASSWORD)
+          .then(() => res.status(200).json({ twoFactorRequired: true }))
+          .catch(next);
+      }
+
+      completeLogin(req, user, LoginMethodEnum.PASSWORD)
+        .then(() => sendLoggedInUser(res, user))
+        .catch(next);
+    })(req, res, next);
+  });
+
+  // Single sign-on with the corporate identity provider (OIDC). The first request
+  // redirects to the provider, which sends the user back to the callback below.
+  // Errors go back to the login page as ?sso_error=..., since these are browser navigations.
+  const withOidcStrategy = async (req: Request, res: Response, next: NextFunction) => {
+    if (!oidcSettings) {
+      return res.status(404).json({ message: "Login corporativo não configurado" });
+    }
+    try {
+      await ensureOidcStrategy(oidcSettings);
+      next();
+    } catch (error) {
+      console.error("Erro ao conectar ao provedor de login corporativo:", error);
+      res.redirect("/auth?sso_error=unavailable");
+    }
+  };
+
+  app.get("/api/auth/oidc", withOidcStrategy, passport.authenticate(OIDC_STRATEGY));
+
+  // Users with 2FA still type the code: the login page opens on the second step
+  app.get("/api/auth/oidc/callback", withOidcStrategy, (req, res, next) => {
+    passport.authenticate(OIDC_STRATEGY, (err: unknown, user: Express.User | false, info?: Partial<OidcRejectedInfo>) => {
+      if (err) {
+        console.error("Erro no login corporativo:", err);
+        return res.redirect("/auth?sso_error=failed");
+      }
+
+      if (!user) {
+        return res.redirect(`/auth?sso_error=${info?.reason === LoginFailureReasonEnum.INACTIVE ? "inactive" : "rejected"}`);
+      }
+
+      if (user.twoFactorEnabled) {
+        return startTwoFactorLogin(req, user, LoginMethodEnum.SSO)
+          .then(() => res.redirect("/auth?step=2fa"))
+          .catch(next);
+      }
+
+      completeLogin(req, user, LoginMethodEnum.SSO)
+        .then(() => res.redirect("/"))
+        .catch(next);
+    })(req, res, next);
+  });
+
+  // Second login step: the TOTP code (or a recovery code) of the pending login.
+  // Wrong codes count as failed logins for the throttling.
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "O tempo para informar o código acabou. Entre novamente." });
+      }
+
+      const parsedData = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Informe o código de 6 dígitos ou um código de recuperação" });
+      }
 
-      // Fazer login automático após registro se for o primeiro usuário
-      if (isFirstUser && !req.user) {
-        req.login(user, (err) => {
-          if (err) return next(err);
-          // Não enviar hash de senha para o cliente
-          const { password, ...userWithoutPassword } = user;
-          res.status(201).json(userWithoutPassword);
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive || !user.twoFactorEnabled) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Não foi possível concluir o login. Entre novamente." });
+      }
+
+      const ipAddress = req.ip;
+      const block = await checkLoginThrottle(user.username, ipAddress);
+      if (block) {
+        await recordLoginEvent({ 
+          userId: user.id, 
+          username: user.username, 
+          method: pending.method, 
+          success: false, 
+          failureReason: block.reason, 
+          ipAddress, 
+          userAgent: req.get("user-agent") ?? null 
         });
-      } else {
-        // Não enviar hash de senha para o cliente
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        return sendLoginBlocked(res, block);
       }
+
+      const method = await verifyTwoFactorCode(user.id, parsedData.data.code);
+      if (!method) {
+        await registerLoginFailure(user.username, ipAddress);
+        await recordLoginEvent({ 
+          userId: user.id, 
+          username: user.username, 
+          method: pending.method, 
+          success: false, 
+          failureReason: LoginFailureReasonEnum.INVALID_TWO_FACTOR_CODE, 
+          ipAddress, 
+          userAgent: req.get("user-agent") ?? null 
+        });
+        return res.status(401).json({ message: "Código inválido" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await completeLogin(req, user, pending.method);
+      sendLoggedInUser(res, user);
     } catch (error) {
       next(error);
     }
   });
 
-  // Login route
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    // Don't send password hash to client
-    const { password, ...userWithoutPassword } = req.user as Express.User;
-    res.status(200).json(userWithoutPassword);
+  // Request a password reset link. The answer is the same whether the email
+  // exists or not, so the route can't be used to discover accounts.
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const parsedData = requestPasswordResetSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Informe um e-mail válido" });
+      }
+
+      // Contas que só entram pelo SSO não recebem o link: a senha não valeria para elas
+      const users = (await storage.getActiveUsersByEmail(parsedData.data.email)).filter((user) => isPasswordLoginAllowed(user));
+      for (const user of users) {
+        const token = randomBytes(32).toString("base64url");
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+        await storage.createPasswordResetToken(user.id, hashPasswordResetToken(token), expiresAt);
+        await queuePasswordResetEmail(user, token, PASSWORD_RESET_TOKEN_TTL_MINUTES);
+      }
+
+      res.status(200).json({ 
+        message: "Se o e-mail estiver cadastrado, você receberá um link para redefinir a senha." 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Set a new password with a reset link (single use)
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const parsedData = resetPasswordSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+
+      const { token, newPassword } = parsedData.data;
+      const tokenUser = await storage.getPasswordResetTokenUser(hashPasswordResetToken(token));
+      if (!tokenUser) {
+        return res.status(400).json({ message: "Link de redefinição inválido ou expirado. Solicite um novo." });
+      }
+
+      const passwordErrors = await getNewPasswordErrors(newPassword, tokenUser.username, tokenUser.id);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+      }
+
+      const user = await storage.resetPasswordWithToken(
+        hashPasswordResetToken(token),
+        await hashPassword(newPassword),
+      );
+      if (!user) {
+        return res.status(400).json({ message: "Link de redefinição inválido ou expirado. Solicite um novo." });
+      }
+
+      res.status(200).json({ message: "Senha redefinida com sucesso" });
+    } catch (error) {
+      next(error);
+    }
   });
 
   // Logout route
@@ -165,24 +579,11 @@ export function setupAuth(app: Express) {
     res.json(userWithoutPassword);
   });
 
-  // Middleware to check if user is authenticated
-  app.use("/api/admin/*", (req, res, next) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Não autenticado" });
-    }
-    
-    if (req.user.role !== UserRoleEnum.ADMIN) {
-      return res.status(403).json({ message: "Acesso não autorizado" });
-    }
-    
-    next();
-  });
-
   // Middleware to check if user is authenticated (for non-admin protected routes)
   app.use("/api/protected/*", (req, res, next) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Não autenticado" });
     }
     next();
-  });
+  }, requirePasswordChanged, requireTwoFactorEnrollment);
 }
@@ -0,0 +1,113 @@
+import type { BulkPointsPreview, BulkPointsRow, BulkPointsRowResult, User } from "@shared/schema";
+import { readSpreadsheet, findColumn, cellText, SpreadsheetParseError } from "./spreadsheet";
+
+// Cabeçalhos aceitos na planilha
+const IDENTIFIER_HEADERS = ["username", "usuario", "login", "email", "e-mail"];
+const POINTS_HEADERS = ["points", "pontos", "xcoins"];
+const DESCRIPTION_HEADERS = ["description", "descricao", "motivo"];
+
+// Lê as linhas brutas de uma planilha de distribuição de pontos
+export function parsePointsSpreadsheet(buffer: Buffer, fileName: string): BulkPointsRow[] {
+  const { headers, records } = readSpreadsheet(buffer, fileName);
+
+  const identifierColumn = findColumn(headers, IDENTIFIER_HEADERS);
+  const pointsColumn = findColumn(headers, POINTS_HEADERS);
+  const descriptionColumn = findColumn(headers, DESCRIPTION_HEADERS);
+  if (!identifierColumn || !pointsColumn || !descriptionColumn) {
+    throw new SpreadsheetParseError("A planilha deve conter as colunas usuario (ou email), pontos e descricao");
+  }
+
+  return records.map((record) => {
+    const points = record.values[pointsColumn];
+    return {
+      rowNumber: record.rowNumber,
+      identifier: cellText(record, identifierColumn),
+      points: typeof points === "number" ? points : cellText(record, pointsColumn),
+      description: cellText(record, descriptionColumn),
+    };
+  });
+}
+
+function parsePoints(value: number | string): number | null {
+  const points = typeof value === "number" ? value : Number(value.replace(/\s/g, ""));
+  if (value === "" || !Number.isInteger(points) || points === 0) return null;
+  return points;
+}
+
+// Valida as linhas contra os usuários cadastrados: usuário desconhecido ou desativado,
+// pontos não inteiros, usuários repetidos e débitos maiores que o saldo
+export function validateBulkPointsRows(rows: BulkPointsRow[], users: User[]): BulkPointsPreview {
+  const usersByIdentifier = new Map<string, User>();
+  for (const user of users) {
+    usersByIdentifier.set(user.username.toLowerCase(), user);
+    usersByIdentifier.set(user.email.toLowerCase(), user);
+  }
+
+  // Linhas em que cada usuário aparece, para apontar duplicidades
+  const rowsByUser = new Map<number, number[]>();
+  for (const row of rows) {
+    const user = usersByIdentifier.get(row.identifier.toLowerCase());
+    if (!user) continue;
+    rowsByUser.set(user.id, [...(rowsByUser.get(user.id) || []), row.rowNumber]);
+  }
+
+  let totalCredited = 0;
+  let totalDebited = 0;
+
+  const results: BulkPointsRowResult[] = rows.map((row) => {
+    const errors: string[] = [];
+    const user = row.identifier ? usersByIdentifier.get(row.identifier.toLowerCase()) : undefined;
+
+    if (!row.identifier) {
+      errors.push("Usuário não informado");
+    } else if (!user) {
+      errors.push("Usuário não encontrado");
+    } else if (!user.isActive) {
+      errors.push("Usuário desativado (saldo congelado)");
+    }
+
+    const points = parsePoints(row.points);
+    if (points === null) {
+      errors.push("Pontos devem ser um número inteiro diferente de zero");
+    }
+
+    if (!row.description) {
+      errors.push("Descrição não informada");
+    }
+
+    if (user) {
+      const userRows = rowsByUser.get(user.id) || [];
+      if (userRows.length > 1) {
+        const otherRows = userRows.filter((rowNumber) => rowNumber !== row.rowNumber);
+        errors.push(`Usuário repetido (linha${otherRows.length > 1 ? "s" : ""} ${otherRows.join(", ")})`);
+      }
+      if (points !== null && points < 0 && user.points + points < 0) {
+        errors.push(`Saldo insuficiente (saldo atual: ${user.points})`);
+      }
+    }
+
+    if (errors.length === 0 && points !== null) {
+      if (points > 0) totalCredited += points;
+      else totalDebited += -points;
+    }
+
+    return {
+      ...row,
+      points: points ?? row.points,
+      userId: user?.id ?? null,
+      username: user?.username ?? null,
+      displayName: user?.displayName ?? null,
+      errors,
+    };
+  });
+
+  const invalidRows = results.filter((row) => row.errors.length > 0).length;
+
+  return {
+    rows: results,
+    validRows: results.length - invalidRows,
+    invalidRows,
+    totalCredited,
+    totalDebited,
+  };
+}
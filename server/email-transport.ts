@@ -0,0 +1,120 @@
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import { log } from "./vite";
+
+// E-mail já renderizado, pronto para envio
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// Meio de entrega dos e-mails da fila (ver email.ts). `send` lança erro quando
+// a entrega falha, e o e-mail volta para a fila com nova tentativa agendada.
+export interface EmailTransport {
+  readonly name: "smtp" | "file" | "console";
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Erro de configuração do transporte (variáveis de ambiente ausentes ou inválidas)
+export class EmailTransportConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailTransportConfigError";
+  }
+}
+
+export type SmtpEmailTransportOptions = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpEmailTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message });
+  }
+}
+
+// Grava cada e-mail como um arquivo .eml (abre em qualquer cliente de e-mail);
+// para desenvolvimento e testes
+export class FileEmailTransport implements EmailTransport {
+  readonly name = "file";
+  private readonly transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(
+    private readonly outputDir: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.promises.writeFile(path.join(this.outputDir, fileName), info.message as Buffer);
+  }
+}
+
+// Apenas registra o e-mail no log do servidor; padrão quando nada foi configurado
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage): Promise<void> {
+    log(`Para: ${message.to} | Assunto: ${message.subject}\n${message.text}`, "email");
+  }
+}
+
+// Escolhe o transporte pelas variáveis de ambiente (EMAIL_TRANSPORT=smtp|file|console)
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const transport = env.EMAIL_TRANSPORT ?? "console";
+  const from = env.EMAIL_FROM ?? "Proxxima Store <nao-responda@proxxima.store>";
+
+  if (transport === "console") {
+    return new ConsoleEmailTransport();
+  }
+
+  if (transport === "file") {
+    return new FileEmailTransport(env.EMAIL_FILE_DIR ?? path.join(import.meta.dirname, "..", "emails"), from);
+  }
+
+  if (transport === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new EmailTransportConfigError("SMTP_HOST must be set when EMAIL_TRANSPORT=smtp");
+    }
+    const port = Number(env.SMTP_PORT ?? 587);
+    if (!Number.isInteger(port) || port <= 0) {
+      throw new EmailTransportConfigError(`SMTP_PORT must be a port number (received "${env.SMTP_PORT}")`);
+    }
+    return new SmtpEmailTransport({
+      host: env.SMTP_HOST,
+      port,
+      // Porta 465 usa TLS direto; as demais negociam STARTTLS
+      secure: env.SMTP_SECURE === undefined ? port === 465 : env.SMTP_SECURE === "true",
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      from,
+    });
+  }
+
+  throw new EmailTransportConfigError(`EMAIL_TRANSPORT must be "smtp", "file" or "console" (received "${transport}")`);
+}
+
+export const emailTransport = createEmailTransport();
@@ -0,0 +1,298 @@
+import path from "path";
+import fs from "fs";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { emailTransport } from "./email-transport";
+import {
+  EmailTemplateEnum, type EmailTemplate, type EmailOutboxEntry,
+  type Order, type OrderItem, type Product, type User
+} from "@shared/schema";
+import { formatOrderStatus } from "@shared/order-status";
+
+// Modelos editáveis em server/email-templates/<modelo>.txt: a primeira linha é
+// "Assunto: ...", o restante é o corpo, e {{variavel}} é substituída pelo valor.
+// São lidos a cada envio, então alterações valem sem reiniciar o servidor.
+const TEMPLATES_DIR = process.env.EMAIL_TEMPLATES_DIR ?? path.join(import.meta.dirname, "..", "server", "email-templates");
+
+// Endereço público da aplicação, usado nos links dos e-mails
+export const APP_URL = (process.env.APP_URL ?? "https://lojateste-8tq0.onrender.com").replace(/\/+$/, "");
+
+// Tentativas de envio: 1 min, 2 min, 4 min... até 6 h entre elas; depois da última, desiste
+const MAX_EMAIL_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const OUTBOX_BATCH_SIZE = 20;
+// Tempo de reserva de um lote; se o processo cair no meio do envio, o lote volta para a fila
+const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+const OUTBOX_JOB_INTERVAL_MS = 30 * 1000;
+
+// Antecedência do aviso de pontos a expirar
+export const POINTS_EXPIRY_WARNING_DAYS = 7;
+
+// Modelo ausente, sem assunto ou com variável desconhecida
+export class EmailTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailTemplateError";
+  }
+}
+
+type TemplateVariables = Record<string, string | number>;
+
+type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function fillPlaceholders(template: EmailTemplate, source: string, variables: TemplateVariables): string {
+  return source.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new EmailTemplateError(`Variável desconhecida {{${name}}} no modelo ${template}`);
+    }
+    return String(variables[name]);
+  });
+}
+
+// A versão HTML é gerada a partir do texto: parágrafos separados por linha em branco,
+// quebras de linha preservadas e URLs transformadas em links
+function textToHtml(subject: string, text: string): string {
+  const paragraphs = text.split(/\n{2,}/).map((paragraph) => {
+    const html = escapeHtml(paragraph)
+      .replace(/https?:\/\/[^\s<]*[^\s<.,;:!?)]/g, (url) => `<a href="${url}" style="color: #E6007D;">${url}</a>`)
+      .replace(/\n/g, "<br>");
+    return `<p style="margin: 0 0 16px;">${html}</p>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin: 0; padding: 24px; background: #f4f4f8; font-family: Arial, sans-serif; color: #1f1f3d;">
+<div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; overflow: hidden;">
+<div style="background: #2C2C83; color: #ffffff; padding: 16px 24px; font-size: 18px; font-weight: bold;">Proxxima Store</div>
+<div style="padding: 24px; font-size: 15px; line-height: 1.5;">
+${paragraphs.join("\n")}
+</div>
+</div>
+</body>
+</html>`;
+}
+
+export async function renderEmailTemplate(template: EmailTemplate, variables: TemplateVariables): Promise<RenderedEmail> {
+  let source: string;
+  try {
+    source = await fs.promises.readFile(path.join(TEMPLATES_DIR, `${template}.txt`), "utf-8");
+  } catch {
+    throw new EmailTemplateError(`Modelo de e-mail não encontrado: ${template}`);
+  }
+
+  const [firstLine, ...bodyLines] = source.replace(/\r\n/g, "\n").split("\n");
+  const subjectMatch = /^Assunto:\s*(.+)$/.exec(firstLine);
+  if (!subjectMatch) {
+    throw new EmailTemplateError(`O modelo ${template} deve começar com a linha "Assunto: ..."`);
+  }
+
+  const allVariables = { appUrl: APP_URL, ...variables };
+  const subject = fillPlaceholders(template, subjectMatch[1].trim(), allVariables);
+  // Variáveis opcionais vazias não deixam linhas em branco sobrando
+  const text = fillPlaceholders(template, bodyLines.join("\n"), allVariables)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { subject, text, html: textToHtml(subject, text) };
+}
+
+// Renderiza o modelo e grava o e-mail na fila. Como as notificações, o e-mail é
+// consequência de uma operação já concluída: falhas são registradas e não propagadas.
+// Retorna false quando nada foi enfileirado (erro ou `dedupeKey` repetida).
+async function queueEmail(
+  template: EmailTemplate,
+  user: Pick<User, "id" | "email">,
+  variables: TemplateVariables,
+  dedupeKey?: string,
+): Promise<boolean> {
+  try {
+    const { subject, text, html } = await renderEmailTemplate(template, variables);
+    const queued = await storage.enqueueEmail({
+      userId: user.id,
+      template,
+      toAddress: user.email,
+      subject,
+      bodyText: text,
+      bodyHtml: html,
+      dedupeKey,
+    });
+    if (queued) {
+      // Não espera o próximo ciclo do job
+      void processEmailOutbox();
+    }
+    return !!queued;
+  } catch (error) {
+    console.error(`Erro ao enfileirar e-mail ${template}:`, error);
+    return false;
+  }
+}
+
+function displayName(user: User): string {
+  return user.displayName || user.username;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+}
+
+export async function queueAccountCreatedEmail(user: User, temporaryPassword: string): Promise<void> {
+  await queueEmail(EmailTemplateEnum.ACCOUNT_CREATED, user, {
+    name: displayName(user),
+    username: user.username,
+    temporaryPassword,
+  });
+}
+
+export async function queuePasswordResetEmail(user: User, token: string, expiresInMinutes: number): Promise<void> {
+  await queueEmail(EmailTemplateEnum.PASSWORD_RESET, user, {
+    name: displayName(user),
+    username: user.username,
+    resetUrl: `${APP_URL}/auth/reset-password?token=${encodeURIComponent(token)}`,
+    expiresInMinutes,
+  });
+}
+
+export async function queuePointsCreditedEmail(userId: number, points: number, description: string): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user?.isActive) return;
+  await queueEmail(EmailTemplateEnum.POINTS_CREDITED, user, {
+    name: displayName(user),
+    points,
+    description,
+    balance: user.points,
+  });
+}
+
+export async function queueOrderPlacedEmail(order: Order, items: (OrderItem & { product: Product })[]): Promise<void> {
+  const user = await storage.getUser(order.userId);
+  if (!user) return;
+  await queueEmail(EmailTemplateEnum.ORDER_PLACED, user, {
+    name: displayName(user),
+    orderId: order.id,
+    totalPoints: order.totalPoints,
+    items: items
+      .map((item) => {
+        const label = item.variantLabel ? `${item.product.name} (${item.variantLabel})` : item.product.name;
+        return `- ${item.quantity}x ${label}: ${item.pointsCost * item.quantity} xCoins`;
+      })
+      .join("\n"),
+  });
+}
+
+export async function queueOrderStatusChangedEmail(order: Order, note?: string): Promise<void> {
+  const user = await storage.getUser(order.userId);
+  if (!user) return;
+  await queueEmail(EmailTemplateEnum.ORDER_STATUS_CHANGED, user, {
+    name: displayName(user),
+    orderId: order.id,
+    status: formatOrderStatus(order.status),
+    note: note ? `Observação: ${note}` : "",
+  });
+}
+
+// Um aviso por usuário e data de expiração; a dedupeKey evita repetir o aviso
+// nas execuções seguintes do job
+export async function queuePointsExpiringEmails(now: Date = new Date()): Promise<number> {
+  const until = new Date(now.getTime() + POINTS_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+  const expiring = await storage.getExpiringPointsOfActiveUsers(now, until);
+
+  let queued = 0;
+  for (const { userId, expiresAt, points } of expiring) {
+    const user = await storage.getUser(userId);
+    if (!user) continue;
+    const sent = await queueEmail(EmailTemplateEnum.POINTS_EXPIRING, user, {
+      name: displayName(user),
+      points,
+      expiresAt: formatDate(expiresAt),
+      balance: user.points,
+    }, `${EmailTemplateEnum.POINTS_EXPIRING}:${userId}:${expiresAt.toISOString()}`);
+    if (sent) queued++;
+  }
+  return queued;
+}
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+async function deliverEmail(email: EmailOutboxEntry): Promise<boolean> {
+  try {
+    await emailTransport.send({
+      to: email.toAddress,
+      subject: email.subject,
+      text: email.bodyText,
+      html: email.bodyHtml,
+    });
+    await storage.markEmailSent(email.id);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const nextAttemptAt = email.attempts < MAX_EMAIL_ATTEMPTS
+      ? new Date(Date.now() + getRetryDelayMs(email.attempts))
+      : null;
+    await storage.markEmailFailed(email.id, message, nextAttemptAt);
+    console.error(`Falha ao enviar e-mail ${email.id} (tentativa ${email.attempts}/${MAX_EMAIL_ATTEMPTS}):`, message);
+    return false;
+  }
+}
+
+let isProcessingOutbox = false;
+
+// Envia os e-mails pendentes da fila, em lotes, até esvaziá-la
+export async function processEmailOutbox(now: Date = new Date()): Promise<number> {
+  if (isProcessingOutbox) return 0;
+  isProcessingOutbox = true;
+  try {
+    let sent = 0;
+    let batch: EmailOutboxEntry[];
+    do {
+      batch = await storage.claimDueEmails(now, OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS);
+      for (const email of batch) {
+        if (await deliverEmail(email)) sent++;
+      }
+    } while (batch.length === OUTBOX_BATCH_SIZE);
+    return sent;
+  } catch (error) {
+    console.error("Erro ao processar fila de e-mails:", error);
+    return 0;
+  } finally {
+    isProcessingOutbox = false;
+  }
+}
+
+async function runEmailOutboxJob() {
+  const sent = await processEmailOutbox();
+  if (sent > 0) {
+    log(`${sent} e-mails enviados (${emailTransport.name})`, "email");
+  }
+}
+
+// Agenda o envio periódico da fila de e-mails (executa também ao iniciar)
+export function startEmailOutboxJob() {
+  // E-mails finalizados antes de o corpo passar a ser apagado no envio
+  storage.clearFinishedEmailBodies()
+    .then((cleared) => {
+      if (cleared > 0) log(`Corpo de ${cleared} e-mails finalizados apagado`, "email");
+    })
+    .catch((error) => console.error("Erro ao apagar corpo de e-mails finalizados:", error));
+  runEmailOutboxJob();
+  const timer = setInterval(runEmailOutboxJob, OUTBOX_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
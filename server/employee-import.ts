@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { UserRoleEnum, type UserRole, type EmployeeImportResult, type EmployeeImportRowResult, type Unit, type User } from "@shared/schema";
+import { readSpreadsheet, findColumn, cellText, SpreadsheetParseError } from "./spreadsheet";
+
+// Cabeçalhos aceitos na planilha
+const USERNAME_HEADERS = ["username", "usuario", "login"];
+const EMAIL_HEADERS = ["email", "e-mail"];
+const DISPLAY_NAME_HEADERS = ["displayname", "nome", "nomecompleto"];
+const UNIT_HEADERS = ["unit", "unidade"];
+const ROLE_HEADERS = ["role", "funcao", "perfil"];
+
+// Valores aceitos na coluna de função
+const ROLE_ALIASES: Record<string, UserRole> = {
+  admin: UserRoleEnum.ADMIN,
+  administrador: UserRoleEnum.ADMIN,
+  operator: UserRoleEnum.OPERATOR,
+  operador: UserRoleEnum.OPERATOR,
+  unit_manager: UserRoleEnum.UNIT_MANAGER,
+  gestor: UserRoleEnum.UNIT_MANAGER,
+  gerente: UserRoleEnum.UNIT_MANAGER,
+  auditor: UserRoleEnum.AUDITOR,
+  employee: UserRoleEnum.EMPLOYEE,
+  funcionario: UserRoleEnum.EMPLOYEE,
+  "funcionário": UserRoleEnum.EMPLOYEE,
+  colaborador: UserRoleEnum.EMPLOYEE,
+};
+
+const emailSchema = z.string().email();
+
+// Linha da planilha de funcionários como lida do arquivo
+export type EmployeeImportRow = {
+  rowNumber: number;
+  username: string;
+  email: string;
+  displayName: string;
+  unit: string;
+  role: string;
+};
+
+// Operações a aplicar no banco, todas na mesma transação
+export type EmployeeImportPlan = {
+  creates: { rowNumber: number; username: string; email: string; displayName: string | null; unitId: number | null; role: UserRole }[];
+  updates: { id: number; data: Partial<Pick<User, "email" | "displayName" | "unitId" | "role" | "isActive" | "deactivatedAt">> }[];
+  deactivations: number[];
+  result: EmployeeImportResult;
+};
+
+// Lê as linhas de uma planilha de quadro de funcionários
+export function parseEmployeeSpreadsheet(buffer: Buffer, fileName: string): EmployeeImportRow[] {
+  const { headers, records } = readSpreadsheet(buffer, fileName);
+
+  const usernameColumn = findColumn(headers, USERNAME_HEADERS);
+  const emailColumn = findColumn(headers, EMAIL_HEADERS);
+  if (!usernameColumn || !emailColumn) {
+    throw new SpreadsheetParseError("A planilha deve conter ao menos as colunas usuario e email");
+  }
+  const displayNameColumn = findColumn(headers, DISPLAY_NAME_HEADERS);
+  const unitColumn = findColumn(headers, UNIT_HEADERS);
+  const roleColumn = findColumn(headers, ROLE_HEADERS);
+
+  return records.map((record) => ({
+    rowNumber: record.rowNumber,
+    username: cellText(record, usernameColumn),
+    email: cellText(record, emailColumn),
+    displayName: cellText(record, displayNameColumn),
+    unit: cellText(record, unitColumn),
+    role: cellText(record, roleColumn),
+  }));
+}
+
+// Índice das linhas em que cada valor aparece, para apontar duplicidades
+function indexRows(rows: EmployeeImportRow[], key: (row: EmployeeImportRow) => string): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  for (const row of rows) {
+    const value = key(row);
+    if (!value) continue;
+    index.set(value, [...(index.get(value) || []), row.rowNumber]);
+  }
+  return index;
+}
+
+function describeOtherRows(rowNumbers: number[], rowNumber: number): string {
+  const otherRows = rowNumbers.filter((other) => other !== rowNumber);
+  return `linha${otherRows.length > 1 ? "s" : ""} ${otherRows.join(", ")}`;
+}
+
+// Compara a planilha com os usuários cadastrados: cria os ausentes, atualiza os
+// existentes (campos em branco mantêm o valor atual) e, se pedido, desativa os
+// funcionários que não constam no arquivo. Administradores nunca são desativados.
+// As unidades precisam estar cadastradas; o nome não diferencia maiúsculas.
+export function planEmployeeImport(
+  rows: EmployeeImportRow[],
+  users: User[],
+  units: Unit[],
+  options: { deactivateMissing: boolean },
+): EmployeeImportPlan {
+  const unitsByName = new Map(units.map((unit) => [unit.name.toLowerCase(), unit]));
+  const unitNames = new Map(units.map((unit) => [unit.id, unit.name]));
+  const unitName = (unitId: number | null) => (unitId !== null ? unitNames.get(unitId) : undefined) ?? null;
+  const usersByUsername = new Map(users.map((user) => [user.username.toLowerCase(), user]));
+  const usersByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]));
+  const rowsByUsername = indexRows(rows, (row) => row.username.toLowerCase());
+  const rowsByEmail = indexRows(rows, (row) => row.email.toLowerCase());
+
+  const plan: EmployeeImportPlan = {
+    creates: [],
+    updates: [],
+    deactivations: [],
+    result: { applied: false, rows: [], created: 0, updated: 0, unchanged: 0, deactivated: 0, invalidRows: 0 },
+  };
+
+  for (const row of rows) {
+    const errors: string[] = [];
+    const existing = usersByUsername.get(row.username.toLowerCase());
+    const role = row.role ? ROLE_ALIASES[row.role.toLowerCase()] : undefined;
+    const unit = row.unit ? unitsByName.get(row.unit.toLowerCase()) : undefined;
+
+    if (!row.username) {
+      errors.push("Usuário não informado");
+    } else if (row.username.length < 3) {
+      errors.push("O nome de usuário deve ter pelo menos 3 caracteres");
+    }
+    if (!row.email) {
+      errors.push("Email não informado");
+    } else if (!emailSchema.safeParse(row.email).success) {
+      errors.push("Email inválido");
+    }
+    if (row.role && !role) {
+      errors.push(`Função desconhecida: ${row.role}`);
+    }
+    if (row.unit && !unit) {
+      errors.push(`Unidade não cadastrada: ${row.unit}`);
+    }
+
+    const usernameRows = rowsByUsername.get(row.username.toLowerCase()) || [];
+    if (usernameRows.length > 1) {
+      errors.push(`Usuário repetido (${describeOtherRows(usernameRows, row.rowNumber)})`);
+    }
+    const emailRows = rowsByEmail.get(row.email.toLowerCase()) || [];
+    if (emailRows.length > 1) {
+      errors.push(`Email repetido (${describeOtherRows(emailRows, row.rowNumber)})`);
+    }
+    const emailOwner = usersByEmail.get(row.email.toLowerCase());
+    if (emailOwner && emailOwner.id !== existing?.id) {
+      errors.push(`Email já usado pelo usuário ${emailOwner.username}`);
+    }
+
+    const rowResult: EmployeeImportRowResult = {
+      rowNumber: row.rowNumber,
+      username: existing?.username ?? row.username,
+      email: row.email,
+      displayName: row.displayName || existing?.displayName || null,
+      unit: unit?.name ?? unitName(existing?.unitId ?? null) ?? (row.unit || null),
+      role: role ?? existing?.role ?? UserRoleEnum.EMPLOYEE,
+      action: "error",
+      changes: [],
+      errors,
+    };
+    plan.result.rows.push(rowResult);
+
+    if (errors.length > 0) {
+      plan.result.invalidRows++;
+      continue;
+    }
+
+    if (!existing) {
+      rowResult.action = "create";
+      plan.creates.push({
+        rowNumber: row.rowNumber,
+        username: row.username,
+        email: row.email,
+        displayName: rowResult.displayName,
+        unitId: unit?.id ?? null,
+        role: role ?? UserRoleEnum.EMPLOYEE,
+      });
+      plan.result.created++;
+      continue;
+    }
+
+    const data: EmployeeImportPlan["updates"][number]["data"] = {};
+    if (row.email !== existing.email) {
+      data.email = row.email;
+      rowResult.changes.push(`email: ${existing.email} → ${row.email}`);
+    }
+    if (row.displayName && row.displayName !== existing.displayName) {
+      data.displayName = row.displayName;
+      rowResult.changes.push(`nome: ${existing.displayName || "—"} → ${row.displayName}`);
+    }
+    if (unit && unit.id !== existing.unitId) {
+      data.unitId = unit.id;
+      rowResult.changes.push(`unidade: ${unitName(existing.unitId) || "—"} → ${unit.name}`);
+    }
+    if (role && role !== existing.role) {
+      data.role = role;
+      rowResult.changes.push(`função: ${existing.role} → ${role}`);
+    }
+    if (!existing.isActive) {
+      data.isActive = true;
+      data.deactivatedAt = null;
+      rowResult.changes.push("reativado");
+    }
+
+    if (rowResult.changes.length > 0) {
+      rowResult.action = "update";
+      plan.updates.push({ id: existing.id, data });
+      plan.result.updated++;
+    } else {
+      rowResult.action = "unchanged";
+      plan.result.unchanged++;
+    }
+  }
+
+  if (options.deactivateMissing) {
+    for (const user of users) {
+      if (!user.isActive || user.role === UserRoleEnum.ADMIN) continue;
+      if (rowsByUsername.has(user.username.toLowerCase())) continue;
+
+      plan.deactivations.push(user.id);
+      plan.result.deactivated++;
+      plan.result.rows.push({
+        rowNumber: null,
+        username: user.username,
+        email: user.email,
+        displayName: user.displayName,
+        unit: unitName(user.unitId),
+        role: user.role,
+        action: "deactivate",
+        changes: ["ausente da planilha"],
+        errors: [],
+      });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,198 @@
+import path from "path";
+import fs from "fs";
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+
+// Arquivo guardado no backend, identificado pela chave (ex.: "products/<uuid>-thumb.webp")
+export type StoredObject = {
+  key: string;
+  lastModified: Date;
+};
+
+// Backend de armazenamento dos uploads. As URLs públicas retornadas são as
+// gravadas no banco, por isso cada backend sabe convertê-las de volta em chaves.
+export interface FileStorage {
+  readonly backend: "local" | "s3";
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredObject[]>;
+  keyFromUrl(url: string): string | undefined;
+}
+
+// Erro de configuração do backend (variáveis de ambiente ausentes)
+export class FileStorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileStorageConfigError";
+  }
+}
+
+// Chaves aceitas: segmentos simples separados por "/", sem ".." nem caminhos absolutos
+function assertValidKey(key: string): void {
+  if (!/^[\w.-]+(\/[\w.-]+)*$/.test(key) || key.split("/").some((segment) => segment === "." || segment === "..")) {
+    throw new Error(`Chave de arquivo inválida: ${key}`);
+  }
+}
+
+// Disco local, servido estaticamente em /uploads (ver server/index.ts)
+export class LocalFileStorage implements FileStorage {
+  readonly backend = "local";
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly baseUrl = "/uploads",
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<string> {
+    assertValidKey(key);
+    const filePath = path.join(this.rootDir, key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+    return `${this.baseUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await fs.promises.rm(path.join(this.rootDir, key), { force: true });
+  }
+
+  async list(): Promise<StoredObject[]> {
+    const entries = await fs.promises
+      .readdir(this.rootDir, { recursive: true, withFileTypes: true })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return [];
+        throw error;
+      });
+
+    return await Promise.all(entries
+      .filter((entry) => entry.isFile())
+      .map(async (entry) => {
+        const filePath = path.join(entry.parentPath, entry.name);
+        const { mtime } = await fs.promises.stat(filePath);
+        return {
+          key: path.relative(this.rootDir, filePath).split(path.sep).join("/"),
+          lastModified: mtime,
+        };
+      }));
+  }
+
+  keyFromUrl(url: string): string | undefined {
+    const prefix = `${this.baseUrl}/`;
+    if (!url.startsWith(prefix)) return undefined;
+    const key = url.slice(prefix.length);
+    try {
+      assertValidKey(key);
+      return key;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export type S3FileStorageOptions = {
+  bucket: string;
+  region: string;
+  // Endpoint de serviços compatíveis (ex.: MinIO em http://localhost:9000)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // URL pública do bucket; por padrão, <endpoint>/<bucket> ou o domínio da AWS
+  publicUrl?: string;
+  forcePathStyle?: boolean;
+};
+
+// Bucket S3 ou compatível (MinIO, R2, Spaces); os objetos precisam ser de leitura pública
+export class S3FileStorage implements FileStorage {
+  readonly backend = "s3";
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicUrl: string;
+
+  constructor(options: S3FileStorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle ?? !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+    this.publicUrl = (options.publicUrl ?? (options.endpoint
+      ? `${options.endpoint}/${options.bucket}`
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`)).replace(/\/+$/, "");
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    assertValidKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Nomes são únicos (uuid), então o conteúdo nunca muda
+      CacheControl: "public, max-age=31536000, immutable",
+    }));
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async list(): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (object.Key) {
+          objects.push({ key: object.Key, lastModified: object.LastModified ?? new Date(0) });
+        }
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  keyFromUrl(url: string): string | undefined {
+    const prefix = `${this.publicUrl}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : undefined;
+  }
+}
+
+// Escolhe o backend pelas variáveis de ambiente (FILE_STORAGE=local|s3)
+export function createFileStorage(env: NodeJS.ProcessEnv = process.env): FileStorage {
+  const backend = env.FILE_STORAGE ?? "local";
+
+  if (backend === "local") {
+    return new LocalFileStorage(path.join(import.meta.dirname, "..", "uploads"));
+  }
+
+  if (backend === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new FileStorageConfigError("S3_BUCKET must be set when FILE_STORAGE=s3");
+    }
+    return new S3FileStorage({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION ?? "us-east-1",
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      publicUrl: env.S3_PUBLIC_URL,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === undefined ? undefined : env.S3_FORCE_PATH_STYLE === "true",
+    });
+  }
+
+  throw new FileStorageConfigError(`FILE_STORAGE must be "local" or "s3" (received "${backend}")`);
+}
+
+export const fileStorage = createFileStorage();
@@ -0,0 +1,75 @@
+// Coleta de lixo dos uploads: npm run files:gc -- [--dry-run] [--grace-hours=24]
+//
+// 1. Converte fotos de perfil antigas (base64 no banco) em arquivos do backend;
+// 2. Remove arquivos sem nenhuma referência no banco, mais antigos que o período de carência.
+import { storage } from "./storage";
+import { pool } from "./db";
+import { collectFileGarbage, DEFAULT_GC_GRACE_PERIOD_MS } from "./files";
+import { processProfileImage, ProfileImageError } from "./profile-images";
+import { fileStorage } from "./file-storage";
+
+function parseArgs(argv: string[]) {
+  const dryRun = argv.includes("--dry-run");
+  const graceArg = argv.find((arg) => arg.startsWith("--grace-hours="));
+  const graceHours = graceArg ? Number(graceArg.split("=")[1]) : undefined;
+  if (graceHours !== undefined && (!Number.isFinite(graceHours) || graceHours < 0)) {
+    throw new Error("--grace-hours deve ser um número maior ou igual a zero");
+  }
+  return {
+    dryRun,
+    gracePeriodMs: graceHours !== undefined ? graceHours * 60 * 60 * 1000 : DEFAULT_GC_GRACE_PERIOD_MS,
+  };
+}
+
+async function migrateInlineProfileImages(dryRun: boolean): Promise<number> {
+  const users = await storage.getUsersWithInlineProfileImages();
+  if (dryRun) return users.length;
+
+  let migrated = 0;
+  for (const user of users) {
+    try {
+      const profileImageUrl = await processProfileImage(user.profileImageUrl!);
+      await storage.updateUser(user.id, { profileImageUrl });
+      migrated++;
+    } catch (error) {
+      if (!(error instanceof ProfileImageError)) throw error;
+      // Imagem corrompida: o usuário fica sem foto, como se a tivesse removido
+      console.warn(`Foto de perfil do usuário ${user.id} é inválida e foi removida: ${error.message}`);
+      await storage.updateUser(user.id, { profileImageUrl: null });
+    }
+  }
+  return migrated;
+}
+
+async function main() {
+  const { dryRun, gracePeriodMs } = parseArgs(process.argv.slice(2));
+  const prefix = dryRun ? "[simulação] " : "";
+
+  console.log(`${prefix}Backend de arquivos: ${fileStorage.backend}`);
+
+  const migrated = await migrateInlineProfileImages(dryRun);
+  console.log(`${prefix}Fotos de perfil em base64 convertidas em arquivo: ${migrated}`);
+
+  const result = await collectFileGarbage({ dryRun, gracePeriodMs });
+  for (const key of result.unreferencedFiles) {
+    console.log(`${prefix}Sem referência: ${key}`);
+  }
+  for (const key of result.strayObjects) {
+    console.log(`${prefix}Sem registro: ${key}`);
+  }
+  for (const key of result.missingObjects) {
+    console.log(`${prefix}Registro sem arquivo: ${key}`);
+  }
+  console.log(
+    `${prefix}${result.unreferencedFiles.length + result.strayObjects.length} arquivo(s) removido(s), ` +
+    `${result.missingObjects.length} registro(s) órfão(s) limpo(s), ` +
+    `${(result.bytesFreed / 1024).toFixed(1)} KB liberados`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Erro na coleta de lixo de arquivos:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
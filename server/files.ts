@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import type { FilePurpose } from "@shared/schema";
+
+// Arquivos mais novos que isso nunca são coletados: o upload pode ter sido
+// gravado e ainda não associado ao produto ou usuário
+export const DEFAULT_GC_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+// Grava o arquivo no backend configurado e o registra na tabela files
+export async function saveFile(key: string, body: Buffer, contentType: string, purpose: FilePurpose): Promise<string> {
+  const url = await fileStorage.put(key, body, contentType);
+  try {
+    await storage.createFileRecord({
+      storageKey: key,
+      url,
+      backend: fileStorage.backend,
+      purpose,
+      contentType,
+      size: body.length,
+    });
+  } catch (error) {
+    await fileStorage.delete(key).catch(() => undefined);
+    throw error;
+  }
+  return url;
+}
+
+// Remove arquivos que deixaram de ser usados, a partir das URLs gravadas no banco.
+// URLs que não pertencem ao backend (base64, links externos) são ignoradas.
+export async function removeFiles(urls: (string | null | undefined)[]): Promise<void> {
+  const storedUrls = urls.filter((url): url is string => !!url && fileStorage.keyFromUrl(url) !== undefined);
+  if (storedUrls.length === 0) return;
+
+  await Promise.all(storedUrls.map((url) => fileStorage.delete(fileStorage.keyFromUrl(url)!)));
+  await storage.deleteFileRecords(storedUrls);
+}
+
+export type FileGarbageCollectionResult = {
+  // Registrados na tabela files, mas sem nenhuma referência
+  unreferencedFiles: string[];
+  // Presentes no backend sem registro nem referência (uploads antigos ou interrompidos)
+  strayObjects: string[];
+  // Registros cujo arquivo já não existe no backend
+  missingObjects: string[];
+  // Tamanho dos arquivos registrados removidos (o de arquivos avulsos não é conhecido)
+  bytesFreed: number;
+};
+
+// Coletor de lixo dos uploads: apaga do backend e da tabela files tudo o que
+// não é referenciado por nenhuma linha do banco e é mais antigo que o período de carência
+export async function collectFileGarbage(options: { dryRun?: boolean; gracePeriodMs?: number; now?: Date } = {}): Promise<FileGarbageCollectionResult> {
+  const cutoff = new Date((options.now ?? new Date()).getTime() - (options.gracePeriodMs ?? DEFAULT_GC_GRACE_PERIOD_MS));
+
+  const [referencedUrls, records, objects] = await Promise.all([
+    storage.getReferencedFileUrls(),
+    storage.getFileRecords(),
+    fileStorage.list(),
+  ]);
+
+  const objectKeys = new Set(objects.map((object) => object.key));
+  const referencedKeys = new Set(Array.from(referencedUrls).map((url) => fileStorage.keyFromUrl(url)));
+  const recordsOfBackend = records.filter((record) => record.backend === fileStorage.backend);
+  const recordedKeys = new Set(recordsOfBackend.map((record) => record.storageKey));
+
+  const unreferencedRecords = recordsOfBackend.filter((record) =>
+    record.createdAt < cutoff && !referencedUrls.has(record.url)
+  );
+  const strayObjects = objects.filter((object) =>
+    !recordedKeys.has(object.key) && !referencedKeys.has(object.key) && object.lastModified < cutoff
+  );
+  const missingRecords = recordsOfBackend.filter((record) =>
+    !objectKeys.has(record.storageKey) && !referencedUrls.has(record.url)
+  );
+
+  const result: FileGarbageCollectionResult = {
+    unreferencedFiles: unreferencedRecords.map((record) => record.storageKey),
+    strayObjects: strayObjects.map((object) => object.key),
+    missingObjects: missingRecords.map((record) => record.storageKey),
+    bytesFreed: unreferencedRecords
+      .filter((record) => objectKeys.has(record.storageKey))
+      .reduce((sum, record) => sum + record.size, 0),
+  };
+
+  if (!options.dryRun) {
+    for (const key of [...result.unreferencedFiles, ...result.strayObjects]) {
+      await fileStorage.delete(key);
+    }
+    await storage.deleteFileRecords([...unreferencedRecords, ...missingRecords].map((record) => record.url));
+  }
+
+  return result;
+}
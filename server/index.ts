@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startPointExpirationJob } from "./point-expiration";
+import { startPointRulesJob } from "./point-rules";
+import { startEmailOutboxJob } from "./email";
+import { protectAuditLog } from "./audit";
+import { storage } from "./storage";
 import path from "path";
 import { fileURLToPath } from 'url';
 
@@ -89,6 +94,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await protectAuditLog();
+  const legacyOrders = await storage.migrateLegacyOrderStatuses();
+  if (legacyOrders > 0) {
+    log(`${legacyOrders} pedido(s) com status "completed" migrados para "delivered"`);
+  }
   const server = await registerRoutes(app);
 
   // ✅ Handler global de erro
@@ -114,5 +124,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPointExpirationJob();
+    startPointRulesJob();
+    startEmailOutboxJob();
   });
 })();
@@ -0,0 +1,96 @@
+import { storage } from "./storage";
+import {
+  LoginThrottleScopeEnum, LoginFailureReasonEnum,
+  type LoginThrottle, type LoginThrottleScope, type LoginLockout, type InsertLoginEvent
+} from "@shared/schema";
+
+// Falhas seguidas a partir das quais cada tentativa precisa esperar um intervalo
+// (1 s, 2 s, 4 s... até 5 min) e a partir das quais a chave fica bloqueada.
+// O limite por IP é mais alto porque vários funcionários podem sair pelo mesmo IP.
+const THROTTLE_POLICIES: Record<LoginThrottleScope, { backoffAfter: number; lockoutAfter: number }> = {
+  [LoginThrottleScopeEnum.USERNAME]: { backoffAfter: 3, lockoutAfter: 10 },
+  [LoginThrottleScopeEnum.IP]: { backoffAfter: 20, lockoutAfter: 100 },
+};
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Falhas mais antigas que isso não contam mais: o contador recomeça
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+// Chave do contador por usuário: variações de maiúsculas e espaços do mesmo nome
+// contam juntas, para não servirem de atalho contra o bloqueio
+function usernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// Tentativa recusada antes mesmo de conferir a senha
+export type LoginBlock = {
+  reason: typeof LoginFailureReasonEnum.THROTTLED | typeof LoginFailureReasonEnum.LOCKED;
+  until: Date;
+};
+
+// Até quando a chave está impedida de tentar de novo; null quando está liberada
+function getBlock(throttle: LoginThrottle, now: Date): LoginBlock | null {
+  const { backoffAfter, lockoutAfter } = THROTTLE_POLICIES[throttle.scope];
+  const lastFailure = throttle.lastFailureAt.getTime();
+  if (lastFailure < now.getTime() - FAILURE_WINDOW_MS) return null;
+
+  let block: LoginBlock;
+  if (throttle.failures >= lockoutAfter) {
+    block = { reason: LoginFailureReasonEnum.LOCKED, until: new Date(lastFailure + LOCKOUT_MS) };
+  } else if (throttle.failures >= backoffAfter) {
+    const delay = Math.min(BASE_BACKOFF_MS * 2 ** (throttle.failures - backoffAfter), MAX_BACKOFF_MS);
+    block = { reason: LoginFailureReasonEnum.THROTTLED, until: new Date(lastFailure + delay) };
+  } else {
+    return null;
+  }
+  return block.until > now ? block : null;
+}
+
+// Confere o usuário e o IP; com os dois bloqueados, vale o bloqueio mais longo
+export async function checkLoginThrottle(
+  username: string,
+  ipAddress: string | undefined,
+  now: Date = new Date(),
+): Promise<LoginBlock | null> {
+  const throttles = await storage.getLoginThrottles(usernameKey(username), ipAddress);
+  return throttles
+    .map((throttle) => getBlock(throttle, now))
+    .reduce<LoginBlock | null>((longest, block) => (
+      block && (!longest || block.until > longest.until) ? block : longest
+    ), null);
+}
+
+export async function registerLoginFailure(username: string, ipAddress: string | undefined, now: Date = new Date()): Promise<void> {
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+  await storage.recordLoginFailure(LoginThrottleScopeEnum.USERNAME, usernameKey(username), now, windowStart);
+  if (ipAddress) {
+    await storage.recordLoginFailure(LoginThrottleScopeEnum.IP, ipAddress, now, windowStart);
+  }
+}
+
+// O login bem-sucedido zera o contador do usuário, mas não o do IP: uma conta
+// válida não pode servir para liberar tentativas contra as demais
+export async function registerLoginSuccess(username: string): Promise<void> {
+  await storage.clearLoginThrottle(LoginThrottleScopeEnum.USERNAME, usernameKey(username));
+}
+
+// Bloqueios em vigor (não inclui as esperas curtas entre tentativas)
+export async function getActiveLoginLockouts(now: Date = new Date()): Promise<LoginLockout[]> {
+  const throttles = await storage.getRecentLoginThrottles(new Date(now.getTime() - FAILURE_WINDOW_MS));
+  return throttles.flatMap((throttle) => {
+    const block = getBlock(throttle, now);
+    return block?.reason === LoginFailureReasonEnum.LOCKED ? [{ ...throttle, lockedUntil: block.until }] : [];
+  });
+}
+
+// Registro de auditoria da tentativa. Falhas são registradas e não propagadas:
+// o login não deve cair por causa do log.
+export async function recordLoginEvent(event: InsertLoginEvent): Promise<void> {
+  try {
+    await storage.createLoginEvent(event);
+  } catch (error) {
+    console.error("Erro ao registrar tentativa de login:", error);
+  }
+}
@@ -0,0 +1,127 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { queuePointsCreditedEmail, queueOrderPlacedEmail, queueOrderStatusChangedEmail } from "./email";
+import {
+  NotificationTypeEnum, type InsertNotification, type Notification,
+  type Order, type OrderItem, type Product, type Kudos, type User
+} from "@shared/schema";
+import { formatOrderStatus } from "@shared/order-status";
+
+// Comentário SSE enviado periodicamente para que proxies não derrubem a conexão ociosa
+const STREAM_HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Conexões SSE abertas por usuário (uma por aba). Ficam na memória do processo:
+// com várias instâncias, o cliente ainda recebe as notificações pela consulta periódica.
+const streams = new Map<number, Set<Response>>();
+
+// Notificação a ser criada para um ou mais usuários
+type NotificationContent = Omit<InsertNotification, "id" | "userId" | "readAt" | "createdAt">;
+
+// Mantém a resposta aberta como um stream de eventos até o cliente desconectar
+export function openNotificationStream(userId: number, res: Response): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    // Desativa o buffer do nginx, que seguraria os eventos
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 10000\n\n");
+
+  const userStreams = streams.get(userId) ?? new Set<Response>();
+  userStreams.add(res);
+  streams.set(userId, userStreams);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_INTERVAL_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    userStreams.delete(res);
+    if (userStreams.size === 0) {
+      streams.delete(userId);
+    }
+  });
+}
+
+function pushNotification(notification: Notification): void {
+  const payload = `event: notification\ndata: ${JSON.stringify(notification)}\n\n`;
+  streams.get(notification.userId)?.forEach((res) => res.write(payload));
+}
+
+// Grava e entrega a notificação. Notificar é consequência de uma operação que já
+// foi concluída, então falhas são apenas registradas e nunca propagadas.
+export async function notifyUsers(userIds: number[], content: NotificationContent): Promise<void> {
+  try {
+    const created = await storage.createNotifications(
+      Array.from(new Set(userIds)).map((userId) => ({ ...content, userId })),
+    );
+    created.forEach(pushNotification);
+  } catch (error) {
+    console.error("Erro ao criar notificações:", error);
+  }
+}
+
+export async function notifyUser(userId: number, content: NotificationContent): Promise<void> {
+  await notifyUsers([userId], content);
+}
+
+export async function notifyPointsChanged(userId: number, points: number, description: string): Promise<void> {
+  if (points === 0) return;
+  await notifyUser(userId, {
+    type: NotificationTypeEnum.POINTS,
+    title: points > 0 ? `Você recebeu ${points} xCoins` : `${-points} xCoins foram debitados`,
+    message: description,
+    link: "/my-points",
+  });
+  if (points > 0) {
+    await queuePointsCreditedEmail(userId, points, description);
+  }
+}
+
+export async function notifyKudosReceived(kudos: Kudos, sender: Pick<User, "username" | "displayName">): Promise<void> {
+  const senderName = sender.displayName || sender.username;
+  await notifyUser(kudos.recipientId, {
+    type: NotificationTypeEnum.KUDOS,
+    title: `${senderName} reconheceu você com ${kudos.points} xCoins`,
+    message: kudos.message,
+    link: "/kudos",
+  });
+  await queuePointsCreditedEmail(kudos.recipientId, kudos.points, `Reconhecimento de ${senderName}: ${kudos.message}`);
+}
+
+export async function notifyOrderPlaced(order: Order, items: (OrderItem & { product: Product })[]): Promise<void> {
+  await notifyUser(order.userId, {
+    type: NotificationTypeEnum.ORDER_STATUS,
+    title: `Pedido #${order.id} recebido`,
+    message: `Seu pedido de ${order.totalPoints} xCoins foi registrado e aguarda aprovação.`,
+    link: `/my-orders/${order.id}`,
+  });
+  await queueOrderPlacedEmail(order, items);
+}
+
+export async function notifyOrderStatusChanged(order: Order, note?: string): Promise<void> {
+  const status = formatOrderStatus(order.status);
+  await notifyUser(order.userId, {
+    type: NotificationTypeEnum.ORDER_STATUS,
+    title: `Pedido #${order.id}: ${status}`,
+    message: note ? `Seu pedido agora está "${status}". ${note}` : `Seu pedido agora está "${status}".`,
+    link: `/my-orders/${order.id}`,
+  });
+  await queueOrderStatusChangedEmail(order, note);
+}
+
+// Avisa quem tem o produto na lista de desejos quando o estoque sai do zero
+export async function notifyBackInStock(previousStock: number, product: Product): Promise<void> {
+  if (previousStock > 0 || product.stock <= 0 || !product.isActive) return;
+  try {
+    const userIds = await storage.getWishlistUserIds(product.id);
+    await notifyUsers(userIds, {
+      type: NotificationTypeEnum.BACK_IN_STOCK,
+      title: "Produto de volta ao estoque",
+      message: `${product.name} está disponível novamente.`,
+      link: "/my-wishlist",
+    });
+  } catch (error) {
+    console.error("Erro ao avisar volta ao estoque:", error);
+  }
+}
@@ -0,0 +1,284 @@
+import passport from "passport";
+import * as client from "openid-client";
+import { Strategy as OidcStrategy, type VerifyFunctionWithRequest } from "openid-client/passport";
+import { storage } from "./storage";
+import { APP_URL } from "./email";
+import { hashPassword, generateTemporaryPassword } from "./auth";
+import { recordLoginEvent } from "./login-throttle";
+import { UserRoleEnum, LoginFailureReasonEnum, LoginMethodEnum, type User } from "@shared/schema";
+
+// Login corporativo (SSO) via OpenID Connect, configurado por variáveis de ambiente:
+//
+//   OIDC_ISSUER_URL        emissor do provedor (a descoberta usa /.well-known/openid-configuration)
+//   OIDC_CLIENT_ID         cliente cadastrado no provedor
+//   OIDC_CLIENT_SECRET
+//   OIDC_CALLBACK_URL      padrão: APP_URL + /api/auth/oidc/callback
+//   OIDC_SCOPES            padrão: "openid profile email"
+//   OIDC_PROVIDER_NAME     nome exibido no botão da tela de login
+//   OIDC_GROUPS_CLAIM      claim com os grupos do usuário (padrão: "groups")
+//   OIDC_ADMIN_GROUPS      grupos (separados por vírgula) que dão o perfil de administrador;
+//                          sem ele, o perfil continua sendo definido só pelos administradores
+//   OIDC_UNIT_CLAIM        claim com a unidade do usuário (ex.: "department")
+//   OIDC_UNIT_GROUP_PREFIX prefixo de grupo que indica a unidade (ex.: "unidade:" em "unidade:Matriz")
+//   OIDC_PASSWORD_LOGIN    "all" (padrão) ou "admins": funcionários só entram pelo SSO
+//
+// Emissores http:// só são aceitos em localhost, para testes com um provedor falso
+// local (ex.: docker run -p 8080:8080 ghcr.io/navikt/mock-oauth2-server e
+// OIDC_ISSUER_URL=http://localhost:8080/default).
+
+export const OIDC_STRATEGY = "oidc";
+
+export type OidcSettings = {
+  issuerUrl: URL;
+  clientId: string;
+  clientSecret: string;
+  callbackUrl: string;
+  scopes: string;
+  providerName: string;
+  groupsClaim: string;
+  adminGroups: string[];
+  unitClaim: string | null;
+  unitGroupPrefix: string | null;
+  passwordLoginAdminsOnly: boolean;
+};
+
+// Erro de configuração do SSO (variáveis de ambiente ausentes ou inválidas)
+export class OidcConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcConfigError";
+  }
+}
+
+// Conta do provedor que não pôde ser associada a um usuário ativo
+export class OidcLoginRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: typeof LoginFailureReasonEnum.INACTIVE | typeof LoginFailureReasonEnum.SSO_REJECTED,
+    public readonly userId?: number,
+  ) {
+    super(message);
+    this.name = "OidcLoginRejectedError";
+  }
+}
+
+// Repassado à rota de callback quando o login pelo provedor é recusado
+export type OidcRejectedInfo = { message: string; reason: OidcLoginRejectedError["reason"] };
+
+// Dados do usuário que vêm do provedor (ID token + userinfo)
+type OidcClaims = Record<string, unknown> & { sub: string };
+
+const splitList = (value: string | undefined) =>
+  (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+
+// Lê a configuração do SSO; null quando OIDC_ISSUER_URL não foi definido
+export function getOidcSettings(env: NodeJS.ProcessEnv = process.env): OidcSettings | null {
+  if (!env.OIDC_ISSUER_URL) {
+    return null;
+  }
+
+  let issuerUrl: URL;
+  try {
+    issuerUrl = new URL(env.OIDC_ISSUER_URL);
+  } catch {
+    throw new OidcConfigError(`OIDC_ISSUER_URL must be a URL (received "${env.OIDC_ISSUER_URL}")`);
+  }
+  if (!env.OIDC_CLIENT_ID || !env.OIDC_CLIENT_SECRET) {
+    throw new OidcConfigError("OIDC_CLIENT_ID and OIDC_CLIENT_SECRET must be set when OIDC_ISSUER_URL is set");
+  }
+
+  const passwordLogin = env.OIDC_PASSWORD_LOGIN ?? "all";
+  if (passwordLogin !== "all" && passwordLogin !== "admins") {
+    throw new OidcConfigError(`OIDC_PASSWORD_LOGIN must be "all" or "admins" (received "${passwordLogin}")`);
+  }
+
+  return {
+    issuerUrl,
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET,
+    callbackUrl: env.OIDC_CALLBACK_URL ?? `${APP_URL}/api/auth/oidc/callback`,
+    scopes: env.OIDC_SCOPES ?? "openid profile email",
+    providerName: env.OIDC_PROVIDER_NAME ?? "login corporativo",
+    groupsClaim: env.OIDC_GROUPS_CLAIM ?? "groups",
+    adminGroups: splitList(env.OIDC_ADMIN_GROUPS),
+    unitClaim: env.OIDC_UNIT_CLAIM || null,
+    unitGroupPrefix: env.OIDC_UNIT_GROUP_PREFIX || null,
+    passwordLoginAdminsOnly: passwordLogin === "admins",
+  };
+}
+
+export const oidcSettings = getOidcSettings();
+
+// Com OIDC_PASSWORD_LOGIN=admins, a senha só vale para administradores (que
+// precisam entrar mesmo com o provedor fora do ar)
+export function isPasswordLoginAllowed(user: Pick<User, "role">, settings: OidcSettings | null = oidcSettings): boolean {
+  return !settings?.passwordLoginAdminsOnly || user.role === UserRoleEnum.ADMIN;
+}
+
+function getGroups(claims: OidcClaims, settings: OidcSettings): string[] {
+  const value = claims[settings.groupsClaim];
+  if (Array.isArray(value)) return value.filter((group): group is string => typeof group === "string");
+  if (typeof value === "string") return splitList(value);
+  return [];
+}
+
+// Perfil e unidade definidos pelo provedor. Campos ausentes (undefined) ficam como
+// estão no cadastro: o perfil só é sincronizado quando OIDC_ADMIN_GROUPS foi definido,
+// e a unidade só quando o provedor a informa.
+export function mapOidcClaims(
+  claims: OidcClaims,
+  settings: OidcSettings,
+): { role?: User["role"]; unit?: string } {
+  const groups = getGroups(claims, settings);
+  const mapped: { role?: User["role"]; unit?: string } = {};
+
+  if (settings.adminGroups.length > 0) {
+    mapped.role = groups.some((group) => settings.adminGroups.includes(group))
+      ? UserRoleEnum.ADMIN
+      : UserRoleEnum.EMPLOYEE;
+  }
+
+  const unitFromClaim = settings.unitClaim ? claims[settings.unitClaim] : undefined;
+  if (typeof unitFromClaim === "string" && unitFromClaim.trim()) {
+    mapped.unit = unitFromClaim.trim();
+  } else if (settings.unitGroupPrefix) {
+    const prefix = settings.unitGroupPrefix;
+    const unitGroup = groups.find((group) => group.startsWith(prefix) && group.length > prefix.length);
+    if (unitGroup) mapped.unit = unitGroup.slice(prefix.length).trim();
+  }
+
+  return mapped;
+}
+
+const getStringClaim = (claims: OidcClaims, name: string) => {
+  const value = claims[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+// Nome de usuário livre a partir do preferred_username (ou do e-mail)
+async function pickUsername(claims: OidcClaims): Promise<string> {
+  const source = getStringClaim(claims, "preferred_username")
+    ?? getStringClaim(claims, "email")?.split("@")[0]
+    ?? `sso-${claims.sub}`;
+  const base = source.toLowerCase().replace(/[^a-z0-9._-]/g, "").slice(0, 40) || `sso-${claims.sub}`.slice(0, 40);
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? base : `${base}${suffix}`;
+    if (!(await storage.getUserByUsername(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+// Acha (ou cria) o usuário da conta do provedor: primeiro pelo vínculo já feito,
+// depois pelo e-mail verificado de um usuário ativo; sem nenhum dos dois, cria o
+// usuário na hora. Perfil, unidade, nome e e-mail acompanham o provedor a cada login.
+export async function provisionOidcUser(issuer: string, claims: OidcClaims, settings: OidcSettings): Promise<User> {
+  const email = getStringClaim(claims, "email");
+  const displayName = getStringClaim(claims, "name");
+  const mapped = mapOidcClaims(claims, settings);
+  // Unidade ainda não cadastrada é criada na hora, fora da hierarquia
+  const unitId = mapped.unit ? (await storage.findOrCreateUnit(mapped.unit)).id : undefined;
+
+  let user = await storage.getUserByIdentity(issuer, claims.sub);
+
+  if (!user && email && claims.email_verified === true) {
+    const sameEmail = await storage.getActiveUsersByEmail(email);
+    // E-mail compartilhado por mais de uma conta: não dá para saber qual vincular
+    if (sameEmail.length === 1) {
+      user = sameEmail[0];
+    }
+  }
+
+  if (!user) {
+    if (!email) {
+      throw new OidcLoginRejectedError("O provedor não informou o e-mail da conta", LoginFailureReasonEnum.SSO_REJECTED);
+    }
+    return await storage.createUserWithIdentity({
+      username: await pickUsername(claims),
+      // Senha aleatória que ninguém conhece; a conta entra pelo provedor
+      password: await hashPassword(generateTemporaryPassword()),
+      email,
+      displayName: displayName ?? null,
+      role: mapped.role ?? UserRoleEnum.EMPLOYEE,
+      unitId: unitId ?? null,
+    }, issuer, claims.sub);
+  }
+
+  if (!user.isActive) {
+    throw new OidcLoginRejectedError("Conta desativada", LoginFailureReasonEnum.INACTIVE, user.id);
+  }
+
+  await storage.linkUserIdentity(user.id, issuer, claims.sub, email ?? null);
+
+  // Os grupos só dizem quem é administrador: operadores, gestores e auditores
+  // são definidos no sistema e não voltam a funcionário a cada login
+  const syncsRole = mapped.role !== undefined && mapped.role !== user.role
+    && (mapped.role === UserRoleEnum.ADMIN || user.role === UserRoleEnum.ADMIN);
+  const changes = {
+    email: email && email !== user.email ? email : undefined,
+    displayName: displayName && displayName !== user.displayName ? displayName : undefined,
+    role: syncsRole ? mapped.role : undefined,
+    unitId: unitId !== undefined && unitId !== user.unitId ? unitId : undefined,
+  };
+  if (Object.values(changes).some((value) => value !== undefined)) {
+    return (await storage.updateUser(user.id, changes)) ?? user;
+  }
+  return user;
+}
+
+let strategyReady: Promise<void> | null = null;
+
+// Registra a estratégia do passport na primeira vez que é usada: a descoberta
+// precisa do provedor no ar, e o servidor não deve deixar de subir sem ele.
+// Se falhar, a próxima tentativa de login tenta de novo.
+export function ensureOidcStrategy(settings: OidcSettings): Promise<void> {
+  strategyReady ??= (async () => {
+    const isLocalhost = ["localhost", "127.0.0.1", "[::1]"].includes(settings.issuerUrl.hostname);
+    const config = await client.discovery(
+      settings.issuerUrl,
+      settings.clientId,
+      settings.clientSecret,
+      undefined,
+      settings.issuerUrl.protocol === "http:" && isLocalhost ? { execute: [client.allowInsecureRequests] } : undefined,
+    );
+    const issuer = config.serverMetadata().issuer;
+
+    const verify: VerifyFunctionWithRequest = async (req, tokens, verified) => {
+      const idTokenClaims = tokens.claims();
+      if (!idTokenClaims) {
+        return verified(new Error("O provedor não retornou um ID token"));
+      }
+
+      const userInfo = await client.fetchUserInfo(config, tokens.access_token, idTokenClaims.sub);
+      const claims: OidcClaims = { ...idTokenClaims, ...userInfo, sub: idTokenClaims.sub };
+      const event = {
+        username: getStringClaim(claims, "preferred_username") ?? getStringClaim(claims, "email") ?? claims.sub,
+        method: LoginMethodEnum.SSO,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") ?? null,
+      };
+
+      try {
+        verified(null, await provisionOidcUser(issuer, claims, settings));
+      } catch (error) {
+        if (!(error instanceof OidcLoginRejectedError)) throw error;
+        await recordLoginEvent({ ...event, userId: error.userId, success: false, failureReason: error.reason });
+        const info: OidcRejectedInfo = { message: error.message, reason: error.reason };
+        verified(null, false, info);
+      }
+    };
+
+    passport.use(OIDC_STRATEGY, new OidcStrategy({
+      config,
+      name: OIDC_STRATEGY,
+      callbackURL: settings.callbackUrl,
+      scope: settings.scopes,
+      passReqToCallback: true,
+    }, verify));
+  })().catch((error) => {
+    strategyReady = null;
+    throw error;
+  });
+  return strategyReady;
+}
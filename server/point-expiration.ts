@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { queuePointsExpiringEmails } from "./email";
+
+// Política de RH: pontos de campanha expiram 12 meses após o crédito
+export const DEFAULT_POINTS_EXPIRATION_MONTHS = 12;
+
+// Intervalo entre execuções do job de expiração (1 hora)
+const EXPIRATION_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Calcula a data de expiração de um crédito feito em `from`
+export function getPointsExpirationDate(months: number, from: Date = new Date()): Date {
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+}
+
+async function runPointExpiration() {
+  try {
+    const expiredPoints = await storage.expireDuePoints();
+    if (expiredPoints > 0) {
+      log(`${expiredPoints} pontos expirados`, "points");
+    }
+
+    const warnings = await queuePointsExpiringEmails();
+    if (warnings > 0) {
+      log(`${warnings} avisos de pontos a expirar enfileirados`, "points");
+    }
+  } catch (error) {
+    console.error("Erro ao expirar pontos:", error);
+  }
+}
+
+// Agenda a expiração periódica de lotes vencidos (executa também ao iniciar)
+export function startPointExpirationJob() {
+  runPointExpiration();
+  const timer = setInterval(runPointExpiration, EXPIRATION_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
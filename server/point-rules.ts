@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { getPointsExpirationDate } from "./point-expiration";
+import { notifyPointsChanged } from "./notifications";
+import { PointRuleTypeEnum, type PointRule, type User } from "@shared/schema";
+import { getUnitSubtreeIds } from "@shared/units";
+
+// Intervalo entre verificações do job de regras (1 hora); a idempotência
+// por período garante que cada prêmio seja concedido uma única vez por dia/mês/ano
+const POINT_RULES_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Prêmio calculado para um usuário em uma data
+export type PointRuleAward = {
+  periodKey: string;
+  points: number;
+  description: string;
+};
+
+type DateParts = { year: number; month: number; day: number };
+
+function getDateParts(date: Date): DateParts {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+// Converte um campo `date` (YYYY-MM-DD) sem passar por fuso horário
+function parseDateColumn(value: string | null): DateParts | null {
+  if (!value) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  return { year, month, day };
+}
+
+function isLeapYear(year: number) {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Datas em 29/02 são comemoradas em 28/02 nos anos não bissextos
+function isAnniversary(date: DateParts, today: DateParts) {
+  if (date.month === 2 && date.day === 29 && !isLeapYear(today.year)) {
+    return today.month === 2 && today.day === 28;
+  }
+  return date.month === today.month && date.day === today.day;
+}
+
+// Calcula o prêmio que a regra concede ao usuário na data informada (ou null).
+// A unidade da regra é conferida por quem chama, que conhece a hierarquia
+export function getPointRuleAward(rule: PointRule, user: User, date: Date): PointRuleAward | null {
+  const today = getDateParts(date);
+
+  switch (rule.ruleType) {
+    case PointRuleTypeEnum.BIRTHDAY: {
+      const birthDate = parseDateColumn(user.birthDate);
+      if (!birthDate || !isAnniversary(birthDate, today)) return null;
+      return {
+        periodKey: `${today.year}`,
+        points: rule.points,
+        description: `${rule.name}: aniversário ${today.year}`,
+      };
+    }
+    case PointRuleTypeEnum.WORK_ANNIVERSARY: {
+      const hireDate = parseDateColumn(user.hireDate);
+      if (!hireDate || !isAnniversary(hireDate, today)) return null;
+      const years = today.year - hireDate.year;
+      if (years < 1) return null;
+      return {
+        periodKey: `${today.year}`,
+        points: rule.points * years,
+        description: `${rule.name}: ${years} ${years === 1 ? "ano" : "anos"} de empresa`,
+      };
+    }
+    case PointRuleTypeEnum.MONTHLY_UNIT_BONUS: {
+      const month = String(today.month).padStart(2, "0");
+      return {
+        periodKey: `${today.year}-${month}`,
+        points: rule.points,
+        description: `${rule.name}: bônus de ${month}/${today.year}`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Avalia todas as regras ativas para todos os usuários e concede os prêmios devidos
+export async function runPointRules(date: Date = new Date()): Promise<number> {
+  const rules = await storage.getActivePointRules();
+  if (rules.length === 0) return 0;
+
+  // Usuários desativados têm o saldo congelado e não recebem prêmios
+  const users = (await storage.getAllUsers()).filter((user) => user.isActive);
+  const units = await storage.getUnits();
+  let awarded = 0;
+
+  for (const rule of rules) {
+    // Regra de uma unidade vale também para as subunidades dela
+    const ruleUnitIds = rule.unitId !== null ? getUnitSubtreeIds(units, [rule.unitId]) : null;
+    for (const user of users) {
+      if (ruleUnitIds && (user.unitId === null || !ruleUnitIds.includes(user.unitId))) continue;
+      const award = getPointRuleAward(rule, user, date);
+      if (!award) continue;
+
+      const expiresAt = rule.expiresInMonths ? getPointsExpirationDate(rule.expiresInMonths, date) : null;
+      const applied = await storage.applyPointRuleAward(
+        rule,
+        user.id,
+        award.periodKey,
+        award.points,
+        award.description,
+        expiresAt,
+      );
+      if (applied) {
+        awarded++;
+        await notifyPointsChanged(user.id, award.points, award.description);
+      }
+    }
+  }
+
+  return awarded;
+}
+
+async function runPointRulesJob() {
+  try {
+    const awarded = await runPointRules();
+    if (awarded > 0) {
+      log(`${awarded} prêmios automáticos concedidos`, "points");
+    }
+  } catch (error) {
+    console.error("Erro ao executar regras de pontos:", error);
+  }
+}
+
+// Agenda a avaliação periódica das regras (executa também ao iniciar)
+export function startPointRulesJob() {
+  runPointRulesJob();
+  const timer = setInterval(runPointRulesJob, POINT_RULES_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
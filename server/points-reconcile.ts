@@ -0,0 +1,35 @@
+// Conciliação do razão de pontos: npm run points:reconcile
+//
+// Compara o saldo de cada usuário com a soma dos lançamentos dele e lista as
+// divergências. Só leitura: o lançamento de correção é feito pela área
+// administrativa, que registra quem o fez no log de auditoria. Termina com
+// código 1 quando há divergências, para uso em rotinas agendadas.
+import { storage } from "./storage";
+import { pool } from "./db";
+
+async function main() {
+  const report = await storage.getPointsReconciliation();
+
+  for (const item of report.discrepancies) {
+    const name = item.displayName ? `${item.displayName} (${item.username})` : item.username;
+    console.log(
+      `Divergência: ${name} #${item.userId}${item.isActive ? "" : " [desativado]"} — ` +
+      `saldo ${item.balance}, razão ${item.ledgerTotal}, diferença ${item.difference > 0 ? "+" : ""}${item.difference}`
+    );
+  }
+  console.log(
+    `${report.usersChecked} usuário(s) conferido(s): saldo total ${report.totalBalance}, ` +
+    `razão total ${report.totalLedger}, ${report.discrepancies.length} divergência(s)`
+  );
+
+  if (report.discrepancies.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Erro na conciliação de pontos:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
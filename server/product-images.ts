@@ -0,0 +1,69 @@
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { saveFile, removeFiles } from "./files";
+
+// Miniatura quadrada para cards e listas; detalhe mantém a proporção original
+const THUMBNAIL_SIZE = 480;
+const DETAIL_MAX_SIZE = 1600;
+const WEBP_QUALITY = 80;
+
+// Arquivo que não pôde ser lido como imagem
+export class ProductImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImageProcessingError";
+  }
+}
+
+export type ProcessedProductImage = {
+  thumbnailUrl: string;
+  detailUrl: string;
+};
+
+// Gera as versões WebP (miniatura e detalhe) de uma imagem enviada e as grava no backend de arquivos
+export async function processProductImage(buffer: Buffer, originalName: string): Promise<ProcessedProductImage> {
+  let thumbnail: Buffer;
+  let detail: Buffer;
+  try {
+    // rotate() aplica a orientação EXIF antes de descartar os metadados
+    const image = sharp(buffer, { failOn: "error" }).rotate();
+    [thumbnail, detail] = await Promise.all([
+      image
+        .clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover", position: "attention" })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer(),
+      image
+        .clone()
+        .resize(DETAIL_MAX_SIZE, DETAIL_MAX_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer(),
+    ]);
+  } catch {
+    throw new ProductImageProcessingError(`Não foi possível processar a imagem "${originalName}"`);
+  }
+
+  const baseName = randomUUID();
+  const thumbnailUrl = await saveFile(`products/${baseName}-thumb.webp`, thumbnail, "image/webp", "product_image");
+  try {
+    const detailUrl = await saveFile(`products/${baseName}-detail.webp`, detail, "image/webp", "product_image");
+    return { thumbnailUrl, detailUrl };
+  } catch (error) {
+    await removeFiles([thumbnailUrl]);
+    throw error;
+  }
+}
+
+// Processa várias imagens; se uma falhar, as já geradas são removidas
+export async function processProductImages(files: { buffer: Buffer; originalname: string }[]): Promise<ProcessedProductImage[]> {
+  const processed: ProcessedProductImage[] = [];
+  try {
+    for (const file of files) {
+      processed.push(await processProductImage(file.buffer, file.originalname));
+    }
+  } catch (error) {
+    await removeFiles(processed.flatMap((image) => [image.thumbnailUrl, image.detailUrl]));
+    throw error;
+  }
+  return processed;
+}
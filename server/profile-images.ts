@@ -0,0 +1,47 @@
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { saveFile } from "./files";
+
+// Foto de perfil: quadrada, tamanho suficiente para avatares em telas densas
+const PROFILE_IMAGE_SIZE = 256;
+const MAX_PROFILE_IMAGE_BYTES = 5 * 1024 * 1024;
+const DATA_URL_PATTERN = /^data:image\/(jpeg|png|gif|webp);base64,([A-Za-z0-9+/=\s]+)$/;
+
+// Imagem de perfil inválida (formato não suportado, grande demais ou corrompida)
+export class ProfileImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileImageError";
+  }
+}
+
+export function isInlineProfileImage(value: string): boolean {
+  return value.startsWith("data:");
+}
+
+// Converte a imagem enviada pelo perfil (data URL em base64) em WebP e a grava
+// no backend de arquivos, retornando a URL pública
+export async function processProfileImage(dataUrl: string): Promise<string> {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) {
+    throw new ProfileImageError("Imagem de perfil inválida. Envie uma imagem JPG, PNG, GIF ou WebP.");
+  }
+
+  const buffer = Buffer.from(match[2], "base64");
+  if (buffer.length > MAX_PROFILE_IMAGE_BYTES) {
+    throw new ProfileImageError("A imagem de perfil deve ter no máximo 5MB");
+  }
+
+  let image: Buffer;
+  try {
+    image = await sharp(buffer, { failOn: "error" })
+      .rotate()
+      .resize(PROFILE_IMAGE_SIZE, PROFILE_IMAGE_SIZE, { fit: "cover", position: "attention" })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch {
+    throw new ProfileImageError("Não foi possível processar a imagem de perfil");
+  }
+
+  return await saveFile(`profiles/${randomUUID()}.webp`, image, "image/webp", "profile_image");
+}
@@ -1,10 +1,22 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { storage, OrderPlacementError, OrderStatusTransitionError, OrderRefundError, BulkPointsError, PointsBudgetError, PointsCorrectionError, KudosError, UnitError, ProductVariantError, ProductImageError } from "./storage";
+import { setupAuth, requirePermission, hashPassword, generateTemporaryPassword, getNewPasswordErrors } from "./auth";
+import { DEFAULT_POINTS_EXPIRATION_MONTHS, getPointsExpirationDate } from "./point-expiration";
+import { runPointRules } from "./point-rules";
+import { parsePointsSpreadsheet, validateBulkPointsRows } from "./bulk-points";
+import { parseEmployeeSpreadsheet, planEmployeeImport } from "./employee-import";
+import { SpreadsheetParseError } from "./spreadsheet";
+import { processProductImages, ProductImageProcessingError } from "./product-images";
+import { processProfileImage, ProfileImageError } from "./profile-images";
+import { removeFiles } from "./files";
+import { openNotificationStream, notifyPointsChanged, notifyKudosReceived, notifyOrderPlaced, notifyOrderStatusChanged, notifyBackInStock } from "./notifications";
+import { queueAccountCreatedEmail } from "./email";
+import { getActiveLoginLockouts } from "./login-throttle";
+import { auditEntry, recordAudit } from "./audit";
+import { startTwoFactorSetup, findTotpStep, verifyTwoFactorCode, generateRecoveryCodes } from "./two-factor";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
 import { 
   insertUserSchema, 
   updateUserSchema,
@@ -12,34 +24,46 @@ import {
   updateProductSchema,
   insertOrderSchema,
   updateOrderSchema,
+  updateOrderStatusSchema,
   insertOrderItemSchema,
-  insertPointTransactionSchema,
-  UserRoleEnum
+  addCartItemSchema,
+  addWishlistItemSchema,
+  insertPointRuleSchema,
+  updatePointRuleSchema,
+  insertUnitSchema,
+  updateUnitSchema,
+  updateCartItemSchema,
+  bulkPointsCommitSchema,
+  pointsCorrectionSchema,
+  sendKudosSchema,
+  kudosFeedQuerySchema,
+  insertCategorySchema,
+  updateCategorySchema,
+  productQuerySchema,
+  insertProductVariantSchema,
+  updateProductVariantSchema,
+  reorderProductImagesSchema,
+  markNotificationsReadSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  auditLogQuerySchema,
+  UserRoleEnum,
+  AuditEntityEnum,
+  type NotificationFeed,
+  type TwoFactorStatus,
+  type User
 } from "@shared/schema";
+import { PermissionEnum, hasPermission } from "@shared/permissions";
 import { z } from "zod";
 
-// Set up multer for file uploads
-const upload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      const uploadDir = path.join(import.meta.dirname, "..", "uploads");
-      
-      // Create the uploads directory if it doesn't exist
-      if (!fs.existsSync(uploadDir)) {
-        fs.mkdirSync(uploadDir, { recursive: true });
-      }
-      
-      cb(null, uploadDir);
-    },
-    filename: (req, file, cb) => {
-      // Generate a unique filename
-      const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-      const extension = path.extname(file.originalname);
-      cb(null, `${file.fieldname}-${uniqueSuffix}${extension}`);
-    }
-  }),
+// Product images are kept in memory and stored only after being resized to
+// WebP (see product-images.ts and file-storage.ts)
+const MAX_PRODUCT_IMAGES_PER_UPLOAD = 10;
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: MAX_PRODUCT_IMAGES_PER_UPLOAD,
   },
   fileFilter: (req, file, cb) => {
     // Accept only image files
@@ -52,6 +76,43 @@ const upload = multer({
   }
 });
 
+// Spreadsheets (CSV/XLSX) are parsed in memory and never written to disk
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers report inconsistent mimetypes for CSV, so check the extension
+    const allowedExtensions = ['.csv', '.xlsx', '.xls'];
+    if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Tipo de arquivo inválido. Apenas planilhas CSV, XLSX e XLS são permitidas.'));
+    }
+  }
+});
+
+// Product category sent by the admin forms ("" or "null" clears it)
+const productCategorySchema = z.preprocess(
+  (value) => (value === "" || value === "null" ? null : value),
+  z.coerce.number().int().positive().nullable(),
+).optional();
+
+// Product tags sent by the admin forms as a comma-separated list
+const productTagsSchema = z.string()
+  .transform((value) => value.split(",").map((tag) => tag.trim()).filter((tag) => tag.length > 0))
+  .optional();
+
+// Login attempts shown per employee in the admin
+const LOGIN_EVENTS_LIMIT = 100;
+
+// Kudos shown in the recognition feed
+const KUDOS_FEED_LIMIT = 100;
+
+// Audit log entries returned per query; narrow the filters to see older ones
+const AUDIT_LOG_LIMIT = 1000;
+
 // Helper function to parse ID from request params
 function parseId(idParam: string): number {
   const id = parseInt(idParam);
@@ -61,17 +122,6 @@ function parseId(idParam: string): number {
   return id;
 }
 
-// Middleware to check if user is admin
-function isAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Não autenticado" });
-  }
-  if (req.user.role !== UserRoleEnum.ADMIN) {
-    return res.status(403).json({ message: "Acesso não autorizado. Apenas administradores podem acessar esta função." });
-  }
-  next();
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
@@ -80,10 +130,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // USER ROUTES
   // -------------------------
   
-  // Get all employees (admin only)
-  app.get("/api/admin/employees", isAdmin, async (req: Request, res: Response) => {
+  // Get all employees
+  app.get("/api/admin/employees", requirePermission(PermissionEnum.USERS_READ, PermissionEnum.USERS_READ_UNIT), async (req: Request, res: Response) => {
     try {
-      const employees = await storage.getEmployees();
+      const statusSchema = z.enum(["active", "inactive", "all"]).default("all");
+      const parsedStatus = statusSchema.safeParse(req.query.status);
+      if (!parsedStatus.success) {
+        return res.status(400).json({ message: "Filtro de status inválido" });
+      }
+      
+      // Gestores de unidade só enxergam as unidades que gerenciam e as subunidades delas
+      const canReadAll = hasPermission(req.user, PermissionEnum.USERS_READ);
+      const unitIds = canReadAll ? undefined : await storage.getManagedUnitIds(req.user!.id);
+      
+      const employees = await storage.getEmployees(parsedStatus.data, unitIds);
       // Don't send password hashes to client
       const safeEmployees = employees.map(({ password, ...employee }) => employee);
       res.status(200).json(safeEmployees);
@@ -92,173 +152,1644 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update user (admin only)
-  app.patch("/api/admin/users/:id", isAdmin, async (req: Request, res: Response) => {
+  // Import employees from a headcount spreadsheet. With dryRun (default)
+  // only the plan is returned; otherwise it is applied atomically.
+  app.post("/api/admin/employees/import", requirePermission(PermissionEnum.USERS_MANAGE), spreadsheetUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhuma planilha enviada" });
+      }
+      
+      const dryRun = req.body.dryRun !== "false";
+      const deactivateMissing = req.body.deactivateMissing === "true";
+      
+      const rows = parseEmployeeSpreadsheet(req.file.buffer, req.file.originalname);
+      const users = await storage.getAllUsers();
+      const units = await storage.getUnits();
+      const plan = planEmployeeImport(rows, users, units, { deactivateMissing });
+      
+      if (dryRun) {
+        return res.status(200).json(plan.result);
+      }
+      if (plan.result.invalidRows > 0) {
+        return res.status(400).json({ 
+          message: `A planilha possui ${plan.result.invalidRows} linha(s) com erro`, 
+          preview: plan.result 
+        });
+      }
+      
+      // Senhas temporárias: devolvidas uma única vez, no relatório da importação
+      const temporaryPasswords = new Map<number, string>();
+      const creates = [];
+      for (const create of plan.creates) {
+        const temporaryPassword = generateTemporaryPassword();
+        temporaryPasswords.set(create.rowNumber, temporaryPassword);
+        creates.push({
+          username: create.username,
+          email: create.email,
+          displayName: create.displayName,
+          unitId: create.unitId,
+          role: create.role,
+          password: await hashPassword(temporaryPassword),
+          mustChangePassword: true,
+        });
+      }
+      
+      const fileName = req.file.originalname;
+      const createdUsers = await storage.importEmployees({ 
+        creates, 
+        updates: plan.updates, 
+        deactivations: plan.deactivations 
+      }, req.user!.id, auditEntry(req, (created) => ({
+        action: "user.import",
+        entityType: AuditEntityEnum.USER,
+        description: `Importação de ${fileName}: ${created.length} criado(s), ${plan.updates.length} atualizado(s), ${plan.deactivations.length} desativado(s)`,
+      })));
+      
+      for (const user of createdUsers) {
+        const create = plan.creates.find((item) => item.username === user.username);
+        if (create) {
+          await queueAccountCreatedEmail(user, temporaryPasswords.get(create.rowNumber)!);
+        }
+      }
+      
+      res.status(200).json({
+        ...plan.result,
+        applied: true,
+        rows: plan.result.rows.map((row) => 
+          row.action === "create" && row.rowNumber !== null
+            ? { ...row, temporaryPassword: temporaryPasswords.get(row.rowNumber) }
+            : row
+        ),
+      });
+    } catch (error) {
+      if (error instanceof SpreadsheetParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao importar funcionários: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Update user
+  app.patch("/api/admin/users/:id", requirePermission(PermissionEnum.USERS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      // Verificar se o usuário existe
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      const parsedData = updateUserSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      const data = parsedData.data;
+      
+      if (data.unitId && !(await storage.getUnit(data.unitId))) {
+        return res.status(400).json({ message: "Unidade não encontrada" });
+      }
+      
+      // Importar hashPassword apenas se precisarmos atualizar a senha
+      let newPasswordHash;
+      if (data.password) {
+        const passwordErrors = await getNewPasswordErrors(
+          data.password,
+          data.username ?? user.username,
+          user.id,
+        );
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+        }
+        
+        const { hashPassword } = await import("./auth");
+        newPasswordHash = await hashPassword(data.password);
+      }
+      
+      // Preparar dados para atualização
+      const updateData: any = {};
+      if (data.username !== undefined) updateData.username = data.username;
+      if (data.email !== undefined) updateData.email = data.email;
+      if (data.displayName !== undefined) updateData.displayName = data.displayName;
+      if (data.role !== undefined) updateData.role = data.role;
+      if (data.unitId !== undefined) updateData.unitId = data.unitId;
+      if (data.birthDate !== undefined) updateData.birthDate = data.birthDate;
+      if (data.hireDate !== undefined) updateData.hireDate = data.hireDate;
+      if (data.mustChangePassword !== undefined) updateData.mustChangePassword = data.mustChangePassword;
+      if (newPasswordHash) updateData.password = newPasswordHash;
+      
+      // Atualizar o usuário
+      const updatedUser = await storage.updateUser(id, updateData, auditEntry(req, (updated) => ({
+        action: "user.update",
+        entityType: AuditEntityEnum.USER,
+        entityId: id,
+        description: `Usuário ${updated.username} alterado`,
+        before: user,
+        after: updated,
+      })));
+      if (!updatedUser) {
+        return res.status(500).json({ message: "Falha ao atualizar usuário" });
+      }
+      
+      // Não enviar hash de senha para o cliente
+      const { password, ...userWithoutPassword } = updatedUser;
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      console.error("Erro ao atualizar usuário:", error);
+      res.status(500).json({ message: `Erro ao atualizar usuário: ${error.message}` });
+    }
+  });
+  
+  // Deactivate user. Users are never removed: orders and the points
+  // ledger keep referencing them and the balance is frozen.
+  app.delete("/api/admin/users/:id", requirePermission(PermissionEnum.USERS_MANAGE), async (req: Request, res: Response) => {
     try {
       const id = parseId(req.params.id);
       
+      // Verificar se não está tentando desativar a si mesmo
+      if (req.user && req.user.id === id) {
+        return res.status(400).json({ message: "Não é possível desativar o próprio usuário" });
+      }
+      
       // Verificar se o usuário existe
       const user = await storage.getUser(id);
       if (!user) {
         return res.status(404).json({ message: "Usuário não encontrado" });
       }
+      if (!user.isActive) {
+        return res.status(409).json({ message: "Usuário já está desativado" });
+      }
+      
+      const deactivatedUser = await storage.deactivateUser(id, req.user!.id, auditEntry(req, (deactivated) => ({
+        action: "user.deactivate",
+        entityType: AuditEntityEnum.USER,
+        entityId: id,
+        description: `Usuário ${user.username} desativado`,
+        before: user,
+        after: deactivated,
+      })));
+      if (!deactivatedUser) {
+        return res.status(409).json({ message: "Usuário já está desativado" });
+      }
+      
+      const { password, ...userWithoutPassword } = deactivatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      console.error("Erro ao desativar usuário:", error);
+      res.status(500).json({ message: `Erro ao desativar usuário: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Reactivate user, optionally forfeiting the frozen balance
+  app.post("/api/admin/users/:id/reactivate", requirePermission(PermissionEnum.USERS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const reactivateSchema = z.object({
+        forfeitBalance: z.boolean().default(false)
+      });
+      
+      const parsedData = reactivateSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Dados inválidos fornecidos" });
+      }
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      if (user.isActive) {
+        return res.status(409).json({ message: "Usuário já está ativo" });
+      }
+      
+      const reactivatedUser = await storage.reactivateUser(id, {
+        forfeitBalance: parsedData.data.forfeitBalance,
+        forfeitReason: `Saldo zerado na reativação da conta por ${req.user!.displayName || req.user!.username}`,
+      }, auditEntry(req, (reactivated) => ({
+        action: "user.reactivate",
+        entityType: AuditEntityEnum.USER,
+        entityId: id,
+        description: parsedData.data.forfeitBalance
+          ? `Usuário ${user.username} reativado com o saldo zerado`
+          : `Usuário ${user.username} reativado`,
+        before: user,
+        after: reactivated,
+      })));
+      if (!reactivatedUser) {
+        return res.status(409).json({ message: "Usuário já está ativo" });
+      }
+      
+      const { password, ...userWithoutPassword } = reactivatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao reativar usuário: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Login attempts of a user, most recent first
+  app.get("/api/admin/users/:id/login-events", requirePermission(PermissionEnum.USERS_READ), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      const events = await storage.getLoginEvents(id, LOGIN_EVENTS_LIMIT);
+      res.status(200).json(events);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar histórico de login: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Reset the 2FA of a user who lost the authenticator and the recovery codes.
+  // The user enrolls again on the next login (required for admins).
+  app.post("/api/admin/users/:id/2fa/reset", requirePermission(PermissionEnum.USERS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      if (req.user && req.user.id === id) {
+        return res.status(400).json({ message: "Use a página de perfil para gerenciar a sua própria autenticação em dois fatores" });
+      }
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      const updatedUser = await storage.disableTwoFactor(id, auditEntry(req, (updated) => ({
+        action: "user.2fa_reset",
+        entityType: AuditEntityEnum.USER,
+        entityId: id,
+        description: `Autenticação em dois fatores de ${user.username} redefinida`,
+        before: user,
+        after: updated,
+      })));
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao redefinir autenticação em dois fatores: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Usernames and IPs locked out after too many failed logins
+  app.get("/api/admin/login-lockouts", requirePermission(PermissionEnum.USERS_READ), async (req: Request, res: Response) => {
+    try {
+      const lockouts = await getActiveLoginLockouts();
+      res.status(200).json(lockouts);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar bloqueios de login: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Unlock a username or IP, clearing its failure count
+  app.delete("/api/admin/login-lockouts/:id", requirePermission(PermissionEnum.USERS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const deleted = await storage.deleteLoginThrottle(id, auditEntry(req, (throttle) => ({
+        action: "login_lockout.delete",
+        entityType: AuditEntityEnum.LOGIN_LOCKOUT,
+        entityId: id,
+        description: `Acesso desbloqueado: ${throttle.key}`,
+        before: throttle,
+      })));
+      if (!deleted) {
+        return res.status(404).json({ message: "Bloqueio não encontrado" });
+      }
+      
+      res.status(200).json({ message: "Acesso desbloqueado com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao desbloquear acesso: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Update user points. Unit managers may only credit employees of the units they
+  // manage (and their sub-units); the award is refused beyond the unit's remaining
+  // budget. Admins grant without a budget.
+  app.patch("/api/admin/users/:id/points", requirePermission(PermissionEnum.POINTS_GRANT, PermissionEnum.POINTS_GRANT_UNIT), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const pointsSchema = z.object({
+        points: z.number().int(),
+        description: z.string().min(1),
+        // Meses até a expiração dos pontos creditados; null = não expiram
+        expiresInMonths: z.number().int().positive().nullable().optional()
+      });
+      
+      const parsedData = pointsSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Dados inválidos fornecidos" });
+      }
+      
+      const { points, description } = parsedData.data;
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      if (!user.isActive) {
+        return res.status(409).json({ message: "Usuário desativado: o saldo está congelado" });
+      }
+      
+      const grantsFromBudget = !hasPermission(req.user, PermissionEnum.POINTS_GRANT);
+      if (grantsFromBudget) {
+        if (user.id === req.user!.id) {
+          return res.status(403).json({ message: "Não é possível creditar pontos para si mesmo" });
+        }
+        if (points <= 0) {
+          return res.status(403).json({ message: "Gestores de unidade só podem creditar pontos" });
+        }
+      }
+      
+      const expiresInMonths = parsedData.data.expiresInMonths === undefined
+        ? DEFAULT_POINTS_EXPIRATION_MONTHS
+        : parsedData.data.expiresInMonths;
+      const options = {
+        expiresAt: expiresInMonths ? getPointsExpirationDate(expiresInMonths) : null,
+        grantedBy: req.user!.id,
+      };
+      
+      // Saldo, lote de pontos e log de auditoria são gravados na mesma transação
+      const audit = auditEntry<User>(req, (updated) => ({
+        action: "points.grant",
+        entityType: AuditEntityEnum.POINTS,
+        entityId: id,
+        description: `${points > 0 ? "+" : ""}${points} ponto(s) para ${user.username}: ${description}`,
+        before: { points: user.points },
+        after: { points: updated.points },
+      }));
+      const updatedUser = grantsFromBudget
+        ? await storage.grantPointsFromBudget(req.user!.id, id, points, description, options, audit)
+        : await storage.grantPoints(id, points, description, options, audit);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      await notifyPointsChanged(id, points, description);
+      
+      // Don't send password hash to client
+      const { password, ...userWithoutPassword } = updatedUser;
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof PointsBudgetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao atualizar pontos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Current budget of each unit managed by the logged-in unit manager
+  app.get("/api/admin/points/budget", requirePermission(PermissionEnum.POINTS_GRANT_UNIT), async (req: Request, res: Response) => {
+    try {
+      const budgets = await storage.getUnitBudgets(new Date(), req.user!.id);
+      res.status(200).json(budgets);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar orçamento de pontos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Preview a bulk point distribution spreadsheet; nothing is written
+  app.post("/api/admin/points/bulk/preview", requirePermission(PermissionEnum.POINTS_GRANT), spreadsheetUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhuma planilha enviada" });
+      }
+      
+      const rows = parsePointsSpreadsheet(req.file.buffer, req.file.originalname);
+      const users = await storage.getAllUsers();
+      
+      res.status(200).json(validateBulkPointsRows(rows, users));
+    } catch (error) {
+      if (error instanceof SpreadsheetParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao ler planilha: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Apply a previewed bulk point distribution; all rows or none
+  app.post("/api/admin/points/bulk/commit", requirePermission(PermissionEnum.POINTS_GRANT), async (req: Request, res: Response) => {
+    try {
+      const parsedData = bulkPointsCommitSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      // Revalidar: usuários e saldos podem ter mudado desde a pré-visualização
+      const users = await storage.getAllUsers();
+      const preview = validateBulkPointsRows(parsedData.data.rows, users);
+      if (preview.invalidRows > 0) {
+        return res.status(400).json({ 
+          message: `A planilha possui ${preview.invalidRows} linha(s) com erro`, 
+          preview 
+        });
+      }
+      
+      const expiresInMonths = parsedData.data.expiresInMonths === undefined
+        ? DEFAULT_POINTS_EXPIRATION_MONTHS
+        : parsedData.data.expiresInMonths;
+      
+      const entries = preview.rows.map((row) => ({
+        rowNumber: row.rowNumber,
+        userId: row.userId!,
+        points: row.points as number,
+        description: row.description,
+      }));
+      const applied = await storage.grantPointsBulk(
+        entries,
+        { expiresAt: expiresInMonths ? getPointsExpirationDate(expiresInMonths) : null, grantedBy: req.user!.id },
+        auditEntry(req, (count) => ({
+          action: "points.bulk_grant",
+          entityType: AuditEntityEnum.POINTS,
+          description: `Distribuição em lote para ${count} funcionário(s): ${preview.totalCredited} ponto(s) creditado(s), ${preview.totalDebited} debitado(s)`,
+        })),
+      );
+      
+      for (const entry of entries) {
+        await notifyPointsChanged(entry.userId, entry.points, entry.description);
+      }
+      
+      res.status(200).json({ 
+        applied, 
+        totalCredited: preview.totalCredited, 
+        totalDebited: preview.totalDebited 
+      });
+    } catch (error) {
+      if (error instanceof BulkPointsError) {
+        return res.status(error.status).json({ message: error.message, rowNumber: error.rowNumber });
+      }
+      res.status(500).json({ message: `Erro ao distribuir pontos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Compare every user's balance with the sum of their ledger entries
+  app.get("/api/admin/points/reconciliation", requirePermission(PermissionEnum.POINTS_LEDGER_READ), async (req: Request, res: Response) => {
+    try {
+      const report = await storage.getPointsReconciliation();
+      res.status(200).json(report);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao conciliar pontos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Make a user's balance and ledger agree: set the balance to the ledger total (default)
+  // or post a correcting ledger entry that adds up to the current balance
+  app.post("/api/admin/points/reconciliation/:userId/correct", requirePermission(PermissionEnum.POINTS_GRANT), async (req: Request, res: Response) => {
+    try {
+      const userId = parseId(req.params.userId);
+      
+      const parsedData = pointsCorrectionSchema.safeParse(req.body ?? {});
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const { target } = parsedData.data;
+      const description = parsedData.data.description ?? "Correção da conciliação do razão de pontos";
+      const correction = await storage.postPointsCorrection(userId, target, description, req.user!.id, auditEntry(req, (result) => ({
+        action: "points.correction",
+        entityType: AuditEntityEnum.POINTS,
+        entityId: userId,
+        description: target === "balance"
+          ? `Saldo corrigido de ${result.previousBalance} para ${result.balance} ponto(s), conforme o razão: ${description}`
+          : `Lançamento de correção de ${result.correction.points > 0 ? "+" : ""}${result.correction.points} ponto(s): ${description}`,
+        before: { points: result.previousBalance },
+        after: { points: result.balance, correction: result.correction },
+      })));
+      if (!correction) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      res.status(201).json(correction);
+    } catch (error) {
+      if (error instanceof PointsCorrectionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao lançar correção: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // -------------------------
+  // AUDIT LOG ROUTES
+  // -------------------------
+  
+  // Admin actions, most recent first, filtered by actor, entity type and date range;
+  // "truncated" tells the client that older entries were left out by the limit
+  app.get("/api/admin/audit-log", requirePermission(PermissionEnum.AUDIT_READ), async (req: Request, res: Response) => {
+    try {
+      const parsedQuery = auditLogQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Filtros inválidos", 
+          errors: parsedQuery.error.format() 
+        });
+      }
+      
+      const result = await storage.getAuditLog(parsedQuery.data, AUDIT_LOG_LIMIT);
+      res.status(200).json(result);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar log de auditoria: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Users that appear in the audit log, for the actor filter
+  app.get("/api/admin/audit-log/actors", requirePermission(PermissionEnum.AUDIT_READ), async (req: Request, res: Response) => {
+    try {
+      const actors = await storage.getAuditLogActors();
+      res.status(200).json(actors);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar autores do log de auditoria: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // -------------------------
+  // UNIT ROUTES
+  // -------------------------
+  
+  // Unit names and hierarchy, for profiles, filters and pickers
+  app.get("/api/protected/units", async (req: Request, res: Response) => {
+    try {
+      const units = await storage.getUnitOptions();
+      res.status(200).json(units);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar unidades: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get all units with manager and budget settings
+  app.get("/api/admin/units", requirePermission(PermissionEnum.UNITS_READ), async (req: Request, res: Response) => {
+    try {
+      const units = await storage.getUnits();
+      res.status(200).json(units);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar unidades: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Budget allocated, spent and remaining per unit in the current period
+  app.get("/api/admin/units/budgets", requirePermission(PermissionEnum.UNITS_READ), async (req: Request, res: Response) => {
+    try {
+      const budgets = await storage.getUnitBudgets();
+      res.status(200).json(budgets);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar orçamentos das unidades: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Create a unit
+  app.post("/api/admin/units", requirePermission(PermissionEnum.UNITS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const parsedData = insertUnitSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const unit = await storage.createUnit(parsedData.data, auditEntry(req, (created) => ({
+        action: "unit.create",
+        entityType: AuditEntityEnum.UNIT,
+        entityId: created.id,
+        description: `Unidade "${created.name}" criada`,
+        after: created,
+      })));
+      
+      res.status(201).json(unit);
+    } catch (error) {
+      if (error instanceof UnitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao criar unidade: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Update a unit (name, parent, manager or budget)
+  app.patch("/api/admin/units/:id", requirePermission(PermissionEnum.UNITS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const parsedData = updateUnitSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const previousUnit = await storage.getUnit(id);
+      const unit = await storage.updateUnit(id, parsedData.data, auditEntry(req, (updated) => ({
+        action: "unit.update",
+        entityType: AuditEntityEnum.UNIT,
+        entityId: id,
+        description: `Unidade "${updated.name}" alterada`,
+        before: previousUnit,
+        after: updated,
+      })));
+      if (!unit) {
+        return res.status(404).json({ message: "Unidade não encontrada" });
+      }
+      
+      res.status(200).json(unit);
+    } catch (error) {
+      if (error instanceof UnitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao atualizar unidade: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a unit without sub-units, active employees or point rules
+  app.delete("/api/admin/units/:id", requirePermission(PermissionEnum.UNITS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const unit = await storage.deleteUnit(id, auditEntry(req, (deleted) => ({
+        action: "unit.delete",
+        entityType: AuditEntityEnum.UNIT,
+        entityId: id,
+        description: `Unidade "${deleted.name}" excluída`,
+        before: deleted,
+      })));
+      if (!unit) {
+        return res.status(404).json({ message: "Unidade não encontrada" });
+      }
+      
+      res.status(200).json({ message: "Unidade excluída com sucesso" });
+    } catch (error) {
+      if (error instanceof UnitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao excluir unidade: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // -------------------------
+  // POINT RULE ROUTES
+  // -------------------------
+  
+  // Get all point rules
+  app.get("/api/admin/point-rules", requirePermission(PermissionEnum.POINT_RULES_READ), async (req: Request, res: Response) => {
+    try {
+      const rules = await storage.getPointRules();
+      res.status(200).json(rules);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar regras: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Create a point rule
+  app.post("/api/admin/point-rules", requirePermission(PermissionEnum.POINT_RULES_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const parsedData = insertPointRuleSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      if (parsedData.data.unitId && !(await storage.getUnit(parsedData.data.unitId))) {
+        return res.status(400).json({ message: "Unidade não encontrada" });
+      }
+      
+      const rule = await storage.createPointRule(parsedData.data, auditEntry(req, (created) => ({
+        action: "point_rule.create",
+        entityType: AuditEntityEnum.POINT_RULE,
+        entityId: created.id,
+        description: `Regra "${created.name}" criada`,
+        after: created,
+      })));
+      
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao criar regra: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Update a point rule
+  app.patch("/api/admin/point-rules/:id", requirePermission(PermissionEnum.POINT_RULES_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const parsedData = updatePointRuleSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      if (parsedData.data.unitId && !(await storage.getUnit(parsedData.data.unitId))) {
+        return res.status(400).json({ message: "Unidade não encontrada" });
+      }
+      
+      const previousRule = await storage.getPointRule(id);
+      const rule = await storage.updatePointRule(id, parsedData.data, auditEntry(req, (updated) => ({
+        action: "point_rule.update",
+        entityType: AuditEntityEnum.POINT_RULE,
+        entityId: id,
+        description: `Regra "${updated.name}" alterada`,
+        before: previousRule,
+        after: updated,
+      })));
+      if (!rule) {
+        return res.status(404).json({ message: "Regra não encontrada" });
+      }
+      
+      res.status(200).json(rule);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao atualizar regra: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a point rule
+  app.delete("/api/admin/point-rules/:id", requirePermission(PermissionEnum.POINT_RULES_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const isDeleted = await storage.deletePointRule(id, auditEntry(req, (rule) => ({
+        action: "point_rule.delete",
+        entityType: AuditEntityEnum.POINT_RULE,
+        entityId: id,
+        description: `Regra "${rule.name}" excluída`,
+        before: rule,
+      })));
+      if (!isDeleted) {
+        return res.status(404).json({ message: "Regra não encontrada" });
+      }
+      
+      res.status(200).json({ message: "Regra excluída com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao excluir regra: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Run the active rules now; awards already granted are skipped
+  app.post("/api/admin/point-rules/run", requirePermission(PermissionEnum.POINT_RULES_MANAGE), async (req: Request, res: Response) => {
+    try {
+      // A execução grava cada prêmio em sua própria transação, então é registrada antes
+      await recordAudit(req, {
+        action: "point_rule.run",
+        entityType: AuditEntityEnum.POINT_RULE,
+        description: "Execução manual das regras",
+      });
+      
+      const awarded = await runPointRules();
+      
+      res.status(200).json({ awarded });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao executar regras: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // -------------------------
+  // PRODUCT ROUTES
+  // -------------------------
+  
+  // Get the catalog, filtered and sorted by the query params in productQuerySchema
+  app.get("/api/products", async (req: Request, res: Response) => {
+    try {
+      const parsedQuery = productQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Filtros inválidos", 
+          errors: parsedQuery.error.format() 
+        });
+      }
+      
+      // Users see only active products, admins see all
+      const canSeeInactive = req.isAuthenticated() && hasPermission(req.user, PermissionEnum.CATALOG_READ);
+      const products = await storage.getCatalogProducts(parsedQuery.data, {
+        includeInactive: canSeeInactive,
+        availablePoints: req.isAuthenticated() ? req.user.points : undefined,
+      });
+      
+      res.status(200).json(products);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar produtos: ${error.message}` });
+    }
+  });
+  
+  // Get a single product
+  app.get("/api/products/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      // If not admin and product is inactive, return 404
+      if (!hasPermission(req.isAuthenticated() ? req.user : null, PermissionEnum.CATALOG_READ) && !product.isActive) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      res.status(200).json(product);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar produto: ${error.message}` });
+    }
+  });
+  
+  // Create a product
+  app.post("/api/admin/products", requirePermission(PermissionEnum.CATALOG_MANAGE), imageUpload.array('images', MAX_PRODUCT_IMAGES_PER_UPLOAD), async (req: Request, res: Response) => {
+    try {
+      const productSchema = insertProductSchema.extend({
+        pointsCost: z.coerce.number().int().positive(),
+        stock: z.coerce.number().int().min(0),
+        categoryId: productCategorySchema,
+        tags: productTagsSchema,
+        isActive: z.coerce.boolean().optional()
+      });
+      
+      const parsedData = productSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      // Images are processed before creating the product so that an invalid
+      // file does not leave a product behind; the first one becomes primary
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const images = await processProductImages(files);
+      
+      // Product, gallery, tags and audit entry are written in a single transaction
+      const { tags, ...productData } = parsedData.data;
+      let product;
+      try {
+        product = await storage.createProduct({
+          ...productData,
+          imageUrl: null
+        }, { images, tags }, auditEntry(req, (created) => ({
+          action: "product.create",
+          entityType: AuditEntityEnum.PRODUCT,
+          entityId: created.id,
+          description: `Produto "${created.name}" criado`,
+          after: { ...productData, tags },
+        })));
+      } catch (error) {
+        await removeFiles(images.flatMap((image) => [image.thumbnailUrl, image.detailUrl]));
+        throw error;
+      }
+      
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof ProductImageProcessingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao criar produto: ${error.message}` });
+    }
+  });
+  
+  // Update a product
+  app.patch("/api/admin/products/:id", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const productSchema = updateProductSchema.extend({
+        pointsCost: z.coerce.number().int().positive().optional(),
+        stock: z.coerce.number().int().min(0).optional(),
+        categoryId: productCategorySchema,
+        tags: productTagsSchema,
+        isActive: z.coerce.boolean().optional()
+      });
+      
+      const parsedData = productSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      // Images are managed through /api/admin/products/:id/images
+      const { tags, imageUrl, ...productData } = parsedData.data;
+      const updatedProduct = await storage.updateProduct(id, productData, { tags }, auditEntry(req, (updated) => ({
+        action: "product.update",
+        entityType: AuditEntityEnum.PRODUCT,
+        entityId: id,
+        description: `Produto "${updated.name}" alterado`,
+        before: product,
+        after: updated,
+      })));
+      
+      if (!updatedProduct) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      await notifyBackInStock(product.stock, updatedProduct);
+      
+      res.status(200).json(updatedProduct);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao atualizar produto: ${error.message}` });
+    }
+  });
+  
+  // Delete a product
+  app.delete("/api/admin/products/:id", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      // Check if product exists
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      // Gallery rows are removed by the cascade, so collect the files first
+      const images = await storage.getProductImages(id);
+      
+      // Delete the product
+      await storage.deleteProduct(id, auditEntry(req, (deleted) => ({
+        action: "product.delete",
+        entityType: AuditEntityEnum.PRODUCT,
+        entityId: id,
+        description: `Produto "${deleted.name}" excluído`,
+        before: deleted,
+      })));
+      
+      // Delete the image files (including a legacy single image, if any)
+      await removeFiles([
+        product.imageUrl,
+        ...images.flatMap((image) => [image.thumbnailUrl, image.detailUrl])
+      ]);
+      
+      res.status(200).json({ message: "Produto excluído com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao excluir produto: ${error.message}` });
+    }
+  });
+  
+  // -------------------------
+  // PRODUCT VARIANT ROUTES
+  // -------------------------
+  
+  // Get all variants of a product, including inactive ones
+  app.get("/api/admin/products/:id/variants", requirePermission(PermissionEnum.CATALOG_READ), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      
+      const variants = await storage.getProductVariants(productId);
+      res.status(200).json(variants);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar variações: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Create a variant; the product stock becomes the sum of its active variants
+  app.post("/api/admin/products/:id/variants", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      
+      const parsedData = insertProductVariantSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      const variant = await storage.createProductVariant(productId, parsedData.data, auditEntry(req, (created) => ({
+        action: "product_variant.create",
+        entityType: AuditEntityEnum.PRODUCT_VARIANT,
+        entityId: created.id,
+        description: `Variação criada no produto "${product.name}"`,
+        after: created,
+      })));
+      
+      const updatedProduct = await storage.getProduct(productId);
+      if (updatedProduct) {
+        await notifyBackInStock(product.stock, updatedProduct);
+      }
+      
+      res.status(201).json(variant);
+    } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao criar variação: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Update a variant
+  app.patch("/api/admin/products/:id/variants/:variantId", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      const variantId = parseId(req.params.variantId);
+      
+      const parsedData = updateProductVariantSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      const previousVariant = (await storage.getProductVariants(productId)).find((item) => item.id === variantId);
+      const variant = await storage.updateProductVariant(productId, variantId, parsedData.data, auditEntry(req, (updated) => ({
+        action: "product_variant.update",
+        entityType: AuditEntityEnum.PRODUCT_VARIANT,
+        entityId: variantId,
+        description: `Variação alterada no produto "${product.name}"`,
+        before: previousVariant,
+        after: updated,
+      })));
+      if (!variant) {
+        return res.status(404).json({ message: "Variação não encontrada" });
+      }
+      
+      const updatedProduct = await storage.getProduct(productId);
+      if (updatedProduct) {
+        await notifyBackInStock(product.stock, updatedProduct);
+      }
+      
+      res.status(200).json(variant);
+    } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao atualizar variação: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a variant; variants that were already ordered are deactivated instead
+  app.delete("/api/admin/products/:id/variants/:variantId", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      const variantId = parseId(req.params.variantId);
+      
+      const variant = (await storage.getProductVariants(productId)).find((item) => item.id === variantId);
+      const result = await storage.deleteProductVariant(productId, variantId, auditEntry(req, (outcome) => ({
+        action: outcome === "deleted" ? "product_variant.delete" : "product_variant.deactivate",
+        entityType: AuditEntityEnum.PRODUCT_VARIANT,
+        entityId: variantId,
+        description: outcome === "deleted"
+          ? `Variação excluída do produto #${productId}`
+          : `Variação do produto #${productId} desativada (já havia sido pedida)`,
+        before: variant,
+        after: outcome === "deleted" || !variant ? undefined : { ...variant, isActive: false },
+      })));
+      if (!result) {
+        return res.status(404).json({ message: "Variação não encontrada" });
+      }
+      
+      res.status(200).json({
+        result,
+        message: result === "deleted"
+          ? "Variação excluída com sucesso"
+          : "A variação já foi pedida e foi desativada em vez de excluída"
+      });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao excluir variação: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // -------------------------
+  // PRODUCT IMAGE ROUTES
+  // -------------------------
+  
+  // Get the image gallery of a product, in display order
+  app.get("/api/admin/products/:id/images", requirePermission(PermissionEnum.CATALOG_READ), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      
+      const images = await storage.getProductImages(productId);
+      res.status(200).json(images);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar imagens: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Upload images; each file is resized to WebP thumbnail and detail sizes
+  app.post("/api/admin/products/:id/images", requirePermission(PermissionEnum.CATALOG_MANAGE), imageUpload.array('images', MAX_PRODUCT_IMAGES_PER_UPLOAD), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Nenhuma imagem enviada" });
+      }
+      
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      const existingImages = await storage.getProductImages(productId);
+      const processedImages = await processProductImages(files);
+      
+      let images;
+      try {
+        images = await storage.addProductImages(productId, processedImages, auditEntry(req, () => ({
+          action: "product_image.create",
+          entityType: AuditEntityEnum.PRODUCT_IMAGE,
+          entityId: productId,
+          description: `${processedImages.length} imagem(ns) enviada(s) para o produto "${product.name}"`,
+        })));
+      } catch (error) {
+        await removeFiles(processedImages.flatMap((image) => [image.thumbnailUrl, image.detailUrl]));
+        throw error;
+      }
+      
+      // A legacy single image is replaced by the gallery's primary thumbnail
+      if (existingImages.length === 0 && product.imageUrl) {
+        await removeFiles([product.imageUrl]);
+      }
+      
+      res.status(201).json(images);
+    } catch (error) {
+      if (error instanceof ProductImageProcessingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ProductImageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao enviar imagens: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Reorder the gallery; the body lists every image id in the new order
+  app.put("/api/admin/products/:id/images/order", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      
+      const parsedData = reorderProductImagesSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const previousImages = await storage.getProductImages(productId);
+      const images = await storage.reorderProductImages(productId, parsedData.data.imageIds, auditEntry(req, (reordered) => ({
+        action: "product_image.reorder",
+        entityType: AuditEntityEnum.PRODUCT_IMAGE,
+        entityId: productId,
+        description: `Galeria do produto #${productId} reordenada`,
+        before: { imageIds: previousImages.map((image) => image.id) },
+        after: { imageIds: reordered.map((image) => image.id) },
+      })));
+      
+      res.status(200).json(images);
+    } catch (error) {
+      if (error instanceof ProductImageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao reordenar imagens: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Mark an image as the primary one, shown first and used as the product thumbnail
+  app.patch("/api/admin/products/:id/images/:imageId/primary", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      const imageId = parseId(req.params.imageId);
+      
+      const image = await storage.setPrimaryProductImage(productId, imageId, auditEntry(req, () => ({
+        action: "product_image.set_primary",
+        entityType: AuditEntityEnum.PRODUCT_IMAGE,
+        entityId: imageId,
+        description: `Imagem principal do produto #${productId} alterada`,
+      })));
+      if (!image) {
+        return res.status(404).json({ message: "Imagem não encontrada" });
+      }
+      
+      res.status(200).json(image);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao definir imagem principal: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete an image and its files
+  app.delete("/api/admin/products/:id/images/:imageId", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.id);
+      const imageId = parseId(req.params.imageId);
+      
+      const image = await storage.deleteProductImage(productId, imageId, auditEntry(req, (deleted) => ({
+        action: "product_image.delete",
+        entityType: AuditEntityEnum.PRODUCT_IMAGE,
+        entityId: imageId,
+        description: `Imagem excluída do produto #${productId}`,
+        before: deleted,
+      })));
+      if (!image) {
+        return res.status(404).json({ message: "Imagem não encontrada" });
+      }
+      
+      await removeFiles([image.thumbnailUrl, image.detailUrl]);
+      res.status(200).json({ message: "Imagem excluída com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao excluir imagem: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // -------------------------
+  // CATEGORY AND TAG ROUTES
+  // -------------------------
+  
+  // Get all categories
+  app.get("/api/categories", async (req: Request, res: Response) => {
+    try {
+      const categories = await storage.getCategories();
+      res.status(200).json(categories);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar categorias: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get all tags
+  app.get("/api/tags", async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getTags();
+      res.status(200).json(tags);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar tags: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Create a category
+  app.post("/api/admin/categories", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const parsedData = insertCategorySchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const categories = await storage.getCategories();
+      if (categories.some((category) => category.name.toLowerCase() === parsedData.data.name.toLowerCase())) {
+        return res.status(409).json({ message: "Já existe uma categoria com este nome" });
+      }
+      
+      const category = await storage.createCategory(parsedData.data, auditEntry(req, (created) => ({
+        action: "category.create",
+        entityType: AuditEntityEnum.CATEGORY,
+        entityId: created.id,
+        description: `Categoria "${created.name}" criada`,
+        after: created,
+      })));
+      
+      res.status(201).json(category);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao criar categoria: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Rename a category
+  app.patch("/api/admin/categories/:id", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const parsedData = updateCategorySchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const categories = await storage.getCategories();
+      if (categories.some((category) => category.id !== id && category.name.toLowerCase() === parsedData.data.name.toLowerCase())) {
+        return res.status(409).json({ message: "Já existe uma categoria com este nome" });
+      }
+      
+      const previousCategory = categories.find((category) => category.id === id);
+      const category = await storage.updateCategory(id, parsedData.data, auditEntry(req, (updated) => ({
+        action: "category.update",
+        entityType: AuditEntityEnum.CATEGORY,
+        entityId: id,
+        description: `Categoria "${updated.name}" alterada`,
+        before: previousCategory,
+        after: updated,
+      })));
+      if (!category) {
+        return res.status(404).json({ message: "Categoria não encontrada" });
+      }
+      
+      res.status(200).json(category);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao atualizar categoria: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a category; its products become uncategorized
+  app.delete("/api/admin/categories/:id", requirePermission(PermissionEnum.CATALOG_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      
+      const isDeleted = await storage.deleteCategory(id, auditEntry(req, (category) => ({
+        action: "category.delete",
+        entityType: AuditEntityEnum.CATEGORY,
+        entityId: id,
+        description: `Categoria "${category.name}" excluída`,
+        before: category,
+      })));
+      if (!isDeleted) {
+        return res.status(404).json({ message: "Categoria não encontrada" });
+      }
+      
+      res.status(200).json({ message: "Categoria excluída com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao excluir categoria: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // -------------------------
+  // WISHLIST ROUTES
+  // -------------------------
+  
+  // Get the user's wishlist; entries flagged with backInStockAt came back in stock since the last visit
+  app.get("/api/protected/wishlist", async (req: Request, res: Response) => {
+    try {
+      const wishlist = await storage.getWishlist(req.user!.id);
+      res.status(200).json(wishlist);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar lista de desejos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Add a product to the wishlist (adding it twice is a no-op)
+  app.post("/api/protected/wishlist", async (req: Request, res: Response) => {
+    try {
+      const parsedData = addWishlistItemSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const product = await storage.getProduct(parsedData.data.productId);
+      if (!product || !product.isActive) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      await storage.addWishlistItem(req.user!.id, product.id);
+      
+      const wishlist = await storage.getWishlist(req.user!.id);
+      res.status(201).json(wishlist);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao adicionar à lista de desejos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Remove a product from the wishlist
+  app.delete("/api/protected/wishlist/:productId", async (req: Request, res: Response) => {
+    try {
+      const productId = parseId(req.params.productId);
+      
+      const removed = await storage.removeWishlistItem(req.user!.id, productId);
+      if (!removed) {
+        return res.status(404).json({ message: "Produto não está na lista de desejos" });
+      }
+      
+      const wishlist = await storage.getWishlist(req.user!.id);
+      res.status(200).json(wishlist);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao remover da lista de desejos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Dismiss the back-in-stock alerts
+  app.post("/api/protected/wishlist/acknowledge", async (req: Request, res: Response) => {
+    try {
+      await storage.acknowledgeWishlistRestocks(req.user!.id);
+      
+      const wishlist = await storage.getWishlist(req.user!.id);
+      res.status(200).json(wishlist);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao atualizar lista de desejos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // -------------------------
+  // TWO-FACTOR AUTHENTICATION ROUTES
+  // -------------------------
+  
+  // 2FA state of the logged-in user
+  app.get("/api/protected/2fa", async (req: Request, res: Response) => {
+    try {
+      const status: TwoFactorStatus = {
+        enabled: req.user!.twoFactorEnabled,
+        required: req.user!.role === UserRoleEnum.ADMIN,
+        remainingRecoveryCodes: req.user!.twoFactorEnabled
+          ? await storage.countRemainingRecoveryCodes(req.user!.id)
+          : 0,
+      };
+      res.status(200).json(status);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar autenticação em dois fatores: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Start the enrollment: new secret and QR code for the authenticator app
+  app.post("/api/protected/2fa/setup", async (req: Request, res: Response) => {
+    try {
+      if (req.user!.twoFactorEnabled) {
+        return res.status(409).json({ message: "A autenticação em dois fatores já está ativa" });
+      }
+      
+      const setup = await startTwoFactorSetup(req.user!);
+      res.status(200).json(setup);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao iniciar cadastro do autenticador: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Confirm the enrollment with a code from the app. The recovery codes are only
+  // returned here (and when regenerated).
+  app.post("/api/protected/2fa/enable", async (req: Request, res: Response) => {
+    try {
+      const parsedData = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Informe o código de 6 dígitos do aplicativo" });
+      }
       
-      // Importar hashPassword apenas se precisarmos atualizar a senha
-      let newPasswordHash;
-      if (req.body.password) {
-        const { hashPassword } = await import("./auth");
-        newPasswordHash = await hashPassword(req.body.password);
+      const secret = await storage.getTwoFactorSecret(req.user!.id);
+      if (!secret || secret.confirmedAt) {
+        return res.status(409).json({ message: "Nenhum cadastro de autenticador em andamento" });
       }
       
-      // Preparar dados para atualização
-      const updateData: any = {};
-      if (req.body.username !== undefined) updateData.username = req.body.username;
-      if (req.body.email !== undefined) updateData.email = req.body.email;
-      if (req.body.displayName !== undefined) updateData.displayName = req.body.displayName;
-      if (req.body.role !== undefined) updateData.role = req.body.role;
-      if (req.body.unit !== undefined) updateData.unit = req.body.unit;
-      if (newPasswordHash) updateData.password = newPasswordHash;
+      const step = findTotpStep(secret.secret, parsedData.data.code);
+      if (step === null) {
+        return res.status(400).json({ message: "Código inválido. Confira o horário do celular e tente novamente." });
+      }
       
-      // Atualizar o usuário
-      const updatedUser = await storage.updateUser(id, updateData);
+      const { codes, hashes } = generateRecoveryCodes();
+      const updatedUser = await storage.enableTwoFactor(req.user!.id, step, hashes);
       if (!updatedUser) {
-        return res.status(500).json({ message: "Falha ao atualizar usuário" });
+        return res.status(409).json({ message: "Nenhum cadastro de autenticador em andamento" });
       }
       
-      // Não enviar hash de senha para o cliente
       const { password, ...userWithoutPassword } = updatedUser;
-      
-      res.status(200).json(userWithoutPassword);
+      res.status(200).json({ user: userWithoutPassword, recoveryCodes: codes });
     } catch (error) {
-      console.error("Erro ao atualizar usuário:", error);
-      res.status(500).json({ message: `Erro ao atualizar usuário: ${error.message}` });
+      res.status(500).json({ message: `Erro ao ativar autenticação em dois fatores: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Delete user (admin only)
-  app.delete("/api/admin/users/:id", isAdmin, async (req: Request, res: Response) => {
+  // Replace the recovery codes (the old ones stop working)
+  app.post("/api/protected/2fa/recovery-codes", async (req: Request, res: Response) => {
     try {
-      const id = parseId(req.params.id);
-      
-      // Verificar se não está tentando excluir a si mesmo
-      if (req.user && req.user.id === id) {
-        return res.status(400).json({ message: "Não é possível excluir o próprio usuário" });
+      const parsedData = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ message: "Informe o código de 6 dígitos do aplicativo" });
       }
-      
-      // Verificar se o usuário existe
-      const user = await storage.getUser(id);
-      if (!user) {
-        return res.status(404).json({ message: "Usuário não encontrado" });
+      if (!req.user!.twoFactorEnabled) {
+        return res.status(409).json({ message: "A autenticação em dois fatores não está ativa" });
       }
       
-      // Excluir o usuário
-      const isDeleted = await storage.deleteUser(id);
-      if (!isDeleted) {
-        return res.status(500).json({ message: "Falha ao excluir usuário" });
+      if (!(await verifyTwoFactorCode(req.user!.id, parsedData.data.code))) {
+        return res.status(400).json({ message: "Código inválido" });
       }
       
-      res.status(200).json({ message: "Usuário excluído com sucesso" });
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user!.id, hashes);
+      res.status(200).json({ recoveryCodes: codes });
     } catch (error) {
-      console.error("Erro ao excluir usuário:", error);
-      res.status(500).json({ message: `Erro ao excluir usuário: ${error.message}` });
+      res.status(500).json({ message: `Erro ao gerar códigos de recuperação: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
-
-  // Update user points (admin only)
-  app.patch("/api/admin/users/:id/points", isAdmin, async (req: Request, res: Response) => {
+  
+  // Turn 2FA off (employees only: it's mandatory for admins)
+  app.post("/api/protected/2fa/disable", async (req: Request, res: Response) => {
     try {
-      const id = parseId(req.params.id);
-      
-      const pointsSchema = z.object({
-        points: z.number().int(),
-        description: z.string().min(1)
-      });
-      
-      const parsedData = pointsSchema.safeParse(req.body);
+      const parsedData = disableTwoFactorSchema.safeParse(req.body);
       if (!parsedData.success) {
-        return res.status(400).json({ message: "Dados inválidos fornecidos" });
+        return res.status(400).json({ message: "Informe a senha atual e o código do aplicativo" });
+      }
+      if (req.user!.role === UserRoleEnum.ADMIN) {
+        return res.status(403).json({ message: "A autenticação em dois fatores é obrigatória para administradores" });
+      }
+      if (!req.user!.twoFactorEnabled) {
+        return res.status(409).json({ message: "A autenticação em dois fatores não está ativa" });
       }
       
-      const { points, description } = parsedData.data;
+      const { comparePasswords } = await import("./auth");
+      if (!(await comparePasswords(parsedData.data.currentPassword, req.user!.password))) {
+        return res.status(400).json({ message: "Senha atual incorreta" });
+      }
+      if (!(await verifyTwoFactorCode(req.user!.id, parsedData.data.code))) {
+        return res.status(400).json({ message: "Código inválido" });
+      }
       
-      // Get current user
-      const user = await storage.getUser(id);
-      if (!user) {
+      const updatedUser = await storage.disableTwoFactor(req.user!.id);
+      if (!updatedUser) {
         return res.status(404).json({ message: "Usuário não encontrado" });
       }
       
-      // Update user points
-      const newPoints = user.points + points;
-      const updatedUser = await storage.updateUser(id, { points: newPoints });
-      
-      // Create a point transaction record
-      await storage.createPointTransaction({
-        userId: id,
-        points,
-        description,
-        transactionType: points > 0 ? "earned" : "adjusted",
-        referenceId: null,
-      });
-      
-      // Don't send password hash to client
       const { password, ...userWithoutPassword } = updatedUser;
-      
       res.status(200).json(userWithoutPassword);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao atualizar pontos: ${error.message}` });
+      res.status(500).json({ message: `Erro ao desativar autenticação em dois fatores: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
-
+  
   // -------------------------
-  // PRODUCT ROUTES
+  // NOTIFICATION ROUTES
   // -------------------------
   
-  // Get all products
-  app.get("/api/products", async (req: Request, res: Response) => {
+  const NOTIFICATION_FEED_LIMIT = 50;
+  
+  async function getNotificationFeed(userId: number): Promise<NotificationFeed> {
+    const [notifications, unreadCount] = await Promise.all([
+      storage.getNotifications(userId, NOTIFICATION_FEED_LIMIT),
+      storage.getUnreadNotificationCount(userId),
+    ]);
+    return { notifications, unreadCount };
+  }
+  
+  // Get the user's latest notifications and the unread count (also the polling fallback of the stream)
+  app.get("/api/protected/notifications", async (req: Request, res: Response) => {
     try {
-      // Users see only active products, admins see all
-      const isAdmin = req.isAuthenticated() && req.user.role === UserRoleEnum.ADMIN;
-      const products = isAdmin 
-        ? await storage.getAllProducts()
-        : await storage.getActiveProducts();
-      
-      res.status(200).json(products);
+      res.status(200).json(await getNotificationFeed(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: `Erro ao buscar produtos: ${error.message}` });
+      res.status(500).json({ message: `Erro ao buscar notificações: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Get a single product
-  app.get("/api/products/:id", async (req: Request, res: Response) => {
+  // Server-Sent Events stream with the user's new notifications
+  app.get("/api/protected/notifications/stream", (req: Request, res: Response) => {
+    openNotificationStream(req.user!.id, res);
+  });
+  
+  // Mark the given notifications (or all of them) as read
+  app.post("/api/protected/notifications/read", async (req: Request, res: Response) => {
     try {
-      const id = parseId(req.params.id);
-      
-      const product = await storage.getProduct(id);
-      if (!product) {
-        return res.status(404).json({ message: "Produto não encontrado" });
-      }
-      
-      // If not admin and product is inactive, return 404
-      if ((!req.isAuthenticated() || req.user.role !== UserRoleEnum.ADMIN) && !product.isActive) {
-        return res.status(404).json({ message: "Produto não encontrado" });
+      const parsedData = markNotificationsReadSchema.safeParse(req.body ?? {});
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
       }
       
-      res.status(200).json(product);
+      await storage.markNotificationsRead(req.user!.id, parsedData.data.ids);
+      res.status(200).json(await getNotificationFeed(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: `Erro ao buscar produto: ${error.message}` });
+      res.status(500).json({ message: `Erro ao marcar notificações como lidas: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Create a product (admin only)
-  app.post("/api/admin/products", isAdmin, upload.single('image'), async (req: Request, res: Response) => {
+  // -------------------------
+  // CART ROUTES
+  // -------------------------
+  
+  // Get the user's cart
+  app.get("/api/protected/cart", async (req: Request, res: Response) => {
     try {
-      const productSchema = insertProductSchema.extend({
-        pointsCost: z.coerce.number().int().positive(),
-        stock: z.coerce.number().int().min(0),
-        isActive: z.coerce.boolean().optional()
-      });
-      
-      const parsedData = productSchema.safeParse(req.body);
+      const cart = await storage.getCart(req.user!.id);
+      res.status(200).json(cart);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar carrinho: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Add a product to the cart
+  app.post("/api/protected/cart/items", async (req: Request, res: Response) => {
+    try {
+      const parsedData = addCartItemSchema.safeParse(req.body);
       if (!parsedData.success) {
         return res.status(400).json({ 
           message: "Dados inválidos fornecidos", 
@@ -266,98 +1797,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      let imageUrl = null;
-      if (req.file) {
-        // In a production app, we would upload to S3/Cloudinary/etc.
-        // For this example, we just use the local path
-        imageUrl = `/uploads/${req.file.filename}`;
+      const { productId, variantId, quantity } = parsedData.data;
+      
+      const product = await storage.getProduct(productId);
+      if (!product || !product.isActive) {
+        return res.status(404).json({ message: "Produto não encontrado" });
       }
       
-      const product = await storage.createProduct({
-        ...parsedData.data,
-        imageUrl
-      });
+      await storage.addCartItem(req.user!.id, productId, variantId ?? null, quantity);
       
-      res.status(201).json(product);
+      const cart = await storage.getCart(req.user!.id);
+      res.status(201).json(cart);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao criar produto: ${error.message}` });
+      if (error instanceof ProductVariantError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao adicionar item ao carrinho: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Update a product (admin only)
-  app.patch("/api/admin/products/:id", isAdmin, upload.single('image'), async (req: Request, res: Response) => {
+  // Change the quantity or the variant of a cart line
+  app.patch("/api/protected/cart/items/:id", async (req: Request, res: Response) => {
     try {
       const id = parseId(req.params.id);
       
-      const productSchema = updateProductSchema.extend({
-        pointsCost: z.coerce.number().int().positive().optional(),
-        stock: z.coerce.number().int().min(0).optional(),
-        isActive: z.coerce.boolean().optional()
-      });
-      
-      const parsedData = productSchema.safeParse(req.body);
+      const parsedData = updateCartItemSchema.safeParse(req.body);
       if (!parsedData.success) {
-        return res.status(400).json({ 
-          message: "Dados inválidos fornecidos", 
-          errors: parsedData.error.format() 
-        });
+        return res.status(400).json({ message: "Quantidade ou variação inválida fornecida" });
       }
       
-      // If a new image was uploaded, update the imageUrl
-      let imageUrl = undefined;
-      if (req.file) {
-        imageUrl = `/uploads/${req.file.filename}`;
-        
-        // Delete old image if it exists
-        const product = await storage.getProduct(id);
-        if (product?.imageUrl) {
-          const oldImagePath = path.join(import.meta.dirname, "..", "public", product.imageUrl);
-          if (fs.existsSync(oldImagePath)) {
-            fs.unlinkSync(oldImagePath);
-          }
-        }
+      const item = await storage.updateCartItem(req.user!.id, id, parsedData.data);
+      if (!item) {
+        return res.status(404).json({ message: "Item do carrinho não encontrado" });
       }
       
-      const updatedProduct = await storage.updateProduct(id, {
-        ...parsedData.data,
-        ...(imageUrl ? { imageUrl } : {})
-      });
+      const cart = await storage.getCart(req.user!.id);
+      res.status(200).json(cart);
+    } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao atualizar item do carrinho: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Remove a cart line
+  app.delete("/api/protected/cart/items/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
       
-      if (!updatedProduct) {
-        return res.status(404).json({ message: "Produto não encontrado" });
+      const isDeleted = await storage.removeCartItem(req.user!.id, id);
+      if (!isDeleted) {
+        return res.status(404).json({ message: "Item do carrinho não encontrado" });
       }
       
-      res.status(200).json(updatedProduct);
+      const cart = await storage.getCart(req.user!.id);
+      res.status(200).json(cart);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao atualizar produto: ${error.message}` });
+      res.status(500).json({ message: `Erro ao remover item do carrinho: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Delete a product (admin only)
-  app.delete("/api/admin/products/:id", isAdmin, async (req: Request, res: Response) => {
+  // Empty the cart
+  app.delete("/api/protected/cart", async (req: Request, res: Response) => {
     try {
-      const id = parseId(req.params.id);
+      await storage.clearCart(req.user!.id);
       
-      // Check if product exists
-      const product = await storage.getProduct(id);
-      if (!product) {
-        return res.status(404).json({ message: "Produto não encontrado" });
+      const cart = await storage.getCart(req.user!.id);
+      res.status(200).json(cart);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao esvaziar carrinho: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Accept current prices and stock for every cart line (clears change warnings)
+  app.post("/api/protected/cart/acknowledge", async (req: Request, res: Response) => {
+    try {
+      await storage.acknowledgeCartChanges(req.user!.id);
+      
+      const cart = await storage.getCart(req.user!.id);
+      res.status(200).json(cart);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao atualizar carrinho: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Redeem every cart line in a single order
+  app.post("/api/protected/cart/checkout", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { items } = await storage.getCart(userId);
+      
+      if (items.length === 0) {
+        return res.status(400).json({ message: "O carrinho está vazio" });
       }
       
-      // Delete the product
-      await storage.deleteProduct(id);
+      // Não finalizar com preços diferentes dos que o usuário viu ao adicionar
+      const changedItems = items.filter(item => item.pointsCostChanged);
+      if (changedItems.length > 0) {
+        return res.status(409).json({ 
+          message: "O custo em xCoins de alguns itens mudou desde que foram adicionados ao carrinho",
+          changedItems: changedItems.map(item => item.id)
+        });
+      }
       
-      // Delete the image if it exists
-      if (product.imageUrl) {
-        const imagePath = path.join(import.meta.dirname, "..", "public", product.imageUrl);
-        if (fs.existsSync(imagePath)) {
-          fs.unlinkSync(imagePath);
-        }
+      // Produtos com variações precisam ter a variação escolhida
+      const itemsWithoutVariant = items.filter(item => item.variantRequired);
+      if (itemsWithoutVariant.length > 0) {
+        return res.status(409).json({ 
+          message: "Escolha a variação de todos os itens antes de finalizar",
+          itemsWithoutVariant: itemsWithoutVariant.map(item => item.id)
+        });
       }
       
-      res.status(200).json({ message: "Produto excluído com sucesso" });
+      const orderWithItems = await storage.placeOrder(
+        userId,
+        items.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity, cartItemId: item.id }))
+      );
+      
+      await notifyOrderPlaced(orderWithItems.order, orderWithItems.items);
+      
+      res.status(201).json(orderWithItems);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao excluir produto: ${error.message}` });
+      if (error instanceof OrderPlacementError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: `Erro ao finalizar carrinho: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
@@ -387,15 +1952,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Pedido não encontrado" });
       }
       
-      // Check if the order belongs to the user or if user is admin
+      // Check if the order belongs to the user or if user can read all orders
       if (
         orderWithItems.order.userId !== req.user.id && 
-        req.user.role !== UserRoleEnum.ADMIN
+        !hasPermission(req.user, PermissionEnum.ORDERS_READ)
       ) {
         return res.status(403).json({ message: "Acesso não autorizado a este pedido" });
       }
       
-      res.status(200).json(orderWithItems);
+      const history = await storage.getOrderStatusHistory(id);
+      
+      res.status(200).json({ ...orderWithItems, history });
     } catch (error) {
       res.status(500).json({ message: `Erro ao buscar detalhes do pedido: ${error.message}` });
     }
@@ -407,6 +1974,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const orderRequestSchema = z.object({
         items: z.array(z.object({
           productId: z.number().int().positive(),
+          variantId: z.number().int().positive().nullable().optional(),
           quantity: z.number().int().positive()
         }))
       });
@@ -420,104 +1988,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { items } = parsedData.data;
-      const userId = req.user.id;
-      
-      // Get user
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "Usuário não encontrado" });
-      }
-      
-      // Get products and calculate total points
-      let totalPoints = 0;
-      const orderProducts = [];
-      
-      for (const item of items) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) {
-          return res.status(400).json({ message: `Produto ID ${item.productId} não encontrado` });
-        }
-        
-        if (!product.isActive) {
-          return res.status(400).json({ message: `Produto ${product.name} não está disponível` });
-        }
-        
-        if (product.stock < item.quantity) {
-          return res.status(400).json({ message: `Estoque insuficiente para ${product.name}` });
-        }
-        
-        const itemTotal = product.pointsCost * item.quantity;
-        totalPoints += itemTotal;
-        
-        orderProducts.push({
-          product,
-          quantity: item.quantity,
-          pointsCost: product.pointsCost
-        });
-      }
-      
-      // Check if user has enough points
-      if (user.points < totalPoints) {
-        return res.status(400).json({ 
-          message: "Pontos insuficientes", 
-          userPoints: user.points,
-          requiredPoints: totalPoints
-        });
-      }
-      
-      // Create order
-      const order = await storage.createOrder({
-        userId,
-        totalPoints,
-        status: "pending"
-      });
-      
-      // Create order items
-      const orderItems = await storage.createOrderItems(
-        orderProducts.map(item => ({
-          orderId: order.id,
-          productId: item.product.id,
-          quantity: item.quantity,
-          pointsCost: item.pointsCost
-        }))
-      );
+      const userId = req.user!.id;
       
-      // Update product stock
-      for (const item of orderProducts) {
-        await storage.updateProduct(item.product.id, {
-          stock: item.product.stock - item.quantity
-        });
-      }
-      
-      // Update user points
-      await storage.updateUser(userId, {
-        points: user.points - totalPoints
-      });
+      // Pontos, estoque e registro do pedido são gravados em uma única transação
+      const orderWithItems = await storage.placeOrder(userId, items);
       
-      // Create point transaction
-      await storage.createPointTransaction({
-        userId,
-        points: -totalPoints,
-        description: `Pedido #${order.id}`,
-        transactionType: "spent",
-        referenceId: order.id
-      });
+      await notifyOrderPlaced(orderWithItems.order, orderWithItems.items);
       
-      // Return order with items
-      res.status(201).json({
-        order,
-        items: orderItems.map((item, index) => ({
-          ...item,
-          product: orderProducts[index].product
-        }))
-      });
+      res.status(201).json(orderWithItems);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao criar pedido: ${error.message}` });
+      if (error instanceof OrderPlacementError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: `Erro ao criar pedido: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Get all orders (admin only)
-  app.get("/api/admin/orders", isAdmin, async (req: Request, res: Response) => {
+  // Get all orders
+  app.get("/api/admin/orders", requirePermission(PermissionEnum.ORDERS_READ), async (req: Request, res: Response) => {
     try {
       // Obter todos os pedidos com informações do usuário
       const allOrders = await storage.getAllOrders();
@@ -528,8 +2016,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get specific order details (admin only)
-  app.get("/api/admin/orders/:id", isAdmin, async (req: Request, res: Response) => {
+  // Get specific order details
+  app.get("/api/admin/orders/:id", requirePermission(PermissionEnum.ORDERS_READ), async (req: Request, res: Response) => {
     try {
       const id = parseId(req.params.id);
       
@@ -538,71 +2026,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Pedido não encontrado" });
       }
       
-      res.status(200).json(orderDetails);
+      const history = await storage.getOrderStatusHistory(id);
+      
+      res.status(200).json({ ...orderDetails, history });
     } catch (error) {
       res.status(500).json({ message: `Erro ao buscar detalhes do pedido: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Update order status (admin only)
-  app.patch("/api/admin/orders/:id/status", isAdmin, async (req: Request, res: Response) => {
+  // Update order status
+  app.patch("/api/admin/orders/:id/status", requirePermission(PermissionEnum.ORDERS_FULFIL), async (req: Request, res: Response) => {
     try {
       const id = parseId(req.params.id);
       
-      const statusSchema = z.object({
-        status: z.enum(["pending", "completed", "cancelled"])
-      });
-      
-      const parsedData = statusSchema.safeParse(req.body);
+      const parsedData = updateOrderStatusSchema.safeParse(req.body);
       if (!parsedData.success) {
         return res.status(400).json({ message: "Status inválido fornecido" });
       }
       
-      const { status } = parsedData.data;
+      const { status, note } = parsedData.data;
       
-      // Get the order
+      // A transição é validada (e o reembolso feito) dentro da transação
       const order = await storage.getOrder(id);
-      if (!order) {
+      const updatedOrder = await storage.changeOrderStatus(id, status, req.user!.id, note, auditEntry(req, (changed) => ({
+        action: "order.status_change",
+        entityType: AuditEntityEnum.ORDER,
+        entityId: id,
+        description: note ? `Pedido #${id}: ${note}` : `Status do pedido #${id} alterado`,
+        before: order && { status: order.status },
+        after: { status: changed.status },
+      })));
+      if (!updatedOrder) {
         return res.status(404).json({ message: "Pedido não encontrado" });
       }
       
-      // Handle cancellation (refund points)
-      if (status === "cancelled" && order.status !== "cancelled") {
-        const user = await storage.getUser(order.userId);
-        if (user) {
-          // Update user points (refund)
-          await storage.updateUser(user.id, {
-            points: user.points + order.totalPoints
-          });
-          
-          // Create point transaction
-          await storage.createPointTransaction({
-            userId: user.id,
-            points: order.totalPoints,
-            description: `Reembolso do Pedido #${order.id}`,
-            transactionType: "earned",
-            referenceId: order.id
-          });
-          
-          // Return inventory
-          const orderItems = await storage.getOrderItems(order.id);
-          for (const item of orderItems) {
-            const product = await storage.getProduct(item.productId);
-            if (product) {
-              await storage.updateProduct(product.id, {
-                stock: product.stock + item.quantity
-              });
-            }
-          }
-        }
-      }
-      
-      // Update order status
-      const updatedOrder = await storage.updateOrder(id, { status });
+      await notifyOrderStatusChanged(updatedOrder, note);
       
       res.status(200).json(updatedOrder);
     } catch (error) {
-      res.status(500).json({ message: `Erro ao atualizar status do pedido: ${error.message}` });
+      if (error instanceof OrderStatusTransitionError) {
+        return res.status(409).json({ message: error.message, from: error.from, to: error.to });
+      }
+      if (error instanceof OrderRefundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao atualizar status do pedido: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
@@ -622,6 +2090,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get the user's points that expire in the coming days
+  app.get("/api/protected/points/expiring", async (req: Request, res: Response) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 60, 1), 365);
+      const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      
+      const expiring = await storage.getExpiringPoints(req.user!.id, until);
+      res.status(200).json(expiring);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar pontos a expirar: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // -------------------------
+  // KUDOS ROUTES
+  // -------------------------
+  
+  // Recognition feed, most recent first, optionally limited to a unit
+  app.get("/api/protected/kudos", async (req: Request, res: Response) => {
+    try {
+      const parsedQuery = kudosFeedQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Filtros inválidos" });
+      }
+      
+      const feed = await storage.getKudosFeed(parsedQuery.data, KUDOS_FEED_LIMIT);
+      res.status(200).json(feed);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar reconhecimentos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // What is left of the user's monthly giving allowance
+  app.get("/api/protected/kudos/allowance", async (req: Request, res: Response) => {
+    try {
+      const allowance = await storage.getKudosAllowance(req.user!.id);
+      res.status(200).json(allowance);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar cota de reconhecimentos: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Colleagues that can be recognized
+  app.get("/api/protected/kudos/colleagues", async (req: Request, res: Response) => {
+    try {
+      const colleagues = await storage.getKudosColleagues(req.user!.id);
+      res.status(200).json(colleagues);
+    } catch (error) {
+      res.status(500).json({ message: `Erro ao buscar colegas: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Send points from the monthly allowance to a colleague, with a public message
+  app.post("/api/protected/kudos", async (req: Request, res: Response) => {
+    try {
+      const parsedData = sendKudosSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos fornecidos", 
+          errors: parsedData.error.format() 
+        });
+      }
+      
+      const created = await storage.sendKudos(req.user!.id, parsedData.data);
+      
+      await notifyKudosReceived(created, req.user!);
+      
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof KudosError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Erro ao enviar reconhecimento: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   // Rota para atualizar o perfil do usuário
   app.patch("/api/protected/profile", async (req: Request, res: Response) => {
     console.log("Recebida solicitação para atualizar perfil:", req.body);
@@ -632,11 +2176,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Não autenticado" });
       }
       
-      const { displayName, currentPassword, newPassword, unit, profileImageUrl } = req.body;
+      const { displayName, currentPassword, newPassword, profileImageUrl } = req.body;
       
       console.log("Dados recebidos: ", {
         displayName, 
-        unit, 
         profileImageUrl: profileImageUrl ? "[imagem recebida]" : null,
         hasCurrentPassword: !!currentPassword,
         hasNewPassword: !!newPassword
@@ -663,12 +2206,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Senha atual incorreta" });
       }
       
+      // Troca obrigatória: a senha provisória precisa ser substituída por uma nova
+      if (user.mustChangePassword && (!newPassword || newPassword === currentPassword)) {
+        return res.status(400).json({ message: "Escolha uma senha nova, diferente da senha provisória" });
+      }
+      
+      // Nova senha dentro da política e diferente das últimas usadas
+      if (newPassword) {
+        const passwordErrors = await getNewPasswordErrors(String(newPassword), user.username, user.id);
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+        }
+      }
+      
       // Preparar dados de atualização
       const updateData: any = {};
       if (displayName !== undefined) updateData.displayName = displayName;
-      if (newPassword) updateData.password = await hashPassword(newPassword);
-      if (unit !== undefined) updateData.unit = unit;
-      if (profileImageUrl !== undefined) updateData.profileImageUrl = profileImageUrl;
+      if (newPassword) {
+        updateData.password = await hashPassword(newPassword);
+        updateData.mustChangePassword = false;
+      }
+      // Uma foto nova chega como data URL e é gravada como arquivo; reenviar a URL atual não altera nada
+      let uploadedImageUrl: string | undefined;
+      if (profileImageUrl === null || profileImageUrl === "") {
+        updateData.profileImageUrl = null;
+      } else if (profileImageUrl !== undefined && profileImageUrl !== user.profileImageUrl) {
+        uploadedImageUrl = await processProfileImage(String(profileImageUrl));
+        updateData.profileImageUrl = uploadedImageUrl;
+      }
       
       console.log("Dados para atualização:", {
         ...updateData,
@@ -680,15 +2245,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedUser = await storage.updateUser(req.user.id, updateData);
       if (!updatedUser) {
         console.log("Falha ao atualizar usuário");
+        await removeFiles([uploadedImageUrl]);
         return res.status(404).json({ message: "Não foi possível atualizar o usuário" });
       }
       
+      // A foto anterior deixa de ser usada
+      if (updateData.profileImageUrl !== undefined && user.profileImageUrl !== updatedUser.profileImageUrl) {
+        await removeFiles([user.profileImageUrl]);
+      }
+      
       // Não enviar hash de senha para o cliente
       const { password, ...userWithoutPassword } = updatedUser;
       
       console.log("Perfil atualizado com sucesso");
       res.json(userWithoutPassword);
     } catch (error) {
+      if (error instanceof ProfileImageError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Erro ao atualizar perfil:", error);
       res.status(500).json({ message: `Erro ao atualizar perfil: ${error.message}` });
     }
@@ -0,0 +1,71 @@
+import * as XLSX from "xlsx";
+
+// Erro de leitura da planilha (arquivo corrompido, colunas ausentes)
+export class SpreadsheetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetParseError";
+  }
+}
+
+// Linha de dados da planilha, numerada como no Excel (a linha 1 é o cabeçalho)
+export type SpreadsheetRecord = {
+  rowNumber: number;
+  values: Record<string, unknown>;
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+}
+
+// Encontra a coluna cujo cabeçalho corresponde a um dos nomes aceitos
+// (comparados sem acentos, espaços ou maiúsculas)
+export function findColumn(headers: string[], candidates: string[]): string | undefined {
+  return headers.find((header) => candidates.includes(normalizeHeader(header)));
+}
+
+// Valor de uma célula como texto, sem espaços nas pontas
+export function cellText(record: SpreadsheetRecord, column: string | undefined): string {
+  if (!column) return "";
+  return String(record.values[column] ?? "").trim();
+}
+
+// Lê a primeira aba de um arquivo CSV/XLSX; linhas totalmente em branco são ignoradas
+export function readSpreadsheet(buffer: Buffer, fileName: string): { headers: string[]; records: SpreadsheetRecord[] } {
+  let workbook: XLSX.WorkBook;
+  try {
+    // CSV é lido como texto UTF-8 (sem BOM) para preservar acentos
+    workbook = fileName.toLowerCase().endsWith(".csv")
+      ? XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string" })
+      : XLSX.read(buffer, { type: "buffer" });
+  } catch {
+    throw new SpreadsheetParseError("Não foi possível ler o arquivo. Envie uma planilha CSV ou XLSX válida.");
+  }
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new SpreadsheetParseError("A planilha está vazia");
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], {
+    defval: "",
+    raw: true,
+  });
+  if (rows.length === 0) {
+    throw new SpreadsheetParseError("A planilha não possui linhas de dados");
+  }
+
+  const records = rows
+    .map((values) => ({
+      // O SheetJS informa o índice (base 0) da linha de origem, mesmo pulando linhas em branco
+      rowNumber: (values as { __rowNum__: number }).__rowNum__ + 1,
+      values,
+    }))
+    .filter((record) => Object.values(record.values).some((value) => String(value).trim() !== ""));
+
+  return { headers: Object.keys(rows[0]), records };
+}
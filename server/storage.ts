@@ -1,13 +1,41 @@
 import { 
   users, type User, type InsertUser, type UpdateUser,
+  units, type Unit, type InsertUnit, type UpdateUnit, type UnitOption, type UnitBudgetStatus, type LegacyUnitMigrationResult, BudgetPeriodEnum,
+  passwordResetTokens, passwordHistory,
+  twoFactorSecrets, type TwoFactorSecret, twoFactorRecoveryCodes,
+  userIdentities, type UserIdentity,
+  auditLog, type AuditLogEntry, type InsertAuditLogEntry, type AuditLogQuery, type AuditLogActor, type AuditLogResult,
+  loginThrottles, type LoginThrottle, type LoginThrottleScope, loginEvents, type LoginEvent, type InsertLoginEvent, type LoginLockout,
   products, type Product, type InsertProduct, type UpdateProduct,
+  productVariants, type ProductVariant, type InsertProductVariant, type UpdateProductVariant,
+  productImages, type ProductImage, type InsertProductImage,
+  files, type StoredFile, type InsertStoredFile,
+  wishlistItems, type WishlistItem, type WishlistEntry,
+  notifications, type Notification, type InsertNotification,
+  emailOutbox, type EmailOutboxEntry, type InsertEmailOutboxEntry, EmailStatusEnum,
+  categories, type Category, type InsertCategory, type UpdateCategory,
+  tags, type Tag, productTags, type ProductQuery, type CatalogProduct,
   orders, type Order, type InsertOrder, type UpdateOrder,
   orderItems, type OrderItem, type InsertOrderItem,
-  pointTransactions, type PointTransaction, type InsertPointTransaction,
-  UserRoleEnum
+  pointTransactions, type PointTransaction, type PointsCorrectionTarget, type PointsCorrectionResult, type ExpiringPoints, type UserExpiringPoints, pointLotConsumptions,
+  PointTransactionTypeEnum, type PointsReconciliationReport,
+  kudos, type Kudos, type SendKudos, type KudosFeedQuery, type KudosFeedItem, type KudosParticipant, type KudosAllowance,
+  carts, type Cart, cartItems, type CartItem, type CartLine,
+  orderStatusHistory, type OrderStatusHistoryEntry,
+  pointRules, type PointRule, type InsertPointRule, type UpdatePointRule, pointRuleRuns,
+  UserRoleEnum, LoginThrottleScopeEnum
 } from "@shared/schema";
+import {
+  type OrderStatus, OrderStatusEnum, ORDER_STATUSES, REFUNDING_ORDER_STATUSES,
+  canTransitionOrderStatus, formatOrderStatus
+} from "@shared/order-status";
+import { formatVariantLabel, variantPointsCost } from "@shared/product-variants";
+import { PASSWORD_POLICY } from "@shared/password-policy";
+import { KUDOS_POLICY } from "@shared/kudos";
+import { getBudgetPeriodStart, getUnitSubtreeIds, findBudgetUnit, wouldCreateUnitCycle } from "@shared/units";
 import { db } from "./db";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { eq, ne, and, or, desc, asc, gt, gte, lt, lte, ilike, inArray, notInArray, isNull, isNotNull, sql, type SQL, TransactionRollbackError } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import pg from "pg";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
@@ -16,25 +44,282 @@ const { Pool } = pg;
 
 const PostgresSessionStore = connectPg(session);
 
+// Transação do drizzle, repassada aos helpers que precisam participar dela
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Início do mês corrente (horário do servidor), período da cota de reconhecimentos
+function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+// Monta a entrada do log de auditoria a partir do resultado de uma alteração. Os métodos
+// que a recebem gravam a entrada na mesma transação da alteração: uma não existe sem a outra
+export type AuditEntryBuilder<T> = (result: T) => InsertAuditLogEntry;
+
+// Galeria e tags gravadas junto com o produto, na mesma transação
+export type ProductContent = {
+  images?: InsertProductImage[];
+  tags?: string[];
+};
+
+// Opções de um crédito de pontos (lote)
+export type GrantPointsOptions = {
+  expiresAt?: Date | null;
+  referenceId?: number | null;
+  grantedBy?: number | null;
+  budgetUnitId?: number | null;
+  restoreLots?: { lotId: number; points: number }[]; // Reembolso: pontos devolvidos aos lotes de origem; só o excedente vira um novo lote
+};
+
+// Crédito de um gestor de unidade fora das unidades dele ou além do orçamento da unidade
+export class PointsBudgetError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "PointsBudgetError";
+  }
+}
+
+// Cadastro de unidade inválido (nome repetido, ciclo na hierarquia) ou exclusão
+// de uma unidade que ainda tem funcionários, subunidades ou regras de pontos
+export class UnitError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "UnitError";
+  }
+}
+
+// Reconhecimento recusado pelos limites de KUDOS_POLICY ou pela regra anticonluio
+export class KudosError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "KudosError";
+  }
+}
+
+// Lançamento de correção pedido para um usuário cujo saldo já confere com o razão
+export class PointsCorrectionError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "PointsCorrectionError";
+  }
+}
+
+// Erro de transição de status de pedido não permitida pela máquina de estados
+export class OrderStatusTransitionError extends Error {
+  constructor(
+    public from: OrderStatus,
+    public to: OrderStatus,
+  ) {
+    super(`Transição de status inválida: ${formatOrderStatus(from)} → ${formatOrderStatus(to)}`);
+    this.name = "OrderStatusTransitionError";
+  }
+}
+
+// Cancelamento ou rejeição de um pedido de funcionário desativado: o saldo dele está
+// congelado e não pode receber o reembolso
+export class OrderRefundError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "OrderRefundError";
+  }
+}
+
+// Item solicitado em um pedido (antes de ser gravado como OrderItem)
+export type PlaceOrderItem = {
+  productId: number;
+  variantId?: number | null; // Obrigatório para produtos com variações
+  quantity: number;
+  cartItemId?: number; // Linha do carrinho de origem, removida na mesma transação do pedido
+};
+
+// Erro de negócio ao finalizar um pedido; `status` é o código HTTP a ser devolvido
+export class OrderPlacementError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "OrderPlacementError";
+  }
+}
+
+// Erro de negócio ao gerenciar variações ou escolhê-las no carrinho; `status` é o código HTTP
+export class ProductVariantError extends Error {
+  constructor(
+    message: string,
+    public status: number = 409,
+  ) {
+    super(message);
+    this.name = "ProductVariantError";
+  }
+}
+
+// Alterações em uma linha do carrinho
+export type CartItemChanges = {
+  quantity?: number;
+  variantId?: number;
+};
+
+// Opções do catálogo que dependem de quem consulta
+export type CatalogOptions = {
+  includeInactive: boolean;
+  availablePoints?: number; // Saldo usado pelo filtro "posso pagar"
+};
+
+// Filtro da listagem de funcionários pelo estado da conta
+export type EmployeeStatusFilter = "active" | "inactive" | "all";
+
+// Opções da reativação de um funcionário; `forfeitReason` é a descrição do lançamento
+// que zera o saldo congelado (registrado no extrato como trilha de auditoria)
+export type ReactivateUserOptions = {
+  forfeitBalance: boolean;
+  forfeitReason: string;
+};
+
+// Alterações de uma importação de funcionários por planilha
+export type EmployeeImportChanges = {
+  creates: (typeof users.$inferInsert)[];
+  updates: { id: number; data: Partial<typeof users.$inferInsert> }[];
+  deactivations: number[];
+};
+
+// Contador de falhas de login com o usuário da chave (nulo para IPs e nomes inexistentes)
+export type LoginThrottleWithUser = Omit<LoginLockout, "lockedUntil">;
+
+// Lançamento de uma linha da distribuição de pontos em lote
+export type BulkPointEntry = {
+  rowNumber: number;
+  userId: number;
+  points: number;
+  description: string;
+};
+
+// Operação inválida sobre as imagens de um produto
+export class ProductImageError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+  ) {
+    super(message);
+    this.name = "ProductImageError";
+  }
+}
+
+// Erro que desfaz toda a distribuição em lote; `rowNumber` é a linha da planilha que falhou
+export class BulkPointsError extends Error {
+  constructor(
+    message: string,
+    public rowNumber: number,
+    public status: number = 409,
+  ) {
+    super(`Linha ${rowNumber}: ${message}`);
+    this.name = "BulkPointsError";
+  }
+}
+
 export interface IStorage {
   sessionStore: session.Store;
 
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
-  deleteUser(id: number): Promise<boolean>;
+  createUser(user: InsertUser, audit?: AuditEntryBuilder<User>): Promise<User>;
+  updateUser(id: number, user: UpdateUser, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
+  deactivateUser(id: number, deactivatedBy: number, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
+  reactivateUser(id: number, options: ReactivateUserOptions, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
-  getEmployees(): Promise<User[]>;
+  getEmployees(status?: EmployeeStatusFilter, unitIds?: number[]): Promise<User[]>;
+  importEmployees(changes: EmployeeImportChanges, importedBy: number, audit?: AuditEntryBuilder<User[]>): Promise<User[]>;
+  getActiveUsersByEmail(email: string): Promise<User[]>;
+  getRecentPasswordHashes(userId: number, limit: number): Promise<string[]>;
+
+  // Password reset operations
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  getPasswordResetTokenUser(tokenHash: string): Promise<User | undefined>;
+  resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined>;
+
+  // Two-factor authentication operations
+  getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined>;
+  savePendingTwoFactorSecret(userId: number, secret: string): Promise<void>;
+  enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: number, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
+  consumeTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRemainingRecoveryCodes(userId: number): Promise<number>;
+
+  // User identity operations (single sign-on)
+  getUserByIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  linkUserIdentity(userId: number, issuer: string, subject: string, email: string | null): Promise<UserIdentity>;
+  createUserWithIdentity(user: typeof users.$inferInsert, issuer: string, subject: string): Promise<User>;
+
+  // Login throttling and login event operations
+  getLoginThrottles(username: string, ipAddress: string | undefined): Promise<LoginThrottle[]>;
+  recordLoginFailure(scope: LoginThrottleScope, key: string, now: Date, windowStart: Date): Promise<LoginThrottle>;
+  clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void>;
+  getRecentLoginThrottles(since: Date): Promise<LoginThrottleWithUser[]>;
+  deleteLoginThrottle(id: number, audit?: AuditEntryBuilder<LoginThrottle>): Promise<LoginThrottle | undefined>;
+  createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent>;
+  getLoginEvents(userId: number, limit: number): Promise<LoginEvent[]>;
+
+  // Audit log operations (append-only: a database trigger rejects update and delete)
+  protectAuditLog(): Promise<void>;
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(query: AuditLogQuery, limit: number): Promise<AuditLogResult>;
+  getAuditLogActors(): Promise<AuditLogActor[]>;
   
   // Product operations
   getProduct(id: number): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProduct(id: number, product: UpdateProduct): Promise<Product | undefined>;
-  deleteProduct(id: number): Promise<boolean>;
+  createProduct(product: InsertProduct, content?: ProductContent, audit?: AuditEntryBuilder<Product>): Promise<Product>;
+  updateProduct(id: number, product: UpdateProduct, content?: ProductContent, audit?: AuditEntryBuilder<Product>): Promise<Product | undefined>;
+  deleteProduct(id: number, audit?: AuditEntryBuilder<Product>): Promise<boolean>;
   getAllProducts(): Promise<Product[]>;
   getActiveProducts(): Promise<Product[]>;
+  getCatalogProducts(query: ProductQuery, options: CatalogOptions): Promise<CatalogProduct[]>;
+  
+  // Product variant operations
+  getProductVariants(productId: number): Promise<ProductVariant[]>;
+  createProductVariant(productId: number, variant: InsertProductVariant, audit?: AuditEntryBuilder<ProductVariant>): Promise<ProductVariant>;
+  updateProductVariant(productId: number, id: number, variant: UpdateProductVariant, audit?: AuditEntryBuilder<ProductVariant>): Promise<ProductVariant | undefined>;
+  deleteProductVariant(productId: number, id: number, audit?: AuditEntryBuilder<"deleted" | "deactivated">): Promise<"deleted" | "deactivated" | undefined>;
+  
+  // Product image operations
+  getProductImages(productId: number): Promise<ProductImage[]>;
+  addProductImages(productId: number, images: InsertProductImage[], audit?: AuditEntryBuilder<ProductImage[]>): Promise<ProductImage[]>;
+  reorderProductImages(productId: number, imageIds: number[], audit?: AuditEntryBuilder<ProductImage[]>): Promise<ProductImage[]>;
+  setPrimaryProductImage(productId: number, id: number, audit?: AuditEntryBuilder<ProductImage>): Promise<ProductImage | undefined>;
+  deleteProductImage(productId: number, id: number, audit?: AuditEntryBuilder<ProductImage>): Promise<ProductImage | undefined>;
+  
+  // File operations
+  createFileRecord(file: InsertStoredFile): Promise<StoredFile>;
+  getFileRecords(): Promise<StoredFile[]>;
+  deleteFileRecords(urls: string[]): Promise<number>;
+  getReferencedFileUrls(): Promise<Set<string>>;
+  getUsersWithInlineProfileImages(): Promise<User[]>;
+  
+  // Category and tag operations
+  getCategories(): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  createCategory(category: InsertCategory, audit?: AuditEntryBuilder<Category>): Promise<Category>;
+  updateCategory(id: number, category: UpdateCategory, audit?: AuditEntryBuilder<Category>): Promise<Category | undefined>;
+  deleteCategory(id: number, audit?: AuditEntryBuilder<Category>): Promise<boolean>;
+  getTags(): Promise<Tag[]>;
   
   // Order operations
   getOrder(id: number): Promise<Order | undefined>;
@@ -43,15 +328,82 @@ export interface IStorage {
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrder(id: number, order: UpdateOrder): Promise<Order | undefined>;
   getOrderWithItems(id: number): Promise<{order: Order, items: (OrderItem & {product: Product})[]} | undefined>;
+  changeOrderStatus(id: number, status: OrderStatus, changedBy: number, note?: string, audit?: AuditEntryBuilder<Order>): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]>;
+  migrateLegacyOrderStatuses(): Promise<number>;
   
   // Order items operations
   getOrderItems(orderId: number): Promise<OrderItem[]>;
   createOrderItem(item: InsertOrderItem): Promise<OrderItem>;
   createOrderItems(items: InsertOrderItem[]): Promise<OrderItem[]>;
+  placeOrder(userId: number, items: PlaceOrderItem[]): Promise<{order: Order, items: (OrderItem & {product: Product})[]}>;
   
-  // Point transaction operations
-  createPointTransaction(transaction: InsertPointTransaction): Promise<PointTransaction>;
+  // Wishlist operations
+  getWishlist(userId: number): Promise<WishlistEntry[]>;
+  addWishlistItem(userId: number, productId: number): Promise<WishlistItem>;
+  removeWishlistItem(userId: number, productId: number): Promise<boolean>;
+  acknowledgeWishlistRestocks(userId: number): Promise<void>;
+  getWishlistUserIds(productId: number): Promise<number[]>;
+
+  // Notification operations
+  createNotifications(entries: InsertNotification[]): Promise<Notification[]>;
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+
+  // Email outbox operations
+  enqueueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined>;
+  claimDueEmails(now: Date, limit: number, leaseMs: number): Promise<EmailOutboxEntry[]>;
+  markEmailSent(id: number): Promise<void>;
+  markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  clearFinishedEmailBodies(): Promise<number>;
+  
+  // Cart operations
+  getCart(userId: number): Promise<{cart: Cart, items: CartLine[]}>;
+  addCartItem(userId: number, productId: number, variantId: number | null, quantity: number): Promise<CartItem>;
+  updateCartItem(userId: number, itemId: number, changes: CartItemChanges): Promise<CartItem | undefined>;
+  removeCartItem(userId: number, itemId: number): Promise<boolean>;
+  acknowledgeCartChanges(userId: number): Promise<void>;
+  clearCart(userId: number): Promise<void>;
+  
+  // Point transaction operations. Every change to users.points goes through
+  // these methods, which write the ledger row in the same transaction
   getPointTransactionsByUserId(userId: number): Promise<PointTransaction[]>;
+  grantPoints(userId: number, points: number, description: string, options?: GrantPointsOptions, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
+  grantPointsBulk(entries: BulkPointEntry[], options?: GrantPointsOptions, audit?: AuditEntryBuilder<number>): Promise<number>;
+  grantPointsFromBudget(managerId: number, userId: number, points: number, description: string, options?: GrantPointsOptions, audit?: AuditEntryBuilder<User>): Promise<User | undefined>;
+  getUnitBudgets(now?: Date, managerId?: number): Promise<UnitBudgetStatus[]>;
+  getExpiringPoints(userId: number, until: Date): Promise<ExpiringPoints[]>;
+  getExpiringPointsOfActiveUsers(from: Date, until: Date): Promise<UserExpiringPoints[]>;
+  expireDuePoints(now?: Date): Promise<number>;
+  getPointsReconciliation(now?: Date): Promise<PointsReconciliationReport>;
+  postPointsCorrection(userId: number, target: PointsCorrectionTarget, description: string, correctedBy: number, audit?: AuditEntryBuilder<PointsCorrectionResult>): Promise<PointsCorrectionResult | undefined>;
+  
+  // Kudos (peer recognition) operations
+  sendKudos(senderId: number, data: SendKudos, now?: Date): Promise<Kudos>;
+  getKudosFeed(query: KudosFeedQuery, limit: number): Promise<KudosFeedItem[]>;
+  getKudosAllowance(userId: number, now?: Date): Promise<KudosAllowance>;
+  getKudosColleagues(userId: number): Promise<KudosParticipant[]>;
+  
+  // Unit operations
+  getUnits(): Promise<Unit[]>;
+  getUnitOptions(): Promise<UnitOption[]>;
+  getUnit(id: number): Promise<Unit | undefined>;
+  findOrCreateUnit(name: string): Promise<Unit>;
+  createUnit(unit: InsertUnit, audit?: AuditEntryBuilder<Unit>): Promise<Unit>;
+  updateUnit(id: number, unit: UpdateUnit, audit?: AuditEntryBuilder<Unit>): Promise<Unit | undefined>;
+  deleteUnit(id: number, audit?: AuditEntryBuilder<Unit>): Promise<Unit | undefined>;
+  getManagedUnitIds(managerId: number): Promise<number[]>;
+  migrateLegacyUnits(now?: Date): Promise<LegacyUnitMigrationResult>;
+  
+  // Point rule operations
+  getPointRules(): Promise<PointRule[]>;
+  getActivePointRules(): Promise<PointRule[]>;
+  getPointRule(id: number): Promise<PointRule | undefined>;
+  createPointRule(rule: InsertPointRule, audit?: AuditEntryBuilder<PointRule>): Promise<PointRule>;
+  updatePointRule(id: number, rule: UpdatePointRule, audit?: AuditEntryBuilder<PointRule>): Promise<PointRule | undefined>;
+  deletePointRule(id: number, audit?: AuditEntryBuilder<PointRule>): Promise<boolean>;
+  applyPointRuleAward(rule: PointRule, userId: number, periodKey: string, points: number, description: string, expiresAt: Date | null): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -77,12 +429,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
-    return newUser;
+  // Um saldo inicial informado no cadastro entra no razão como o primeiro lançamento
+  async createUser(user: InsertUser, audit?: AuditEntryBuilder<User>): Promise<User> {
+    const { points = 0, ...userData } = user;
+    return await db.transaction(async (tx) => {
+      const [newUser] = await tx.insert(users).values(userData).returning();
+      const createdUser = points === 0
+        ? newUser
+        : (await this.grantPointsInTransaction(tx, newUser.id, points, "Saldo inicial"))!;
+      await this.writeAuditEntry(tx, audit, createdUser);
+      return createdUser;
+    });
   }
 
-  async updateUser(id: number, userData: UpdateUser): Promise<User | undefined> {
+  async updateUser(id: number, userData: UpdateUser, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
     console.log(`Atualizando usuário ID: ${id} com dados:`, userData);
     try {
       // Certifique-se de que campos nulos sejam tratados corretamente
@@ -91,11 +451,13 @@ export class DatabaseStorage implements IStorage {
       // Para cada campo no userData, verificamos se ele está definido (mesmo que seja null)
       if (userData.displayName !== undefined) dataToUpdate.displayName = userData.displayName;
       if (userData.email !== undefined) dataToUpdate.email = userData.email;
-      if (userData.points !== undefined) dataToUpdate.points = userData.points;
       if (userData.role !== undefined) dataToUpdate.role = userData.role;
-      if (userData.unit !== undefined) dataToUpdate.unit = userData.unit;
+      if (userData.unitId !== undefined) dataToUpdate.unitId = userData.unitId;
       if (userData.profileImageUrl !== undefined) dataToUpdate.profileImageUrl = userData.profileImageUrl;
+      if (userData.birthDate !== undefined) dataToUpdate.birthDate = userData.birthDate;
+      if (userData.hireDate !== undefined) dataToUpdate.hireDate = userData.hireDate;
       if (userData.password !== undefined) dataToUpdate.password = userData.password;
+      if (userData.mustChangePassword !== undefined) dataToUpdate.mustChangePassword = userData.mustChangePassword;
       
       // Adicionamos um timestamp de atualização
       dataToUpdate.updatedAt = new Date();
@@ -106,11 +468,21 @@ export class DatabaseStorage implements IStorage {
         profileImageUrl: dataToUpdate.profileImageUrl ? "[imagem]" : null
       });
       
-      const result = await db
-        .update(users)
-        .set(dataToUpdate)
-        .where(eq(users.id, id))
-        .returning();
+      // A senha substituída vai para o histórico na mesma transação
+      const result = await db.transaction(async (tx) => {
+        if (dataToUpdate.password !== undefined) {
+          await this.archiveCurrentPassword(tx, id);
+        }
+        const updated = await tx
+          .update(users)
+          .set(dataToUpdate)
+          .where(eq(users.id, id))
+          .returning();
+        if (updated.length > 0) {
+          await this.writeAuditEntry(tx, audit, updated[0]);
+        }
+        return updated;
+      });
       
       console.log("Resultado da atualização:", result);
       
@@ -130,162 +502,2666 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
-  async getEmployees(): Promise<User[]> {
+  // Todos os usuários menos os administradores; `unitIds` restringe a essas unidades
+  async getEmployees(status: EmployeeStatusFilter = "all", unitIds?: number[]): Promise<User[]> {
+    const conditions = [ne(users.role, UserRoleEnum.ADMIN)];
+    if (status !== "all") {
+      conditions.push(eq(users.isActive, status === "active"));
+    }
+    if (unitIds !== undefined) {
+      if (unitIds.length === 0) return [];
+      conditions.push(inArray(users.unitId, unitIds));
+    }
+
     return await db
       .select()
       .from(users)
-      .where(eq(users.role, UserRoleEnum.EMPLOYEE));
+      .where(and(...conditions));
   }
   
-  async deleteUser(id: number): Promise<boolean> {
-    try {
-      console.log(`Deletando usuário com ID: ${id}`);
-      const [deleted] = await db
-        .delete(users)
-        .where(eq(users.id, id))
+  // Aplica a importação de funcionários em uma única transação: ou tudo ou nada
+  // Retorna os usuários criados
+  async importEmployees(changes: EmployeeImportChanges, importedBy: number, audit?: AuditEntryBuilder<User[]>): Promise<User[]> {
+    return await db.transaction(async (tx) => {
+      const createdUsers = changes.creates.length > 0
+        ? await tx.insert(users).values(changes.creates).returning()
+        : [];
+
+      for (const update of changes.updates) {
+        await tx
+          .update(users)
+          .set({ ...update.data, updatedAt: new Date() })
+          .where(eq(users.id, update.id));
+      }
+
+      if (changes.deactivations.length > 0) {
+        for (const id of changes.deactivations) {
+          await this.cancelOpenOrders(tx, id, importedBy);
+        }
+        await tx
+          .update(users)
+          .set({ isActive: false, deactivatedAt: new Date(), updatedAt: new Date() })
+          .where(inArray(users.id, changes.deactivations));
+      }
+
+      await this.writeAuditEntry(tx, audit, createdUsers);
+      return createdUsers;
+    });
+  }
+  
+  // O e-mail não é único: mais de uma conta pode usar o mesmo endereço
+  async getActiveUsersByEmail(email: string): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`, eq(users.isActive, true)));
+  }
+
+  // Senha atual seguida das anteriores, da mais recente para a mais antiga
+  async getRecentPasswordHashes(userId: number, limit: number): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user || limit <= 0) return [];
+
+    const previous = await db
+      .select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit - 1);
+    return [user.password, ...previous.map((entry) => entry.passwordHash)];
+  }
+
+  // Guarda a senha atual no histórico antes de ser trocada, mantendo só as que a
+  // política ainda impede de reutilizar (a atual conta como uma delas)
+  private async archiveCurrentPassword(tx: Transaction, userId: number): Promise<void> {
+    const [user] = await tx
+      .select({ password: users.password })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return;
+
+    await tx.insert(passwordHistory).values({ userId, passwordHash: user.password });
+
+    const kept = tx
+      .select({ id: passwordHistory.id })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(Math.max(PASSWORD_POLICY.historySize - 1, 0));
+    await tx
+      .delete(passwordHistory)
+      .where(and(eq(passwordHistory.userId, userId), notInArray(passwordHistory.id, kept)));
+  }
+
+  // Password reset operations
+  // Um novo pedido invalida os links anteriores ainda não usados
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+    });
+  }
+
+  // Dono de um token ainda utilizável (não usado, não expirado e usuário ativo)
+  async getPasswordResetTokenUser(tokenHash: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(passwordResetTokens)
+      .innerJoin(users, eq(users.id, passwordResetTokens.userId))
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+        eq(users.isActive, true),
+      ));
+    return row?.user;
+  }
+
+  // Consome o token (uso único) e troca a senha na mesma transação; retorna undefined
+  // se o token não existe, já foi usado, expirou ou o usuário foi desativado
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ))
         .returning();
-      console.log("Resultado da exclusão:", deleted ? "Usuário excluído com sucesso" : "Nenhum usuário excluído");
-      return !!deleted;
-    } catch (error) {
-      console.error(`Erro ao excluir usuário ID ${id}:`, error);
-      return false;
-    }
+      if (!token) return undefined;
+
+      await this.archiveCurrentPassword(tx, token.userId);
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ password: passwordHash, mustChangePassword: false, updatedAt: new Date() })
+        .where(and(eq(users.id, token.userId), eq(users.isActive, true)))
+        .returning();
+      return updatedUser;
+    });
   }
 
-  // Product operations
-  async getProduct(id: number): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
-    return product;
+  // Two-factor authentication operations
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    const [secret] = await db.select().from(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    return secret;
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
-    return newProduct;
+  // Substitui um cadastro anterior não confirmado; o 2FA só passa a valer em enableTwoFactor
+  async savePendingTwoFactorSecret(userId: number, secret: string): Promise<void> {
+    await db
+      .insert(twoFactorSecrets)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorSecrets.userId,
+        set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
   }
 
-  async updateProduct(id: number, productData: UpdateProduct): Promise<Product | undefined> {
-    const [updatedProduct] = await db
-      .update(products)
-      .set(productData)
-      .where(eq(products.id, id))
-      .returning();
-    return updatedProduct;
+  // Confirma o segredo pendente, ativa o 2FA e grava os códigos de recuperação
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [secret] = await tx
+        .update(twoFactorSecrets)
+        .set({ confirmedAt: new Date(), lastUsedStep: step })
+        .where(and(eq(twoFactorSecrets.userId, userId), isNull(twoFactorSecrets.confirmedAt)))
+        .returning();
+      if (!secret) return undefined;
+
+      await this.replaceRecoveryCodesIn(tx, userId, recoveryCodeHashes);
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabled: true, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return updatedUser;
+    });
   }
 
-  async deleteProduct(id: number): Promise<boolean> {
-    const [deleted] = await db
-      .delete(products)
-      .where(eq(products.id, id))
-      .returning();
-    return !!deleted;
+  async disableTwoFactor(userId: number, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabled: false, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      if (updatedUser) {
+        await this.writeAuditEntry(tx, audit, updatedUser);
+      }
+      return updatedUser;
+    });
   }
 
-  async getAllProducts(): Promise<Product[]> {
-    return await db.select().from(products).orderBy(desc(products.createdAt));
+  // Registra o passo de tempo do código aceito; falha se ele (ou um posterior) já
+  // foi usado, o que impede reaproveitar um código interceptado
+  async consumeTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        isNotNull(twoFactorSecrets.confirmedAt),
+        or(isNull(twoFactorSecrets.lastUsedStep), sql`${twoFactorSecrets.lastUsedStep} < ${step}`),
+      ))
+      .returning({ userId: twoFactorSecrets.userId });
+    return updated.length > 0;
   }
 
-  async getActiveProducts(): Promise<Product[]> {
-    return await db
-      .select()
-      .from(products)
-      .where(eq(products.isActive, true))
-      .orderBy(asc(products.pointsCost));
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.replaceRecoveryCodesIn(tx, userId, codeHashes);
+    });
   }
 
-  // Order operations
-  async getOrder(id: number): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    return order;
+  private async replaceRecoveryCodesIn(tx: Transaction, userId: number, codeHashes: string[]): Promise<void> {
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    }
   }
 
-  async getOrdersByUserId(userId: number): Promise<Order[]> {
-    return await db
-      .select()
-      .from(orders)
-      .where(eq(orders.userId, userId))
-      .orderBy(desc(orders.createdAt));
+  // Marca o código de recuperação como usado (uso único)
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
   }
-  
-  async getAllOrders(): Promise<(Order & { user: { id: number, username: string, displayName: string | null, email: string } })[]> {
-    return await db.query.orders.findMany({
-      with: {
-        user: {
-          columns: {
-            id: true,
-            username: true,
-            displayName: true,
-            email: true
-          }
-        }
-      },
-      orderBy: [desc(orders.createdAt)]
+
+  async countRemainingRecoveryCodes(userId: number): Promise<number> {
+    return await db.$count(
+      twoFactorRecoveryCodes,
+      and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)),
+    );
+  }
+
+  // User identity operations (single sign-on)
+  async getUserByIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  // Vincula a conta do provedor ao usuário (ou só registra o uso, se já vinculada)
+  async linkUserIdentity(userId: number, issuer: string, subject: string, email: string | null): Promise<UserIdentity> {
+    const now = new Date();
+    const [identity] = await db
+      .insert(userIdentities)
+      .values({ userId, issuer, subject, email, lastLoginAt: now })
+      .onConflictDoUpdate({
+        target: [userIdentities.issuer, userIdentities.subject],
+        set: { email, lastLoginAt: now },
+      })
+      .returning();
+    return identity;
+  }
+
+  // Provisionamento no primeiro login pelo provedor: usuário e vínculo juntos
+  async createUserWithIdentity(user: typeof users.$inferInsert, issuer: string, subject: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [newUser] = await tx.insert(users).values(user).returning();
+      await tx.insert(userIdentities).values({
+        userId: newUser.id,
+        issuer,
+        subject,
+        email: newUser.email,
+        lastLoginAt: new Date(),
+      });
+      return newUser;
     });
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  // Login throttling and login event operations
+  async getLoginThrottles(username: string, ipAddress: string | undefined): Promise<LoginThrottle[]> {
+    const keys = [and(eq(loginThrottles.scope, LoginThrottleScopeEnum.USERNAME), eq(loginThrottles.key, username))];
+    if (ipAddress) {
+      keys.push(and(eq(loginThrottles.scope, LoginThrottleScopeEnum.IP), eq(loginThrottles.key, ipAddress)));
+    }
+    return await db.select().from(loginThrottles).where(or(...keys));
   }
 
-  async updateOrder(id: number, orderData: UpdateOrder): Promise<Order | undefined> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set(orderData)
-      .where(eq(orders.id, id))
+  // Soma uma falha ao contador (atômico, sem ler antes); falhas anteriores a
+  // `windowStart` já não contam e o contador recomeça em 1
+  async recordLoginFailure(scope: LoginThrottleScope, key: string, now: Date, windowStart: Date): Promise<LoginThrottle> {
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ scope, key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.key],
+        set: {
+          failures: sql`case when ${loginThrottles.lastFailureAt} < ${windowStart} then 1 else ${loginThrottles.failures} + 1 end`,
+          lastFailureAt: now,
+        },
+      })
       .returning();
-    return updatedOrder;
+    return throttle;
   }
 
-  async getOrderWithItems(id: number): Promise<{order: Order, items: (OrderItem & {product: Product})[]} | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    
-    if (!order) return undefined;
-    
-    const items = await db.query.orderItems.findMany({
-      where: eq(orderItems.orderId, id),
-      with: {
-        product: true
+  async clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  }
+
+  // Contadores com falha desde `since`, com o usuário correspondente quando a
+  // chave é o nome de um usuário existente
+  async getRecentLoginThrottles(since: Date): Promise<LoginThrottleWithUser[]> {
+    const rows = await db
+      .select({
+        throttle: loginThrottles,
+        user: { id: users.id, username: users.username, displayName: users.displayName },
+      })
+      .from(loginThrottles)
+      .leftJoin(users, and(
+        eq(loginThrottles.scope, LoginThrottleScopeEnum.USERNAME),
+        eq(sql`lower(${users.username})`, loginThrottles.key),
+      ))
+      .where(gte(loginThrottles.lastFailureAt, since))
+      .orderBy(desc(loginThrottles.lastFailureAt));
+    return rows.map(({ throttle, user }) => ({ ...throttle, user }));
+  }
+
+  async deleteLoginThrottle(id: number, audit?: AuditEntryBuilder<LoginThrottle>): Promise<LoginThrottle | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(loginThrottles)
+        .where(eq(loginThrottles.id, id))
+        .returning();
+      if (deleted) {
+        await this.writeAuditEntry(tx, audit, deleted);
       }
+      return deleted;
     });
-    
-    return {
-      order,
-      items
-    };
   }
 
-  // Order items operations
-  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const [created] = await db.insert(loginEvents).values(event).returning();
+    return created;
+  }
+
+  // Tentativas de login mais recentes primeiro
+  async getLoginEvents(userId: number, limit: number): Promise<LoginEvent[]> {
     return await db
       .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
+      .from(loginEvents)
+      .where(eq(loginEvents.userId, userId))
+      .orderBy(desc(loginEvents.createdAt), desc(loginEvents.id))
+      .limit(limit);
   }
 
-  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
-    const [newItem] = await db.insert(orderItems).values(item).returning();
-    return newItem;
+  // Instala (ou reinstala) os gatilhos que recusam UPDATE, DELETE e TRUNCATE no log de
+  // auditoria. O db:push só cuida das tabelas, então isso roda a cada inicialização.
+  async protectAuditLog(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        create or replace function audit_log_reject_change() returns trigger language plpgsql as $$
+        begin
+          raise exception 'audit_log é somente inclusão: % não é permitido', tg_op;
+        end;
+        $$
+      `);
+      await tx.execute(sql`drop trigger if exists audit_log_no_update_delete on audit_log`);
+      await tx.execute(sql`
+        create trigger audit_log_no_update_delete before update or delete on audit_log
+        for each row execute function audit_log_reject_change()
+      `);
+      await tx.execute(sql`drop trigger if exists audit_log_no_truncate on audit_log`);
+      await tx.execute(sql`
+        create trigger audit_log_no_truncate before truncate on audit_log
+        for each statement execute function audit_log_reject_change()
+      `);
+    });
   }
 
-  async createOrderItems(items: InsertOrderItem[]): Promise<OrderItem[]> {
-    return await db.insert(orderItems).values(items).returning();
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
   }
 
-  // Point transaction operations
-  async createPointTransaction(transaction: InsertPointTransaction): Promise<PointTransaction> {
-    const [newTransaction] = await db
-      .insert(pointTransactions)
-      .values(transaction)
-      .returning();
-    return newTransaction;
+  private async writeAuditEntry<T>(tx: Transaction, audit: AuditEntryBuilder<T> | undefined, result: T): Promise<void> {
+    if (audit) {
+      await tx.insert(auditLog).values(audit(result));
+    }
   }
 
-  async getPointTransactionsByUserId(userId: number): Promise<PointTransaction[]> {
-    return await db
+  // Registros mais recentes primeiro; as datas do filtro usam o horário do servidor e incluem o dia final.
+  // Busca um registro além do limite para indicar se ficaram registros mais antigos de fora
+  async getAuditLog(query: AuditLogQuery, limit: number): Promise<AuditLogResult> {
+    const conditions: SQL[] = [];
+    if (query.actorId !== undefined) {
+      conditions.push(eq(auditLog.actorId, query.actorId));
+    }
+    if (query.entityType !== undefined) {
+      conditions.push(eq(auditLog.entityType, query.entityType));
+    }
+    if (query.from) {
+      conditions.push(gte(auditLog.createdAt, new Date(`${query.from}T00:00:00`)));
+    }
+    if (query.to) {
+      const end = new Date(`${query.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      conditions.push(lt(auditLog.createdAt, end));
+    }
+
+    const entries = await db
       .select()
-      .from(pointTransactions)
-      .where(eq(pointTransactions.userId, userId))
-      .orderBy(desc(pointTransactions.createdAt));
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit + 1);
+    return { entries: entries.slice(0, limit), truncated: entries.length > limit };
+  }
+
+  // Quem já aparece no log, para o filtro por autor (nome atual, ou o registrado se o usuário foi removido)
+  async getAuditLogActors(): Promise<AuditLogActor[]> {
+    const rows = await db
+      .selectDistinct({
+        id: auditLog.actorId,
+        name: sql<string>`coalesce(${users.displayName}, ${users.username}, ${auditLog.actorName})`,
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(isNotNull(auditLog.actorId));
+    return rows
+      .map((row) => ({ id: row.id!, name: row.name }))
+      .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+  }
+
+  // Desativa o usuário sem apagá-lo: pedidos e extrato continuam íntegros e o saldo
+  // fica congelado até uma eventual reativação. Pedidos em aberto são cancelados antes,
+  // para que o reembolso entre no saldo ainda ativo.
+  async deactivateUser(id: number, deactivatedBy: number, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.id, id), eq(users.isActive, true)))
+        .for("update");
+      if (!user) return undefined;
+
+      await this.cancelOpenOrders(tx, id, deactivatedBy);
+
+      const [deactivatedUser] = await tx
+        .update(users)
+        .set({ isActive: false, deactivatedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+      await this.writeAuditEntry(tx, audit, deactivatedUser);
+      return deactivatedUser;
+    });
+  }
+
+  // Reativa o usuário; opcionalmente zera o saldo congelado na mesma transação
+  async reactivateUser(id: number, options: ReactivateUserOptions, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reactivatedUser] = await tx
+        .update(users)
+        .set({ isActive: true, deactivatedAt: null, updatedAt: new Date() })
+        .where(and(eq(users.id, id), eq(users.isActive, false)))
+        .returning();
+      if (!reactivatedUser) return undefined;
+
+      const user = options.forfeitBalance && reactivatedUser.points > 0
+        ? (await this.grantPointsInTransaction(tx, id, -reactivatedUser.points, options.forfeitReason))!
+        : reactivatedUser;
+      await this.writeAuditEntry(tx, audit, user);
+      return user;
+    });
+  }
+
+  // Product operations
+  async getProduct(id: number): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  // A primeira imagem enviada vira a principal
+  async createProduct(product: InsertProduct, content: ProductContent = {}, audit?: AuditEntryBuilder<Product>): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      let [newProduct] = await tx.insert(products).values(product).returning();
+
+      if (content.images && content.images.length > 0) {
+        await this.insertProductImages(tx, newProduct.id, content.images);
+        [newProduct] = await tx.select().from(products).where(eq(products.id, newProduct.id));
+      }
+      if (content.tags) {
+        await this.replaceProductTags(tx, newProduct.id, content.tags);
+      }
+
+      await this.writeAuditEntry(tx, audit, newProduct);
+      return newProduct;
+    });
+  }
+
+  // Só as tags do conteúdo são aplicadas: as imagens têm rotas próprias
+  async updateProduct(id: number, productData: UpdateProduct, content: ProductContent = {}, audit?: AuditEntryBuilder<Product>): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ stock: products.stock })
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      if (!current) return undefined;
+
+      const [updatedProduct] = await tx
+        .update(products)
+        .set(productData)
+        .where(eq(products.id, id))
+        .returning();
+
+      // O estoque de produtos com variações é sempre a soma das variações
+      const product = (await this.syncVariantStock(tx, id)) ?? updatedProduct;
+      await this.markWishlistBackInStock(tx, id, current.stock, product.stock);
+      if (content.tags) {
+        await this.replaceProductTags(tx, id, content.tags);
+      }
+      await this.writeAuditEntry(tx, audit, product);
+      return product;
+    });
+  }
+
+  async deleteProduct(id: number, audit?: AuditEntryBuilder<Product>): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(products)
+        .where(eq(products.id, id))
+        .returning();
+      if (deleted) {
+        await this.writeAuditEntry(tx, audit, deleted);
+      }
+      return !!deleted;
+    });
+  }
+
+  async getAllProducts(): Promise<Product[]> {
+    return await db.select().from(products).orderBy(desc(products.createdAt));
+  }
+
+  async getActiveProducts(): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(eq(products.isActive, true))
+      .orderBy(asc(products.pointsCost));
+  }
+
+  // Catálogo com filtros e ordenação aplicados no banco
+  async getCatalogProducts(query: ProductQuery, options: CatalogOptions): Promise<CatalogProduct[]> {
+    const conditions: SQL[] = [];
+
+    if (!options.includeInactive) {
+      conditions.push(eq(products.isActive, true));
+    }
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(products.name, pattern), ilike(products.description, pattern))!);
+    }
+    if (query.categoryId !== undefined) {
+      conditions.push(eq(products.categoryId, query.categoryId));
+    }
+    if (query.tag) {
+      conditions.push(inArray(
+        products.id,
+        db
+          .select({ productId: productTags.productId })
+          .from(productTags)
+          .innerJoin(tags, eq(tags.id, productTags.tagId))
+          .where(eq(tags.name, query.tag)),
+      ));
+    }
+    if (query.minPoints !== undefined) {
+      conditions.push(gte(products.pointsCost, query.minPoints));
+    }
+    if (query.maxPoints !== undefined) {
+      conditions.push(lte(products.pointsCost, query.maxPoints));
+    }
+    if (query.affordable && options.availablePoints !== undefined) {
+      conditions.push(lte(products.pointsCost, options.availablePoints));
+    }
+    if (query.inStock) {
+      conditions.push(gt(products.stock, 0));
+    }
+
+    const orderBy = {
+      name: [asc(products.name)],
+      points_asc: [asc(products.pointsCost), asc(products.name)],
+      points_desc: [desc(products.pointsCost), asc(products.name)],
+      newest: [desc(products.createdAt), desc(products.id)],
+    }[query.sort];
+
+    const rows = await db.query.products.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy,
+      with: {
+        category: true,
+        productTags: { with: { tag: true } },
+        variants: {
+          where: options.includeInactive ? undefined : eq(productVariants.isActive, true),
+          orderBy: [asc(productVariants.id)],
+        },
+        images: {
+          orderBy: [asc(productImages.position), asc(productImages.id)],
+        },
+      },
+    });
+
+    return rows.map(({ productTags, ...product }) => ({
+      ...product,
+      tags: productTags.map(({ tag }) => tag).sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+  }
+
+  // Substitui as tags do produto, criando as que ainda não existem
+  private async replaceProductTags(tx: Transaction, productId: number, names: string[]): Promise<Tag[]> {
+    const normalizedNames = Array.from(new Set(
+      names.map((name) => name.trim().toLowerCase()).filter((name) => name.length > 0),
+    ));
+
+    await tx.delete(productTags).where(eq(productTags.productId, productId));
+    if (normalizedNames.length === 0) return [];
+
+    await tx
+      .insert(tags)
+      .values(normalizedNames.map((name) => ({ name })))
+      .onConflictDoNothing();
+
+    const productTagList = await tx
+      .select()
+      .from(tags)
+      .where(inArray(tags.name, normalizedNames));
+
+    await tx
+      .insert(productTags)
+      .values(productTagList.map((tag) => ({ productId, tagId: tag.id })));
+
+    return productTagList;
+  }
+
+  // Product variant operations
+  async getProductVariants(productId: number): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.id));
+  }
+
+  async createProductVariant(productId: number, variant: InsertProductVariant, audit?: AuditEntryBuilder<ProductVariant>): Promise<ProductVariant> {
+    return await db.transaction(async (tx) => {
+      await this.assertUniqueVariantAttributes(tx, productId, variant.attributes);
+
+      const [newVariant] = await tx
+        .insert(productVariants)
+        .values({ ...variant, productId })
+        .returning();
+
+      await this.syncVariantStock(tx, productId);
+      await this.writeAuditEntry(tx, audit, newVariant);
+      return newVariant;
+    });
+  }
+
+  async updateProductVariant(productId: number, id: number, variantData: UpdateProductVariant, audit?: AuditEntryBuilder<ProductVariant>): Promise<ProductVariant | undefined> {
+    return await db.transaction(async (tx) => {
+      if (variantData.attributes) {
+        await this.assertUniqueVariantAttributes(tx, productId, variantData.attributes, id);
+      }
+
+      const [updatedVariant] = await tx
+        .update(productVariants)
+        .set({ ...variantData, updatedAt: new Date() })
+        .where(and(eq(productVariants.id, id), eq(productVariants.productId, productId)))
+        .returning();
+      if (!updatedVariant) return undefined;
+
+      await this.syncVariantStock(tx, productId);
+      await this.writeAuditEntry(tx, audit, updatedVariant);
+      return updatedVariant;
+    });
+  }
+
+  // Variações já pedidas são apenas desativadas, para preservar o histórico e o reembolso
+  async deleteProductVariant(productId: number, id: number, audit?: AuditEntryBuilder<"deleted" | "deactivated">): Promise<"deleted" | "deactivated" | undefined> {
+    return await db.transaction(async (tx) => {
+      const [variant] = await tx
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, id), eq(productVariants.productId, productId)))
+        .for("update");
+      if (!variant) return undefined;
+
+      const [ordered] = await tx
+        .select({ id: orderItems.id })
+        .from(orderItems)
+        .where(eq(orderItems.variantId, id))
+        .limit(1);
+
+      if (ordered) {
+        await tx
+          .update(productVariants)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(eq(productVariants.id, id));
+      } else {
+        await tx.delete(productVariants).where(eq(productVariants.id, id));
+      }
+
+      await this.syncVariantStock(tx, productId);
+      const result = ordered ? "deactivated" : "deleted";
+      await this.writeAuditEntry(tx, audit, result);
+      return result;
+    });
+  }
+
+  // Recalcula o estoque do produto como a soma das variações ativas.
+  // Produtos sem variações não são alterados (retorna undefined).
+  private async syncVariantStock(tx: Transaction, productId: number): Promise<Product | undefined> {
+    const [current] = await tx
+      .select({ stock: products.stock })
+      .from(products)
+      .where(eq(products.id, productId))
+      .for("update");
+    if (!current) return undefined;
+
+    const [updatedProduct] = await tx
+      .update(products)
+      .set({
+        stock: sql`(select coalesce(sum(${productVariants.stock}), 0) from ${productVariants} where ${productVariants.productId} = ${productId} and ${productVariants.isActive})`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(products.id, productId),
+        sql`exists (select 1 from ${productVariants} where ${productVariants.productId} = ${productId})`,
+      ))
+      .returning();
+    if (updatedProduct) {
+      await this.markWishlistBackInStock(tx, productId, current.stock, updatedProduct.stock);
+    }
+    return updatedProduct;
+  }
+
+  // Quando o estoque volta a ficar positivo, marca o aviso para quem tem o produto na lista de desejos
+  private async markWishlistBackInStock(tx: Transaction, productId: number, previousStock: number, newStock: number): Promise<void> {
+    if (previousStock > 0 || newStock <= 0) return;
+    await tx
+      .update(wishlistItems)
+      .set({ backInStockAt: new Date() })
+      .where(eq(wishlistItems.productId, productId));
+  }
+
+  private async assertUniqueVariantAttributes(tx: Transaction, productId: number, attributes: Record<string, string>, exceptId?: number): Promise<void> {
+    // Comparação sem diferenciar maiúsculas nem a ordem dos atributos
+    const attributesKey = (values: Record<string, string>) => JSON.stringify(
+      Object.entries(values).map(([name, value]) => [name.toLowerCase(), value.toLowerCase()]).sort(),
+    );
+    const key = attributesKey(attributes);
+    const existing = await tx
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId));
+    const duplicate = existing.find((variant) =>
+      variant.id !== exceptId && attributesKey(variant.attributes) === key
+    );
+    if (duplicate) {
+      throw new ProductVariantError(`Já existe a variação ${formatVariantLabel(duplicate.attributes)}`);
+    }
+  }
+
+  // Product image operations
+  async getProductImages(productId: number): Promise<ProductImage[]> {
+    return await db
+      .select()
+      .from(productImages)
+      .where(eq(productImages.productId, productId))
+      .orderBy(asc(productImages.position), asc(productImages.id));
+  }
+
+  async addProductImages(productId: number, images: InsertProductImage[], audit?: AuditEntryBuilder<ProductImage[]>): Promise<ProductImage[]> {
+    if (images.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const newImages = await this.insertProductImages(tx, productId, images);
+      await this.writeAuditEntry(tx, audit, newImages);
+      return newImages;
+    });
+  }
+
+  // Novas imagens entram no fim da galeria; a primeira imagem do produto vira a principal
+  private async insertProductImages(tx: Transaction, productId: number, images: InsertProductImage[]): Promise<ProductImage[]> {
+    // Bloqueia o produto para que envios simultâneos não repitam posições
+    const [product] = await tx
+      .select({ id: products.id })
+      .from(products)
+      .where(eq(products.id, productId))
+      .for("update");
+    if (!product) {
+      throw new ProductImageError("Produto não encontrado", 404);
+    }
+
+    const existing = await tx
+      .select()
+      .from(productImages)
+      .where(eq(productImages.productId, productId));
+    const nextPosition = existing.reduce((max, image) => Math.max(max, image.position + 1), 0);
+    const hasPrimary = existing.some((image) => image.isPrimary);
+
+    const newImages = await tx
+      .insert(productImages)
+      .values(images.map((image, index) => ({
+        ...image,
+        productId,
+        position: nextPosition + index,
+        isPrimary: !hasPrimary && index === 0,
+      })))
+      .returning();
+
+    await this.syncPrimaryImage(tx, productId);
+    return newImages.sort((a, b) => a.position - b.position);
+  }
+
+  // Recebe todos os ids da galeria na nova ordem
+  async reorderProductImages(productId: number, imageIds: number[], audit?: AuditEntryBuilder<ProductImage[]>): Promise<ProductImage[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(productImages)
+        .where(eq(productImages.productId, productId))
+        .for("update");
+
+      const existingIds = new Set(existing.map((image) => image.id));
+      if (imageIds.length !== existing.length || new Set(imageIds).size !== imageIds.length ||
+          !imageIds.every((id) => existingIds.has(id))) {
+        throw new ProductImageError("A nova ordem deve conter todas as imagens do produto, uma única vez");
+      }
+
+      for (let position = 0; position < imageIds.length; position++) {
+        await tx
+          .update(productImages)
+          .set({ position })
+          .where(eq(productImages.id, imageIds[position]));
+      }
+
+      const reordered = await tx
+        .select()
+        .from(productImages)
+        .where(eq(productImages.productId, productId))
+        .orderBy(asc(productImages.position));
+      await this.writeAuditEntry(tx, audit, reordered);
+      return reordered;
+    });
+  }
+
+  async setPrimaryProductImage(productId: number, id: number, audit?: AuditEntryBuilder<ProductImage>): Promise<ProductImage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [image] = await tx
+        .select()
+        .from(productImages)
+        .where(and(eq(productImages.id, id), eq(productImages.productId, productId)))
+        .for("update");
+      if (!image) return undefined;
+
+      await tx
+        .update(productImages)
+        .set({ isPrimary: sql`${productImages.id} = ${id}` })
+        .where(eq(productImages.productId, productId));
+
+      await this.syncPrimaryImage(tx, productId);
+      const primaryImage = { ...image, isPrimary: true };
+      await this.writeAuditEntry(tx, audit, primaryImage);
+      return primaryImage;
+    });
+  }
+
+  // Retorna a imagem removida para que os arquivos possam ser apagados;
+  // se era a principal, a próxima da galeria assume
+  async deleteProductImage(productId: number, id: number, audit?: AuditEntryBuilder<ProductImage>): Promise<ProductImage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(productImages)
+        .where(and(eq(productImages.id, id), eq(productImages.productId, productId)))
+        .returning();
+      if (!deleted) return undefined;
+
+      if (deleted.isPrimary) {
+        const [next] = await tx
+          .select({ id: productImages.id })
+          .from(productImages)
+          .where(eq(productImages.productId, productId))
+          .orderBy(asc(productImages.position), asc(productImages.id))
+          .limit(1);
+        if (next) {
+          await tx
+            .update(productImages)
+            .set({ isPrimary: true })
+            .where(eq(productImages.id, next.id));
+        }
+      }
+
+      await this.syncPrimaryImage(tx, productId);
+      await this.writeAuditEntry(tx, audit, deleted);
+      return deleted;
+    });
+  }
+
+  // products.imageUrl acompanha a miniatura da imagem principal, usada por
+  // carrinho, pedidos e listagens que não carregam a galeria
+  private async syncPrimaryImage(tx: Transaction, productId: number): Promise<void> {
+    await tx
+      .update(products)
+      .set({
+        imageUrl: sql`(select ${productImages.thumbnailUrl} from ${productImages} where ${productImages.productId} = ${productId} and ${productImages.isPrimary} limit 1)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, productId));
+  }
+
+  // File operations
+  async createFileRecord(file: InsertStoredFile): Promise<StoredFile> {
+    const [newFile] = await db.insert(files).values(file).returning();
+    return newFile;
+  }
+
+  async getFileRecords(): Promise<StoredFile[]> {
+    return await db.select().from(files).orderBy(asc(files.createdAt));
+  }
+
+  async deleteFileRecords(urls: string[]): Promise<number> {
+    if (urls.length === 0) return 0;
+    const deleted = await db
+      .delete(files)
+      .where(inArray(files.url, urls))
+      .returning({ id: files.id });
+    return deleted.length;
+  }
+
+  // URLs de arquivos ainda em uso. Toda coluna que guarda a URL de um upload
+  // precisa entrar aqui, senão o coletor de lixo apaga o arquivo.
+  async getReferencedFileUrls(): Promise<Set<string>> {
+    const [productUrls, imageUrls, profileUrls] = await Promise.all([
+      db.select({ url: products.imageUrl }).from(products).where(isNotNull(products.imageUrl)),
+      db.select({ thumbnailUrl: productImages.thumbnailUrl, detailUrl: productImages.detailUrl }).from(productImages),
+      db.select({ url: users.profileImageUrl }).from(users).where(isNotNull(users.profileImageUrl)),
+    ]);
+
+    return new Set([
+      ...productUrls.map(({ url }) => url!),
+      ...imageUrls.flatMap(({ thumbnailUrl, detailUrl }) => [thumbnailUrl, detailUrl]),
+      ...profileUrls.map(({ url }) => url!),
+    ]);
+  }
+
+  // Fotos de perfil antigas, gravadas em base64 direto na coluna
+  async getUsersWithInlineProfileImages(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(ilike(users.profileImageUrl, "data:%"));
+  }
+
+  // Category and tag operations
+  async getCategories(): Promise<Category[]> {
+    return await db.select().from(categories).orderBy(asc(categories.name));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(category: InsertCategory, audit?: AuditEntryBuilder<Category>): Promise<Category> {
+    return await db.transaction(async (tx) => {
+      const [newCategory] = await tx.insert(categories).values(category).returning();
+      await this.writeAuditEntry(tx, audit, newCategory);
+      return newCategory;
+    });
+  }
+
+  async updateCategory(id: number, categoryData: UpdateCategory, audit?: AuditEntryBuilder<Category>): Promise<Category | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedCategory] = await tx
+        .update(categories)
+        .set(categoryData)
+        .where(eq(categories.id, id))
+        .returning();
+      if (updatedCategory) {
+        await this.writeAuditEntry(tx, audit, updatedCategory);
+      }
+      return updatedCategory;
+    });
+  }
+
+  // Produtos da categoria ficam sem categoria (ON DELETE SET NULL)
+  async deleteCategory(id: number, audit?: AuditEntryBuilder<Category>): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(categories)
+        .where(eq(categories.id, id))
+        .returning();
+      if (deleted) {
+        await this.writeAuditEntry(tx, audit, deleted);
+      }
+      return !!deleted;
+    });
+  }
+
+  async getTags(): Promise<Tag[]> {
+    return await db.select().from(tags).orderBy(asc(tags.name));
+  }
+
+  // Order operations
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrdersByUserId(userId: number): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt));
+  }
+  
+  async getAllOrders(): Promise<(Order & { user: { id: number, username: string, displayName: string | null, email: string } })[]> {
+    return await db.query.orders.findMany({
+      with: {
+        user: {
+          columns: {
+            id: true,
+            username: true,
+            displayName: true,
+            email: true
+          }
+        }
+      },
+      orderBy: [desc(orders.createdAt)]
+    });
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [newOrder] = await db.insert(orders).values(order).returning();
+    return newOrder;
+  }
+
+  async updateOrder(id: number, orderData: UpdateOrder): Promise<Order | undefined> {
+    const [updatedOrder] = await db
+      .update(orders)
+      .set(orderData)
+      .where(eq(orders.id, id))
+      .returning();
+    return updatedOrder;
+  }
+
+  async getOrderWithItems(id: number): Promise<{order: Order, items: (OrderItem & {product: Product})[]} | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    
+    if (!order) return undefined;
+    
+    const items = await db.query.orderItems.findMany({
+      where: eq(orderItems.orderId, id),
+      with: {
+        product: true
+      }
+    });
+    
+    return {
+      order,
+      items
+    };
+  }
+
+  // Muda o status de um pedido validando a transição; cancelamento e rejeição
+  // devolvem pontos e estoque na mesma transação que registra o histórico.
+  async changeOrderStatus(id: number, status: OrderStatus, changedBy: number, note?: string, audit?: AuditEntryBuilder<Order>): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!order) return undefined;
+
+      if (!canTransitionOrderStatus(order.status, status)) {
+        throw new OrderStatusTransitionError(order.status, status);
+      }
+
+      if (REFUNDING_ORDER_STATUSES.includes(status)) {
+        await this.refundOrder(tx, order);
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: order.status,
+        toStatus: status,
+        changedBy,
+        note: note || null,
+      });
+
+      await this.writeAuditEntry(tx, audit, updatedOrder);
+      return updatedOrder;
+    });
+  }
+
+  // Devolve os pontos e o estoque de um pedido cancelado ou rejeitado
+  private async refundOrder(tx: Transaction, order: Order): Promise<void> {
+    // Os pontos voltam aos lotes que o pedido consumiu, com a mesma expiração (um lote já
+    // vencido expira na próxima execução). O que não saiu de lotes, como saldo anterior aos
+    // lotes ou pedidos sem registro de consumo, vira um novo lote sem expiração.
+    // Não é lançado para saldo congelado.
+    const consumptions = await tx
+      .select({ lotId: pointLotConsumptions.lotId, points: pointLotConsumptions.points })
+      .from(pointLotConsumptions)
+      .innerJoin(pointTransactions, eq(pointTransactions.id, pointLotConsumptions.debitId))
+      .where(and(
+        eq(pointTransactions.userId, order.userId),
+        eq(pointTransactions.transactionType, "spent"),
+        eq(pointTransactions.referenceId, order.id),
+      ));
+    const refundedUser = await this.grantPointsInTransaction(
+      tx,
+      order.userId,
+      order.totalPoints,
+      `Reembolso do Pedido #${order.id}`,
+      { referenceId: order.id, restoreLots: consumptions },
+    );
+    if (!refundedUser) {
+      throw new OrderRefundError("O funcionário está desativado: reative-o antes de cancelar ou rejeitar o pedido");
+    }
+
+    // Devolver o estoque (à variação pedida, quando houver)
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    for (const item of items) {
+      if (item.variantId !== null) {
+        await tx
+          .update(productVariants)
+          .set({ stock: sql`${productVariants.stock} + ${item.quantity}`, updatedAt: new Date() })
+          .where(eq(productVariants.id, item.variantId));
+      } else {
+        const [restocked] = await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${item.quantity}` })
+          .where(eq(products.id, item.productId))
+          .returning({ stock: products.stock });
+        if (restocked) {
+          await this.markWishlistBackInStock(tx, item.productId, restocked.stock - item.quantity, restocked.stock);
+        }
+      }
+    }
+    for (const productId of Array.from(new Set(items.map(item => item.productId)))) {
+      await this.syncVariantStock(tx, productId);
+    }
+  }
+
+  // Cancela, com reembolso, os pedidos do usuário que ainda podem ser cancelados
+  private async cancelOpenOrders(tx: Transaction, userId: number, changedBy: number): Promise<void> {
+    const openStatuses = ORDER_STATUSES.filter((status) => canTransitionOrderStatus(status, OrderStatusEnum.CANCELLED));
+    const openOrders = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.userId, userId), inArray(orders.status, openStatuses)))
+      .for("update");
+
+    for (const order of openOrders) {
+      await this.refundOrder(tx, order);
+      await tx
+        .update(orders)
+        .set({ status: OrderStatusEnum.CANCELLED, updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: OrderStatusEnum.CANCELLED,
+        changedBy,
+        note: "Cancelado na desativação do funcionário",
+      });
+    }
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    return await db.query.orderStatusHistory.findMany({
+      where: eq(orderStatusHistory.orderId, orderId),
+      with: {
+        changedByUser: {
+          columns: {
+            id: true,
+            username: true,
+            displayName: true
+          }
+        }
+      },
+      orderBy: [asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id)]
+    });
+  }
+
+  // Antes do ciclo de vida com etapas, pedidos concluídos ficavam como "completed",
+  // status que não existe mais: passam a "delivered", o estado final equivalente.
+  // Roda a cada inicialização; depois da primeira vez não encontra mais nada.
+  async migrateLegacyOrderStatuses(): Promise<number> {
+    const migrated = await db
+      .update(orders)
+      .set({ status: OrderStatusEnum.DELIVERED })
+      .where(sql`${orders.status} = 'completed'`)
+      .returning({ id: orders.id });
+    return migrated.length;
+  }
+
+  // Order items operations
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return await db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+  }
+
+  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
+    const [newItem] = await db.insert(orderItems).values(item).returning();
+    return newItem;
+  }
+
+  async createOrderItems(items: InsertOrderItem[]): Promise<OrderItem[]> {
+    return await db.insert(orderItems).values(items).returning();
+  }
+
+  // Finaliza um pedido em uma única transação: bloqueia usuário, produtos e
+  // variações, debita estoque e pontos com decrementos condicionais e registra o pedido.
+  // Itens vindos do carrinho são removidos dele na mesma transação, com o carrinho
+  // bloqueado, então um clique duplo não gera dois pedidos com as mesmas linhas.
+  async placeOrder(userId: number, items: PlaceOrderItem[]): Promise<{order: Order, items: (OrderItem & {product: Product})[]}> {
+    // Agrupar itens repetidos do mesmo produto e variação
+    const lines = new Map<string, { productId: number; variantId: number | null; quantity: number }>();
+    for (const item of items) {
+      const variantId = item.variantId ?? null;
+      const key = `${item.productId}:${variantId ?? ""}`;
+      const line = lines.get(key) || { productId: item.productId, variantId, quantity: 0 };
+      line.quantity += item.quantity;
+      lines.set(key, line);
+    }
+    const orderLines = Array.from(lines.values());
+    const productIds = Array.from(new Set(orderLines.map(line => line.productId))).sort((a, b) => a - b);
+
+    if (productIds.length === 0) {
+      throw new OrderPlacementError("O pedido deve conter ao menos um item", 400);
+    }
+
+    const cartItemIds = items.flatMap(item => item.cartItemId !== undefined ? [item.cartItemId] : []);
+
+    return await db.transaction(async (tx) => {
+      if (cartItemIds.length > 0) {
+        await this.removeOrderedCartItems(tx, userId, items, cartItemIds);
+      }
+
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      if (!user) {
+        throw new OrderPlacementError("Usuário não encontrado", 404);
+      }
+
+      // Bloquear produtos e variações sempre na mesma ordem para evitar deadlocks
+      const lockedProducts = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.id))
+        .for("update");
+      const productsById = new Map(lockedProducts.map(product => [product.id, product]));
+
+      const lockedVariants = await tx
+        .select()
+        .from(productVariants)
+        .where(inArray(productVariants.productId, productIds))
+        .orderBy(asc(productVariants.id))
+        .for("update");
+      const variantsById = new Map(lockedVariants.map(variant => [variant.id, variant]));
+      const productsWithVariants = new Set(lockedVariants.map(variant => variant.productId));
+
+      let totalPoints = 0;
+      for (const line of orderLines) {
+        const product = productsById.get(line.productId);
+        if (!product) {
+          throw new OrderPlacementError(`Produto ID ${line.productId} não encontrado`, 400);
+        }
+        if (!product.isActive) {
+          throw new OrderPlacementError(`Produto ${product.name} não está disponível`, 400);
+        }
+
+        const variant = line.variantId !== null ? variantsById.get(line.variantId) : undefined;
+        if (line.variantId === null && productsWithVariants.has(product.id)) {
+          throw new OrderPlacementError(`Escolha a variação de ${product.name}`, 400);
+        }
+        if (line.variantId !== null && (!variant || variant.productId !== product.id || !variant.isActive)) {
+          throw new OrderPlacementError(`Variação indisponível para ${product.name}`, 400);
+        }
+
+        totalPoints += variantPointsCost(product, variant) * line.quantity;
+      }
+
+      // Debitar estoque apenas se ainda houver quantidade suficiente
+      for (const line of orderLines) {
+        const product = productsById.get(line.productId)!;
+        if (line.variantId !== null) {
+          const [updated] = await tx
+            .update(productVariants)
+            .set({
+              stock: sql`${productVariants.stock} - ${line.quantity}`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(productVariants.id, line.variantId), gte(productVariants.stock, line.quantity)))
+            .returning();
+          if (!updated) {
+            const label = formatVariantLabel(variantsById.get(line.variantId)!.attributes);
+            throw new OrderPlacementError(`Estoque insuficiente para ${product.name} (${label})`);
+          }
+        } else {
+          const [updated] = await tx
+            .update(products)
+            .set({
+              stock: sql`${products.stock} - ${line.quantity}`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(products.id, line.productId), gte(products.stock, line.quantity)))
+            .returning();
+          if (!updated) {
+            throw new OrderPlacementError(`Estoque insuficiente para ${product.name}`);
+          }
+        }
+      }
+
+      // O estoque dos produtos com variações passa a ser a nova soma das variações
+      const updatedProducts = new Map<number, Product>();
+      for (const productId of productIds) {
+        const synced = await this.syncVariantStock(tx, productId);
+        const [product] = synced ? [synced] : await tx.select().from(products).where(eq(products.id, productId));
+        updatedProducts.set(productId, product);
+      }
+
+      // Debitar pontos apenas se o saldo ainda for suficiente
+      const [debitedUser] = await tx
+        .update(users)
+        .set({
+          points: sql`${users.points} - ${totalPoints}`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(users.id, userId), gte(users.points, totalPoints)))
+        .returning();
+      if (!debitedUser) {
+        throw new OrderPlacementError("Pontos insuficientes", 409, {
+          userPoints: user.points,
+          requiredPoints: totalPoints,
+        });
+      }
+
+      const [order] = await tx
+        .insert(orders)
+        .values({ userId, totalPoints, status: OrderStatusEnum.PENDING })
+        .returning();
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: OrderStatusEnum.PENDING,
+        changedBy: userId,
+      });
+
+      const newItems = await tx
+        .insert(orderItems)
+        .values(orderLines.map(line => {
+          const variant = line.variantId !== null ? variantsById.get(line.variantId)! : null;
+          return {
+            orderId: order.id,
+            productId: line.productId,
+            variantId: line.variantId,
+            variantLabel: variant ? formatVariantLabel(variant.attributes) : null,
+            quantity: line.quantity,
+            pointsCost: variantPointsCost(productsById.get(line.productId)!, variant),
+          };
+        }))
+        .returning();
+
+      const [debit] = await tx
+        .insert(pointTransactions)
+        .values({
+          userId,
+          points: -totalPoints,
+          description: `Pedido #${order.id}`,
+          transactionType: "spent",
+          referenceId: order.id,
+        })
+        .returning({ id: pointTransactions.id });
+
+      await this.consumePointLots(tx, userId, totalPoints, debit.id);
+
+      return {
+        order,
+        items: newItems.map(item => ({
+          ...item,
+          product: updatedProducts.get(item.productId)!,
+        })),
+      };
+    });
+  }
+
+  // Wishlist operations
+  async getWishlist(userId: number): Promise<WishlistEntry[]> {
+    const rows = await db.query.wishlistItems.findMany({
+      where: eq(wishlistItems.userId, userId),
+      orderBy: [desc(wishlistItems.createdAt), desc(wishlistItems.id)],
+      with: {
+        product: {
+          with: {
+            variants: { where: eq(productVariants.isActive, true) },
+          },
+        },
+      },
+    });
+
+    return rows.map(({ product: { variants, ...product }, ...item }) => ({
+      ...item,
+      product,
+      lowestPointsCost: variants.length > 0
+        ? Math.min(...variants.map((variant) => variantPointsCost(product, variant)))
+        : product.pointsCost,
+    }));
+  }
+
+  async addWishlistItem(userId: number, productId: number): Promise<WishlistItem> {
+    const [item] = await db
+      .insert(wishlistItems)
+      .values({ userId, productId })
+      .onConflictDoUpdate({
+        target: [wishlistItems.userId, wishlistItems.productId],
+        set: { userId },
+      })
+      .returning();
+    return item;
+  }
+
+  async removeWishlistItem(userId: number, productId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(wishlistItems)
+      .where(and(eq(wishlistItems.userId, userId), eq(wishlistItems.productId, productId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // O usuário viu os avisos de volta ao estoque
+  async acknowledgeWishlistRestocks(userId: number): Promise<void> {
+    await db
+      .update(wishlistItems)
+      .set({ backInStockAt: null })
+      .where(and(eq(wishlistItems.userId, userId), isNotNull(wishlistItems.backInStockAt)));
+  }
+
+  // Usuários ativos que têm o produto na lista de desejos
+  async getWishlistUserIds(productId: number): Promise<number[]> {
+    const rows = await db
+      .select({ userId: wishlistItems.userId })
+      .from(wishlistItems)
+      .innerJoin(users, eq(users.id, wishlistItems.userId))
+      .where(and(eq(wishlistItems.productId, productId), eq(users.isActive, true)));
+    return rows.map((row) => row.userId);
+  }
+
+  // Notification operations
+  async createNotifications(entries: InsertNotification[]): Promise<Notification[]> {
+    if (entries.length === 0) return [];
+    return await db
+      .insert(notifications)
+      .values(entries)
+      .returning();
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return await db.$count(notifications, and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Sem `ids`, marca todas as notificações do usuário como lidas
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Email outbox operations
+  // Retorna undefined quando já existe um e-mail com a mesma dedupeKey
+  async enqueueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined> {
+    const [queued] = await db
+      .insert(emailOutbox)
+      .values(email)
+      .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+      .returning();
+    return queued;
+  }
+
+  // Reserva os e-mails pendentes vencidos adiando a próxima tentativa por `leaseMs`:
+  // execuções concorrentes (outras instâncias) não pegam os mesmos e-mails, e um
+  // processo que caia no meio do envio os libera quando a reserva expira
+  async claimDueEmails(now: Date, limit: number, leaseMs: number): Promise<EmailOutboxEntry[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(
+          eq(emailOutbox.status, EmailStatusEnum.PENDING),
+          lte(emailOutbox.nextAttemptAt, now),
+        ))
+        .orderBy(asc(emailOutbox.nextAttemptAt), asc(emailOutbox.id))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return await tx
+        .update(emailOutbox)
+        .set({
+          attempts: sql`${emailOutbox.attempts} + 1`,
+          nextAttemptAt: new Date(now.getTime() + leaseMs),
+        })
+        .where(inArray(emailOutbox.id, due.map((email) => email.id)))
+        .returning();
+    });
+  }
+
+  // O corpo é apagado quando o e-mail sai da fila: pode conter uma senha temporária
+  // ou um link de redefinição de senha, que não devem ficar guardados no banco
+  async markEmailSent(id: number): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: EmailStatusEnum.SENT, sentAt: new Date(), lastError: null, bodyText: "", bodyHtml: "" })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Sem `nextAttemptAt`, desiste do e-mail (status "failed") e apaga o corpo, como no envio
+  async markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set(nextAttemptAt
+        ? { lastError: error, nextAttemptAt }
+        : { lastError: error, status: EmailStatusEnum.FAILED, bodyText: "", bodyHtml: "" })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Apaga o corpo de e-mails enviados ou abandonados que ainda o guardam; retorna quantos
+  async clearFinishedEmailBodies(): Promise<number> {
+    const cleared = await db
+      .update(emailOutbox)
+      .set({ bodyText: "", bodyHtml: "" })
+      .where(and(
+        inArray(emailOutbox.status, [EmailStatusEnum.SENT, EmailStatusEnum.FAILED]),
+        or(ne(emailOutbox.bodyText, ""), ne(emailOutbox.bodyHtml, "")),
+      ))
+      .returning({ id: emailOutbox.id });
+    return cleared.length;
+  }
+
+  // Cart operations
+  private async getOrCreateCart(userId: number): Promise<Cart> {
+    const [cart] = await db
+      .insert(carts)
+      .values({ userId })
+      .onConflictDoNothing({ target: carts.userId })
+      .returning();
+    if (cart) return cart;
+    
+    const [existing] = await db.select().from(carts).where(eq(carts.userId, userId));
+    return existing;
+  }
+
+  async getCart(userId: number): Promise<{cart: Cart, items: CartLine[]}> {
+    const cart = await this.getOrCreateCart(userId);
+    
+    const items = await db.query.cartItems.findMany({
+      where: eq(cartItems.cartId, cart.id),
+      with: {
+        product: {
+          with: {
+            variants: { orderBy: [asc(productVariants.id)] }
+          }
+        },
+        variant: true
+      },
+      orderBy: [asc(cartItems.createdAt)]
+    });
+    
+    return {
+      cart,
+      items: items.map(({ product: { variants, ...product }, ...item }) => {
+        const unitPointsCost = variantPointsCost(product, item.variant);
+        const availableStock = item.variant ? (item.variant.isActive ? item.variant.stock : 0) : product.stock;
+        return {
+          ...item,
+          product,
+          variantOptions: variants.filter(variant => variant.isActive),
+          variantRequired: variants.length > 0 && !item.variant,
+          unitPointsCost,
+          availableStock,
+          pointsCostChanged: unitPointsCost !== item.pointsCostAtAdd,
+          stockChanged: availableStock !== item.stockAtAdd,
+          insufficientStock: availableStock < item.quantity,
+        };
+      })
+    };
+  }
+
+  // Produtos com variações podem entrar no carrinho sem variação; ela é escolhida na finalização
+  async addCartItem(userId: number, productId: number, variantId: number | null, quantity: number): Promise<CartItem> {
+    const cart = await this.getOrCreateCart(userId);
+    const [product] = await db.select().from(products).where(eq(products.id, productId));
+    const [variant] = variantId !== null
+      ? await db.select().from(productVariants).where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+      : [];
+    if (variantId !== null && (!variant || !variant.isActive)) {
+      throw new ProductVariantError("Variação não encontrada", 404);
+    }
+    
+    // Adding a product that is already in the cart increments the quantity
+    // and refreshes the snapshot the change warnings are compared against
+    const pointsCostAtAdd = variantPointsCost(product, variant);
+    const stockAtAdd = variant ? variant.stock : product.stock;
+    const [item] = await db
+      .insert(cartItems)
+      .values({
+        cartId: cart.id,
+        productId,
+        variantId,
+        quantity,
+        pointsCostAtAdd,
+        stockAtAdd,
+      })
+      .onConflictDoUpdate({
+        target: [cartItems.cartId, cartItems.productId, cartItems.variantId],
+        set: {
+          quantity: sql`${cartItems.quantity} + ${quantity}`,
+          pointsCostAtAdd,
+          stockAtAdd,
+          updatedAt: new Date(),
+        }
+      })
+      .returning();
+    
+    await db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cart.id));
+    return item;
+  }
+
+  // Altera a quantidade e/ou a variação de uma linha. Escolher uma variação que
+  // já está em outra linha junta as duas.
+  async updateCartItem(userId: number, itemId: number, changes: CartItemChanges): Promise<CartItem | undefined> {
+    const cart = await this.getOrCreateCart(userId);
+    
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select()
+        .from(cartItems)
+        .where(and(eq(cartItems.id, itemId), eq(cartItems.cartId, cart.id)))
+        .for("update");
+      if (!item) return undefined;
+      
+      const quantity = changes.quantity ?? item.quantity;
+      if (changes.variantId === undefined || changes.variantId === item.variantId) {
+        const [updatedItem] = await tx
+          .update(cartItems)
+          .set({ quantity, updatedAt: new Date() })
+          .where(eq(cartItems.id, itemId))
+          .returning();
+        return updatedItem;
+      }
+      
+      const [variant] = await tx
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, changes.variantId), eq(productVariants.productId, item.productId)));
+      if (!variant || !variant.isActive) {
+        throw new ProductVariantError("Variação não encontrada", 404);
+      }
+      const [product] = await tx.select().from(products).where(eq(products.id, item.productId));
+      const snapshot = {
+        pointsCostAtAdd: variantPointsCost(product, variant),
+        stockAtAdd: variant.stock,
+        updatedAt: new Date(),
+      };
+      
+      const [sameVariantItem] = await tx
+        .select()
+        .from(cartItems)
+        .where(and(eq(cartItems.cartId, cart.id), eq(cartItems.variantId, variant.id)));
+      if (sameVariantItem) {
+        await tx.delete(cartItems).where(eq(cartItems.id, itemId));
+        const [mergedItem] = await tx
+          .update(cartItems)
+          .set({ ...snapshot, quantity: sameVariantItem.quantity + quantity })
+          .where(eq(cartItems.id, sameVariantItem.id))
+          .returning();
+        return mergedItem;
+      }
+      
+      const [updatedItem] = await tx
+        .update(cartItems)
+        .set({ ...snapshot, variantId: variant.id, quantity })
+        .where(eq(cartItems.id, itemId))
+        .returning();
+      return updatedItem;
+    });
+  }
+
+  async removeCartItem(userId: number, itemId: number): Promise<boolean> {
+    const cart = await this.getOrCreateCart(userId);
+    const [deleted] = await db
+      .delete(cartItems)
+      .where(and(eq(cartItems.id, itemId), eq(cartItems.cartId, cart.id)))
+      .returning();
+    return !!deleted;
+  }
+
+  async acknowledgeCartChanges(userId: number): Promise<void> {
+    const cart = await this.getOrCreateCart(userId);
+    await db
+      .update(cartItems)
+      .set({
+        pointsCostAtAdd: sql`coalesce(
+          (select ${productVariants.pointsCost} from ${productVariants} where ${productVariants.id} = ${cartItems.variantId}),
+          (select ${products.pointsCost} from ${products} where ${products.id} = ${cartItems.productId})
+        )`,
+        stockAtAdd: sql`coalesce(
+          (select case when ${productVariants.isActive} then ${productVariants.stock} else 0 end from ${productVariants} where ${productVariants.id} = ${cartItems.variantId}),
+          (select ${products.stock} from ${products} where ${products.id} = ${cartItems.productId})
+        )`,
+        updatedAt: new Date(),
+      })
+      .where(eq(cartItems.cartId, cart.id));
+  }
+
+  async clearCart(userId: number): Promise<void> {
+    const cart = await this.getOrCreateCart(userId);
+    await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+  }
+
+  // Remove do carrinho exatamente as linhas que entram no pedido. Se alguma já foi
+  // removida (finalização repetida) ou mudou desde a leitura do carrinho, o pedido é recusado;
+  // itens adicionados depois, em outra aba, continuam no carrinho.
+  private async removeOrderedCartItems(tx: Transaction, userId: number, items: PlaceOrderItem[], cartItemIds: number[]): Promise<void> {
+    const [cart] = await tx
+      .select()
+      .from(carts)
+      .where(eq(carts.userId, userId))
+      .for("update");
+
+    const removed = cart
+      ? await tx
+          .delete(cartItems)
+          .where(and(eq(cartItems.cartId, cart.id), inArray(cartItems.id, cartItemIds)))
+          .returning()
+      : [];
+    const removedById = new Map(removed.map(item => [item.id, item]));
+
+    const unchanged = items.every(item => {
+      if (item.cartItemId === undefined) return true;
+      const removedItem = removedById.get(item.cartItemId);
+      return !!removedItem
+        && removedItem.productId === item.productId
+        && removedItem.variantId === (item.variantId ?? null)
+        && removedItem.quantity === item.quantity;
+    });
+    if (removed.length !== cartItemIds.length || !unchanged) {
+      throw new OrderPlacementError("O carrinho foi alterado durante a finalização. Revise os itens e tente novamente", 409);
+    }
+  }
+
+  // Point transaction operations
+  async getPointTransactionsByUserId(userId: number): Promise<PointTransaction[]> {
+    return await db
+      .select()
+      .from(pointTransactions)
+      .where(eq(pointTransactions.userId, userId))
+      .orderBy(desc(pointTransactions.createdAt));
+  }
+
+  // Credita pontos (como um lote) ou debita pontos (consumindo lotes, do mais antigo
+  // para o mais novo) atualizando o saldo na mesma transação
+  async grantPoints(userId: number, points: number, description: string, options: GrantPointsOptions = {}, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const updatedUser = await this.grantPointsInTransaction(tx, userId, points, description, options);
+      if (updatedUser) {
+        await this.writeAuditEntry(tx, audit, updatedUser);
+      }
+      return updatedUser;
+    });
+  }
+
+  // Aplica todos os lançamentos de uma planilha em uma única transação: se qualquer
+  // linha falhar (usuário removido, saldo insuficiente) nada é gravado
+  async grantPointsBulk(entries: BulkPointEntry[], options: GrantPointsOptions = {}, audit?: AuditEntryBuilder<number>): Promise<number> {
+    return await db.transaction(async (tx) => {
+      for (const entry of entries) {
+        const updatedUser = await this.grantPointsInTransaction(tx, entry.userId, entry.points, entry.description, options);
+        if (!updatedUser) {
+          throw new BulkPointsError("usuário não encontrado ou desativado", entry.rowNumber, 404);
+        }
+        if (updatedUser.points < 0) {
+          throw new BulkPointsError(`saldo insuficiente para debitar ${-entry.points} xCoins`, entry.rowNumber);
+        }
+      }
+      await this.writeAuditEntry(tx, audit, entries.length);
+      return entries.length;
+    });
+  }
+
+  // Crédito feito por um gestor de unidade, pago pelo orçamento da unidade mais próxima
+  // do funcionário, subindo a hierarquia, que ele gerencia. A linha da unidade fica
+  // bloqueada durante a transação para que dois créditos simultâneos não estourem o orçamento
+  async grantPointsFromBudget(managerId: number, userId: number, points: number, description: string, options: GrantPointsOptions = {}, audit?: AuditEntryBuilder<User>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) return undefined;
+
+      const budgetUnit = user.unitId !== null
+        ? findBudgetUnit(await tx.select().from(units), user.unitId, managerId)
+        : undefined;
+      if (!budgetUnit) {
+        throw new PointsBudgetError("Você só pode creditar pontos para funcionários das unidades que gerencia", 403);
+      }
+
+      const [unit] = await tx.select().from(units).where(eq(units.id, budgetUnit.id)).for("update");
+      if (unit.pointsBudget === null) {
+        throw new PointsBudgetError(`A unidade ${unit.name} não tem orçamento de pontos definido`, 403);
+      }
+
+      const periodStart = getBudgetPeriodStart(unit.budgetPeriod);
+      const spent = (await this.getBudgetSpending(tx, [unit.id], periodStart)).get(unit.id) ?? 0;
+      const remaining = Math.max(unit.pointsBudget - spent, 0);
+      if (points > remaining) {
+        throw new PointsBudgetError(`Orçamento insuficiente na unidade ${unit.name}: restam ${remaining} xCoins`);
+      }
+
+      const updatedUser = await this.grantPointsInTransaction(tx, userId, points, description, {
+        ...options,
+        grantedBy: managerId,
+        budgetUnitId: unit.id,
+      });
+      if (updatedUser) {
+        await this.writeAuditEntry(tx, audit, updatedUser);
+      }
+      return updatedUser;
+    });
+  }
+
+  // Orçamento de cada unidade no período corrente; `managerId` restringe às unidades que ele gerencia
+  async getUnitBudgets(now: Date = new Date(), managerId?: number): Promise<UnitBudgetStatus[]> {
+    const rows = await db
+      .select({
+        unit: units,
+        manager: {
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+        },
+      })
+      .from(units)
+      .leftJoin(users, eq(users.id, units.managerId))
+      .where(managerId !== undefined ? eq(units.managerId, managerId) : undefined)
+      .orderBy(asc(units.name));
+
+    // Uma consulta por período em uso (no máximo mensal, trimestral e anual)
+    const spending = new Map<number, number>();
+    const unitsByPeriod = new Map<string, number[]>();
+    for (const { unit } of rows) {
+      unitsByPeriod.set(unit.budgetPeriod, [...(unitsByPeriod.get(unit.budgetPeriod) || []), unit.id]);
+    }
+    for (const [period, unitIds] of Array.from(unitsByPeriod)) {
+      const periodSpending = await this.getBudgetSpending(db, unitIds, getBudgetPeriodStart(period as Unit["budgetPeriod"], now));
+      periodSpending.forEach((spent, unitId) => spending.set(unitId, spent));
+    }
+
+    return rows.map(({ unit, manager }) => {
+      const spent = spending.get(unit.id) ?? 0;
+      return {
+        unitId: unit.id,
+        name: unit.name,
+        parentId: unit.parentId,
+        manager,
+        budget: unit.pointsBudget,
+        period: unit.budgetPeriod,
+        periodStart: getBudgetPeriodStart(unit.budgetPeriod, now),
+        spent,
+        remaining: unit.pointsBudget === null ? 0 : Math.max(unit.pointsBudget - spent, 0),
+      };
+    });
+  }
+
+  // Pontos creditados com o orçamento de cada unidade desde o início do período
+  private async getBudgetSpending(executor: Transaction | typeof db, unitIds: number[], since: Date): Promise<Map<number, number>> {
+    if (unitIds.length === 0) return new Map();
+
+    const rows = await executor
+      .select({
+        unitId: pointTransactions.budgetUnitId,
+        spent: sql<number>`cast(coalesce(sum(${pointTransactions.points}), 0) as integer)`,
+      })
+      .from(pointTransactions)
+      .where(and(
+        inArray(pointTransactions.budgetUnitId, unitIds),
+        gt(pointTransactions.points, 0),
+        gte(pointTransactions.createdAt, since),
+      ))
+      .groupBy(pointTransactions.budgetUnitId);
+    return new Map(rows.map((row) => [row.unitId!, row.spent]));
+  }
+
+  // Usuários desativados têm o saldo congelado: nada é lançado e o retorno é undefined
+  private async grantPointsInTransaction(tx: Transaction, userId: number, points: number, description: string, options: GrantPointsOptions = {}): Promise<User | undefined> {
+    const [updatedUser] = await tx
+      .update(users)
+      .set({
+        points: sql`${users.points} + ${points}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, userId), eq(users.isActive, true)))
+      .returning();
+    if (!updatedUser) return undefined;
+
+    const isCredit = points > 0;
+    const restoreLots = isCredit ? options.restoreLots ?? [] : [];
+    const restoredPoints = restoreLots.reduce((sum, lot) => sum + lot.points, 0);
+    const [entry] = await tx
+      .insert(pointTransactions)
+      .values({
+        userId,
+        points,
+        description,
+        transactionType: isCredit ? "earned" : "adjusted",
+        referenceId: options.referenceId ?? null,
+        grantedBy: options.grantedBy ?? null,
+        budgetUnitId: options.budgetUnitId ?? null,
+        remainingPoints: isCredit ? points - restoredPoints : null,
+        expiresAt: isCredit ? options.expiresAt ?? null : null,
+      })
+      .returning({ id: pointTransactions.id });
+
+    for (const lot of restoreLots) {
+      await tx
+        .update(pointTransactions)
+        .set({ remainingPoints: sql`${pointTransactions.remainingPoints} + ${lot.points}` })
+        .where(eq(pointTransactions.id, lot.lotId));
+    }
+
+    if (!isCredit) {
+      await this.consumePointLots(tx, userId, -points, entry.id);
+    }
+
+    return updatedUser;
+  }
+
+  // Consome `amount` pontos dos lotes em aberto do usuário, do mais antigo para o mais novo,
+  // registrando quanto o lançamento `debitId` tirou de cada lote.
+  // Saldo anterior aos lotes (sem rastreio) cobre o que faltar.
+  private async consumePointLots(tx: Transaction, userId: number, amount: number, debitId: number): Promise<void> {
+    if (amount <= 0) return;
+
+    const lots = await tx
+      .select()
+      .from(pointTransactions)
+      .where(and(
+        eq(pointTransactions.userId, userId),
+        eq(pointTransactions.transactionType, "earned"),
+        gt(pointTransactions.remainingPoints, 0),
+      ))
+      .orderBy(asc(pointTransactions.createdAt), asc(pointTransactions.id))
+      .for("update");
+
+    let pending = amount;
+    for (const lot of lots) {
+      if (pending <= 0) break;
+      const consumed = Math.min(lot.remainingPoints!, pending);
+      await tx
+        .update(pointTransactions)
+        .set({ remainingPoints: lot.remainingPoints! - consumed })
+        .where(eq(pointTransactions.id, lot.id));
+      await tx.insert(pointLotConsumptions).values({ lotId: lot.id, debitId, points: consumed });
+      pending -= consumed;
+    }
+  }
+
+  async getExpiringPoints(userId: number, until: Date): Promise<ExpiringPoints[]> {
+    const rows = await db
+      .select({
+        expiresAt: pointTransactions.expiresAt,
+        points: sql<number>`cast(sum(${pointTransactions.remainingPoints}) as integer)`,
+      })
+      .from(pointTransactions)
+      .where(and(
+        eq(pointTransactions.userId, userId),
+        eq(pointTransactions.transactionType, "earned"),
+        gt(pointTransactions.remainingPoints, 0),
+        isNotNull(pointTransactions.expiresAt),
+        lte(pointTransactions.expiresAt, until),
+      ))
+      .groupBy(pointTransactions.expiresAt)
+      .orderBy(asc(pointTransactions.expiresAt));
+
+    return rows.map(row => ({ expiresAt: row.expiresAt!, points: row.points }));
+  }
+
+  // Pontos de usuários ativos que expiram no intervalo, agrupados por usuário e data
+  async getExpiringPointsOfActiveUsers(from: Date, until: Date): Promise<UserExpiringPoints[]> {
+    const rows = await db
+      .select({
+        userId: pointTransactions.userId,
+        expiresAt: pointTransactions.expiresAt,
+        points: sql<number>`cast(sum(${pointTransactions.remainingPoints}) as integer)`,
+      })
+      .from(pointTransactions)
+      .innerJoin(users, eq(users.id, pointTransactions.userId))
+      .where(and(
+        eq(users.isActive, true),
+        eq(pointTransactions.transactionType, "earned"),
+        gt(pointTransactions.remainingPoints, 0),
+        gt(pointTransactions.expiresAt, from),
+        lte(pointTransactions.expiresAt, until),
+      ))
+      .groupBy(pointTransactions.userId, pointTransactions.expiresAt)
+      .orderBy(asc(pointTransactions.userId), asc(pointTransactions.expiresAt));
+
+    return rows.map(row => ({ userId: row.userId, expiresAt: row.expiresAt!, points: row.points }));
+  }
+
+  // Expira os lotes vencidos, registrando uma transação "expired" por lote.
+  // Cada lote é processado em sua própria transação e ignorado se já estiver
+  // bloqueado, então execuções concorrentes não expiram o mesmo lote duas vezes.
+  // Lotes de usuários desativados não expiram enquanto o saldo estiver congelado;
+  // os que venceram nesse período expiram na primeira execução após a reativação
+  async expireDuePoints(now: Date = new Date()): Promise<number> {
+    const dueLots = await db
+      .select({ id: pointTransactions.id })
+      .from(pointTransactions)
+      .innerJoin(users, eq(users.id, pointTransactions.userId))
+      .where(and(
+        eq(users.isActive, true),
+        eq(pointTransactions.transactionType, "earned"),
+        gt(pointTransactions.remainingPoints, 0),
+        isNotNull(pointTransactions.expiresAt),
+        lte(pointTransactions.expiresAt, now),
+      ))
+      .orderBy(asc(pointTransactions.expiresAt));
+
+    let expiredPoints = 0;
+    for (const { id } of dueLots) {
+      expiredPoints += await db.transaction(async (tx) => {
+        const [lot] = await tx
+          .select()
+          .from(pointTransactions)
+          .where(and(eq(pointTransactions.id, id), gt(pointTransactions.remainingPoints, 0)))
+          .for("update", { skipLocked: true });
+        if (!lot) return 0;
+
+        const [user] = await tx
+          .select()
+          .from(users)
+          .where(eq(users.id, lot.userId))
+          .for("update");
+        if (!user?.isActive) return 0;
+
+        // Nunca deixar o saldo negativo
+        const amount = Math.min(lot.remainingPoints!, Math.max(user?.points ?? 0, 0));
+
+        await tx
+          .update(pointTransactions)
+          .set({ remainingPoints: 0 })
+          .where(eq(pointTransactions.id, lot.id));
+
+        if (amount > 0) {
+          await tx
+            .update(users)
+            .set({
+              points: sql`${users.points} - ${amount}`,
+              updatedAt: new Date(),
+            })
+            .where(eq(users.id, lot.userId));
+
+          await tx.insert(pointTransactions).values({
+            userId: lot.userId,
+            points: -amount,
+            description: `Expiração de pontos: ${lot.description}`,
+            transactionType: "expired",
+            referenceId: lot.id,
+          });
+        }
+
+        return amount;
+      });
+    }
+
+    return expiredPoints;
+  }
+
+  // Compara o saldo de cada usuário com a soma do razão numa única consulta,
+  // para que lançamentos concorrentes não apareçam como divergência
+  async getPointsReconciliation(now: Date = new Date()): Promise<PointsReconciliationReport> {
+    const ledger = db
+      .select({
+        userId: pointTransactions.userId,
+        total: sql<number>`cast(sum(${pointTransactions.points}) as integer)`.as("total"),
+      })
+      .from(pointTransactions)
+      .groupBy(pointTransactions.userId)
+      .as("ledger");
+
+    const rows = await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        isActive: users.isActive,
+        balance: users.points,
+        ledgerTotal: sql<number>`coalesce(${ledger.total}, 0)`,
+      })
+      .from(users)
+      .leftJoin(ledger, eq(ledger.userId, users.id))
+      .orderBy(asc(users.id));
+
+    return {
+      checkedAt: now,
+      usersChecked: rows.length,
+      totalBalance: rows.reduce((sum, row) => sum + row.balance, 0),
+      totalLedger: rows.reduce((sum, row) => sum + row.ledgerTotal, 0),
+      discrepancies: rows
+        .filter((row) => row.balance !== row.ledgerTotal)
+        .map((row) => ({ ...row, difference: row.balance - row.ledgerTotal })),
+    };
+  }
+
+  // Faz o saldo e o razão conferirem. Com "balance" o saldo passa a ser a soma do razão
+  // e o lançamento de correção tem 0 pontos, só para registrar o acerto no histórico;
+  // com "ledger" a diferença é lançada no razão e o saldo que o funcionário vê não muda.
+  async postPointsCorrection(userId: number, target: PointsCorrectionTarget, description: string, correctedBy: number, audit?: AuditEntryBuilder<PointsCorrectionResult>): Promise<PointsCorrectionResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) return undefined;
+
+      const [{ total }] = await tx
+        .select({ total: sql<number>`cast(coalesce(sum(${pointTransactions.points}), 0) as integer)` })
+        .from(pointTransactions)
+        .where(eq(pointTransactions.userId, userId));
+      const difference = user.points - total;
+      if (difference === 0) {
+        throw new PointsCorrectionError("O saldo do usuário já confere com o razão de pontos");
+      }
+
+      const balance = target === "balance" ? total : user.points;
+      if (balance !== user.points) {
+        await tx.update(users).set({ points: balance }).where(eq(users.id, userId));
+      }
+
+      const [correction] = await tx
+        .insert(pointTransactions)
+        .values({
+          userId,
+          points: target === "balance" ? 0 : difference,
+          description,
+          transactionType: PointTransactionTypeEnum.CORRECTION,
+          grantedBy: correctedBy,
+        })
+        .returning();
+      const result = { correction, previousBalance: user.points, balance };
+      await this.writeAuditEntry(tx, audit, result);
+      return result;
+    });
+  }
+
+  // Envia pontos da cota mensal do remetente para um colega. As linhas dos dois
+  // ficam bloqueadas (sempre na ordem do id, para não haver deadlock) enquanto os
+  // limites são conferidos, então envios simultâneos não estouram nenhum deles.
+  // Os pontos recebidos não formam lote: não expiram e são gastos depois dos lotes.
+  async sendKudos(senderId: number, data: SendKudos, now: Date = new Date()): Promise<Kudos> {
+    if (data.recipientId === senderId) {
+      throw new KudosError("Não é possível enviar um reconhecimento para si mesmo", 400);
+    }
+
+    return await db.transaction(async (tx) => {
+      const participants = await tx
+        .select()
+        .from(users)
+        .where(inArray(users.id, [senderId, data.recipientId]))
+        .orderBy(asc(users.id))
+        .for("update");
+      const sender = participants.find((user) => user.id === senderId);
+      const recipient = participants.find((user) => user.id === data.recipientId);
+      if (!sender?.isActive) {
+        throw new KudosError("Usuário desativado", 403);
+      }
+      if (!recipient?.isActive) {
+        throw new KudosError("Colega não encontrado", 404);
+      }
+
+      const periodStart = startOfMonth(now);
+      const reciprocitySince = new Date(now.getTime() - KUDOS_POLICY.reciprocityWindowDays * 24 * 60 * 60 * 1000);
+
+      // Anticonluio: quem recebeu um reconhecimento não pode devolvê-lo ao mesmo colega logo em seguida
+      const receivedFromRecipient = await this.sumKudos(tx, and(
+        eq(kudos.senderId, recipient.id),
+        eq(kudos.recipientId, sender.id),
+        gte(kudos.createdAt, reciprocitySince),
+      )!);
+      if (receivedFromRecipient > 0) {
+        throw new KudosError(
+          `${recipient.displayName || recipient.username} reconheceu você nos últimos ${KUDOS_POLICY.reciprocityWindowDays} dias; ` +
+          "reconhecimentos entre as mesmas duas pessoas não podem ir e voltar"
+        );
+      }
+
+      const sent = await this.sumKudos(tx, and(eq(kudos.senderId, sender.id), gte(kudos.createdAt, periodStart))!);
+      const remaining = Math.max(KUDOS_POLICY.monthlyAllowance - sent, 0);
+      if (data.points > remaining) {
+        throw new KudosError(`Cota mensal insuficiente: restam ${remaining} xCoins para reconhecer colegas`);
+      }
+
+      const sentToRecipient = await this.sumKudos(tx, and(
+        eq(kudos.senderId, sender.id),
+        eq(kudos.recipientId, recipient.id),
+        gte(kudos.createdAt, periodStart),
+      )!);
+      if (sentToRecipient + data.points > KUDOS_POLICY.maxPerRecipientPerMonth) {
+        throw new KudosError(
+          `Você pode enviar até ${KUDOS_POLICY.maxPerRecipientPerMonth} xCoins por mês para o mesmo colega ` +
+          `(já enviou ${sentToRecipient})`
+        );
+      }
+
+      const received = await this.sumKudos(tx, and(eq(kudos.recipientId, recipient.id), gte(kudos.createdAt, periodStart))!);
+      if (received + data.points > KUDOS_POLICY.maxReceivedPerMonth) {
+        throw new KudosError(
+          `${recipient.displayName || recipient.username} já recebeu o máximo de reconhecimentos deste mês`
+        );
+      }
+
+      const [created] = await tx
+        .insert(kudos)
+        .values({ senderId: sender.id, recipientId: recipient.id, points: data.points, message: data.message, createdAt: now })
+        .returning();
+
+      await tx
+        .update(users)
+        .set({
+          points: sql`${users.points} + ${data.points}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, recipient.id));
+
+      // O lado do remetente fica no histórico com 0 pontos: a cota não faz parte do saldo
+      await tx.insert(pointTransactions).values([
+        {
+          userId: recipient.id,
+          points: data.points,
+          description: `Reconhecimento de ${sender.displayName || sender.username}: ${data.message}`,
+          transactionType: PointTransactionTypeEnum.TRANSFERRED,
+          referenceId: created.id,
+        },
+        {
+          userId: sender.id,
+          points: 0,
+          description: `Reconhecimento para ${recipient.displayName || recipient.username} (${data.points} xCoins da cota mensal)`,
+          transactionType: PointTransactionTypeEnum.TRANSFERRED,
+          referenceId: created.id,
+        },
+      ]);
+
+      return created;
+    });
+  }
+
+  // Reconhecimentos mais recentes primeiro; com `unitId`, os enviados ou recebidos
+  // por alguém da unidade ou de uma das subunidades dela
+  async getKudosFeed(query: KudosFeedQuery, limit: number): Promise<KudosFeedItem[]> {
+    const sender = alias(users, "sender");
+    const recipient = alias(users, "recipient");
+    const unitIds = query.unitId !== undefined ? getUnitSubtreeIds(await this.getUnits(), [query.unitId]) : undefined;
+    return await db
+      .select({
+        id: kudos.id,
+        senderId: kudos.senderId,
+        recipientId: kudos.recipientId,
+        points: kudos.points,
+        message: kudos.message,
+        createdAt: kudos.createdAt,
+        sender: {
+          id: sender.id,
+          username: sender.username,
+          displayName: sender.displayName,
+          unitId: sender.unitId,
+          profileImageUrl: sender.profileImageUrl,
+        },
+        recipient: {
+          id: recipient.id,
+          username: recipient.username,
+          displayName: recipient.displayName,
+          unitId: recipient.unitId,
+          profileImageUrl: recipient.profileImageUrl,
+        },
+      })
+      .from(kudos)
+      .innerJoin(sender, eq(sender.id, kudos.senderId))
+      .innerJoin(recipient, eq(recipient.id, kudos.recipientId))
+      .where(unitIds ? or(inArray(sender.unitId, unitIds), inArray(recipient.unitId, unitIds)) : undefined)
+      .orderBy(desc(kudos.createdAt), desc(kudos.id))
+      .limit(limit);
+  }
+
+  async getKudosAllowance(userId: number, now: Date = new Date()): Promise<KudosAllowance> {
+    const periodStart = startOfMonth(now);
+    const used = await this.sumKudos(db, and(eq(kudos.senderId, userId), gte(kudos.createdAt, periodStart))!);
+    return {
+      allowance: KUDOS_POLICY.monthlyAllowance,
+      used,
+      remaining: Math.max(KUDOS_POLICY.monthlyAllowance - used, 0),
+      periodStart,
+    };
+  }
+
+  // Colegas ativos que podem receber um reconhecimento do usuário
+  async getKudosColleagues(userId: number): Promise<KudosParticipant[]> {
+    return await db
+      .select({
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        unitId: users.unitId,
+        profileImageUrl: users.profileImageUrl,
+      })
+      .from(users)
+      .where(and(eq(users.isActive, true), ne(users.id, userId)))
+      .orderBy(asc(sql`coalesce(${users.displayName}, ${users.username})`));
+  }
+
+  private async sumKudos(executor: Transaction | typeof db, condition: SQL): Promise<number> {
+    const [row] = await executor
+      .select({ total: sql<number>`cast(coalesce(sum(${kudos.points}), 0) as integer)` })
+      .from(kudos)
+      .where(condition);
+    return row?.total ?? 0;
+  }
+
+  // Unit operations
+  async getUnits(): Promise<Unit[]> {
+    return await db.select().from(units).orderBy(asc(units.name));
+  }
+
+  async getUnitOptions(): Promise<UnitOption[]> {
+    return await db
+      .select({ id: units.id, name: units.name, parentId: units.parentId })
+      .from(units)
+      .orderBy(asc(units.name));
+  }
+
+  async getUnit(id: number): Promise<Unit | undefined> {
+    const [unit] = await db.select().from(units).where(eq(units.id, id));
+    return unit;
+  }
+
+  // Unidade informada pelo provedor de SSO: criada na hora, sem gestor nem orçamento,
+  // para que um administrador a encaixe na hierarquia depois
+  async findOrCreateUnit(name: string): Promise<Unit> {
+    const existing = await this.getUnitByName(db, name);
+    if (existing) return existing;
+
+    const [created] = await db.insert(units).values({ name: name.trim() }).onConflictDoNothing().returning();
+    return created ?? (await this.getUnitByName(db, name))!;
+  }
+
+  async createUnit(unitData: InsertUnit, audit?: AuditEntryBuilder<Unit>): Promise<Unit> {
+    return await db.transaction(async (tx) => {
+      await this.validateUnit(tx, undefined, unitData);
+      const [created] = await tx.insert(units).values(unitData).returning();
+      await this.writeAuditEntry(tx, audit, created);
+      return created;
+    });
+  }
+
+  async updateUnit(id: number, unitData: UpdateUnit, audit?: AuditEntryBuilder<Unit>): Promise<Unit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(units).where(eq(units.id, id)).for("update");
+      if (!existing) return undefined;
+
+      await this.validateUnit(tx, id, unitData);
+      const [updated] = await tx
+        .update(units)
+        .set({ ...unitData, updatedAt: new Date() })
+        .where(eq(units.id, id))
+        .returning();
+      await this.writeAuditEntry(tx, audit, updated);
+      return updated;
+    });
+  }
+
+  // Só unidades sem subunidades, funcionários ativos e regras de pontos podem ser
+  // excluídas; funcionários desativados ficam sem unidade
+  async deleteUnit(id: number, audit?: AuditEntryBuilder<Unit>): Promise<Unit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unit] = await tx.select().from(units).where(eq(units.id, id)).for("update");
+      if (!unit) return undefined;
+
+      const [child] = await tx.select({ id: units.id }).from(units).where(eq(units.parentId, id)).limit(1);
+      if (child) {
+        throw new UnitError("A unidade tem subunidades: mova-as antes de excluí-la");
+      }
+      const [member] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.unitId, id), eq(users.isActive, true)))
+        .limit(1);
+      if (member) {
+        throw new UnitError("A unidade tem funcionários ativos: mova-os antes de excluí-la");
+      }
+      const [rule] = await tx.select({ id: pointRules.id }).from(pointRules).where(eq(pointRules.unitId, id)).limit(1);
+      if (rule) {
+        throw new UnitError("A unidade é usada por premiações automáticas: altere-as antes de excluí-la");
+      }
+
+      const [deleted] = await tx.delete(units).where(eq(units.id, id)).returning();
+      await this.writeAuditEntry(tx, audit, deleted);
+      return deleted;
+    });
+  }
+
+  // Unidades gerenciadas pelo usuário e todas as subunidades delas
+  async getManagedUnitIds(managerId: number): Promise<number[]> {
+    const allUnits = await this.getUnits();
+    const managed = allUnits.filter((unit) => unit.managerId === managerId).map((unit) => unit.id);
+    return getUnitSubtreeIds(allUnits, managed);
+  }
+
+  // Leva as unidades em texto livre (users.unit e point_rules.unit) e o orçamento mensal
+  // dos gestores para a tabela de unidades. Pode ser repetida: só preenche o que está vazio.
+  // Os créditos feitos pelos gestores no mês corrente passam a contar no orçamento da unidade.
+  async migrateLegacyUnits(now: Date = new Date()): Promise<LegacyUnitMigrationResult> {
+    return await db.transaction(async (tx) => {
+      const result: LegacyUnitMigrationResult = {
+        unitsCreated: 0,
+        usersLinked: 0,
+        pointRulesLinked: 0,
+        managersAssigned: 0,
+        grantsCharged: 0,
+      };
+
+      const userUnits = await tx
+        .selectDistinct({ name: sql<string>`trim(${users.legacyUnit})` })
+        .from(users)
+        .where(and(isNull(users.unitId), sql`trim(coalesce(${users.legacyUnit}, '')) <> ''`));
+      const ruleUnits = await tx
+        .selectDistinct({ name: sql<string>`trim(${pointRules.legacyUnit})` })
+        .from(pointRules)
+        .where(and(isNull(pointRules.unitId), sql`trim(coalesce(${pointRules.legacyUnit}, '')) <> ''`));
+
+      // Nomes que só diferem em maiúsculas e minúsculas viram a mesma unidade
+      const unitsByName = new Map((await tx.select().from(units)).map((unit) => [unit.name.toLowerCase(), unit]));
+      for (const { name } of [...userUnits, ...ruleUnits]) {
+        if (unitsByName.has(name.toLowerCase())) continue;
+        const [created] = await tx.insert(units).values({ name }).returning();
+        unitsByName.set(name.toLowerCase(), created);
+        result.unitsCreated++;
+      }
+
+      for (const [name, unit] of Array.from(unitsByName)) {
+        const linkedUsers = await tx
+          .update(users)
+          .set({ unitId: unit.id })
+          .where(and(isNull(users.unitId), sql`lower(trim(${users.legacyUnit})) = ${name}`))
+          .returning({ id: users.id });
+        result.usersLinked += linkedUsers.length;
+
+        const linkedRules = await tx
+          .update(pointRules)
+          .set({ unitId: unit.id })
+          .where(and(isNull(pointRules.unitId), sql`lower(trim(${pointRules.legacyUnit})) = ${name}`))
+          .returning({ id: pointRules.id });
+        result.pointRulesLinked += linkedRules.length;
+      }
+
+      // O primeiro gestor de cada unidade assume a unidade com o orçamento mensal que tinha
+      const managers = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.role, UserRoleEnum.UNIT_MANAGER), isNotNull(users.unitId)))
+        .orderBy(asc(users.id));
+      for (const manager of managers) {
+        const [assigned] = await tx
+          .update(units)
+          .set({
+            managerId: manager.id,
+            pointsBudget: manager.legacyMonthlyPointsBudget,
+            budgetPeriod: BudgetPeriodEnum.MONTHLY,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(units.id, manager.unitId!), isNull(units.managerId)))
+          .returning();
+        if (!assigned) continue;
+        result.managersAssigned++;
+
+        const charged = await tx
+          .update(pointTransactions)
+          .set({ budgetUnitId: assigned.id })
+          .where(and(
+            eq(pointTransactions.grantedBy, manager.id),
+            isNull(pointTransactions.budgetUnitId),
+            gt(pointTransactions.points, 0),
+            gte(pointTransactions.createdAt, startOfMonth(now)),
+          ))
+          .returning({ id: pointTransactions.id });
+        result.grantsCharged += charged.length;
+      }
+
+      return result;
+    });
+  }
+
+  private async getUnitByName(executor: Transaction | typeof db, name: string): Promise<Unit | undefined> {
+    const [unit] = await executor
+      .select()
+      .from(units)
+      .where(sql`lower(${units.name}) = ${name.trim().toLowerCase()}`);
+    return unit;
+  }
+
+  // Nome único (sem diferenciar maiúsculas), unidade superior existente e fora da
+  // própria subárvore, gestor ativo com a função de gestor de unidade
+  private async validateUnit(tx: Transaction, id: number | undefined, unitData: UpdateUnit): Promise<void> {
+    if (unitData.name !== undefined) {
+      const sameName = await this.getUnitByName(tx, unitData.name);
+      if (sameName && sameName.id !== id) {
+        throw new UnitError("Já existe uma unidade com esse nome");
+      }
+    }
+
+    if (unitData.parentId) {
+      // Bloqueia a hierarquia inteira: duas alterações simultâneas não podem fechar um ciclo
+      const allUnits = await tx.select().from(units).for("update");
+      if (!allUnits.some((unit) => unit.id === unitData.parentId)) {
+        throw new UnitError("Unidade superior não encontrada", 400);
+      }
+      if (id !== undefined && wouldCreateUnitCycle(allUnits, id, unitData.parentId)) {
+        throw new UnitError("A unidade superior não pode ser a própria unidade nem uma de suas subunidades", 400);
+      }
+    }
+
+    if (unitData.managerId) {
+      const [manager] = await tx.select().from(users).where(eq(users.id, unitData.managerId));
+      if (!manager || !manager.isActive) {
+        throw new UnitError("Gestor não encontrado ou desativado", 400);
+      }
+      if (manager.role !== UserRoleEnum.UNIT_MANAGER) {
+        throw new UnitError("O gestor precisa ter a função Gestor de unidade", 400);
+      }
+    }
+  }
+
+  // Point rule operations
+  async getPointRules(): Promise<PointRule[]> {
+    return await db.select().from(pointRules).orderBy(asc(pointRules.name));
+  }
+
+  async getActivePointRules(): Promise<PointRule[]> {
+    return await db.select().from(pointRules).where(eq(pointRules.isActive, true));
+  }
+
+  async getPointRule(id: number): Promise<PointRule | undefined> {
+    const [rule] = await db.select().from(pointRules).where(eq(pointRules.id, id));
+    return rule;
+  }
+
+  async createPointRule(rule: InsertPointRule, audit?: AuditEntryBuilder<PointRule>): Promise<PointRule> {
+    return await db.transaction(async (tx) => {
+      const [newRule] = await tx.insert(pointRules).values(rule).returning();
+      await this.writeAuditEntry(tx, audit, newRule);
+      return newRule;
+    });
+  }
+
+  async updatePointRule(id: number, ruleData: UpdatePointRule, audit?: AuditEntryBuilder<PointRule>): Promise<PointRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedRule] = await tx
+        .update(pointRules)
+        .set({ ...ruleData, updatedAt: new Date() })
+        .where(eq(pointRules.id, id))
+        .returning();
+      if (updatedRule) {
+        await this.writeAuditEntry(tx, audit, updatedRule);
+      }
+      return updatedRule;
+    });
+  }
+
+  async deletePointRule(id: number, audit?: AuditEntryBuilder<PointRule>): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(pointRules)
+        .where(eq(pointRules.id, id))
+        .returning();
+      if (deleted) {
+        await this.writeAuditEntry(tx, audit, deleted);
+      }
+      return !!deleted;
+    });
+  }
+
+  // Concede o prêmio de uma regra uma única vez por usuário e período:
+  // o registro da execução e o crédito de pontos acontecem na mesma transação.
+  async applyPointRuleAward(rule: PointRule, userId: number, periodKey: string, points: number, description: string, expiresAt: Date | null): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [run] = await tx
+          .insert(pointRuleRuns)
+          .values({ ruleId: rule.id, userId, periodKey, points })
+          .onConflictDoNothing()
+          .returning();
+        if (!run) return false;
+
+        const updatedUser = await this.grantPointsInTransaction(tx, userId, points, description, {
+          expiresAt,
+          referenceId: rule.id,
+        });
+        // Usuário desativado: descartar também o registro da execução
+        if (!updatedUser) tx.rollback();
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,129 @@
+import { createHmac, randomBytes, createHash, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import type { TwoFactorSetup, User } from "@shared/schema";
+
+// TOTP (RFC 6238) com os parâmetros que todos os aplicativos autenticadores aceitam:
+// HMAC-SHA1, 6 dígitos, passos de 30 s
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Passos aceitos antes e depois do atual, para tolerar relógios levemente fora de hora
+const TOTP_WINDOW = 1;
+
+const ISSUER = "Proxxima Store";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function getTotpStep(now: Date): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// Passo de tempo em que o código é válido, ou null se não confere com nenhum da janela
+export function findTotpStep(secret: string, code: string, now: Date = new Date()): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const currentStep = getTotpStep(now);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    const expected = generateTotpCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Códigos de recuperação são comparados sem hífen e sem diferenciar maiúsculas
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Novos códigos de recuperação (exibidos uma única vez) e os hashes a gravar
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Gera um segredo novo (ainda não confirmado) e os dados para cadastrá-lo no aplicativo
+export async function startTwoFactorSetup(user: Pick<User, "id" | "username">): Promise<TwoFactorSetup> {
+  const secret = base32Encode(randomBytes(20));
+  await storage.savePendingTwoFactorSecret(user.id, secret);
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+// Confere o código do segundo fator: um código TOTP do segredo confirmado (cada
+// passo de tempo só vale uma vez) ou um código de recuperação ainda não usado
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<"totp" | "recovery" | null> {
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const secret = await storage.getTwoFactorSecret(userId);
+    if (!secret?.confirmedAt) return null;
+    const step = findTotpStep(secret.secret, trimmed);
+    if (step === null) return null;
+    return (await storage.consumeTotpStep(userId, step)) ? "totp" : null;
+  }
+
+  return (await storage.useRecoveryCode(userId, hashRecoveryCode(trimmed))) ? "recovery" : null;
+}
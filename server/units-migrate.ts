@@ -0,0 +1,26 @@
+// Migração das unidades em texto livre: npm run units:migrate
+//
+// Antes da tabela de unidades, users.unit e point_rules.unit eram texto livre e o
+// orçamento mensal ficava no cadastro do gestor. Cria uma unidade para cada nome
+// usado, vincula usuários e regras a ela e torna cada gestor responsável pela
+// própria unidade, com o orçamento que tinha. Rodar depois do db:push; pode ser
+// repetida sem efeito sobre o que já foi migrado.
+import { storage } from "./storage";
+import { pool } from "./db";
+
+async function main() {
+  const result = await storage.migrateLegacyUnits();
+
+  console.log(`Unidades criadas: ${result.unitsCreated}`);
+  console.log(`Usuários vinculados a uma unidade: ${result.usersLinked}`);
+  console.log(`Premiações automáticas vinculadas a uma unidade: ${result.pointRulesLinked}`);
+  console.log(`Gestores definidos como responsáveis pela unidade: ${result.managersAssigned}`);
+  console.log(`Créditos do mês lançados no orçamento das unidades: ${result.grantsCharged}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Erro na migração das unidades:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
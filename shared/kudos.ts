@@ -0,0 +1,23 @@
+// Peer recognition limits, shared by the server (enforcement) and the client (send form and allowance)
+export type KudosPolicy = {
+  // Points each user may give away per calendar month. The allowance is not part of
+  // the spendable balance: giving doesn't debit the sender, and unused points don't carry over.
+  monthlyAllowance: number;
+  maxPerKudos: number;
+  // Most a sender may give the same colleague per month
+  maxPerRecipientPerMonth: number;
+  // Most a user may receive from all colleagues per month
+  maxReceivedPerMonth: number;
+  // Anti-collusion: a colleague who recognized you in this window can't be recognized back
+  reciprocityWindowDays: number;
+  maxMessageLength: number;
+};
+
+export const KUDOS_POLICY: KudosPolicy = {
+  monthlyAllowance: 100,
+  maxPerKudos: 50,
+  maxPerRecipientPerMonth: 50,
+  maxReceivedPerMonth: 300,
+  reciprocityWindowDays: 30,
+  maxMessageLength: 280,
+};
@@ -0,0 +1,70 @@
+// Order lifecycle state machine, shared by the server (enforcement) and the client (labels and valid actions)
+
+export const OrderStatusEnum = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  SEPARATED: "separated",
+  READY_FOR_PICKUP: "ready_for_pickup",
+  DELIVERED: "delivered",
+  CANCELLED: "cancelled",
+  REJECTED: "rejected",
+} as const;
+
+export const ORDER_STATUSES = [
+  OrderStatusEnum.PENDING,
+  OrderStatusEnum.APPROVED,
+  OrderStatusEnum.SEPARATED,
+  OrderStatusEnum.READY_FOR_PICKUP,
+  OrderStatusEnum.DELIVERED,
+  OrderStatusEnum.CANCELLED,
+  OrderStatusEnum.REJECTED,
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed transitions from each status; terminal statuses have none
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: [OrderStatusEnum.APPROVED, OrderStatusEnum.REJECTED, OrderStatusEnum.CANCELLED],
+  approved: [OrderStatusEnum.SEPARATED, OrderStatusEnum.CANCELLED],
+  separated: [OrderStatusEnum.READY_FOR_PICKUP, OrderStatusEnum.CANCELLED],
+  ready_for_pickup: [OrderStatusEnum.DELIVERED, OrderStatusEnum.CANCELLED],
+  delivered: [],
+  cancelled: [],
+  rejected: [],
+};
+
+// Statuses that give points and stock back to the employee
+export const REFUNDING_ORDER_STATUSES: readonly OrderStatus[] = [
+  OrderStatusEnum.CANCELLED,
+  OrderStatusEnum.REJECTED,
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pendente",
+  approved: "Aprovado",
+  separated: "Separado",
+  ready_for_pickup: "Pronto para retirada",
+  delivered: "Entregue",
+  cancelled: "Cancelado",
+  rejected: "Rejeitado",
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getNextOrderStatuses(from: OrderStatus): readonly OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from] ?? [];
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
+
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+  return getNextOrderStatuses(status).length === 0;
+}
+
+export function formatOrderStatus(status: string): string {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status;
+}
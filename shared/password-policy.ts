@@ -0,0 +1,107 @@
+// Password strength policy, shared by the server (enforcement) and the client (live checklist in the forms)
+import { z } from "zod";
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // Recent passwords that can't be reused, counting the current one (0 disables the check).
+  // Checked only by the server, which keeps the password history.
+  historySize: number;
+};
+
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  historySize: 5,
+};
+
+export type PasswordRuleId = "minLength" | "lowercase" | "uppercase" | "digit" | "symbol" | "notUsername";
+
+export type PasswordRuleResult = {
+  id: PasswordRuleId;
+  label: string; // Checklist item shown in the forms
+  message: string; // Validation error when the rule isn't met
+  met: boolean;
+};
+
+// Letters with case (accented ones included) change when the case is switched
+const hasLowercase = (password: string) => password !== password.toUpperCase();
+const hasUppercase = (password: string) => password !== password.toLowerCase();
+const hasSymbol = (password: string) =>
+  Array.from(password).some((char) => char.toLowerCase() === char.toUpperCase() && !/[\d\s]/.test(char));
+
+// Rules of the policy evaluated against a password, in display order. The username
+// rule is only evaluated when the username is known.
+export function checkPasswordPolicy(
+  password: string,
+  username?: string | null,
+  policy: PasswordPolicy = PASSWORD_POLICY,
+): PasswordRuleResult[] {
+  const rules: PasswordRuleResult[] = [{
+    id: "minLength",
+    label: `Pelo menos ${policy.minLength} caracteres`,
+    message: `A senha deve ter pelo menos ${policy.minLength} caracteres`,
+    met: password.length >= policy.minLength,
+  }];
+  if (policy.requireLowercase) {
+    rules.push({ id: "lowercase", label: "Uma letra minúscula", message: "A senha deve ter uma letra minúscula", met: hasLowercase(password) });
+  }
+  if (policy.requireUppercase) {
+    rules.push({ id: "uppercase", label: "Uma letra maiúscula", message: "A senha deve ter uma letra maiúscula", met: hasUppercase(password) });
+  }
+  if (policy.requireDigit) {
+    rules.push({ id: "digit", label: "Um número", message: "A senha deve ter um número", met: /\d/.test(password) });
+  }
+  if (policy.requireSymbol) {
+    rules.push({ id: "symbol", label: "Um símbolo (ex.: ! @ # $)", message: "A senha deve ter um símbolo", met: hasSymbol(password) });
+  }
+  if (username) {
+    rules.push({
+      id: "notUsername",
+      label: "Diferente do nome de usuário",
+      message: "A senha não pode ser igual ao nome de usuário",
+      met: password.trim().toLowerCase() !== username.trim().toLowerCase(),
+    });
+  }
+  return rules;
+}
+
+// Messages of the rules the password doesn't meet; empty when it's valid
+export function getPasswordPolicyErrors(
+  password: string,
+  username?: string | null,
+  policy: PasswordPolicy = PASSWORD_POLICY,
+): string[] {
+  return checkPasswordPolicy(password, username, policy)
+    .filter((rule) => !rule.met)
+    .map((rule) => rule.message);
+}
+
+// Password field following the policy (without the username rule)
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of getPasswordPolicyErrors(password)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+// Object-level refinement that also checks the password against the username of the
+// same form. Empty passwords are skipped, so it also fits "leave blank to keep" fields.
+export function refinePasswordNotUsername<T>(
+  passwordField: keyof T & string,
+  getUsername: (data: T) => string | null | undefined,
+) {
+  return (data: T, ctx: z.RefinementCtx) => {
+    const password = data[passwordField];
+    if (typeof password !== "string" || !password) return;
+    const usernameRule = checkPasswordPolicy(password, getUsername(data)).find((rule) => rule.id === "notUsername");
+    if (usernameRule && !usernameRule.met) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: usernameRule.message, path: [passwordField] });
+    }
+  };
+}
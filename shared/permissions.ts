@@ -0,0 +1,73 @@
+// Role-based access control, shared by the server (route guards) and the client (admin menu and routes)
+import type { UserRole } from "./schema";
+
+export const PermissionEnum = {
+  USERS_READ: "users.read",
+  USERS_READ_UNIT: "users.read_unit", // Only users of the units they manage
+  USERS_MANAGE: "users.manage",
+  POINTS_GRANT: "points.grant",
+  POINTS_GRANT_UNIT: "points.grant_unit", // Only to the units they manage, within the unit budget
+  POINTS_LEDGER_READ: "points.ledger_read", // Reconciliation of balances against the ledger
+  POINT_RULES_READ: "point_rules.read",
+  POINT_RULES_MANAGE: "point_rules.manage",
+  CATALOG_READ: "catalog.read",
+  CATALOG_MANAGE: "catalog.manage",
+  ORDERS_READ: "orders.read",
+  ORDERS_FULFIL: "orders.fulfil",
+  AUDIT_READ: "audit.read",
+  UNITS_READ: "units.read", // Unit hierarchy and budget dashboard
+  UNITS_MANAGE: "units.manage",
+} as const;
+
+export type Permission = typeof PermissionEnum[keyof typeof PermissionEnum];
+
+export const PERMISSIONS = Object.values(PermissionEnum) as Permission[];
+
+// Permissions granted by each role; employees only use the store
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  operator: [
+    PermissionEnum.CATALOG_READ,
+    PermissionEnum.CATALOG_MANAGE,
+    PermissionEnum.ORDERS_READ,
+    PermissionEnum.ORDERS_FULFIL,
+  ],
+  unit_manager: [
+    PermissionEnum.USERS_READ_UNIT,
+    PermissionEnum.POINTS_GRANT_UNIT,
+  ],
+  auditor: [
+    PermissionEnum.USERS_READ,
+    PermissionEnum.POINTS_LEDGER_READ,
+    PermissionEnum.POINT_RULES_READ,
+    PermissionEnum.CATALOG_READ,
+    PermissionEnum.ORDERS_READ,
+    PermissionEnum.AUDIT_READ,
+    PermissionEnum.UNITS_READ,
+  ],
+  employee: [],
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrador",
+  operator: "Operador da loja",
+  unit_manager: "Gestor de unidade",
+  auditor: "Auditor",
+  employee: "Funcionário",
+};
+
+export function formatUserRole(role: UserRole): string {
+  return ROLE_LABELS[role] ?? role;
+}
+
+// True when the role grants at least one of the given permissions
+export function hasPermission(user: { role: UserRole } | null | undefined, ...permissions: Permission[]): boolean {
+  if (!user) return false;
+  const granted = ROLE_PERMISSIONS[user.role] ?? [];
+  return permissions.some((permission) => granted.includes(permission));
+}
+
+// Roles with access to some part of the admin area
+export function isStaffRole(role: UserRole): boolean {
+  return (ROLE_PERMISSIONS[role] ?? []).length > 0;
+}
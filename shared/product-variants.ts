@@ -0,0 +1,15 @@
+// Helpers for product variants, shared by the server (order snapshots) and the client (labels)
+
+type VariantLike = { attributes: Record<string, string>; pointsCost: number | null };
+
+// "Tamanho: M / Cor: Azul"
+export function formatVariantLabel(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(" / ");
+}
+
+// Unit cost of a product, taking the variant override into account
+export function variantPointsCost(product: { pointsCost: number }, variant: VariantLike | null | undefined): number {
+  return variant?.pointsCost ?? product.pointsCost;
+}
@@ -1,14 +1,30 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, unique, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, decimal, unique, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { ORDER_STATUSES, OrderStatusEnum } from "./order-status";
+import { passwordSchema } from "./password-policy";
+import { KUDOS_POLICY } from "./kudos";
 
 // Enums
 export const UserRoleEnum = {
   ADMIN: "admin",
+  OPERATOR: "operator", // Store operator: catalog and order fulfilment
+  UNIT_MANAGER: "unit_manager", // Grants points to the units they manage, out of the unit budget
+  AUDITOR: "auditor", // Read-only access to the admin area
   EMPLOYEE: "employee",
 } as const;
 
+export const USER_ROLES = [
+  UserRoleEnum.ADMIN,
+  UserRoleEnum.OPERATOR,
+  UserRoleEnum.UNIT_MANAGER,
+  UserRoleEnum.AUDITOR,
+  UserRoleEnum.EMPLOYEE,
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
 // Users Table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -16,17 +32,271 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email").notNull(),
   displayName: text("display_name"),
-  role: text("role", { enum: ["admin", "employee"] }).notNull().default(UserRoleEnum.EMPLOYEE),
+  role: text("role", { enum: USER_ROLES }).notNull().default(UserRoleEnum.EMPLOYEE),
   points: integer("points").notNull().default(0),
-  unit: text("unit"),
+  unitId: integer("unit_id").references((): AnyPgColumn => units.id, { onDelete: "set null" }),
+  // Free-text unit and manager budget from before the units table. Only read by
+  // `npm run units:migrate`, which moves them into units; drop once it has run everywhere
+  legacyUnit: text("unit"),
+  legacyMonthlyPointsBudget: integer("monthly_points_budget"),
   profileImageUrl: text("profile_image_url"),
+  birthDate: date("birth_date"), // YYYY-MM-DD
+  hireDate: date("hire_date"), // YYYY-MM-DD
+  isActive: boolean("is_active").notNull().default(true), // Inactive users can't log in
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Blocks the app until the user picks a new password
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false), // TOTP required at login (mandatory for admins)
+  deactivatedAt: timestamp("deactivated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // User Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   orders: many(orders),
+  unit: one(units, {
+    fields: [users.unitId],
+    references: [units.id],
+    relationName: "unitMembers"
+  }),
+  managedUnits: many(units, { relationName: "unitManager" }),
+  kudosSent: many(kudos, { relationName: "kudosSent" }),
+  kudosReceived: many(kudos, { relationName: "kudosReceived" }),
+}));
+
+// Budget periods of the units (calendar periods, server time)
+export const BudgetPeriodEnum = {
+  MONTHLY: "monthly",
+  QUARTERLY: "quarterly",
+  YEARLY: "yearly",
+} as const;
+
+export const BUDGET_PERIODS = [
+  BudgetPeriodEnum.MONTHLY,
+  BudgetPeriodEnum.QUARTERLY,
+  BudgetPeriodEnum.YEARLY,
+] as const;
+
+// Units Table (organizational hierarchy). The manager grants points to the employees
+// of the unit and of its sub-units out of the unit's points budget for each period
+export const units = pgTable("units", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => units.id, { onDelete: "set null" }),
+  managerId: integer("manager_id").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  pointsBudget: integer("points_budget"), // Points the manager may grant per period (null = no budget)
+  budgetPeriod: text("budget_period", { enum: BUDGET_PERIODS }).notNull().default(BudgetPeriodEnum.MONTHLY),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Units Relations
+export const unitsRelations = relations(units, ({ one, many }) => ({
+  parent: one(units, {
+    fields: [units.parentId],
+    references: [units.id],
+    relationName: "unitHierarchy"
+  }),
+  children: many(units, { relationName: "unitHierarchy" }),
+  manager: one(users, {
+    fields: [units.managerId],
+    references: [users.id],
+    relationName: "unitManager"
+  }),
+  members: many(users, { relationName: "unitMembers" }),
+}));
+
+// Password Reset Tokens Table (single-use links sent by email; only the SHA-256 of the token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Password History Table (hashes of replaced passwords, so recent ones can't be reused; see password-policy.ts)
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Two-Factor Secrets Table (TOTP secret of each user; kept apart from users so it never reaches the client)
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32
+  confirmedAt: timestamp("confirmed_at"), // null while the enrollment wasn't confirmed with a code
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so a code can't be replayed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Two-Factor Recovery Codes Table (single-use codes for a lost authenticator; only the SHA-256 is stored)
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// User Identities Table (accounts at the corporate identity provider linked to a user, for single sign-on)
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  issuer: text("issuer").notNull(), // OIDC issuer identifier
+  subject: text("subject").notNull(), // `sub` claim: stable id of the account at the issuer
+  email: text("email"), // Email at the issuer when the identity was last used
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  issuerSubjectUnique: unique().on(table.issuer, table.subject),
+}));
+
+// User Identities Relations
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id]
+  }),
+}));
+
+// Login Throttles Table (failed login attempts per username and per IP, for backoff and temporary lockout)
+export const LoginThrottleScopeEnum = {
+  USERNAME: "username",
+  IP: "ip",
+} as const;
+
+export const LOGIN_THROTTLE_SCOPES = [
+  LoginThrottleScopeEnum.USERNAME,
+  LoginThrottleScopeEnum.IP,
+] as const;
+
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  scope: text("scope", { enum: LOGIN_THROTTLE_SCOPES }).notNull(),
+  key: text("key").notNull(), // Lowercased username or client IP
+  failures: integer("failures").notNull().default(0), // Consecutive failures; reset by a successful login or an admin unlock
+  lastFailureAt: timestamp("last_failure_at").notNull().defaultNow(),
+}, (table) => ({
+  scopeKeyUnique: unique().on(table.scope, table.key),
+}));
+
+// Login Events Table (every login attempt, successful or not, for auditing)
+export const LoginFailureReasonEnum = {
+  INVALID_CREDENTIALS: "invalid_credentials",
+  INACTIVE: "inactive",
+  INVALID_TWO_FACTOR_CODE: "invalid_two_factor_code",
+  THROTTLED: "throttled", // Attempt made while waiting for the backoff delay
+  LOCKED: "locked",
+  PASSWORD_LOGIN_DISABLED: "password_login_disabled", // Employee password login while only SSO is allowed for them
+  SSO_REJECTED: "sso_rejected", // The identity provider account couldn't be matched or provisioned
+} as const;
+
+export const LOGIN_FAILURE_REASONS = [
+  LoginFailureReasonEnum.INVALID_CREDENTIALS,
+  LoginFailureReasonEnum.INACTIVE,
+  LoginFailureReasonEnum.INVALID_TWO_FACTOR_CODE,
+  LoginFailureReasonEnum.THROTTLED,
+  LoginFailureReasonEnum.LOCKED,
+  LoginFailureReasonEnum.PASSWORD_LOGIN_DISABLED,
+  LoginFailureReasonEnum.SSO_REJECTED,
+] as const;
+
+export const LoginMethodEnum = {
+  PASSWORD: "password",
+  SSO: "sso",
+} as const;
+
+export const LOGIN_METHODS = [
+  LoginMethodEnum.PASSWORD,
+  LoginMethodEnum.SSO,
+] as const;
+
+export const loginEvents = pgTable("login_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // null when the username doesn't exist
+  username: text("username").notNull(), // As typed in the login form (the provisioned username for SSO)
+  method: text("method", { enum: LOGIN_METHODS }).notNull().default(LoginMethodEnum.PASSWORD),
+  success: boolean("success").notNull(),
+  failureReason: text("failure_reason", { enum: LOGIN_FAILURE_REASONS }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Login Events Relations
+export const loginEventsRelations = relations(loginEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [loginEvents.userId],
+    references: [users.id]
+  }),
+}));
+
+// Audit Log Table (append-only trail of the changes made in the admin area; rows are never updated or deleted)
+export const AuditEntityEnum = {
+  USER: "user",
+  LOGIN_LOCKOUT: "login_lockout",
+  POINTS: "points",
+  POINT_RULE: "point_rule",
+  PRODUCT: "product",
+  PRODUCT_VARIANT: "product_variant",
+  PRODUCT_IMAGE: "product_image",
+  CATEGORY: "category",
+  ORDER: "order",
+  UNIT: "unit",
+} as const;
+
+export const AUDIT_ENTITIES = [
+  AuditEntityEnum.USER,
+  AuditEntityEnum.LOGIN_LOCKOUT,
+  AuditEntityEnum.POINTS,
+  AuditEntityEnum.POINT_RULE,
+  AuditEntityEnum.PRODUCT,
+  AuditEntityEnum.PRODUCT_VARIANT,
+  AuditEntityEnum.PRODUCT_IMAGE,
+  AuditEntityEnum.CATEGORY,
+  AuditEntityEnum.ORDER,
+  AuditEntityEnum.UNIT,
+] as const;
+
+// Append-only: triggers installed at startup (storage.protectAuditLog) reject UPDATE, DELETE and TRUNCATE
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // No ON DELETE action: the triggers would reject it
+  actorName: text("actor_name").notNull(), // Username at the time of the action, kept if the user is renamed
+  action: text("action").notNull(), // "<entity>.<verb>", e.g. "product.update"
+  entityType: text("entity_type", { enum: AUDIT_ENTITIES }).notNull(),
+  entityId: integer("entity_id"), // null for actions over many entities (imports, bulk grants)
+  description: text("description"),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}), // Only the fields that changed
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Categories Table
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Categories Relations
+export const categoriesRelations = relations(categories, ({ many }) => ({
+  products: many(products),
+}));
+
+// Tags Table
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // Stored lowercase
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tags Relations
+export const tagsRelations = relations(tags, ({ many }) => ({
+  productTags: many(productTags),
 }));
 
 // Products Table
@@ -35,16 +305,86 @@ export const products = pgTable("products", {
   name: text("name").notNull(),
   description: text("description"),
   pointsCost: integer("points_cost").notNull(),
+  stock: integer("stock").notNull().default(0), // For products with variants: sum of the active variants' stock
+  imageUrl: text("image_url"), // Thumbnail of the primary product image (used by cart and order views)
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "set null" }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Product Variants Table (attribute combinations such as size and color, each with its own stock)
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  attributes: jsonb("attributes").$type<Record<string, string>>().notNull(), // e.g. { "Tamanho": "M", "Cor": "Azul" }
   stock: integer("stock").notNull().default(0),
-  imageUrl: text("image_url"),
+  pointsCost: integer("points_cost"), // Overrides product.pointsCost when set
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  productAttributesUnique: unique("product_variants_product_attributes_unique").on(table.productId, table.attributes),
+}));
+
+// Product Variants Relations
+export const productVariantsRelations = relations(productVariants, ({ one }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id]
+  }),
+}));
+
+// Product Images Table (gallery; files are resized to WebP at upload time)
+export const productImages = pgTable("product_images", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  thumbnailUrl: text("thumbnail_url").notNull(), // Square crop for cards and lists
+  detailUrl: text("detail_url").notNull(), // Larger size, aspect ratio preserved
+  position: integer("position").notNull().default(0), // Display order, starting at 0
+  isPrimary: boolean("is_primary").notNull().default(false), // Exactly one per product that has images
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Product Images Relations
+export const productImagesRelations = relations(productImages, ({ one }) => ({
+  product: one(products, {
+    fields: [productImages.productId],
+    references: [products.id]
+  }),
+}));
+
+// Product Tags Table (many-to-many between products and tags)
+export const productTags = pgTable("product_tags", {
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.productId, table.tagId] }),
+}));
+
+// Product Tags Relations
+export const productTagsRelations = relations(productTags, ({ one }) => ({
+  product: one(products, {
+    fields: [productTags.productId],
+    references: [products.id]
+  }),
+  tag: one(tags, {
+    fields: [productTags.tagId],
+    references: [tags.id]
+  }),
+}));
+
 // Products Relations
-export const productsRelations = relations(products, ({ many }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
+  category: one(categories, {
+    fields: [products.categoryId],
+    references: [categories.id]
+  }),
+  productTags: many(productTags),
+  variants: many(productVariants),
+  images: many(productImages),
   orderItems: many(orderItems),
+  wishlistItems: many(wishlistItems),
 }));
 
 // Orders Table
@@ -52,7 +392,7 @@ export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   totalPoints: integer("total_points").notNull(),
-  status: text("status", { enum: ["pending", "completed", "cancelled"] }).notNull().default("pending"),
+  status: text("status", { enum: ORDER_STATUSES }).notNull().default(OrderStatusEnum.PENDING), // Legacy "completed" rows become "delivered" at startup
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -64,6 +404,30 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     references: [users.id]
   }),
   orderItems: many(orderItems),
+  statusHistory: many(orderStatusHistory),
+}));
+
+// Order Status History Table (who moved an order between statuses, and when)
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  fromStatus: text("from_status", { enum: ORDER_STATUSES }), // Null for the initial status
+  toStatus: text("to_status", { enum: ORDER_STATUSES }).notNull(),
+  changedBy: integer("changed_by").references(() => users.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Order Status History Relations
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id]
+  }),
+  changedByUser: one(users, {
+    fields: [orderStatusHistory.changedBy],
+    references: [users.id]
+  }),
 }));
 
 // Order Items Table
@@ -71,6 +435,8 @@ export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id").notNull().references(() => orders.id),
   productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  variantLabel: text("variant_label"), // Snapshot of the variant attributes when the order was placed
   quantity: integer("quantity").notNull(),
   pointsCost: integer("points_cost").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -86,16 +452,44 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.productId],
     references: [products.id]
   }),
+  variant: one(productVariants, {
+    fields: [orderItems.variantId],
+    references: [productVariants.id]
+  }),
 }));
 
+// Point transaction types. The ledger is the source of truth: the sum of a
+// user's transactions must always equal users.points (see the reconciliation report)
+export const PointTransactionTypeEnum = {
+  EARNED: "earned",
+  SPENT: "spent",
+  ADJUSTED: "adjusted",
+  EXPIRED: "expired",
+  CORRECTION: "correction", // Posted by an admin to fix a ledger/balance discrepancy (see POINTS_CORRECTION_TARGETS)
+  TRANSFERRED: "transferred", // Peer recognition (kudos), on both the sender's and the recipient's side
+} as const;
+
+export const POINT_TRANSACTION_TYPES = [
+  PointTransactionTypeEnum.EARNED,
+  PointTransactionTypeEnum.SPENT,
+  PointTransactionTypeEnum.ADJUSTED,
+  PointTransactionTypeEnum.EXPIRED,
+  PointTransactionTypeEnum.CORRECTION,
+  PointTransactionTypeEnum.TRANSFERRED,
+] as const;
+
 // Point Transactions Table (for tracking point history)
 export const pointTransactions = pgTable("point_transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   points: integer("points").notNull(), // Can be positive (earning) or negative (spending)
   description: text("description").notNull(),
-  transactionType: text("transaction_type", { enum: ["earned", "spent", "adjusted"] }).notNull(),
+  transactionType: text("transaction_type", { enum: POINT_TRANSACTION_TYPES }).notNull(),
   referenceId: integer("reference_id"), // Optional reference to an order or other entity
+  remainingPoints: integer("remaining_points"), // For earned rows (point lots): amount not yet spent or expired
+  expiresAt: timestamp("expires_at"), // For earned rows: when the remaining amount expires (null = never)
+  grantedBy: integer("granted_by").references(() => users.id, { onDelete: "set null" }), // Staff member who granted the points manually
+  budgetUnitId: integer("budget_unit_id").references(() => units.id, { onDelete: "set null" }), // Unit whose budget paid for a manager's grant
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -107,6 +501,264 @@ export const pointTransactionsRelations = relations(pointTransactions, ({ one })
   }),
 }));
 
+// Point Lot Consumptions Table (how much of each lot a debit consumed, so that
+// refunding the debit gives the points back to the same lots, expiry included)
+export const pointLotConsumptions = pgTable("point_lot_consumptions", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").notNull().references(() => pointTransactions.id),
+  debitId: integer("debit_id").notNull().references(() => pointTransactions.id),
+  points: integer("points").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Kudos Table (peer recognition). Points come out of the sender's monthly
+// allowance, not their balance: the sender's ledger row is recorded with 0 points
+export const kudos = pgTable("kudos", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  recipientId: integer("recipient_id").notNull().references(() => users.id),
+  points: integer("points").notNull(),
+  message: text("message").notNull(), // Public, shown in the recognition feed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Kudos Relations
+export const kudosRelations = relations(kudos, ({ one }) => ({
+  sender: one(users, {
+    fields: [kudos.senderId],
+    references: [users.id],
+    relationName: "kudosSent"
+  }),
+  recipient: one(users, {
+    fields: [kudos.recipientId],
+    references: [users.id],
+    relationName: "kudosReceived"
+  }),
+}));
+
+// Carts Table (one persistent cart per user)
+export const carts = pgTable("carts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Carts Relations
+export const cartsRelations = relations(carts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [carts.userId],
+    references: [users.id]
+  }),
+  cartItems: many(cartItems),
+}));
+
+// Cart Items Table
+export const cartItems = pgTable("cart_items", {
+  id: serial("id").primaryKey(),
+  cartId: integer("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // Chosen at checkout for products with variants
+  quantity: integer("quantity").notNull(),
+  pointsCostAtAdd: integer("points_cost_at_add").notNull(), // Snapshot of the unit cost (variant override or product) when the line was added
+  stockAtAdd: integer("stock_at_add").notNull(), // Snapshot of the variant (or product) stock when the line was added
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  cartProductUnique: unique("cart_items_cart_product_variant_unique").on(table.cartId, table.productId, table.variantId).nullsNotDistinct(),
+}));
+
+// Cart Items Relations
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, {
+    fields: [cartItems.cartId],
+    references: [carts.id]
+  }),
+  product: one(products, {
+    fields: [cartItems.productId],
+    references: [products.id]
+  }),
+  variant: one(productVariants, {
+    fields: [cartItems.variantId],
+    references: [productVariants.id]
+  }),
+}));
+
+// Wishlist Items Table (products a user wants, with back-in-stock alerts)
+export const wishlistItems = pgTable("wishlist_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  backInStockAt: timestamp("back_in_stock_at"), // Set when the product's stock goes from zero to positive; cleared once the user sees it
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userProductUnique: unique("wishlist_items_user_product_unique").on(table.userId, table.productId),
+}));
+
+// Wishlist Items Relations
+export const wishlistItemsRelations = relations(wishlistItems, ({ one }) => ({
+  user: one(users, {
+    fields: [wishlistItems.userId],
+    references: [users.id]
+  }),
+  product: one(products, {
+    fields: [wishlistItems.productId],
+    references: [products.id]
+  }),
+}));
+
+// Notifications Table (in-app notification center)
+export const NotificationTypeEnum = {
+  ORDER_STATUS: "order_status",
+  POINTS: "points",
+  BACK_IN_STOCK: "back_in_stock",
+  KUDOS: "kudos",
+} as const;
+
+export const NOTIFICATION_TYPES = [
+  NotificationTypeEnum.ORDER_STATUS,
+  NotificationTypeEnum.POINTS,
+  NotificationTypeEnum.BACK_IN_STOCK,
+  NotificationTypeEnum.KUDOS,
+] as const;
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type", { enum: NOTIFICATION_TYPES }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // Client route opened when the notification is clicked
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Notifications Relations
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id]
+  }),
+}));
+
+// Email Outbox Table (transactional emails, delivered by a background job with retries)
+export const EmailTemplateEnum = {
+  ACCOUNT_CREATED: "account_created",
+  POINTS_CREDITED: "points_credited",
+  ORDER_PLACED: "order_placed",
+  ORDER_STATUS_CHANGED: "order_status_changed",
+  POINTS_EXPIRING: "points_expiring",
+  PASSWORD_RESET: "password_reset",
+} as const;
+
+export const EMAIL_TEMPLATES = [
+  EmailTemplateEnum.ACCOUNT_CREATED,
+  EmailTemplateEnum.POINTS_CREDITED,
+  EmailTemplateEnum.ORDER_PLACED,
+  EmailTemplateEnum.ORDER_STATUS_CHANGED,
+  EmailTemplateEnum.POINTS_EXPIRING,
+  EmailTemplateEnum.PASSWORD_RESET,
+] as const;
+
+export const EmailStatusEnum = {
+  PENDING: "pending",
+  SENT: "sent",
+  FAILED: "failed", // Gave up after the maximum number of attempts
+} as const;
+
+export const EMAIL_STATUSES = [
+  EmailStatusEnum.PENDING,
+  EmailStatusEnum.SENT,
+  EmailStatusEnum.FAILED,
+] as const;
+
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  template: text("template", { enum: EMAIL_TEMPLATES }).notNull(),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  // Both bodies are blanked once the email is sent or given up (they may carry a temporary password)
+  bodyText: text("body_text").notNull(),
+  bodyHtml: text("body_html").notNull(),
+  status: text("status", { enum: EMAIL_STATUSES }).notNull().default(EmailStatusEnum.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  dedupeKey: text("dedupe_key").unique(), // Keeps the same email from being queued twice (e.g. one expiry warning per batch)
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Point Rules Table (recurring automatic awards)
+export const PointRuleTypeEnum = {
+  BIRTHDAY: "birthday",
+  WORK_ANNIVERSARY: "work_anniversary",
+  MONTHLY_UNIT_BONUS: "monthly_unit_bonus",
+} as const;
+
+export const POINT_RULE_TYPES = [
+  PointRuleTypeEnum.BIRTHDAY,
+  PointRuleTypeEnum.WORK_ANNIVERSARY,
+  PointRuleTypeEnum.MONTHLY_UNIT_BONUS,
+] as const;
+
+export const pointRules = pgTable("point_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ruleType: text("rule_type", { enum: POINT_RULE_TYPES }).notNull(),
+  points: integer("points").notNull(), // For work anniversaries: points per year of service
+  unitId: integer("unit_id").references(() => units.id), // Only employees of this unit and its sub-units (null = all units)
+  legacyUnit: text("unit"), // Free text from before the units table, see users.legacyUnit
+  expiresInMonths: integer("expires_in_months"), // Expiry of the awarded points (null = never)
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Point Rule Runs Table (one row per rule, user and period, makes the scheduler idempotent)
+export const pointRuleRuns = pgTable("point_rule_runs", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => pointRules.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  periodKey: text("period_key").notNull(), // e.g. "2026" for yearly rules, "2026-10" for monthly rules
+  points: integer("points").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  rulePeriodUnique: unique("point_rule_runs_rule_user_period_unique").on(table.ruleId, table.userId, table.periodKey),
+}));
+
+// Point Rules Relations
+export const pointRulesRelations = relations(pointRules, ({ many }) => ({
+  runs: many(pointRuleRuns),
+}));
+
+// Point Rule Runs Relations
+export const pointRuleRunsRelations = relations(pointRuleRuns, ({ one }) => ({
+  rule: one(pointRules, {
+    fields: [pointRuleRuns.ruleId],
+    references: [pointRules.id]
+  }),
+  user: one(users, {
+    fields: [pointRuleRuns.userId],
+    references: [users.id]
+  }),
+}));
+
+// Files Table (registry of every upload written through server/file-storage.ts).
+// Rows are not linked by foreign keys: the garbage collector treats a file as
+// referenced while its URL appears in one of the URL columns (see getReferencedFileUrls).
+export const files = pgTable("files", {
+  id: serial("id").primaryKey(),
+  storageKey: text("storage_key").notNull().unique(), // Key inside the backend, e.g. "products/<uuid>-thumb.webp"
+  url: text("url").notNull().unique(), // Public URL stored by the referencing rows
+  backend: text("backend").notNull(), // "local" or "s3"
+  purpose: text("purpose").notNull(), // "product_image" or "profile_image"
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Insert Schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -115,6 +767,27 @@ export const insertUserSchema = createInsertSchema(users).pick({
   displayName: true,
   role: true,
   points: true,
+  mustChangePassword: true,
+}).extend({
+  password: passwordSchema,
+});
+
+// Code typed in the second login step or in the 2FA settings: a 6-digit TOTP code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  currentPassword: z.string().min(1),
+});
+
+export const requestPasswordResetSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: passwordSchema,
 });
 
 export const insertProductSchema = createInsertSchema(products).pick({
@@ -123,9 +796,16 @@ export const insertProductSchema = createInsertSchema(products).pick({
   pointsCost: true,
   stock: true,
   imageUrl: true,
+  categoryId: true,
   isActive: true,
 });
 
+export const insertCategorySchema = createInsertSchema(categories).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(2).max(60),
+});
+
 export const insertOrderSchema = createInsertSchema(orders).pick({
   userId: true,
   totalPoints: true,
@@ -135,6 +815,8 @@ export const insertOrderSchema = createInsertSchema(orders).pick({
 export const insertOrderItemSchema = createInsertSchema(orderItems).pick({
   orderId: true,
   productId: true,
+  variantId: true,
+  variantLabel: true,
   quantity: true,
   pointsCost: true,
 });
@@ -145,6 +827,75 @@ export const insertPointTransactionSchema = createInsertSchema(pointTransactions
   description: true,
   transactionType: true,
   referenceId: true,
+  remainingPoints: true,
+  expiresAt: true,
+});
+
+// Side fixed by a correction from the reconciliation report: "balance" sets users.points
+// to the ledger total and records a 0-point entry; "ledger" posts the difference to the
+// ledger and leaves the balance as it is
+export const POINTS_CORRECTION_TARGETS = ["balance", "ledger"] as const;
+
+// Correcting entry posted from the reconciliation report
+export const pointsCorrectionSchema = z.object({
+  target: z.enum(POINTS_CORRECTION_TARGETS).default("balance"),
+  description: z.string().trim().min(1).max(500).optional(),
+});
+
+export const addWishlistItemSchema = z.object({
+  productId: z.number().int().positive(),
+});
+
+// Marks the given notifications as read, or all of them when `ids` is omitted
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+export const addCartItemSchema = z.object({
+  productId: z.number().int().positive(),
+  variantId: z.number().int().positive().nullable().optional(),
+  quantity: z.number().int().positive().default(1),
+});
+
+// Variant attributes: names and values trimmed, at least one pair
+export const variantAttributesSchema = z.record(z.string().trim().min(1).max(30), z.string().trim().min(1).max(30))
+  .refine((attributes) => Object.keys(attributes).length > 0, "Informe ao menos um atributo");
+
+export const insertProductVariantSchema = createInsertSchema(productVariants).pick({
+  stock: true,
+  pointsCost: true,
+  isActive: true,
+}).extend({
+  attributes: variantAttributesSchema,
+  stock: z.number().int().nonnegative(),
+  pointsCost: z.number().int().positive().nullable().optional(),
+});
+
+export const insertPointRuleSchema = createInsertSchema(pointRules).pick({
+  name: true,
+  ruleType: true,
+  points: true,
+  unitId: true,
+  expiresInMonths: true,
+  isActive: true,
+}).extend({
+  name: z.string().min(3),
+  points: z.number().int().positive(),
+  unitId: z.number().int().positive().nullable().optional(),
+  expiresInMonths: z.number().int().positive().nullable().optional(),
+});
+
+export const insertUnitSchema = createInsertSchema(units).pick({
+  name: true,
+  parentId: true,
+  managerId: true,
+  pointsBudget: true,
+  budgetPeriod: true,
+}).extend({
+  name: z.string().trim().min(2).max(100),
+  parentId: z.number().int().positive().nullable().optional(),
+  managerId: z.number().int().positive().nullable().optional(),
+  pointsBudget: z.number().int().nonnegative().nullable().optional(),
 });
 
 // Update Schemas
@@ -154,39 +905,375 @@ export const updateProductSchema = z.object({
   pointsCost: z.number().int().positive().optional(),
   stock: z.number().int().optional(),
   imageUrl: z.string().optional(),
+  categoryId: z.number().int().positive().nullable().optional(),
   isActive: z.boolean().optional(),
 });
 
+export const updateCategorySchema = insertCategorySchema;
+
+// Catalog filters and sorting accepted by GET /api/products (all optional query params)
+export const PRODUCT_SORTS = ["name", "points_asc", "points_desc", "newest"] as const;
+
+export const productQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: z.string().trim().toLowerCase().optional(),
+  minPoints: z.coerce.number().int().nonnegative().optional(),
+  maxPoints: z.coerce.number().int().nonnegative().optional(),
+  affordable: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  inStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(PRODUCT_SORTS).default("name"),
+});
+
+// Filters of the admin audit log viewer (dates as YYYY-MM-DD, both inclusive)
+export const auditLogQuerySchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(AUDIT_ENTITIES).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export const updateCartItemSchema = z.object({
+  quantity: z.number().int().positive().optional(),
+  variantId: z.number().int().positive().optional(),
+}).refine((data) => data.quantity !== undefined || data.variantId !== undefined, "Informe a quantidade ou a variação");
+
+export const updateProductVariantSchema = insertProductVariantSchema.partial();
+
+// New order of a product's images (every image id, first = position 0)
+export const reorderProductImagesSchema = z.object({
+  imageIds: z.array(z.number().int().positive()).min(1),
+});
+
 export const updateOrderSchema = z.object({
-  status: z.enum(["pending", "completed", "cancelled"]).optional(),
+  status: z.enum(ORDER_STATUSES).optional(),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().max(500).optional(),
 });
 
+// Calendar date as YYYY-MM-DD; rejects impossible days such as 2024-02-30
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).refine(
+  (value) => !isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 10) === value,
+  { message: "Invalid date" },
+);
+
 export const updateUserSchema = z.object({
+  username: z.string().min(3).optional(),
   displayName: z.string().nullable().optional(),
   email: z.string().email().optional(),
-  points: z.number().int().optional(),
-  role: z.enum([UserRoleEnum.ADMIN, UserRoleEnum.EMPLOYEE]).optional(),
-  unit: z.string().nullable().optional(),
+  role: z.enum(USER_ROLES).optional(),
+  unitId: z.number().int().positive().nullable().optional(),
   profileImageUrl: z.string().nullable().optional(),
-  password: z.string().optional(),
+  birthDate: dateOnlySchema.nullable().optional(),
+  hireDate: dateOnlySchema.nullable().optional(),
+  password: passwordSchema.optional(),
+  mustChangePassword: z.boolean().optional(),
+});
+
+export const updatePointRuleSchema = insertPointRuleSchema.partial();
+
+export const updateUnitSchema = insertUnitSchema.partial();
+
+// Bulk point distribution (spreadsheet rows as read from the file, validated on the server)
+export const bulkPointsRowSchema = z.object({
+  rowNumber: z.number().int().positive(),
+  identifier: z.string(), // Username or email
+  points: z.union([z.number(), z.string()]),
+  description: z.string(),
+});
+
+export const bulkPointsCommitSchema = z.object({
+  rows: z.array(bulkPointsRowSchema).min(1).max(5000),
+  expiresInMonths: z.number().int().positive().nullable().optional(),
+});
+
+export const sendKudosSchema = z.object({
+  recipientId: z.number().int().positive(),
+  points: z.number().int().positive().max(KUDOS_POLICY.maxPerKudos),
+  message: z.string().trim().min(1, "Escreva uma mensagem").max(KUDOS_POLICY.maxMessageLength),
+});
+
+export const kudosFeedQuerySchema = z.object({
+  unitId: z.coerce.number().int().positive().optional(), // Kudos sent or received by someone of the unit or its sub-units
 });
 
 // Type Exports
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+
+// Enrollment data shown once while setting up the authenticator app
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+// 2FA state of the logged-in user
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean; // Admins can't turn it off
+  remainingRecoveryCodes: number;
+};
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type LoginThrottleScope = typeof LOGIN_THROTTLE_SCOPES[number];
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type InsertLoginEvent = typeof loginEvents.$inferInsert;
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+export type LoginMethod = typeof LOGIN_METHODS[number];
+export type UserIdentity = typeof userIdentities.$inferSelect;
+
+export type AuditEntityType = typeof AUDIT_ENTITIES[number];
+// Changed fields of an audited entity: value before (null when created) and after (null when deleted)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type AuditLogActor = { id: number; name: string };
+// Most recent entries matching the filters; truncated when older ones were left out by the limit
+export type AuditLogResult = { entries: AuditLogEntry[]; truncated: boolean };
+
+// Login options shown on the login page
+export type AuthConfig = {
+  sso: { providerName: string } | null; // null when single sign-on isn't configured
+  passwordLoginAdminsOnly: boolean; // Employees must use single sign-on
+};
+
+// Active login lockout as listed to admins; `user` is null for IPs and unknown usernames
+export type LoginLockout = LoginThrottle & {
+  lockedUntil: Date;
+  user: Pick<User, "id" | "username" | "displayName"> | null;
+};
 
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type ProductSort = typeof PRODUCT_SORTS[number];
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+export type ProductImage = typeof productImages.$inferSelect;
+export type StoredFile = typeof files.$inferSelect;
+export type InsertStoredFile = typeof files.$inferInsert;
+export type FilePurpose = "product_image" | "profile_image";
+export type InsertProductImage = Pick<typeof productImages.$inferInsert, "thumbnailUrl" | "detailUrl">;
+
+// Product as returned by the catalog, with its category, tags, variants and images (in display order)
+export type CatalogProduct = Product & {
+  category: Category | null;
+  tags: Tag[];
+  variants: ProductVariant[];
+  images: ProductImage[];
+};
+
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+
+// History entry as returned by the API, with the name of whoever made the change
+export type OrderStatusHistoryEntry = OrderStatusHistory & {
+  changedByUser: { id: number, username: string, displayName: string | null } | null;
+};
+
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 
 export type InsertPointTransaction = z.infer<typeof insertPointTransactionSchema>;
+export type PointsCorrection = z.infer<typeof pointsCorrectionSchema>;
+export type PointsCorrectionTarget = typeof POINTS_CORRECTION_TARGETS[number];
 export type PointTransaction = typeof pointTransactions.$inferSelect;
 
+export type Kudos = typeof kudos.$inferSelect;
+export type SendKudos = z.infer<typeof sendKudosSchema>;
+export type KudosFeedQuery = z.infer<typeof kudosFeedQuerySchema>;
+
+// Colleague as shown in the recognition feed and the send form
+export type KudosParticipant = Pick<User, "id" | "username" | "displayName" | "unitId" | "profileImageUrl">;
+
+export type KudosFeedItem = Kudos & {
+  sender: KudosParticipant;
+  recipient: KudosParticipant;
+};
+
+// What is left of the user's giving allowance in the current month
+export type KudosAllowance = {
+  allowance: number;
+  used: number;
+  remaining: number;
+  periodStart: Date;
+};
+
+// Points due to expire on a given date (sum of the remaining amount of the lots)
+export type ExpiringPoints = {
+  expiresAt: Date;
+  points: number;
+};
+
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type AddCartItem = z.infer<typeof addCartItemSchema>;
+
+// Cart line as returned by the API, with change warnings since it was added.
+// Cost and stock come from the chosen variant when the product has variants.
+export type CartLine = CartItem & {
+  product: Product;
+  variant: ProductVariant | null;
+  variantOptions: ProductVariant[]; // Active variants of the product, for the picker
+  variantRequired: boolean; // The product has variants and none was chosen yet
+  unitPointsCost: number;
+  availableStock: number;
+  pointsCostChanged: boolean;
+  stockChanged: boolean;
+  insufficientStock: boolean;
+};
+
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+
+// Wishlist entry as returned by the API
+export type WishlistEntry = WishlistItem & {
+  product: Product;
+  lowestPointsCost: number; // Cheapest active variant, or the product cost
+};
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Notification center as returned by the API
+export type NotificationFeed = {
+  notifications: Notification[];
+  unreadCount: number;
+};
+
+export type EmailTemplate = typeof EMAIL_TEMPLATES[number];
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = typeof emailOutbox.$inferInsert;
+
+// A user whose balance doesn't match the sum of the ledger
+export type PointsDiscrepancy = {
+  userId: number;
+  username: string;
+  displayName: string | null;
+  isActive: boolean;
+  balance: number; // users.points
+  ledgerTotal: number; // SUM(point_transactions.points)
+  difference: number; // balance - ledgerTotal: the amount a "ledger" correction posts
+};
+
+export type PointsCorrectionResult = {
+  correction: PointTransaction;
+  previousBalance: number;
+  balance: number;
+};
+
+export type PointsReconciliationReport = {
+  checkedAt: Date;
+  usersChecked: number;
+  totalBalance: number;
+  totalLedger: number;
+  discrepancies: PointsDiscrepancy[];
+};
+
+export type Unit = typeof units.$inferSelect;
+export type InsertUnit = z.infer<typeof insertUnitSchema>;
+export type UpdateUnit = z.infer<typeof updateUnitSchema>;
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+
+// Unit as listed to every logged-in user (names for profiles, filters and pickers)
+export type UnitOption = Pick<Unit, "id" | "name" | "parentId">;
+
+// Points budget of a unit in its current period (server time)
+export type UnitBudgetStatus = {
+  unitId: number;
+  name: string;
+  parentId: number | null;
+  manager: Pick<User, "id" | "username" | "displayName"> | null;
+  budget: number | null;
+  period: BudgetPeriod;
+  periodStart: Date;
+  spent: number; // Credits charged to the unit budget since periodStart
+  remaining: number;
+};
+
+// Outcome of `npm run units:migrate`
+export type LegacyUnitMigrationResult = {
+  unitsCreated: number;
+  usersLinked: number;
+  pointRulesLinked: number;
+  managersAssigned: number;
+  grantsCharged: number; // Current-month manager grants charged to the new unit budgets
+};
+
+// Points of active users expiring on a given date, for the expiry warning emails
+export type UserExpiringPoints = ExpiringPoints & {
+  userId: number;
+};
+
+export type InsertPointRule = z.infer<typeof insertPointRuleSchema>;
+export type PointRule = typeof pointRules.$inferSelect;
+export type PointRuleRun = typeof pointRuleRuns.$inferSelect;
+
+export type BulkPointsRow = z.infer<typeof bulkPointsRowSchema>;
+export type BulkPointsCommit = z.infer<typeof bulkPointsCommitSchema>;
+
+// Validation result of a spreadsheet row; `errors` is empty when the row can be applied
+export type BulkPointsRowResult = BulkPointsRow & {
+  userId: number | null;
+  username: string | null;
+  displayName: string | null;
+  errors: string[];
+};
+
+export type BulkPointsPreview = {
+  rows: BulkPointsRowResult[];
+  validRows: number;
+  invalidRows: number;
+  totalCredited: number;
+  totalDebited: number;
+};
+
+// Employee spreadsheet import
+export type EmployeeImportAction = "create" | "update" | "unchanged" | "deactivate" | "error";
+
+export type EmployeeImportRowResult = {
+  rowNumber: number | null; // null for users missing from the file
+  username: string;
+  email: string;
+  displayName: string | null;
+  unit: string | null;
+  role: string;
+  action: EmployeeImportAction;
+  changes: string[];
+  errors: string[];
+  temporaryPassword?: string; // Only returned once, when the user is created
+};
+
+export type EmployeeImportResult = {
+  applied: boolean;
+  rows: EmployeeImportRowResult[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  deactivated: number;
+  invalidRows: number;
+};
+
 export type UpdateProduct = z.infer<typeof updateProductSchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+export type UpdateProductVariant = z.infer<typeof updateProductVariantSchema>;
 export type UpdateOrder = z.infer<typeof updateOrderSchema>;
+export type UpdateCartItem = z.infer<typeof updateCartItemSchema>;
+export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
+export type UpdatePointRule = z.infer<typeof updatePointRuleSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
@@ -0,0 +1,75 @@
+// Unit hierarchy and budget periods, shared by the server (scopes and budget checks)
+// and the client (tree display and pickers)
+import { BudgetPeriodEnum, type BudgetPeriod, type Unit } from "./schema";
+
+type UnitNode = Pick<Unit, "id" | "parentId">;
+
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: "Mensal",
+  quarterly: "Trimestral",
+  yearly: "Anual",
+};
+
+export function formatBudgetPeriod(period: BudgetPeriod): string {
+  return BUDGET_PERIOD_LABELS[period] ?? period;
+}
+
+// First day of the calendar month, quarter or year containing `now` (server time)
+export function getBudgetPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  switch (period) {
+    case BudgetPeriodEnum.YEARLY:
+      return new Date(now.getFullYear(), 0, 1);
+    case BudgetPeriodEnum.QUARTERLY:
+      return new Date(now.getFullYear(), now.getMonth() - (now.getMonth() % 3), 1);
+    default:
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+}
+
+// The unit followed by its parent, grandparent and so on up to the root
+export function getUnitAncestors<T extends UnitNode>(units: T[], unitId: number): T[] {
+  const byId = new Map(units.map((unit) => [unit.id, unit]));
+  const ancestors: T[] = [];
+  let current = byId.get(unitId);
+  // Stops at a repeated unit, in case concurrent edits left a cycle behind
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return ancestors;
+}
+
+// Ids of the given units and of all their sub-units
+export function getUnitSubtreeIds(units: UnitNode[], rootIds: number[]): number[] {
+  const childrenByParent = new Map<number, number[]>();
+  for (const unit of units) {
+    if (unit.parentId === null) continue;
+    childrenByParent.set(unit.parentId, [...(childrenByParent.get(unit.parentId) || []), unit.id]);
+  }
+
+  const subtree = new Set<number>();
+  const pending = [...rootIds];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (subtree.has(id)) continue;
+    subtree.add(id);
+    pending.push(...(childrenByParent.get(id) || []));
+  }
+  return Array.from(subtree);
+}
+
+// True when `parentId` is the unit itself or one of its sub-units
+export function wouldCreateUnitCycle(units: UnitNode[], unitId: number, parentId: number): boolean {
+  return getUnitSubtreeIds(units, [unitId]).includes(parentId);
+}
+
+// Unit whose budget pays for a grant by the manager to an employee of `unitId`:
+// the closest unit, going up the hierarchy, managed by them (undefined = out of their scope)
+export function findBudgetUnit<T extends UnitNode & Pick<Unit, "managerId">>(units: T[], unitId: number, managerId: number): T | undefined {
+  return getUnitAncestors(units, unitId).find((unit) => unit.managerId === managerId);
+}
+
+// Full name of the unit, e.g. "Operações / Logística / Armazém"
+export function formatUnitPath(units: (UnitNode & Pick<Unit, "name">)[], unitId: number): string {
+  return getUnitAncestors(units, unitId).map((unit) => unit.name).reverse().join(" / ");
+}